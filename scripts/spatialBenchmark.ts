@@ -0,0 +1,118 @@
+/**
+ * Spatial index benchmark
+ * Times the world's proximity queries through the spatial index against the
+ * linear scans they replaced, on extreme-difficulty worlds, plus the cost of
+ * keeping the index in step with drifting ice.
+ *
+ * Run with: npm run bench:spatial
+ */
+
+import {
+  buildMapConfig,
+  checkFloatingIceCollision,
+  checkIcebergCollision,
+  generateWorld,
+  getIcebergsInRange,
+  getIslandAtPosition,
+  getWindZoneAtPosition,
+  type WorldData,
+} from '../src/world/WorldGenerator';
+import { createIceSimulationState, getIceExclusionZones, stepIce } from '../src/world/WorldSimulation';
+
+const QUERIES = 20000;
+const DRIFT_STEPS = 50;
+const BOAT_RADIUS = 8;
+const SCAN_RANGE = 500;
+
+interface Circle {
+  position: [number, number];
+  radius: number;
+}
+
+// The linear scans the index replaced
+function linearFirst<T extends Circle>(items: T[], x: number, z: number, reach: number, strict: boolean): T | null {
+  for (const item of items) {
+    const dist = Math.hypot(x - item.position[0], z - item.position[1]);
+    if (strict ? dist < item.radius + reach : dist <= item.radius + reach) return item;
+  }
+  return null;
+}
+
+function linearInRange<T extends Circle>(items: T[], x: number, z: number, range: number): T[] {
+  return items.filter((item) => Math.hypot(x - item.position[0], z - item.position[1]) <= range + item.radius);
+}
+
+// Query points spread over the world, the same every run
+function samplePoints(world: WorldData): [number, number][] {
+  let state = world.seed & 0x7fffffff;
+  const next = () => {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+  const [minX, minZ] = world.bounds.min;
+  const [maxX, maxZ] = world.bounds.max;
+  return Array.from({ length: QUERIES }, () => [minX + next() * (maxX - minX), minZ + next() * (maxZ - minZ)]);
+}
+
+// Mean µs per call
+function time(points: [number, number][], query: (x: number, z: number) => unknown): number {
+  const start = performance.now();
+  for (const [x, z] of points) query(x, z);
+  return ((performance.now() - start) * 1000) / points.length;
+}
+
+function row(label: string, linear: number, indexed: number): string {
+  return `  ${label.padEnd(26)} ${linear.toFixed(2).padStart(9)} µs ${indexed.toFixed(2).padStart(9)} µs ${(linear / indexed).toFixed(1).padStart(7)}x`;
+}
+
+function benchmark(name: string, world: WorldData): void {
+  const points = samplePoints(world);
+  const { index } = world;
+
+  // Both ways have to agree before the timings mean anything
+  for (const [x, z] of points.slice(0, 2000)) {
+    const ice = checkFloatingIceCollision(index.floatingIce, x, z, BOAT_RADIUS).collided;
+    const iceberg = checkIcebergCollision(index.icebergs, x, z, BOAT_RADIUS).collided;
+    const inRange = getIcebergsInRange(index.icebergs, x, z, SCAN_RANGE).length;
+    if (
+      ice !== (linearFirst(world.floatingIce, x, z, BOAT_RADIUS, true) !== null) ||
+      iceberg !== (linearFirst(world.icebergs, x, z, BOAT_RADIUS, true) !== null) ||
+      inRange !== linearInRange(world.icebergs, x, z, SCAN_RANGE).length
+    ) {
+      throw new Error(`Index and linear scan disagree at ${x.toFixed(0)}, ${z.toFixed(0)}`);
+    }
+  }
+
+  console.log(`\n${name}: ${world.islands.length} islands, ${world.icebergs.length} icebergs, ${world.floatingIce.length} floating ice, ${world.windZones.length} wind zones`);
+  console.log(`  ${'query'.padEnd(26)} ${'linear'.padStart(12)} ${'indexed'.padStart(12)} ${'speedup'.padStart(8)}`);
+  console.log(row('floating ice collision', time(points, (x, z) => linearFirst(world.floatingIce, x, z, BOAT_RADIUS, true)), time(points, (x, z) => checkFloatingIceCollision(index.floatingIce, x, z, BOAT_RADIUS))));
+  console.log(row('iceberg collision', time(points, (x, z) => linearFirst(world.icebergs, x, z, BOAT_RADIUS, true)), time(points, (x, z) => checkIcebergCollision(index.icebergs, x, z, BOAT_RADIUS))));
+  console.log(row(`icebergs in ${SCAN_RANGE} m`, time(points, (x, z) => linearInRange(world.icebergs, x, z, SCAN_RANGE)), time(points, (x, z) => getIcebergsInRange(index.icebergs, x, z, SCAN_RANGE))));
+  console.log(row('island at position', time(points, (x, z) => linearFirst(world.islands, x, z, 0, false)), time(points, (x, z) => getIslandAtPosition(index.islands, x, z))));
+  console.log(row('wind zone at position', time(points, (x, z) => linearFirst(world.windZones, x, z, 0, false)), time(points, (x, z) => getWindZoneAtPosition(index.windZones, x, z))));
+
+  // Ice drift, then bringing the index up to date with it
+  let simulation = createIceSimulationState(world.seed);
+  let drifting = world;
+  const zones = getIceExclusionZones(world);
+  let stepTime = 0;
+  let syncTime = 0;
+  for (let i = 0; i < DRIFT_STEPS; i++) {
+    const stepStart = performance.now();
+    const result = stepIce(drifting, simulation, 8, 45, 0.5, zones);
+    const syncStart = performance.now();
+    drifting.index.icebergs.sync(result.icebergs);
+    drifting.index.floatingIce.sync(result.floatingIce);
+    syncTime += performance.now() - syncStart;
+    stepTime += syncStart - stepStart;
+    drifting = { ...drifting, icebergs: result.icebergs, floatingIce: result.floatingIce };
+    simulation = result.state;
+  }
+  console.log(`  drift step ${(stepTime / DRIFT_STEPS).toFixed(2)} ms, index sync ${(syncTime / DRIFT_STEPS).toFixed(2)} ms per step`);
+}
+
+benchmark('extreme', generateWorld(buildMapConfig(1234, 10000, 'extreme')));
+benchmark(
+  'extreme, maximum ice',
+  generateWorld({ ...buildMapConfig(1234, 10000, 'extreme'), icebergCount: 250, floatingIceDensity: 2500, icebergDrift: true })
+);
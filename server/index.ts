@@ -0,0 +1,23 @@
+import { createServer } from 'http';
+import { LobbyRoom, Server } from '@colyseus/core';
+import { WebSocketTransport } from '@colyseus/ws-transport';
+import { RaceRoom } from './rooms/RaceRoom';
+import { DEFAULT_SERVER_PORT, LOBBY_ROOM, RACE_ROOM } from '../src/multiplayer/protocol';
+
+/**
+ * InfoRelax multiplayer server
+ * - lobby: live list of open race rooms
+ * - race: one authoritative race per room
+ */
+const port = Number(process.env.PORT ?? DEFAULT_SERVER_PORT);
+
+const gameServer = new Server({
+  transport: new WebSocketTransport({ server: createServer() }),
+});
+
+gameServer.define(LOBBY_ROOM, LobbyRoom);
+gameServer.define(RACE_ROOM, RaceRoom).enableRealtimeListing();
+
+gameServer.listen(port).then(() => {
+  console.log(`InfoRelax race server listening on ws://localhost:${port}`);
+});
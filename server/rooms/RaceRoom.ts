@@ -0,0 +1,249 @@
+import { Room, type Client, type Delayed } from '@colyseus/core';
+import { CheckpointState, RaceState, RacerState } from '../schema/RaceState';
+import {
+  COUNTDOWN_MS,
+  MAX_HULL_JSON,
+  MAX_RACERS,
+  isBoatStateMessage,
+  isRaceCourse,
+  type CreateRaceOptions,
+  type GridSlotMessage,
+  type JoinRaceOptions,
+  type RaceCourse,
+  type RaceRoomMetadata,
+} from '../../src/multiplayer/protocol';
+import { crossesGate, getCourseGates, type Gate } from '../../src/world/RaceGates';
+
+const MAX_GROUND_SPEED = 40;   // m/s - well above any hull's top speed plus current
+const POSITION_SLACK = 25;     // m - allowance for jitter between state messages
+const GRID_SPACING = 40;       // m between boats on the start grid
+const GRID_ROW_SIZE = 4;
+const FINISHED_ROOM_TTL = 60 * 1000; // ms a finished room stays open for results
+
+interface RacerTrack {
+  x: number;
+  z: number;
+  time: number; // server ms of the last accepted position
+}
+
+function cleanName(name: unknown): string {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, 24) : '';
+  return trimmed || 'Sailor';
+}
+
+function cleanHull(hull: unknown): string {
+  return typeof hull === 'string' && hull.length <= MAX_HULL_JSON ? hull : '';
+}
+
+/**
+ * Race Room - one race on one course.
+ * Players ready up in the waiting phase, a countdown starts once everyone is ready,
+ * and the server decides who passed which mark: clients only report where they are.
+ */
+export class RaceRoom extends Room<RaceState, RaceRoomMetadata> {
+  maxClients = MAX_RACERS;
+
+  private course!: RaceCourse;
+  private gates: Gate[] = [];
+  private tracks = new Map<string, RacerTrack>();
+  private gridSlots = new Map<string, number>(); // session id -> grid slot index
+  private countdown: Delayed | null = null;
+  private startTime = 0;
+  private finishCount = 0;
+
+  onCreate(options: CreateRaceOptions) {
+    if (!isRaceCourse(options?.race)) {
+      throw new Error('Invalid race course');
+    }
+    this.course = {
+      ...options.race,
+      checkpoints: [...options.race.checkpoints].sort((a, b) => a.order - b.order),
+    };
+    this.gates = getCourseGates(this.course);
+
+    const state = new RaceState();
+    state.raceId = this.course.id;
+    state.raceName = this.course.name;
+    state.laps = this.course.laps;
+    for (const checkpoint of this.course.checkpoints) {
+      state.checkpoints.push(new CheckpointState(checkpoint.id, checkpoint.position, checkpoint.radius));
+    }
+    this.setState(state);
+    this.updateMetadata();
+
+    this.onMessage('ready', (client, ready: unknown) => {
+      const racer = this.state.players.get(client.sessionId);
+      if (!racer || (this.state.phase !== 'waiting' && this.state.phase !== 'countdown')) return;
+      racer.ready = ready === true;
+      this.checkAllReady();
+    });
+
+    this.onMessage('state', (client, message: unknown) => {
+      if (!isBoatStateMessage(message)) return;
+      this.acceptBoatState(client, message);
+    });
+  }
+
+  onJoin(client: Client, options: JoinRaceOptions) {
+    const racer = new RacerState(cleanName(options?.playerName), cleanHull(options?.hull));
+    const slot = this.gridSlot(this.claimGridSlot(client.sessionId));
+    racer.x = slot.position[0];
+    racer.z = slot.position[1];
+    racer.rotation = slot.heading;
+    this.state.players.set(client.sessionId, racer);
+    this.tracks.set(client.sessionId, { x: racer.x, z: racer.z, time: Date.now() });
+
+    client.send('course', this.course);
+    client.send('grid', slot);
+  }
+
+  onLeave(client: Client) {
+    this.state.players.delete(client.sessionId);
+    this.tracks.delete(client.sessionId);
+    this.gridSlots.delete(client.sessionId);
+
+    if (this.state.phase === 'waiting' || this.state.phase === 'countdown') {
+      this.checkAllReady();
+    } else if (this.state.phase === 'racing') {
+      this.checkRaceOver();
+    }
+  }
+
+  onDispose() {
+    this.countdown?.clear();
+  }
+
+  // First grid slot nobody holds, so a joiner never lines up on a boat still there
+  private claimGridSlot(sessionId: string): number {
+    const taken = new Set(this.gridSlots.values());
+    let index = 0;
+    while (taken.has(index)) index++;
+    this.gridSlots.set(sessionId, index);
+    return index;
+  }
+
+  // Start line slots: rows of four behind the line, facing the first mark
+  private gridSlot(index: number): GridSlotMessage {
+    const first = this.course.checkpoints[0].position;
+    const start = this.course.startPosition ?? [0, 0];
+    const heading = this.course.startHeading ?? Math.atan2(first[0] - start[0], first[1] - start[1]);
+
+    const lateral = ((index % GRID_ROW_SIZE) - (GRID_ROW_SIZE - 1) / 2) * GRID_SPACING;
+    const back = Math.floor(index / GRID_ROW_SIZE) * GRID_SPACING;
+    return {
+      position: [
+        start[0] + Math.cos(heading) * lateral - Math.sin(heading) * back,
+        start[1] - Math.sin(heading) * lateral - Math.cos(heading) * back,
+      ],
+      heading,
+    };
+  }
+
+  private checkAllReady() {
+    const racers = [...this.state.players.values()];
+    const allReady = racers.length > 0 && racers.every((racer) => racer.ready);
+
+    if (allReady && this.state.phase === 'waiting') {
+      this.state.phase = 'countdown';
+      this.lock();
+      this.broadcast('countdown', { remaining: COUNTDOWN_MS });
+      this.countdown = this.clock.setTimeout(() => this.startRace(), COUNTDOWN_MS);
+      this.updateMetadata();
+    } else if (!allReady && this.state.phase === 'countdown') {
+      // Someone stood down (or left): back to the lobby
+      this.countdown?.clear();
+      this.countdown = null;
+      this.state.phase = 'waiting';
+      this.unlock();
+      this.broadcast('countdown', { remaining: null });
+      this.updateMetadata();
+    }
+  }
+
+  private startRace() {
+    this.countdown = null;
+    this.startTime = Date.now();
+    this.state.phase = 'racing';
+
+    // Everyone starts from their grid slot, whatever they did during the countdown
+    [...this.state.players.entries()].forEach(([sessionId, racer], index) => {
+      const slot = this.gridSlot(index);
+      this.gridSlots.set(sessionId, index);
+      racer.x = slot.position[0];
+      racer.z = slot.position[1];
+      racer.rotation = slot.heading;
+      racer.speed = 0;
+      this.tracks.set(sessionId, { x: racer.x, z: racer.z, time: this.startTime });
+      this.clients.getById(sessionId)?.send('grid', slot);
+    });
+
+    this.broadcast('start', {});
+    this.updateMetadata();
+  }
+
+  private acceptBoatState(client: Client, message: { x: number; z: number; rotation: number; speed: number; heel: number }) {
+    const racer = this.state.players.get(client.sessionId);
+    const track = this.tracks.get(client.sessionId);
+    if (!racer || !track) return;
+
+    // Boats hold the grid until the start gun
+    if (this.state.phase !== 'racing') return;
+    if (racer.finishTime > 0) return;
+
+    // Reject teleports: nothing sails further than its top speed allows
+    const now = Date.now();
+    const elapsed = Math.max(0, now - track.time) / 1000;
+    const moved = Math.hypot(message.x - track.x, message.z - track.z);
+    if (moved > MAX_GROUND_SPEED * elapsed + POSITION_SLACK) {
+      client.send('rejected', { x: track.x, z: track.z });
+      return;
+    }
+
+    racer.x = message.x;
+    racer.z = message.z;
+    racer.rotation = message.rotation;
+    racer.speed = message.speed;
+    racer.heel = message.heel;
+    this.tracks.set(client.sessionId, { x: message.x, z: message.z, time: now });
+
+    this.checkCheckpoint(racer, track, message);
+  }
+
+  // Gates count when the boat sails between the next one's buoys the right way, in order
+  private checkCheckpoint(racer: RacerState, from: RacerTrack, to: { x: number; z: number }) {
+    const count = this.gates.length;
+    const next = this.gates[racer.progress % count];
+    if (!next) return;
+
+    if (crossesGate(next, [from.x, from.z], [to.x, to.z]) !== 'forward') return;
+
+    racer.progress++;
+    if (racer.progress % count === 0) {
+      racer.lap = Math.min(this.state.laps, racer.lap + 1);
+    }
+
+    if (racer.progress >= count * this.state.laps) {
+      racer.finishTime = Date.now() - this.startTime;
+      racer.finishPosition = ++this.finishCount;
+      this.checkRaceOver();
+    }
+  }
+
+  private checkRaceOver() {
+    const racers = [...this.state.players.values()];
+    if (racers.length > 0 && racers.some((racer) => racer.finishTime === 0)) return;
+
+    this.state.phase = 'finished';
+    this.updateMetadata();
+    this.clock.setTimeout(() => this.disconnect(), FINISHED_ROOM_TTL);
+  }
+
+  private updateMetadata() {
+    this.setMetadata({
+      raceId: this.course.id,
+      raceName: this.course.name,
+      checkpoints: this.course.checkpoints.length,
+      phase: this.state.phase,
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { ArraySchema, MapSchema, Schema, defineTypes } from '@colyseus/schema';
+import type { RacePhase } from '../../src/multiplayer/protocol';
+
+// Fields are declared and set in constructors: the root tsconfig defines class
+// fields natively, which would shadow the schema's accessors.
+
+export class CheckpointState extends Schema {
+  declare id: string;
+  declare x: number;
+  declare z: number;
+  declare radius: number;
+
+  constructor(id: string, position: [number, number], radius: number) {
+    super();
+    this.id = id;
+    this.x = position[0];
+    this.z = position[1];
+    this.radius = radius;
+  }
+}
+defineTypes(CheckpointState, {
+  id: 'string',
+  x: 'float32',
+  z: 'float32',
+  radius: 'float32',
+});
+
+export class RacerState extends Schema {
+  declare name: string;
+  declare hull: string;         // JSON HullConfig
+  declare x: number;
+  declare z: number;
+  declare rotation: number;
+  declare speed: number;
+  declare heel: number;
+  declare ready: boolean;
+  declare progress: number;     // checkpoints passed, counting every lap
+  declare lap: number;
+  declare finishTime: number;   // ms from the start gun, 0 until finished
+  declare finishPosition: number;
+
+  constructor(name: string, hull: string) {
+    super();
+    this.name = name;
+    this.hull = hull;
+    this.x = 0;
+    this.z = 0;
+    this.rotation = 0;
+    this.speed = 0;
+    this.heel = 0;
+    this.ready = false;
+    this.progress = 0;
+    this.lap = 1;
+    this.finishTime = 0;
+    this.finishPosition = 0;
+  }
+}
+defineTypes(RacerState, {
+  name: 'string',
+  hull: 'string',
+  x: 'float32',
+  z: 'float32',
+  rotation: 'float32',
+  speed: 'float32',
+  heel: 'float32',
+  ready: 'boolean',
+  progress: 'uint16',
+  lap: 'uint8',
+  finishTime: 'uint32',
+  finishPosition: 'uint8',
+});
+
+export class RaceState extends Schema {
+  declare phase: RacePhase;
+  declare raceId: string;
+  declare raceName: string;
+  declare laps: number;
+  declare checkpoints: ArraySchema<CheckpointState>;
+  declare players: MapSchema<RacerState>;
+
+  constructor() {
+    super();
+    this.phase = 'waiting';
+    this.raceId = '';
+    this.raceName = '';
+    this.laps = 1;
+    this.checkpoints = new ArraySchema<CheckpointState>();
+    this.players = new MapSchema<RacerState>();
+  }
+}
+defineTypes(RaceState, {
+  phase: 'string',
+  raceId: 'string',
+  raceName: 'string',
+  laps: 'uint8',
+  checkpoints: [CheckpointState],
+  players: { map: RacerState },
+});
@@ -13,6 +13,9 @@ import { EnvironmentDetails } from './components/three/EnvironmentDetails'
 import { PointsOfInterest } from './components/three/PointsOfInterest'
 import { RaceCheckpoints } from './components/three/RaceCheckpoints'
 import { Icebergs } from './components/three/Icebergs'
+import { GhostYacht } from './components/three/GhostYacht'
+import { RemoteYachts } from './components/three/RemoteYachts'
+import { OpponentYachts } from './components/three/OpponentYachts'
 import { WeatherEffects } from './components/three/WeatherEffects'
 import { DynamicLighting } from './components/three/DynamicLighting'
 import { ProceduralClouds } from './components/three/ProceduralClouds'
@@ -20,9 +23,13 @@ import { EnhancedSky } from './components/three/EnhancedSky'
 import { BuildMode } from './components/ui/BuildMode'
 import { LoadingScreen } from './components/ui/LoadingScreen'
 import { RaceMenu, RaceStatus, Leaderboard } from './components/ui/RaceUI'
+import { MultiplayerMenu } from './components/ui/MultiplayerMenu'
 import { LandingPage } from './components/ui/LandingPage'
 import { WorldMap } from './components/ui/WorldMap'
 import { Dashboard } from './components/ui/Dashboard'
+import { MarinaPanel } from './components/ui/MarinaPanel'
+import { DeckModulePanel } from './components/ui/DeckModulePanel'
+import { PoiActivityPanel } from './components/ui/PoiActivityPanel'
 
 // Stores
 import { useGameStore } from './state/useGameStore'
@@ -32,6 +39,14 @@ import { useLandingStore } from './state/useLandingStore'
 // Hooks
 import { useWorldIntegration } from './hooks/useWorldIntegration'
 import { useIcebergCollision } from './hooks/useIcebergCollision'
+import { useWorldSimulation } from './hooks/useWorldSimulation'
+import { useAutosave } from './hooks/useAutosave'
+import { useDeckActivities } from './hooks/useDeckActivities'
+import { useGhostRecorder } from './hooks/useGhostRecorder'
+import { useRegattaTracker } from './hooks/useRegattaTracker'
+import { useRaceTelemetry } from './hooks/useRaceTelemetry'
+import { useMultiplayerSync } from './hooks/useMultiplayerSync'
+import { saveGame } from './state/saveGame'
 
 export default function App() {
   const { gameMode, setGameMode } = useGameStore()
@@ -49,6 +64,27 @@ export default function App() {
   // Integrate world mechanics with game state
   useWorldIntegration()
 
+  // Drift ice with wind and current
+  useWorldSimulation()
+
+  // Autosave on docking and race finish
+  useAutosave()
+
+  // Cargo, fishing and marina gigs from deck modules, and activities at POIs
+  useDeckActivities()
+
+  // Record race runs and keep the best as a ghost
+  useGhostRecorder()
+
+  // Score regatta series races
+  useRegattaTracker()
+
+  // Sample speed, throttle and battery for the race report
+  useRaceTelemetry()
+
+  // Report the boat to the multiplayer race room
+  useMultiplayerSync()
+
   // Iceberg collision detection
   useIcebergCollision()
 
@@ -94,6 +130,15 @@ export default function App() {
           {/* Player Yacht */}
           <Yacht />
 
+          {/* Best run replay while racing */}
+          <GhostYacht />
+
+          {/* Other sailors in a multiplayer race */}
+          <RemoteYachts />
+
+          {/* AI skippers in a single-player race */}
+          <OpponentYachts />
+
           {/* World Icebergs - Always visible */}
           <Icebergs />
 
@@ -113,11 +158,22 @@ export default function App() {
         {/* Unified Dashboard - replaces HUD and Engine Controls */}
         {gameMode === 'sail' && <Dashboard />}
 
+        {/* Marina services while docked */}
+        {gameMode === 'sail' && <MarinaPanel />}
+
+        {/* Deck module activities */}
+        {gameMode === 'sail' && <DeckModulePanel />}
+        {gameMode === 'sail' && <PoiActivityPanel />}
+
         {/* Mode Toggle - Center top */}
         <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-2 z-50">
           {/* Exit button as icon */}
           <button
-            onClick={() => useLandingStore.getState().resetToLanding()}
+            onClick={() => {
+              // Keep progress before the session is reset
+              saveGame('autosave')
+              useLandingStore.getState().resetToLanding()
+            }}
             className="px-3 py-2 rounded-lg bg-slate-800/90 text-slate-300 hover:bg-slate-700 font-medium transition-all"
             title="Return to map selection"
           >
@@ -146,6 +202,8 @@ export default function App() {
           </button>
           {/* Race button - only show in sail mode when not already racing */}
           {gameMode === 'sail' && !isRacing && <RaceMenu />}
+          {/* Online races */}
+          {gameMode === 'sail' && <MultiplayerMenu />}
         </div>
 
         {/* Build Mode UI */}
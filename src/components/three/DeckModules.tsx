@@ -0,0 +1,148 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+import type { HullConfig } from '@/state/useYachtStore'
+import { COLORS } from '@/utils/constants'
+import { DECK_MOUNTED_MODULES, type DeckModuleId } from '@/data/deckModules'
+
+interface DeckModulesProps {
+  hull: HullConfig
+  deckModules: string[]
+  canopyEnabled: boolean
+  deckHeight: number
+}
+
+// Aft deck slots (fraction of hull length), filled in install order behind the cabin
+const SLOT_POSITIONS = [-0.05, -0.18, -0.3]
+
+/**
+ * Deck Modules - 3D models for installed deck modules and the solar canopy
+ * Laid out in the same frame as the parametric Deck (length along X)
+ */
+export function DeckModules({ hull, deckModules, canopyEnabled, deckHeight }: DeckModulesProps) {
+  const deckWidth = hull.type === 'monohull' ? hull.beam * 0.5 : hull.beam * 0.75
+  const mounted = deckModules.filter((id): id is DeckModuleId =>
+    DECK_MOUNTED_MODULES.includes(id as DeckModuleId)
+  )
+
+  return (
+    <group position={[0, deckHeight, 0]}>
+      {mounted.map((id, index) => {
+        const x = hull.length * SLOT_POSITIONS[index % SLOT_POSITIONS.length]
+        return (
+          <group key={id} position={[x, 0.05, 0]}>
+            {id === 'dj-booth' && <DJBooth width={deckWidth} />}
+            {id === 'cargo' && <CargoCrates width={deckWidth} />}
+            {id === 'fishing' && <FishingRig width={deckWidth} />}
+          </group>
+        )
+      })}
+
+      {canopyEnabled && <SolarCanopy length={hull.length} width={deckWidth} />}
+    </group>
+  )
+}
+
+function DJBooth({ width }: { width: number }) {
+  const lightRef = useRef<THREE.MeshStandardMaterial>(null)
+
+  // Pulse the deck lights to a beat
+  useFrame(({ clock }) => {
+    if (!lightRef.current) return
+    const beat = Math.pow(Math.abs(Math.sin(clock.elapsedTime * Math.PI * 2)), 4)
+    lightRef.current.emissiveIntensity = 0.5 + beat * 1.5
+  })
+
+  return (
+    <group>
+      <mesh position={[0, 0.5, 0]} castShadow>
+        <boxGeometry args={[0.8, 1, width * 0.45]} />
+        <meshStandardMaterial color="#0f172a" metalness={0.6} roughness={0.3} />
+      </mesh>
+      <mesh position={[0, 1.02, 0]}>
+        <boxGeometry args={[0.7, 0.04, width * 0.4]} />
+        <meshStandardMaterial
+          ref={lightRef}
+          color={COLORS.turbinePurple}
+          emissive={COLORS.turbinePurple}
+          emissiveIntensity={1}
+        />
+      </mesh>
+      {/* Speakers */}
+      {[-1, 1].map((side) => (
+        <mesh key={side} position={[0, 0.4, side * width * 0.32]} castShadow>
+          <boxGeometry args={[0.5, 0.8, 0.4]} />
+          <meshStandardMaterial color={COLORS.speakerGold} metalness={0.4} roughness={0.5} />
+        </mesh>
+      ))}
+    </group>
+  )
+}
+
+function CargoCrates({ width }: { width: number }) {
+  const crate = Math.min(0.9, width * 0.3)
+
+  return (
+    <group>
+      {[
+        [0, crate / 2, -crate * 0.55],
+        [0, crate / 2, crate * 0.55],
+        [0, crate * 1.5, 0],
+      ].map((position, i) => (
+        <mesh key={i} position={position as [number, number, number]} castShadow>
+          <boxGeometry args={[crate, crate, crate]} />
+          <meshStandardMaterial color="#8b6f47" roughness={0.9} />
+        </mesh>
+      ))}
+    </group>
+  )
+}
+
+function FishingRig({ width }: { width: number }) {
+  return (
+    <group>
+      {/* Cooler */}
+      <mesh position={[0, 0.25, 0]} castShadow>
+        <boxGeometry args={[0.6, 0.5, 0.4]} />
+        <meshStandardMaterial color={COLORS.hullWhite} roughness={0.6} />
+      </mesh>
+      {/* Rods leaning out over each side */}
+      {[-1, 1].map((side) => (
+        <mesh
+          key={side}
+          position={[-0.2, 1.1, side * width * 0.4]}
+          rotation={[side * 0.6, 0, 0.3]}
+        >
+          <cylinderGeometry args={[0.015, 0.03, 2.4, 6]} />
+          <meshStandardMaterial color="#1e293b" metalness={0.3} roughness={0.5} />
+        </mesh>
+      ))}
+    </group>
+  )
+}
+
+function SolarCanopy({ length, width }: { length: number; width: number }) {
+  // Panel roughly matches CANOPY_AREA_FACTOR of the hull footprint
+  const canopyLength = length * 0.45
+  const canopyWidth = width * 0.9
+  const height = 2.2
+
+  return (
+    <group position={[-length * 0.05, 0, 0]}>
+      <mesh position={[0, height, 0]} castShadow receiveShadow>
+        <boxGeometry args={[canopyLength, 0.06, canopyWidth]} />
+        <meshStandardMaterial color="#1e3a8a" metalness={0.7} roughness={0.2} />
+      </mesh>
+      {/* Posts */}
+      {[-1, 1].flatMap((sx) =>
+        [-1, 1].map((sz) => (
+          <mesh key={`${sx}${sz}`} position={[sx * canopyLength * 0.45, height / 2, sz * canopyWidth * 0.45]}>
+            <cylinderGeometry args={[0.04, 0.04, height, 6]} />
+            <meshStandardMaterial color="#94a3b8" metalness={0.8} roughness={0.3} />
+          </mesh>
+        ))
+      )}
+    </group>
+  )
+}
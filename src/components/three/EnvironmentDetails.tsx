@@ -8,11 +8,14 @@ import * as THREE from 'three'
  * Adds atmospheric elements like rocks, seabirds, floating debris, etc.
  */
 export function EnvironmentDetails() {
-  const world = useWorldStore((state) => state.world)
+  // Select the static parts so ice drift replacing the world object doesn't re-scatter everything
+  const islands = useWorldStore((state) => state.world?.islands)
+  const marinas = useWorldStore((state) => state.world?.marinas)
+  const bounds = useWorldStore((state) => state.world?.bounds)
   const seabirdsRef = useRef<THREE.Group[]>([])
 
   const environmentMeshes = useMemo(() => {
-    if (!world) return { rocks: [], seabirds: [], floatingDebris: [] }
+    if (!islands || !marinas || !bounds) return { rocks: [], seabirds: [], floatingDebris: [] }
 
     const rocks: THREE.Mesh[] = []
     const seabirds: THREE.Group[] = []
@@ -20,7 +23,7 @@ export function EnvironmentDetails() {
 
     // ===== COASTAL ROCKS =====
     // Add rocks around each island
-    world.islands.forEach((island) => {
+    islands.forEach((island) => {
       const rockCount = Math.floor(island.radius / 30)
 
       for (let r = 0; r < rockCount; r++) {
@@ -73,10 +76,10 @@ export function EnvironmentDetails() {
     })
 
     // ===== SEABIRDS =====
-    // Create animated seabirds circling around islands and marina
+    // Create animated seabirds circling around islands and marinas
     const birdLocations = [
-      ...world.islands.map(island => ({ pos: island.position, radius: island.radius })),
-      { pos: world.marina.position, radius: 200 }
+      ...islands.map(island => ({ pos: island.position, radius: island.radius })),
+      ...marinas.map(marina => ({ pos: marina.position, radius: 200 }))
     ]
 
     birdLocations.forEach((location) => {
@@ -146,12 +149,12 @@ export function EnvironmentDetails() {
     // ===== FLOATING DEBRIS =====
     // Add some floating objects (driftwood, buoys, etc.) on the water surface
     for (let d = 0; d < 15; d++) {
-      const x = (Math.random() - 0.5) * (world.bounds.max[0] - world.bounds.min[0]) * 0.7
-      const z = (Math.random() - 0.5) * (world.bounds.max[1] - world.bounds.min[1]) * 0.7
+      const x = (Math.random() - 0.5) * (bounds.max[0] - bounds.min[0]) * 0.7
+      const z = (Math.random() - 0.5) * (bounds.max[1] - bounds.min[1]) * 0.7
 
       // Avoid placing debris on islands
       let onIsland = false
-      for (const island of world.islands) {
+      for (const island of islands) {
         const dx = x - island.position[0]
         const dz = z - island.position[1]
         const dist = Math.sqrt(dx * dx + dz * dz)
@@ -209,7 +212,7 @@ export function EnvironmentDetails() {
     }
 
     return { rocks, seabirds, floatingDebris }
-  }, [world])
+  }, [islands, marinas, bounds])
 
   // Animate seabirds and floating debris
   useFrame((state) => {
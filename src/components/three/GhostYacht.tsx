@@ -0,0 +1,54 @@
+import { useRef, useEffect } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+
+import { useRaceStore } from '@/state/useRaceStore'
+import { useGhostStore } from '@/state/useGhostStore'
+import { sampleGhost } from '@/state/ghostReplay'
+import { ParametricHull } from './hulls/HullGenerator'
+
+/**
+ * Ghost Yacht - translucent replay of the best run for the current race
+ */
+export function GhostYacht() {
+  const groupRef = useRef<THREE.Group>(null)
+
+  const isRacing = useRaceStore((state) => state.isRacing)
+  const ghost = useGhostStore((state) => state.ghost)
+  const ghostFrames = useGhostStore((state) => state.ghostFrames)
+
+  // Make every hull material see-through
+  useEffect(() => {
+    groupRef.current?.traverse((object) => {
+      if (!(object instanceof THREE.Mesh)) return
+      const materials = Array.isArray(object.material) ? object.material : [object.material]
+      for (const material of materials) {
+        material.transparent = true
+        material.opacity = 0.3
+        material.depthWrite = false
+      }
+      object.castShadow = false
+    })
+  }, [ghost, isRacing])
+
+  useFrame(() => {
+    if (!groupRef.current) return
+
+    const { raceStartTime } = useRaceStore.getState()
+    const frame = raceStartTime !== null ? sampleGhost(ghostFrames, Date.now() - raceStartTime) : null
+    groupRef.current.visible = frame !== null
+    if (!frame) return
+
+    groupRef.current.position.set(frame.x, 0, frame.z)
+    // Same bow alignment as the player's yacht
+    groupRef.current.rotation.y = frame.rotation - Math.PI / 2
+  })
+
+  if (!isRacing || !ghost || ghostFrames.length === 0) return null
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <ParametricHull config={ghost.hull} />
+    </group>
+  )
+}
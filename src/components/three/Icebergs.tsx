@@ -95,7 +95,7 @@ function IcebergMesh({ iceberg }: { iceberg: Iceberg }) {
 
     geo.computeVertexNormals()
     return geo
-  }, [iceberg])
+  }, [iceberg.radius, iceberg.height, iceberg.seed])
 
   const material = useMemo(() => {
     const normalMap = getIceNormalMap()
@@ -124,12 +124,12 @@ function IcebergMesh({ iceberg }: { iceberg: Iceberg }) {
     })
   }, [scene.environment])
 
-  // Subtle bobbing animation
+  // Subtle bobbing and slow spin (driven from the clock so drift re-renders don't reset it)
   useFrame((state) => {
     if (meshRef.current) {
       meshRef.current.position.y =
         iceberg.height * 0.3 + Math.sin(state.clock.elapsedTime * 0.3 + iceberg.seed) * 0.5
-      meshRef.current.rotation.y += 0.0005
+      meshRef.current.rotation.y = (iceberg.seed % 360) * Math.PI / 180 + state.clock.elapsedTime * 0.03
     }
   })
 
@@ -139,7 +139,6 @@ function IcebergMesh({ iceberg }: { iceberg: Iceberg }) {
       geometry={geometry}
       material={material}
       position={[iceberg.position[0], iceberg.height * 0.3, iceberg.position[1]]}
-      rotation={[0, (iceberg.seed % 360) * Math.PI / 180, 0]}
       castShadow
       receiveShadow
     />
@@ -200,7 +199,7 @@ function FloatingIceMesh({ ice }: { ice: FloatingIce }) {
 
     geo.computeVertexNormals()
     return geo
-  }, [ice])
+  }, [ice.radius, ice.seed])
 
   const material = useMemo(() => {
     const normalMap = getIceNormalMap()
@@ -236,7 +235,7 @@ function FloatingIceMesh({ ice }: { ice: FloatingIce }) {
       const time = state.clock.elapsedTime
       // Base at y=0.6, bobbing ±0.15 → range [0.45, 0.75] — always above ocean
       meshRef.current.position.y = Math.sin(time * 0.4 + ice.seed) * 0.15 + 0.6
-      meshRef.current.rotation.y += 0.001
+      meshRef.current.rotation.y = (ice.seed % 360) * Math.PI / 180 + time * 0.06
       meshRef.current.rotation.x = Math.sin(time * 0.25 + ice.seed * 0.5) * 0.03
       meshRef.current.rotation.z = Math.cos(time * 0.3 + ice.seed * 0.3) * 0.03
     }
@@ -248,7 +247,6 @@ function FloatingIceMesh({ ice }: { ice: FloatingIce }) {
       geometry={geometry}
       material={material}
       position={[ice.position[0], 0.6, ice.position[1]]}
-      rotation={[0, (ice.seed % 360) * Math.PI / 180, 0]}
       castShadow
     />
   )
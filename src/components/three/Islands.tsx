@@ -5,16 +5,17 @@ import * as THREE from 'three'
 import { createTerrainMaterial } from '../../shaders/TerrainShader'
 
 export function Islands() {
-  const world = useWorldStore((state) => state.world)
+  // Islands never move, so don't rebuild when ice drift replaces the world object
+  const islands = useWorldStore((state) => state.world?.islands)
   const materialsRef = useRef<THREE.ShaderMaterial[]>([])
 
   const islandMeshes = useMemo(() => {
-    if (!world) return []
+    if (!islands) return []
 
     materialsRef.current = []
 
     try {
-      return world.islands
+      return islands
         .map((island) => {
           try {
             // Create high-resolution iceberg/arctic terrain mesh
@@ -88,7 +89,7 @@ export function Islands() {
       console.error('Error creating island meshes:', error)
       return []
     }
-  }, [world])
+  }, [islands])
 
   // Animate shader uniforms
   useFrame((state) => {
@@ -1,19 +1,31 @@
 import { useMemo } from 'react'
 import { useWorldStore } from '../../state/useWorldStore'
+import type { Marina as MarinaData } from '../../world/WorldGenerator'
 import * as THREE from 'three'
 
+// Every harbour in the network
 export function Marina() {
-  const marina = useWorldStore((state) => state.world?.marina)
-  const isDocked = useWorldStore((state) => state.isDocked)
+  const marinas = useWorldStore((state) => state.world?.marinas)
+  if (!marinas) return null
 
-  const marinaMeshes = useMemo(() => {
-    if (!marina) return { structures: [], lights: [] }
+  return (
+    <>
+      {marinas.map((marina) => (
+        <Harbour key={marina.id} marina={marina} />
+      ))}
+    </>
+  )
+}
 
+// One harbour, built with its piers running out along +Z and turned to face the sea
+function Harbour({ marina }: { marina: MarinaData }) {
+  const marinaMeshes = useMemo(() => {
     try {
       const structures: THREE.Mesh[] = []
       const lights: THREE.PointLight[] = []
 
-      const [centerX, centerZ] = marina.position
+      const centerX = 0
+      const centerZ = 0
 
       // Material definitions
       const woodMaterial = new THREE.MeshStandardMaterial({
@@ -156,16 +168,16 @@ export function Marina() {
       console.error('Error creating marina meshes:', error)
       return { structures: [], lights: [] }
     }
-  }, [marina, isDocked])
+  }, [marina])
 
   return (
-    <>
+    <group position={[marina.position[0], 0, marina.position[1]]} rotation={[0, marina.heading, 0]}>
       {marinaMeshes.structures.map((mesh, i) => (
         <primitive key={`marina-struct-${i}`} object={mesh} />
       ))}
       {marinaMeshes.lights.map((light, i) => (
         <primitive key={`marina-light-${i}`} object={light} />
       ))}
-    </>
+    </group>
   )
 }
@@ -5,6 +5,7 @@ import { useControls, folder } from 'leva'
 import * as THREE from 'three'
 import { Water } from 'three/addons/objects/Water.js'
 import { useGameStore } from '../../state/useGameStore'
+import { calculateShallowWaterWaves } from '../../physics/WaterPhysics'
 
 interface OceanProps {
   size?: number
@@ -345,7 +346,7 @@ export function Ocean({ size = 8000, segments = 256 }: OceanProps) {
     return waterObj
   }, [waterGeometry, waterNormals, scene.fog, sunColor, waterColor, distortionScale])
 
-  // Update water parameters when controls change
+  // Update water colours when controls change (wave size and distortion follow the depth every frame)
   useEffect(() => {
     if (water && water.material) {
       const uniforms = (water.material as THREE.ShaderMaterial).uniforms
@@ -356,22 +357,25 @@ export function Ocean({ size = 8000, segments = 256 }: OceanProps) {
         if (uniforms.sunColor) {
           uniforms.sunColor.value.set(sunColor)
         }
-        if (uniforms.distortionScale) {
-          uniforms.distortionScale.value = distortionScale
-        }
-        if (uniforms.size) {
-          uniforms.size.value = waveSize
-        }
       }
     }
-  }, [water, waterColor, sunColor, distortionScale, waveSize])
+  }, [water, waterColor, sunColor])
 
   // Animate the water and follow player for infinite ocean effect
   useFrame((_, delta) => {
     if (water && water.material) {
       const uniforms = (water.material as THREE.ShaderMaterial).uniforms
+
+      // Over shallow water the waves slow, shorten and steepen
+      const waves = calculateShallowWaterWaves(useGameStore.getState().waterDepth)
       if (uniforms && uniforms.time) {
-        uniforms.time.value += delta * waveSpeed
+        uniforms.time.value += delta * waveSpeed * Math.max(0.2, waves.speedFactor)
+      }
+      if (uniforms && uniforms.size) {
+        uniforms.size.value = waveSize / Math.max(0.2, waves.speedFactor)
+      }
+      if (uniforms && uniforms.distortionScale) {
+        uniforms.distortionScale.value = distortionScale * (waves.breaking ? 1.5 : waves.heightFactor)
       }
 
       // Make ocean follow player position (infinite ocean effect)
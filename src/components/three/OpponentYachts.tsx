@@ -0,0 +1,52 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+
+import { useRaceStore } from '@/state/useRaceStore'
+import { useYachtStore } from '@/state/useYachtStore'
+import { ParametricHull } from './hulls/HullGenerator'
+
+/**
+ * Opponent Yachts - AI skippers racing the current course.
+ * Steps their sailing each frame alongside the player's tick.
+ */
+export function OpponentYachts() {
+  const groupRefs = useRef<(THREE.Group | null)[]>([])
+
+  const opponentNames = useRaceStore((state) => state.opponents.map((opponent) => opponent.name).join('|'))
+  const hull = useYachtStore((state) => state.currentYacht.hull)
+
+  useFrame((_, delta) => {
+    const { stepOpponents } = useRaceStore.getState()
+    stepOpponents(delta)
+
+    const { opponents } = useRaceStore.getState()
+    opponents.forEach((opponent, index) => {
+      const group = groupRefs.current[index]
+      if (!group) return
+
+      group.position.set(opponent.position[0], 0, opponent.position[1])
+      // Same bow alignment and heel as the player's yacht
+      group.rotation.y = opponent.rotation - Math.PI / 2
+      group.rotation.x = (opponent.motion.heel * Math.PI) / 180
+    })
+  })
+
+  if (!opponentNames) return null
+
+  return (
+    <>
+      {opponentNames.split('|').map((name, index) => (
+        <group key={name} ref={(group) => { groupRefs.current[index] = group }}>
+          <ParametricHull config={hull} />
+          <Html center position={[0, 8, 0]}>
+            <div className="bg-orange-900/80 px-2 py-0.5 rounded text-white text-xs font-medium whitespace-nowrap">
+              {name}
+            </div>
+          </Html>
+        </group>
+      ))}
+    </>
+  )
+}
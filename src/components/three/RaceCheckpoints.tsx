@@ -1,69 +1,108 @@
-import { useMemo } from 'react'
+import { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
 import { useRaceStore } from '../../state/useRaceStore'
 import { useGameStore } from '../../state/useGameStore'
+import { getCourseGates, getStartGate, type Gate } from '../../world/RaceGates'
 import * as THREE from 'three'
 
+const BUOY_RADIUS = 2.5
+const BUOY_HEIGHT = 6
+const POINTER_DISTANCE = 25 // m ahead of the bow the next-gate arrow floats
+
+// Gate state colours: passed, current (or finish), next, distant
+function gateStyle(index: number, current: number, count: number, near: boolean) {
+  if (index < current) return { color: 0x2a5a2a, opacity: 0.3 }
+  if (index === current) return { color: index === count - 1 ? 0xffaa00 : 0x00ff88, opacity: near ? 0.9 : 0.7 }
+  if (index === current + 1) return { color: 0x4488aa, opacity: 0.5 }
+  return { color: 0x3a5a6a, opacity: 0.25 }
+}
+
+// Flat arrow on the water pointing along a heading
+function Arrow({ color, size }: { color: THREE.ColorRepresentation; size: number }) {
+  return (
+    <mesh rotation={[Math.PI / 2, 0, 0]}>
+      <coneGeometry args={[size * 0.5, size, 3]} />
+      <meshBasicMaterial color={color} transparent opacity={0.85} depthWrite={false} />
+    </mesh>
+  )
+}
+
+function RaceGate({ gate, color, opacity, isCurrent }: { gate: Gate; color: number; opacity: number; isCurrent: boolean }) {
+  return (
+    <>
+      {gate.buoys.map((buoy, side) => (
+        <mesh key={side} position={[buoy[0], BUOY_HEIGHT / 2 - 1, buoy[1]]}>
+          <cylinderGeometry args={[BUOY_RADIUS * 0.6, BUOY_RADIUS, BUOY_HEIGHT, 12]} />
+          {/* Port buoy red, starboard green, as the crossing direction reads */}
+          <meshStandardMaterial color={side === 0 ? 0xcc2222 : 0x22aa44} emissive={isCurrent ? color : 0x000000} emissiveIntensity={0.4} />
+        </mesh>
+      ))}
+
+      {/* Line between the buoys, laid flat across the crossing heading */}
+      <mesh position={[gate.center[0], 0.5, gate.center[1]]} rotation={[-Math.PI / 2, gate.heading, 0, 'YXZ']}>
+        <planeGeometry args={[gate.halfWidth * 2, 3]} />
+        <meshBasicMaterial color={color} transparent opacity={opacity} side={THREE.DoubleSide} depthWrite={false} />
+      </mesh>
+
+      {isCurrent && (
+        <group position={[gate.center[0], 1, gate.center[1]]} rotation={[0, gate.heading, 0]}>
+          <Arrow color={color} size={Math.max(12, gate.halfWidth * 0.4)} />
+        </group>
+      )}
+    </>
+  )
+}
+
 export function RaceCheckpoints() {
   const currentRace = useRaceStore((state) => state.currentRace)
   const currentCheckpoint = useRaceStore((state) => state.currentCheckpoint)
   const isRacing = useRaceStore((state) => state.isRacing)
   const nearbyCheckpoints = useGameStore((state) => state.nearbyCheckpoints)
+  const pointerRef = useRef<THREE.Group>(null)
+
+  const gates = useMemo(() => (currentRace ? getCourseGates(currentRace) : []), [currentRace])
+  const startGate = useMemo(() => (currentRace ? getStartGate(currentRace) : null), [currentRace])
 
-  const checkpointMeshes = useMemo(() => {
-    if (!currentRace || !isRacing) return []
-
-    return currentRace.checkpoints.map((checkpoint, index) => {
-      // Thin flat ring on the water surface
-      const innerRadius = checkpoint.radius * 0.85
-      const outerRadius = checkpoint.radius
-      const geometry = new THREE.RingGeometry(innerRadius, outerRadius, 48)
-
-      const isPassed = index < currentCheckpoint
-      const isCurrent = index === currentCheckpoint
-      const isNext = index === currentCheckpoint + 1
-      const isFinish = index === currentRace.checkpoints.length - 1
-
-      // Determine color based on state
-      let color: THREE.ColorRepresentation
-      let opacity: number
-
-      if (isPassed) {
-        color = 0x2a5a2a // Dark green for completed
-        opacity = 0.3
-      } else if (isCurrent) {
-        color = isFinish ? 0xffaa00 : 0x00ff88 // Gold for finish, bright green for current
-        opacity = nearbyCheckpoints.includes(checkpoint.id) ? 0.9 : 0.7
-      } else if (isNext) {
-        color = 0x4488aa // Blue-ish for upcoming
-        opacity = 0.5
-      } else {
-        color = 0x3a5a6a // Muted blue-gray for distant
-        opacity = 0.25
-      }
-
-      const material = new THREE.MeshBasicMaterial({
-        color,
-        transparent: true,
-        opacity,
-        side: THREE.DoubleSide,
-        depthWrite: false,
-      })
-
-      const mesh = new THREE.Mesh(geometry, material)
-      mesh.position.set(checkpoint.position[0], 0.5, checkpoint.position[1])
-      mesh.rotation.x = -Math.PI / 2 // Lay flat on water
-
-      return { mesh, isCurrent, isFinish, position: checkpoint.position }
-    })
-  }, [currentRace, currentCheckpoint, isRacing, nearbyCheckpoints])
+  // Arrow by the boat pointing at the next gate
+  useFrame(() => {
+    const pointer = pointerRef.current
+    if (!pointer) return
+
+    const gate = gates[useRaceStore.getState().currentCheckpoint]
+    pointer.visible = gate !== undefined
+    if (!gate) return
+
+    const { position, rotation } = useGameStore.getState().player
+    pointer.position.set(
+      position[0] + Math.sin(rotation) * POINTER_DISTANCE,
+      3,
+      position[2] + Math.cos(rotation) * POINTER_DISTANCE
+    )
+    pointer.rotation.y = Math.atan2(gate.center[0] - pointer.position.x, gate.center[1] - pointer.position.z)
+  })
 
   if (!currentRace || !isRacing) return null
 
   return (
     <group name="race-checkpoints">
-      {checkpointMeshes.map((item, i) => (
-        <primitive key={`checkpoint-${i}`} object={item.mesh} />
-      ))}
+      {/* Start line across the course at the start position */}
+      {startGate && (
+        <mesh position={[startGate.center[0], 0.5, startGate.center[1]]} rotation={[-Math.PI / 2, startGate.heading, 0, 'YXZ']}>
+          <planeGeometry args={[startGate.halfWidth * 2, 8]} />
+          <meshBasicMaterial color={0xffffff} transparent opacity={0.6} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+      )}
+
+      {gates.map((gate, index) => {
+        const { color, opacity } = gateStyle(index, currentCheckpoint, gates.length, nearbyCheckpoints.includes(gate.id))
+        return (
+          <RaceGate key={gate.id} gate={gate} color={color} opacity={opacity} isCurrent={index === currentCheckpoint} />
+        )
+      })}
+
+      <group ref={pointerRef}>
+        <Arrow color={0xffff00} size={6} />
+      </group>
     </group>
   )
 }
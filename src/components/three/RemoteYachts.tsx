@@ -0,0 +1,67 @@
+import { useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+
+import { useMultiplayerStore } from '@/state/useMultiplayerStore'
+import type { HullConfig } from '@/state/useYachtStore'
+import { INTERPOLATION_DELAY, interpolateRemote, parseRemoteHull } from '@/multiplayer/RaceClient'
+import { ParametricHull } from './hulls/HullGenerator'
+
+// Shown when a racer's shared hull can't be read
+const FALLBACK_HULL: HullConfig = {
+  type: 'catamaran',
+  length: 12,
+  beam: 6,
+  draft: 1,
+  bowShape: 'piercing',
+}
+
+function RemoteYacht({ sessionId, name, hull }: { sessionId: string; name: string; hull: string }) {
+  const groupRef = useRef<THREE.Group>(null)
+  const hullConfig = useMemo(() => parseRemoteHull(hull) ?? FALLBACK_HULL, [hull])
+
+  useFrame(() => {
+    if (!groupRef.current) return
+
+    const buffer = useMultiplayerStore.getState().snapshots[sessionId] ?? []
+    const pose = interpolateRemote(buffer, Date.now() - INTERPOLATION_DELAY)
+    groupRef.current.visible = pose !== null
+    if (!pose) return
+
+    groupRef.current.position.set(pose.x, 0, pose.z)
+    // Same bow alignment and heel as the player's yacht
+    groupRef.current.rotation.y = pose.rotation - Math.PI / 2
+    groupRef.current.rotation.x = (pose.heel * Math.PI) / 180
+  })
+
+  return (
+    <group ref={groupRef} visible={false}>
+      <ParametricHull config={hullConfig} />
+      <Html center position={[0, 8, 0]}>
+        <div className="bg-slate-900/80 px-2 py-0.5 rounded text-white text-xs font-medium whitespace-nowrap">
+          {name}
+        </div>
+      </Html>
+    </group>
+  )
+}
+
+/**
+ * Remote Yachts - the other boats in a multiplayer race, drawn slightly in the past
+ * so their motion can be interpolated between server updates
+ */
+export function RemoteYachts() {
+  const racers = useMultiplayerStore((state) => state.racers)
+  const sessionId = useMultiplayerStore((state) => state.sessionId)
+
+  return (
+    <>
+      {racers
+        .filter((racer) => racer.sessionId !== sessionId)
+        .map((racer) => (
+          <RemoteYacht key={racer.sessionId} sessionId={racer.sessionId} name={racer.name} hull={racer.hull} />
+        ))}
+    </>
+  )
+}
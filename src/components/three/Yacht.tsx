@@ -7,10 +7,13 @@ import { useYachtStore } from '@/state/useYachtStore'
 import { useGameStore } from '@/state/useGameStore'
 import { useRaceStore } from '@/state/useRaceStore'
 import { useKeyboard } from '@/utils/useKeyboard'
+import { MAX_REVERSE_THROTTLE } from '@/physics/SailingPhysics'
+import { calculateShallowWaterWaves } from '@/physics/WaterPhysics'
 import { ParametricHull } from './hulls/HullGenerator'
 import { ProceduralHull } from './hulls/ProceduralHull'
 import { CustomTurbine } from './CustomTurbine'
 import { GLBYacht } from './GLBYacht'
+import { DeckModules } from './DeckModules'
 
 export function Yacht() {
   const groupRef = useRef<THREE.Group>(null)
@@ -22,20 +25,21 @@ export function Yacht() {
   } = useYachtStore()
   const {
     hull, turbine, turbinePosition, useGLBModel, glbModelScale,
-    secondTurbineEnabled, secondTurbine, secondTurbineYOffset, turbineAnimation
+    secondTurbineEnabled, secondTurbine, secondTurbineYOffset, turbineAnimation,
+    deckModules, solar
   } = currentYacht
 
   // Get game state
   const { wind, player, tick, setThrottle, setSteering, updateCheckpointDetection, activateBurst } = useGameStore()
 
   // Get race state
-  const { isRacing, currentRace, passCheckpoint, currentCheckpoint } = useRaceStore()
+  const { isRacing, currentRace } = useRaceStore()
 
   // Keyboard input
   const keys = useKeyboard()
 
-  // Track last checkpoint to detect when we pass through
-  const lastCheckpointRef = useRef<string | null>(null)
+  // Where the boat was last frame, to detect sailing through a gate
+  const prevPositionRef = useRef<[number, number] | null>(null)
 
   // Debug controls with yacht model selection and turbine positioning
   const yachtControls = useControls('Yacht', {
@@ -76,12 +80,12 @@ export function Yacht() {
     let throttle = player.throttle
     let steering = 0
 
-    // Throttle: W increases, S decreases
+    // Throttle: W increases, S decreases and on into reverse
     if (keys.forward) {
       throttle = Math.min(100, throttle + 2)
     }
     if (keys.backward) {
-      throttle = Math.max(0, throttle - 2)
+      throttle = Math.max(-MAX_REVERSE_THROTTLE, throttle - 2)
     }
 
     // Steering: A = left (negative rotation), D = right (positive rotation)
@@ -118,40 +122,38 @@ export function Yacht() {
     // Offset by -90° to align model bow (facing +X) with movement direction (+Z when rotation=0)
     groupRef.current.rotation.y = player.rotation - Math.PI / 2
 
+    // Waves build up over shallow water and break where it's too shallow to carry them
+    const waves = calculateShallowWaterWaves(useGameStore.getState().waterDepth)
+    const surf = waves.breaking ? Math.sin(time * bobSpeed * 3.1) * 0.04 : 0
+
     // Bob up and down with waves
-    groupRef.current.position.y = Math.sin(time * bobSpeed) * bobAmount
+    groupRef.current.position.y = Math.sin(time * bobSpeed) * bobAmount * waves.heightFactor
+
+    // Apply yaw first so roll and pitch act about the hull's own axes
+    groupRef.current.rotation.order = 'YXZ'
 
-    // Keep yacht level - only gentle wave motion, no steering tilt
-    groupRef.current.rotation.z = Math.sin(time * bobSpeed * 0.7) * 0.02
+    // Roll about the bow axis: wind heel plus gentle wave motion, no steering tilt
+    const heel = (player.heel * Math.PI) / 180
+    groupRef.current.rotation.x = heel + Math.sin(time * bobSpeed * 0.7) * 0.02 * waves.heightFactor + surf
 
     // Gentle pitch from waves
-    groupRef.current.rotation.x = Math.sin(time * bobSpeed * 0.5) * 0.02
+    groupRef.current.rotation.z = Math.sin(time * bobSpeed * 0.5) * 0.02 * waves.heightFactor + surf
 
     // Checkpoint detection for racing
     if (isRacing && currentRace) {
       updateCheckpointDetection(currentRace.checkpoints)
 
-      // Check if we've passed the current checkpoint
-      const currentCheckpointObj = currentRace.checkpoints[currentCheckpoint]
-      if (currentCheckpointObj) {
-        const dx = player.position[0] - currentCheckpointObj.position[0]
-        const dz = player.position[2] - currentCheckpointObj.position[1]
-        const distance = Math.sqrt(dx * dx + dz * dz)
-
-        // Passed through checkpoint
-        if (
-          distance <= currentCheckpointObj.radius &&
-          lastCheckpointRef.current !== currentCheckpointObj.id
-        ) {
-          lastCheckpointRef.current = currentCheckpointObj.id
-          passCheckpoint(currentCheckpointObj.id)
-
-          // Check if we've completed the lap
-          if (currentCheckpoint + 1 >= currentRace.checkpoints.length) {
-            useRaceStore.getState().completeLap()
-          }
-        }
+      // Gates and the start line count when sailed through between two frames
+      const { position } = useGameStore.getState().player
+      const current: [number, number] = [position[0], position[2]]
+      if (prevPositionRef.current) {
+        const [px, pz] = prevPositionRef.current
+        useRaceStore.getState().trackEnergy(delta, Math.hypot(current[0] - px, current[1] - pz))
+        useRaceStore.getState().crossGates(prevPositionRef.current, current)
       }
+      prevPositionRef.current = current
+    } else {
+      prevPositionRef.current = null
     }
   })
 
@@ -171,6 +173,14 @@ export function Yacht() {
         <ParametricHull config={hull} />
       )}
 
+      {/* Deck modules and solar canopy */}
+      <DeckModules
+        hull={hull}
+        deckModules={deckModules}
+        canopyEnabled={solar.canopyEnabled}
+        deckHeight={useGLBModel ? baseDeckHeight : hull.draft + 0.3}
+      />
+
       {/* Custom Turbine - uses blade profile from Kaleidoscope editor */}
       {/* Position can be adjusted via turbinePosition */}
       <group position={[turbinePosition.x, 0, turbinePosition.z]}>
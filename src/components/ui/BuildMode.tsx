@@ -1,9 +1,20 @@
 import { useState, useCallback, useEffect } from 'react'
 import { useYachtStore, HullType } from '@/state/useYachtStore'
+import { useGameStore } from '@/state/useGameStore'
+import { useInventoryStore, getUnlockCost, promptUnlock, type UnlockCategory } from '@/state/useInventoryStore'
+import {
+  DECK_MODULES,
+  DECK_MOUNTED_MODULES,
+  canFitModule,
+  getCanopyArea,
+  getDeckSpace,
+  getModuleFootprint,
+} from '@/data/deckModules'
 import { KaleidoscopeCanvas } from '@/editor/KaleidoscopeCanvas'
 import { HullGridEditor } from '@/editor/HullGridEditor'
 import { TurbineSectionEditor } from '@/editor/TurbineSectionEditor'
 import { createDefaultHullConfig, createDefaultProceduralTurbineConfig } from '@/editor'
+import { BASE_MOTOR_POWER } from '@/physics/EnergySystem'
 import type { ProceduralHullConfig } from '@/editor/HullTypes'
 import type { ProceduralTurbineConfig } from '@/editor/TurbineTypes'
 
@@ -77,7 +88,7 @@ function ButtonGroup<T extends string>({
   onChange,
   disabled,
 }: {
-  options: { value: T; label: string; locked?: boolean }[]
+  options: { value: T; label: string; locked?: boolean; cost?: number }[]
   value: T
   onChange: (v: T) => void
   disabled?: T[]
@@ -98,6 +109,7 @@ function ButtonGroup<T extends string>({
             disabled={isDisabled}
           >
             {opt.label}
+            {opt.cost ? <span className="block text-[8px] text-amber-400">🔒 {opt.cost} EC</span> : null}
           </button>
         )
       })}
@@ -111,7 +123,8 @@ type EditorMode = 'simple' | 'advanced'
 export function BuildMode() {
   const {
     currentYacht, setHull, setTurbine, setBladeProfile, setSolar, setBattery, stats, setProceduralHullConfig,
-    setSecondTurbineEnabled, setSecondTurbineYOffset, setSecondTurbine, setSecondBladeProfile, setTurbineAnimation
+    setSecondTurbineEnabled, setSecondTurbineYOffset, setSecondTurbine, setSecondBladeProfile, setTurbineAnimation,
+    addDeckModule, removeDeckModule
   } = useYachtStore()
   const {
     hull, turbine, solar, battery,
@@ -120,6 +133,17 @@ export function BuildMode() {
   const [activePanel, setActivePanel] = useState<EditorPanel>('turbine')
   const [editorMode, setEditorMode] = useState<EditorMode>('simple')
 
+  // Unlock economy: locked items show their cost and are bought with energy credits
+  const energyCredits = useGameStore((state) => state.energyCredits)
+  const owned = useInventoryStore((state) => state.owned)
+  const lockedCost = (category: UnlockCategory, id: string) => {
+    const cost = getUnlockCost(category, id)
+    return cost > 0 && !owned[category].includes(id) ? cost : undefined
+  }
+  const selectOrUnlock = (category: UnlockCategory, id: string, label: string, apply: () => void) => {
+    if (promptUnlock(category, id, label)) apply()
+  }
+
   // Advanced editor configs (extended from basic config)
   const [advancedHullConfig, setAdvancedHullConfig] = useState<ProceduralHullConfig>(() => {
     const config = createDefaultHullConfig()
@@ -244,6 +268,12 @@ export function BuildMode() {
           </button>
         </div>
 
+        {/* Credits */}
+        <div className="px-3 py-1.5 border-b border-slate-800 flex justify-between text-[10px]">
+          <span className="text-slate-500">Energy Credits</span>
+          <span className="text-amber-400 font-bold font-mono">{energyCredits.toFixed(1)} EC</span>
+        </div>
+
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto p-3">
           {/* TURBINE PANEL */}
@@ -340,12 +370,12 @@ export function BuildMode() {
               <Section title="Style" defaultOpen={false}>
                 <ButtonGroup
                   options={[
-                    { value: 'helix', label: 'Helix' },
-                    { value: 'infinity', label: 'Infinity' },
-                    { value: 'ribbon', label: 'Ribbon' },
+                    { value: 'helix', label: 'Helix', cost: lockedCost('turbine-style', 'helix') },
+                    { value: 'infinity', label: 'Infinity', cost: lockedCost('turbine-style', 'infinity') },
+                    { value: 'ribbon', label: 'Ribbon', cost: lockedCost('turbine-style', 'ribbon') },
                   ]}
                   value={turbine.style}
-                  onChange={(v) => setTurbine({ style: v })}
+                  onChange={(v) => selectOrUnlock('turbine-style', v, `the ${v} turbine`, () => setTurbine({ style: v }))}
                 />
               </Section>
 
@@ -434,26 +464,33 @@ export function BuildMode() {
             <>
               <Section title="Hull Type">
                 <div className="grid grid-cols-2 gap-1.5 mb-2">
-                  {(['monohull', 'catamaran', 'trimaran', 'hydrofoil'] as HullType[]).map((type) => (
-                    <button
-                      key={type}
-                      onClick={() => type !== 'hydrofoil' && setHull({ type })}
-                      className={`p-2 rounded text-center transition-all ${
-                        hull.type === type
-                          ? 'bg-cyan-500 text-white'
-                          : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
-                      } ${type === 'hydrofoil' ? 'opacity-40 cursor-not-allowed' : ''}`}
-                      disabled={type === 'hydrofoil'}
-                    >
-                      <span className="text-sm block">
-                        {type === 'monohull' && '⛵'}
-                        {type === 'catamaran' && '🚤'}
-                        {type === 'trimaran' && '⛴️'}
-                        {type === 'hydrofoil' && '🔒'}
-                      </span>
-                      <span className="text-[9px] capitalize">{type}</span>
-                    </button>
-                  ))}
+                  {(['monohull', 'catamaran', 'trimaran', 'hydrofoil'] as HullType[]).map((type) => {
+                    const cost = lockedCost('hull', type)
+                    return (
+                      <button
+                        key={type}
+                        onClick={() => selectOrUnlock('hull', type, `the ${type} hull`, () => setHull({ type }))}
+                        className={`p-2 rounded text-center transition-all ${
+                          hull.type === type
+                            ? 'bg-cyan-500 text-white'
+                            : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                        } ${cost ? 'opacity-60' : ''}`}
+                      >
+                        <span className="text-sm block">
+                          {cost ? '🔒' : (
+                            <>
+                              {type === 'monohull' && '⛵'}
+                              {type === 'catamaran' && '🚤'}
+                              {type === 'trimaran' && '⛴️'}
+                              {type === 'hydrofoil' && '🚀'}
+                            </>
+                          )}
+                        </span>
+                        <span className="text-[9px] capitalize">{type}</span>
+                        {cost ? <span className="block text-[8px] text-amber-400">{cost} EC</span> : null}
+                      </button>
+                    )
+                  })}
                 </div>
               </Section>
 
@@ -713,10 +750,20 @@ export function BuildMode() {
                     <input
                       type="checkbox"
                       checked={solar.canopyEnabled}
-                      onChange={(e) => setSolar({ canopyEnabled: e.target.checked })}
+                      onChange={(e) => {
+                        const enabled = e.target.checked
+                        if (!enabled) {
+                          setSolar({ canopyEnabled: false })
+                          return
+                        }
+                        selectOrUnlock('deck-module', 'solar-canopy', 'the solar canopy', () => setSolar({ canopyEnabled: true }))
+                      }}
                       className="w-3 h-3 accent-cyan-500"
                     />
                     <span className="text-[10px] text-slate-400">Solar Canopy (adds shade & power)</span>
+                    {lockedCost('deck-module', 'solar-canopy') ? (
+                      <span className="text-[8px] text-amber-400">🔒 {lockedCost('deck-module', 'solar-canopy')} EC</span>
+                    ) : null}
                   </label>
                 </div>
 
@@ -726,7 +773,11 @@ export function BuildMode() {
                   <div className="grid grid-cols-2 gap-2">
                     <div>
                       <div className="text-[10px] font-bold text-yellow-400">
-                        {((hull.length * hull.beam * 0.6 * solar.deckCoverage / 100) + (solar.turbineIntegrated ? 2 : 0)).toFixed(1)}m²
+                        {(
+                          Math.max(0, getDeckSpace(hull) - getModuleFootprint(currentYacht.deckModules)) * solar.deckCoverage / 100 +
+                          (solar.turbineIntegrated ? 2 : 0) +
+                          (solar.canopyEnabled ? getCanopyArea(hull) : 0)
+                        ).toFixed(1)}m²
                       </div>
                       <div className="text-[8px] text-slate-500">Panel Area</div>
                     </div>
@@ -738,6 +789,54 @@ export function BuildMode() {
                 </div>
               </Section>
 
+              <Section title="Deck Modules">
+                <div className="flex justify-between text-[10px] mb-2">
+                  <span className="text-slate-500">Deck Space</span>
+                  <span className="text-cyan-400 font-bold">
+                    {getModuleFootprint(currentYacht.deckModules).toFixed(0)} / {getDeckSpace(hull).toFixed(0)} m²
+                  </span>
+                </div>
+                <div className="space-y-1.5">
+                  {DECK_MOUNTED_MODULES.map((id) => {
+                    const module = DECK_MODULES[id]
+                    const installed = currentYacht.deckModules.includes(id)
+                    const fits = canFitModule(currentYacht, id)
+                    const cost = lockedCost('deck-module', id)
+                    return (
+                      <button
+                        key={id}
+                        onClick={() => {
+                          if (installed) {
+                            removeDeckModule(id)
+                            return
+                          }
+                          if (!fits) return
+                          selectOrUnlock('deck-module', id, `the ${module.name}`, () => addDeckModule(id))
+                        }}
+                        className={`w-full p-2 rounded text-left transition-all ${
+                          installed
+                            ? 'bg-cyan-500/20 border border-cyan-500/50'
+                            : 'bg-slate-800 border border-transparent hover:bg-slate-700'
+                        } ${!installed && !fits ? 'opacity-40 cursor-not-allowed' : ''}`}
+                        title={module.description}
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="text-[11px] font-bold text-slate-200">
+                            {module.icon} {module.name}
+                          </span>
+                          <span className="text-[9px] text-slate-400">
+                            {installed ? '✓ Installed' : cost ? <span className="text-amber-400">🔒 {cost} EC</span> : fits ? 'Install' : 'No space'}
+                          </span>
+                        </div>
+                        <div className="text-[8px] text-slate-500 mt-0.5">
+                          {module.footprint} m² · {module.mass} kg · {module.powerDraw} kW
+                        </div>
+                      </button>
+                    )
+                  })}
+                </div>
+              </Section>
+
               <Section title="Engine Tier">
                 <div className="mb-2">
                   <span className="text-[10px] text-slate-500 mb-2 block">Select motor power tier</span>
@@ -749,10 +848,10 @@ export function BuildMode() {
                     ].map((option) => (
                       <button
                         key={option.tier}
-                        onClick={() => {
+                        onClick={() => selectOrUnlock('engine', option.tier, `the ${option.label} engine`, () => {
                           const { setEngine } = useYachtStore.getState()
                           setEngine(option.tier)
-                        }}
+                        })}
                         className={`w-full p-2 rounded text-left transition-all ${
                           currentYacht.engine.tier === option.tier
                             ? `${option.color} text-white`
@@ -760,7 +859,12 @@ export function BuildMode() {
                         }`}
                       >
                         <div className="flex justify-between items-center">
-                          <span className="text-[11px] font-bold">{option.label}</span>
+                          <span className="text-[11px] font-bold">
+                            {option.label}
+                            {lockedCost('engine', option.tier) ? (
+                              <span className="ml-1 text-[9px] text-amber-400">🔒 {lockedCost('engine', option.tier)} EC</span>
+                            ) : null}
+                          </span>
                           <span className="text-[9px] opacity-80">Max {option.speed} kt</span>
                         </div>
                         <div className="text-[9px] opacity-80 mt-1">
@@ -786,7 +890,7 @@ export function BuildMode() {
                   </div>
                   <div className="mt-2 grid grid-cols-1">
                     <div>
-                      <div className="text-[10px] font-bold text-red-400">{(15 * currentYacht.engine.powerMultiplier).toFixed(0)} kW</div>
+                      <div className="text-[10px] font-bold text-red-400">{(BASE_MOTOR_POWER * currentYacht.engine.powerMultiplier).toFixed(0)} kW</div>
                       <div className="text-[8px] text-slate-500">Max Draw @ 100%</div>
                     </div>
                   </div>
@@ -797,14 +901,13 @@ export function BuildMode() {
                 <div className="mb-2">
                   <span className="text-[10px] text-slate-500 mb-1 block">Capacity</span>
                   <ButtonGroup
-                    options={[
-                      { value: '50', label: '50 kWh' },
-                      { value: '100', label: '100 kWh' },
-                      { value: '200', label: '200 kWh' },
-                      { value: '500', label: '500 kWh' },
-                    ]}
+                    options={['50', '100', '200', '500'].map((capacity) => ({
+                      value: capacity,
+                      label: `${capacity} kWh`,
+                      cost: lockedCost('battery', capacity),
+                    }))}
                     value={battery.capacity.toString()}
-                    onChange={(v) => setBattery({ capacity: parseInt(v) })}
+                    onChange={(v) => selectOrUnlock('battery', v, `the ${v} kWh battery`, () => setBattery({ capacity: parseInt(v) }))}
                   />
                 </div>
 
@@ -0,0 +1,257 @@
+import { useRef, useState } from 'react'
+import type { RaceConfig } from '../../state/useRaceStore'
+import type { CourseLeg } from '../../world/RaceCatalogue'
+import {
+  MAX_COURSE_LAPS,
+  MAX_GATE_RADIUS,
+  MIN_GATE_RADIUS,
+  deleteCustomCourse,
+  exportCustomCourse,
+  loadCustomCourses,
+  parseCourseFile,
+  saveCustomCourse,
+  type CustomCourse,
+} from '../../state/customCourses'
+
+interface CourseEditorPanelProps {
+  course: CustomCourse
+  race: RaceConfig
+  legs: CourseLeg[]
+  issues: string[]
+  selectedGate: number | null
+  onChange: (course: CustomCourse) => void
+  onSelectGate: (index: number | null) => void
+}
+
+function formatDistance(units: number) {
+  return units >= 1000 ? `${(units / 1000).toFixed(2)} km` : `${Math.round(units)} m`
+}
+
+// Point of sail for a true wind angle off the bow
+function pointOfSail(windAngle: number) {
+  const angle = Math.abs(windAngle)
+  if (angle < 45) return 'Upwind'
+  if (angle < 70) return 'Close reach'
+  if (angle < 110) return 'Beam reach'
+  if (angle < 150) return 'Broad reach'
+  return 'Run'
+}
+
+const buttonStyle = {
+  backgroundColor: 'rgba(76, 86, 106, 0.4)',
+  color: '#c4cde4',
+  fontSize: '10px',
+}
+
+/**
+ * Course Editor - controls for the course being laid out on the Nav Map:
+ * gate order and size, laps, the leg preview and saving or sharing the course.
+ * Gates are placed and dragged on the map itself.
+ */
+export function CourseEditorPanel({
+  course,
+  race,
+  legs,
+  issues,
+  selectedGate,
+  onChange,
+  onSelectGate,
+}: CourseEditorPanelProps) {
+  const [savedCourses, setSavedCourses] = useState(() => loadCustomCourses(course.worldSeed))
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Circuits finish each lap on the start line, so every lap sails the same legs
+  const totalLength = legs.reduce((total, leg) => total + leg.length, 0) * race.laps
+
+  const updateGate = (index: number, radius: number) => {
+    onChange({
+      ...course,
+      gates: course.gates.map((gate, i) => (i === index ? { ...gate, radius } : gate)),
+    })
+  }
+
+  const moveGate = (index: number, step: -1 | 1) => {
+    const target = index + step
+    if (target < 0 || target >= course.gates.length) return
+    const gates = [...course.gates]
+    ;[gates[index], gates[target]] = [gates[target], gates[index]]
+    onChange({ ...course, gates })
+    onSelectGate(target)
+  }
+
+  const removeGate = (index: number) => {
+    onChange({ ...course, gates: course.gates.filter((_, i) => i !== index) })
+    onSelectGate(null)
+  }
+
+  const handleSave = () => {
+    if (issues.length > 0) {
+      setMessage(`Can't save: ${issues[0]}`)
+      return
+    }
+    if (saveCustomCourse(course)) {
+      setSavedCourses(loadCustomCourses(course.worldSeed))
+      setMessage(`Saved "${course.name}" - it's in the Race menu`)
+    } else {
+      setMessage('Could not save the course')
+    }
+  }
+
+  const handleCourseFile = async (file: File) => {
+    const imported = parseCourseFile(await file.text())
+    if (!imported) {
+      setMessage('Not a valid course file')
+    } else if (imported.worldSeed !== course.worldSeed) {
+      setMessage(`That course is for map seed ${imported.worldSeed}`)
+    } else {
+      onChange(imported)
+      onSelectGate(null)
+      setMessage(`Loaded "${imported.name}" - save it to race it`)
+    }
+  }
+
+  return (
+    <div className="mt-3 px-1" style={{ fontSize: '10px', color: '#8b9cc7' }}>
+      <p className="mb-2" style={{ color: '#6b7a99' }}>
+        Click the map to add a gate, drag gates or the start (S) to move them.
+      </p>
+
+      {/* Name and laps */}
+      <div className="flex items-center gap-2 mb-2">
+        <input
+          value={course.name}
+          onChange={(e) => onChange({ ...course, name: e.target.value })}
+          maxLength={40}
+          className="flex-1 px-2 py-1 rounded outline-none"
+          style={{ backgroundColor: 'rgba(36, 42, 54, 0.9)', color: '#e0e6f4', fontSize: '10px' }}
+        />
+        <span>Laps</span>
+        <button
+          onClick={() => onChange({ ...course, laps: Math.max(1, course.laps - 1) })}
+          className="w-5 h-5 rounded"
+          style={buttonStyle}
+        >
+          -
+        </button>
+        <span style={{ color: '#e0e6f4' }}>{course.laps}</span>
+        <button
+          onClick={() => onChange({ ...course, laps: Math.min(MAX_COURSE_LAPS, course.laps + 1) })}
+          className="w-5 h-5 rounded"
+          style={buttonStyle}
+        >
+          +
+        </button>
+      </div>
+
+      {/* Gates in order */}
+      <div className="max-h-28 overflow-y-auto mb-2">
+        {course.gates.length === 0 && <p style={{ color: '#6b7a99' }}>No gates yet</p>}
+        {course.gates.map((gate, index) => (
+          <div
+            key={index}
+            onClick={() => onSelectGate(index)}
+            className="flex items-center gap-2 px-1 py-0.5 rounded cursor-pointer"
+            style={{ backgroundColor: selectedGate === index ? 'rgba(90, 200, 216, 0.15)' : 'transparent' }}
+          >
+            <span className="w-10" style={{ color: '#e0e6f4' }}>
+              {race.laps === 1 && index === course.gates.length - 1 ? '🏁' : `CP ${index + 1}`}
+            </span>
+            <span className="flex-1">r {gate.radius} m</span>
+            <button onClick={(e) => { e.stopPropagation(); moveGate(index, -1) }} className="w-4 h-4 rounded" style={buttonStyle}>▲</button>
+            <button onClick={(e) => { e.stopPropagation(); moveGate(index, 1) }} className="w-4 h-4 rounded" style={buttonStyle}>▼</button>
+            <button onClick={(e) => { e.stopPropagation(); removeGate(index) }} className="w-4 h-4 rounded" style={buttonStyle}>✕</button>
+          </div>
+        ))}
+      </div>
+
+      {selectedGate !== null && course.gates[selectedGate] && (
+        <div className="flex items-center gap-2 mb-2">
+          <span>Radius</span>
+          <input
+            type="range"
+            min={MIN_GATE_RADIUS}
+            max={MAX_GATE_RADIUS}
+            step={10}
+            value={course.gates[selectedGate].radius}
+            onChange={(e) => updateGate(selectedGate, parseInt(e.target.value, 10))}
+            className="flex-1"
+          />
+        </div>
+      )}
+
+      {/* Leg preview */}
+      {legs.length > 0 && (
+        <div className="mb-2">
+          {legs.map((leg, index) => (
+            <div key={index} className="flex justify-between">
+              <span>{index === 0 ? 'S' : index}→{race.laps > 1 && index === legs.length - 1 ? 'S' : index + 1}</span>
+              <span>{formatDistance(leg.length)}</span>
+              <span style={{ color: '#5ac8d8' }}>
+                {Math.round(Math.abs(leg.windAngle))}° {leg.windAngle >= 0 ? 'P' : 'S'} {pointOfSail(leg.windAngle)}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between mt-1" style={{ color: '#e0e6f4' }}>
+            <span>Total{race.laps > 1 ? ` (${race.laps} laps)` : ''}</span>
+            <span>{formatDistance(totalLength)}</span>
+          </div>
+        </div>
+      )}
+
+      {issues.map((issue) => (
+        <p key={issue} style={{ color: '#f28b82' }}>⚠ {issue}</p>
+      ))}
+
+      {/* Save and share */}
+      <div className="flex gap-1 mt-2">
+        <button onClick={handleSave} className="flex-1 py-1 rounded" style={buttonStyle}>Save</button>
+        <button onClick={() => exportCustomCourse(course)} className="flex-1 py-1 rounded" style={buttonStyle}>Export</button>
+        <button onClick={() => fileInputRef.current?.click()} className="flex-1 py-1 rounded" style={buttonStyle}>Import</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleCourseFile(file)
+            e.target.value = ''
+          }}
+        />
+      </div>
+      {message && <p className="mt-1" style={{ color: '#f0c674' }}>{message}</p>}
+
+      {/* Courses saved for this map */}
+      {savedCourses.length > 0 && (
+        <div className="mt-2">
+          <p className="mb-1">Saved on this map</p>
+          {savedCourses.map((saved) => (
+            <div key={saved.id} className="flex items-center gap-2">
+              <button
+                onClick={() => {
+                  onChange(saved)
+                  onSelectGate(null)
+                }}
+                className="flex-1 text-left truncate"
+                style={{ color: saved.id === course.id ? '#5ac8d8' : '#c4cde4' }}
+              >
+                {saved.name}
+              </button>
+              <button
+                onClick={() => {
+                  deleteCustomCourse(saved.worldSeed, saved.id)
+                  setSavedCourses(loadCustomCourses(saved.worldSeed))
+                }}
+                className="w-4 h-4 rounded"
+                style={buttonStyle}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
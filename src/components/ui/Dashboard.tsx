@@ -2,6 +2,9 @@ import { useState } from 'react'
 import { useGameStore } from '../../state/useGameStore'
 import { useYachtStore } from '../../state/useYachtStore'
 import { useWorldStore } from '../../state/useWorldStore'
+import { getBerthPosition, getMarina, getRepairCost } from '../../world/MarinaServices'
+import { DEPTH_ALARM_CLEARANCE, SHALLOW_WATER_MARGIN, TOW_FEE, getAutoDockMarina } from '../../world/Grounding'
+import { MAX_REVERSE_THROTTLE } from '../../physics/SailingPhysics'
 
 /**
  * Unified Dashboard Component - Glassmorphism Design
@@ -10,12 +13,20 @@ import { useWorldStore } from '../../state/useWorldStore'
 export function Dashboard() {
   const [isMinimized, setIsMinimized] = useState(false)
 
-  const { player, energy, battery, boatDamage, wind, setThrottle, isAutoDocking, setAutoDock, repairBoat, isBursting, burstCooldown } = useGameStore()
+  const { player, energy, battery, boatDamage, energyCredits, wind, setThrottle, isAutoDocking, setAutoDock, repairBoat, isBursting, burstCooldown, isAground, waterDepth, requestTow, forecast, weather } = useGameStore()
   const { stats, currentYacht } = useYachtStore()
   const world = useWorldStore((state) => state.world)
+  const isDocked = useWorldStore((state) => state.isDocked)
+  const dockedAt = useWorldStore((state) => state.dockedAt)
+  const dockedMarina = world ? getMarina(world.marinas, dockedAt) : null
+  const repairCost = getRepairCost(boatDamage.hullIntegrity, dockedMarina?.prices.repair)
+  const canRepair = isDocked && energyCredits >= repairCost
+  const keelClearance = waterDepth - currentYacht.hull.draft
+  const shallowAlarm = keelClearance < DEPTH_ALARM_CLEARANCE
 
-  // Get marina position for auto-dock
-  const marinaPosition = world?.marina?.position || [0, 0]
+  // Auto-dock heads for the berth of the nearest harbour the hull can reach
+  const dockMarina = world ? getAutoDockMarina(world, player.position[0], player.position[2], currentYacht.hull.draft) : null
+  const marinaPosition = dockMarina ? getBerthPosition(dockMarina) : [0, 0]
   const distToMarina = Math.sqrt(
     Math.pow(player.position[0] - marinaPosition[0], 2) +
     Math.pow(player.position[2] - marinaPosition[1], 2)
@@ -29,8 +40,11 @@ export function Dashboard() {
     }
   }
 
+  // Next change the buoy forecast shows, if any
+  const nextChange = forecast?.periods.find((period) => period.time > forecast.age && period.weather !== weather) ?? null
+
   // Calculate thrust percentage
-  const thrustPercentage = (player.throttle / 100) * Math.min(1, player.speed / stats.maxSpeed * 2)
+  const thrustPercentage = (Math.abs(player.throttle) / 100) * Math.min(1, Math.abs(player.speed) / stats.maxSpeed * 2)
 
   // Calculate compass heading (0-360)
   const heading = (((-player.rotation * 180 / Math.PI) + 180) % 360 + 360) % 360
@@ -82,24 +96,35 @@ export function Dashboard() {
             <div className="space-y-3">
               <div className="text-xs text-cyan-400 font-bold mb-2 uppercase tracking-wider">Performance</div>
 
-              {/* Speed */}
+              {/* Speed through water vs over ground */}
               <GlassCard>
                 <div className="flex justify-between items-center">
-                  <span className="text-xs text-slate-400">Speed</span>
+                  <span className="text-xs text-slate-400">STW</span>
                   <span className="text-lg font-bold text-cyan-400">{player.speed.toFixed(1)}</span>
                 </div>
-                <div className="text-[9px] text-slate-500">knots</div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-slate-400">SOG</span>
+                  <span className="text-sm font-bold text-teal-300">
+                    {player.speedOverGround.toFixed(1)}
+                    <span className="text-[9px] text-slate-500 font-normal ml-1">@ {player.courseOverGround.toFixed(0)}°</span>
+                  </span>
+                </div>
+                <div className="text-[9px] text-slate-500">
+                  knots • heel {Math.abs(player.heel).toFixed(1)}° • leeway {Math.abs(player.leeway).toFixed(1)} m/s
+                </div>
               </GlassCard>
 
               {/* Throttle */}
               <GlassCard>
                 <div className="flex justify-between items-center mb-2">
                   <span className="text-xs text-slate-400">Throttle</span>
-                  <span className="text-sm font-bold text-cyan-400">{player.throttle.toFixed(0)}%</span>
+                  <span className={`text-sm font-bold ${player.throttle < 0 ? 'text-orange-400' : 'text-cyan-400'}`}>
+                    {player.throttle < 0 ? `R ${Math.abs(player.throttle).toFixed(0)}` : player.throttle.toFixed(0)}%
+                  </span>
                 </div>
                 <input
                   type="range"
-                  min="0"
+                  min={-MAX_REVERSE_THROTTLE}
                   max="100"
                   step="5"
                   value={player.throttle}
@@ -157,6 +182,13 @@ export function Dashboard() {
                       <span className="text-cyan-400">{wind.direction.toFixed(0)}°</span>
                       <span className="text-cyan-400">{wind.speed.toFixed(1)} m/s</span>
                     </div>
+                    {forecast && (
+                      <div className="text-[9px] text-slate-400 mt-1">
+                        📡 {nextChange
+                          ? `${nextChange.weather} in ${Math.max(1, Math.round((nextChange.time - forecast.age) / 60))} min`
+                          : 'settled'}
+                      </div>
+                    )}
                   </div>
                 </div>
               </GlassCard>
@@ -246,6 +278,37 @@ export function Dashboard() {
                 )}
               </GlassCard>
 
+              {/* Depth sounder */}
+              <GlassCard highlight={shallowAlarm}>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-slate-400">Depth {shallowAlarm && '⚠️'}</span>
+                  <span className={`text-sm font-bold ${
+                    keelClearance < SHALLOW_WATER_MARGIN ? 'text-red-400' : shallowAlarm ? 'text-yellow-400' : 'text-cyan-400'
+                  }`}>
+                    {waterDepth.toFixed(waterDepth < 100 ? 1 : 0)} m
+                  </span>
+                </div>
+                <div className="text-[9px] text-slate-500">{Math.max(0, keelClearance).toFixed(1)} m under the keel</div>
+                {shallowAlarm && !isAground && (
+                  <div className="text-[9px] text-red-400 font-bold mt-1 animate-pulse">SHALLOW WATER</div>
+                )}
+              </GlassCard>
+
+              {/* Grounding */}
+              {isAground && (
+                <GlassCard highlight>
+                  <div className="text-xs text-red-400 font-bold mb-1">⚓ Aground</div>
+                  <div className="text-[9px] text-slate-400 mb-2">Reverse off into deeper water or call a tow</div>
+                  <button
+                    onClick={() => requestTow()}
+                    disabled={energyCredits < TOW_FEE}
+                    className="w-full py-1.5 rounded text-[10px] font-bold bg-orange-500/30 text-orange-300 hover:bg-orange-500/50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Call Tow ({TOW_FEE} EC)
+                  </button>
+                </GlassCard>
+              )}
+
               {/* Burst Speed */}
               {(isBursting || burstCooldown > 0) && (
                 <GlassCard highlight={isBursting}>
@@ -291,6 +354,7 @@ export function Dashboard() {
               <button
                 onClick={handleAutoDock}
                 disabled={distToMarina < 50}
+                title={dockMarina?.name}
                 className={`w-full py-2.5 rounded-lg font-bold text-xs transition-all backdrop-blur-sm ${
                   isAutoDocking
                     ? 'bg-orange-500/80 hover:bg-orange-600/80 text-white animate-pulse border border-orange-400/50'
@@ -308,21 +372,18 @@ export function Dashboard() {
                 )}
               </button>
 
-              {/* Repair */}
+              {/* Repair (marina service) */}
               {boatDamage.hullIntegrity < 100 && (
                 <button
-                  onClick={() => {
-                    const success = repairBoat()
-                    if (!success) alert('Need 20 kWh to repair!')
-                  }}
-                  disabled={battery.currentCharge < 20}
+                  onClick={() => repairBoat()}
+                  disabled={!canRepair}
                   className={`w-full py-2.5 rounded-lg font-bold text-xs transition-all backdrop-blur-sm border ${
-                    battery.currentCharge >= 20
+                    canRepair
                       ? 'bg-green-600/80 hover:bg-green-700/80 text-white border-green-400/50'
                       : 'bg-gray-600/50 text-gray-400 cursor-not-allowed border-gray-600/30'
                   }`}
                 >
-                  🔧 Repair (20 kWh)
+                  {isDocked ? `🔧 Repair (${repairCost.toFixed(1)} EC)` : '🔧 Repair at Marina'}
                 </button>
               )}
 
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useYachtStore } from '../../state/useYachtStore'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useActivityStore } from '../../state/useActivityStore'
+import { DECK_MODULES, getInstalledModules } from '../../data/deckModules'
+import { DJ_GIG_RATE, FISHING_CATCH_TIME, FISHING_MAX_SPEED } from '../../world/DeckActivities'
+
+/**
+ * Deck Module Panel
+ * Cargo contracts, fishing progress and marina gigs for the installed modules
+ */
+export function DeckModulePanel() {
+  const [isMinimized, setIsMinimized] = useState(false)
+
+  const currentYacht = useYachtStore((state) => state.currentYacht)
+  const isDocked = useWorldStore((state) => state.isDocked)
+  const contracts = useActivityStore((state) => state.contracts)
+  const activeContract = useActivityStore((state) => state.activeContract)
+  const cargoLoaded = useActivityStore((state) => state.cargoLoaded)
+  const fishing = useActivityStore((state) => state.fishing)
+  const lastEvent = useActivityStore((state) => state.lastEvent)
+  const gigEarnings = useActivityStore((state) => state.gigEarnings)
+  const acceptContract = useActivityStore((state) => state.acceptContract)
+  const abandonContract = useActivityStore((state) => state.abandonContract)
+
+  const abilities = new Set(getInstalledModules(currentYacht).map((module) => module.ability))
+  const hasCargo = abilities.has('cargo-hauling')
+  const hasFishing = abilities.has('fishing')
+  const hasGigs = abilities.has('marina-gigs')
+
+  if (!hasCargo && !hasFishing && !hasGigs) return null
+
+  if (isMinimized) {
+    return (
+      <div className="fixed top-20 left-[20rem] z-50">
+        <button
+          onClick={() => setIsMinimized(false)}
+          className="px-4 py-3 bg-slate-900/60 backdrop-blur-md border border-amber-500/30 rounded-xl text-amber-400 hover:bg-slate-800/60 transition-all shadow-lg"
+        >
+          🧰 Deck
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed top-20 left-[20rem] z-50 w-64">
+      <div className="bg-slate-900/40 backdrop-blur-md border border-amber-500/20 rounded-2xl shadow-2xl p-4 space-y-3">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-amber-400 font-bold uppercase tracking-wider">🧰 Deck Modules</div>
+          <button
+            onClick={() => setIsMinimized(true)}
+            className="px-2 py-1 text-slate-400 hover:text-white text-xs"
+          >
+            ─
+          </button>
+        </div>
+
+        {lastEvent && <div className="text-[10px] text-slate-300">{lastEvent}</div>}
+
+        {/* Cargo */}
+        {hasCargo && (
+          <ModuleCard title={`${DECK_MODULES.cargo.icon} Cargo Contracts`}>
+            {activeContract ? (
+              <>
+                <div className="text-[10px] text-slate-300">
+                  {cargoLoaded ? 'Deliver to ' : 'Collect at '}
+                  <span className="text-amber-400 font-bold">
+                    {cargoLoaded ? activeContract.toName : activeContract.fromName}
+                  </span>
+                </div>
+                <div className="text-[9px] text-slate-500 mb-2">
+                  {(activeContract.distance / 1000).toFixed(1)} km run · {activeContract.reward} EC
+                </div>
+                <ModuleButton onClick={abandonContract}>Abandon</ModuleButton>
+              </>
+            ) : (
+              <div className="space-y-1">
+                {contracts.map((contract) => (
+                  <button
+                    key={contract.id}
+                    onClick={() => acceptContract(contract.id)}
+                    className="w-full text-left p-1.5 rounded bg-slate-800/50 hover:bg-slate-700/50 transition-all"
+                  >
+                    <div className="text-[10px] text-slate-200 truncate">
+                      {contract.fromName} → {contract.toName}
+                    </div>
+                    <div className="text-[9px] text-slate-500">
+                      {(contract.distance / 1000).toFixed(1)} km · <span className="text-amber-400">{contract.reward} EC</span>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ModuleCard>
+        )}
+
+        {/* Fishing */}
+        {hasFishing && (
+          <ModuleCard title={`${DECK_MODULES.fishing.icon} Fishing`}>
+            {fishing.reefId ? (
+              <>
+                <div className="text-[10px] text-slate-300 mb-1">Lines out over the reef</div>
+                <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-amber-400 transition-all"
+                    style={{ width: `${(fishing.progress / FISHING_CATCH_TIME) * 100}%` }}
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="text-[10px] text-slate-500">
+                Slow below {FISHING_MAX_SPEED} kn near a reef to fish
+              </div>
+            )}
+          </ModuleCard>
+        )}
+
+        {/* Marina gigs */}
+        {hasGigs && (
+          <ModuleCard title={`${DECK_MODULES['dj-booth'].icon} Marina Gigs`}>
+            <div className="text-[10px] text-slate-300">
+              {isDocked ? `🎶 Playing a set · ${(DJ_GIG_RATE * 60).toFixed(0)} EC/min` : 'Dock at a marina to play'}
+            </div>
+            <div className="text-[9px] text-slate-500">Earned {gigEarnings.toFixed(1)} EC</div>
+          </ModuleCard>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Module Card Component
+function ModuleCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg p-2.5 border border-slate-700/30">
+      <div className="text-[10px] text-amber-400 font-bold uppercase tracking-wider mb-1.5">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+// Module Button Component
+function ModuleButton({ onClick, children }: { onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full py-1.5 rounded-lg font-bold text-[10px] transition-all backdrop-blur-sm border bg-slate-700/60 hover:bg-slate-600/60 text-slate-200 border-slate-500/40"
+    >
+      {children}
+    </button>
+  )
+}
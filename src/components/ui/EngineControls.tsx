@@ -1,18 +1,26 @@
 import { useGameStore } from '../../state/useGameStore'
 import { useYachtStore } from '../../state/useYachtStore'
 import { useWorldStore } from '../../state/useWorldStore'
+import { getBerthPosition, getMarina, getRepairCost } from '../../world/MarinaServices'
+import { getAutoDockMarina } from '../../world/Grounding'
 
 /**
  * Engine Controls - Shows thrust, throttle, and motor power
  * Displays real-time engine metrics and allows manual throttle control
  */
 export function EngineControls() {
-  const { player, energy, setThrottle, isAutoDocking, setAutoDock, boatDamage, repairBoat, battery } = useGameStore()
-  const { stats } = useYachtStore()
+  const { player, energy, setThrottle, isAutoDocking, setAutoDock, boatDamage, repairBoat, energyCredits } = useGameStore()
+  const { stats, currentYacht } = useYachtStore()
   const world = useWorldStore((state) => state.world)
+  const isDocked = useWorldStore((state) => state.isDocked)
+  const dockedAt = useWorldStore((state) => state.dockedAt)
+  const dockedMarina = world ? getMarina(world.marinas, dockedAt) : null
+  const repairCost = getRepairCost(boatDamage.hullIntegrity, dockedMarina?.prices.repair)
+  const canRepair = isDocked && energyCredits >= repairCost
 
-  // Get marina position for auto-dock
-  const marinaPosition = world?.marina?.position || [0, 0]
+  // Auto-dock heads for the berth of the nearest harbour the hull can reach
+  const dockMarina = world ? getAutoDockMarina(world, player.position[0], player.position[2], currentYacht.hull.draft) : null
+  const marinaPosition = dockMarina ? getBerthPosition(dockMarina) : [0, 0]
 
   // Calculate distance to marina
   const distToMarina = Math.sqrt(
@@ -211,7 +219,7 @@ export function EngineControls() {
           ) : distToMarina < 50 ? (
             <>✓ At Marina</>
           ) : (
-            <>⚓ Return to Dock ({distToMarina.toFixed(0)}m)</>
+            <>⚓ Return to {dockMarina?.name ?? 'Dock'} ({distToMarina.toFixed(0)}m)</>
           )}
         </button>
       </div>
@@ -223,17 +231,17 @@ export function EngineControls() {
             onClick={() => {
               const success = repairBoat()
               if (!success) {
-                alert('Not enough battery charge to repair! Need 20 kWh.')
+                alert(isDocked ? `Not enough credits to repair! Need ${repairCost.toFixed(1)} EC.` : 'Repairs are done at the marina.')
               }
             }}
-            disabled={battery.currentCharge < 20}
+            disabled={!canRepair}
             className={`w-full py-2 rounded-lg font-bold text-sm transition-all ${
-              battery.currentCharge >= 20
+              canRepair
                 ? 'bg-green-600 hover:bg-green-700 text-white'
                 : 'bg-gray-600 text-gray-400 cursor-not-allowed'
             }`}
           >
-            🔧 Repair Hull (20 kWh) - {boatDamage.hullIntegrity.toFixed(0)}%
+            🔧 Repair Hull ({repairCost.toFixed(1)} EC) - {boatDamage.hullIntegrity.toFixed(0)}%
           </button>
         </div>
       )}
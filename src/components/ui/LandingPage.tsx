@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react'
 import { useLandingStore, MAP_PRESETS, MAP_DESCRIPTIONS } from '../../state/useLandingStore'
 import { useWorldStore } from '../../state/useWorldStore'
+import { SAVE_SLOTS, listSaves, saveGame, loadGame, deleteSave, type SaveSlotId } from '../../state/saveGame'
 import type { MapConfig, IslandDistribution, IcebergSpread, RaceLength, WorldDifficulty } from '../../world/WorldGenerator'
 
 // ── Reusable slider component ──
@@ -127,6 +128,7 @@ export function LandingPage() {
   } = useLandingStore()
 
   const initializeWorldFromConfig = useWorldStore((s) => s.initializeWorldFromConfig)
+  const hasSession = useWorldStore((s) => s.world !== null)
 
   const [nameInput, setNameInput] = useState(playerName)
   const [activeTab, setActiveTab] = useState<ConfigTab>('terrain')
@@ -155,6 +157,27 @@ export function LandingPage() {
     }
   }, [nameInput, mapConfig, setPlayerName, initializeWorldFromConfig, startGame])
 
+  // ── Save slots ──
+  const [saves, setSaves] = useState(() => listSaves())
+
+  const handleSave = useCallback((slot: SaveSlotId) => {
+    if (!saveGame(slot)) alert('Could not save the game.')
+    setSaves(listSaves())
+  }, [])
+
+  const handleLoad = useCallback((slot: SaveSlotId) => {
+    if (loadGame(slot)) {
+      startGame()
+    } else {
+      alert('Could not load this save.')
+    }
+  }, [startGame])
+
+  const handleDelete = useCallback((slot: SaveSlotId) => {
+    deleteSave(slot)
+    setSaves(listSaves())
+  }, [])
+
   const update = useCallback(
     (partial: Partial<MapConfig>) => setMapConfig(partial),
     [setMapConfig],
@@ -214,6 +237,60 @@ export function LandingPage() {
               </div>
             </div>
 
+            {/* ── Saved Games ── */}
+            <div className="mb-6 max-w-2xl mx-auto">
+              <h2 className="text-sm font-bold text-cyan-400 mb-2">Saved Games</h2>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {SAVE_SLOTS.map((slot) => {
+                  const save = saves.find((s) => s.slot === slot)
+                  return (
+                    <div key={slot} className="p-2.5 rounded-lg border border-slate-600/60 bg-slate-800/30 flex flex-col gap-1.5">
+                      <div className="text-[11px] font-bold text-white">
+                        {slot === 'autosave' ? 'Autosave' : `Slot ${slot.split('-')[1]}`}
+                      </div>
+                      {save ? (
+                        <div className="text-[10px] text-slate-400 leading-tight">
+                          <div className="text-cyan-300/80 truncate">{save.playerName} · {save.mapName}</div>
+                          <div>{save.energyCredits.toFixed(1)} EC</div>
+                          <div>{new Date(save.savedAt).toLocaleString()}</div>
+                        </div>
+                      ) : (
+                        <div className="text-[10px] text-slate-500">Empty</div>
+                      )}
+                      <div className="flex gap-1 mt-auto">
+                        <button
+                          onClick={() => handleLoad(slot)}
+                          disabled={!save}
+                          className="flex-1 px-2 py-1 rounded text-[10px] font-semibold bg-cyan-600/80 text-white hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 transition-colors"
+                        >
+                          Load
+                        </button>
+                        {slot !== 'autosave' && (
+                          <button
+                            onClick={() => handleSave(slot)}
+                            disabled={!hasSession}
+                            title={hasSession ? 'Save the current voyage' : 'Set sail first to have something to save'}
+                            className="flex-1 px-2 py-1 rounded text-[10px] font-semibold bg-slate-700 text-cyan-300 hover:bg-slate-600 disabled:text-slate-500 transition-colors"
+                          >
+                            Save
+                          </button>
+                        )}
+                        {save && (
+                          <button
+                            onClick={() => handleDelete(slot)}
+                            className="px-2 py-1 rounded text-[10px] bg-slate-700 text-red-300 hover:bg-slate-600 transition-colors"
+                            title="Delete save"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
             {/* ── Preset Cards ── */}
             <div className="mb-6">
               <h2 className="text-lg font-bold text-cyan-400 mb-3">Select Map Preset</h2>
@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { useGameStore } from '../../state/useGameStore'
+import { useYachtStore, type EngineTier } from '../../state/useYachtStore'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useRaceStore } from '../../state/useRaceStore'
+import { useInventoryStore, getUnlockCost } from '../../state/useInventoryStore'
+import {
+  FREE_RESERVE_PERCENT,
+  getFastTravelCost,
+  getMarina,
+  getRepairCost,
+  getSellableEnergy,
+} from '../../world/MarinaServices'
+
+const ENGINE_LABELS: Record<EngineTier, string> = {
+  standard: 'Standard',
+  performance: 'Performance',
+  racing: 'Racing',
+}
+
+const BATTERY_CAPACITIES = [100, 200, 500]
+const ENGINE_TIERS: EngineTier[] = ['standard', 'performance', 'racing']
+
+/**
+ * Marina Services Panel
+ * Shown while docked: shore power, repairs, selling surplus energy and upgrades
+ * at this harbour's prices, and fast travel to the other harbours unlocked so far
+ */
+export function MarinaPanel() {
+  const [isMinimized, setIsMinimized] = useState(false)
+
+  const { battery, boatDamage, energyCredits, enduranceMode, repairBoat, sellEnergy, fastTravel } = useGameStore()
+  const { isOwned, buyUpgrade } = useInventoryStore()
+  const currentYacht = useYachtStore((state) => state.currentYacht)
+  const marinas = useWorldStore((state) => state.world?.marinas)
+  const dockedAt = useWorldStore((state) => state.dockedAt)
+  const unlockedMarinas = useWorldStore((state) => state.unlockedMarinas)
+  const isDocked = useWorldStore((state) => state.isDocked)
+  const isRacing = useRaceStore((state) => state.isRacing)
+
+  const marina = marinas ? getMarina(marinas, dockedAt) : null
+  if (!isDocked || !marinas || !marina) return null
+
+  const repairCost = getRepairCost(boatDamage.hullIntegrity, marina.prices.repair)
+  const sellable = getSellableEnergy(battery.currentCharge, battery.capacity)
+  const batteryFull = battery.currentCharge >= battery.capacity - 0.01
+  const payingForPower = battery.chargePercent >= FREE_RESERVE_PERCENT
+
+  if (isMinimized) {
+    return (
+      <div className="fixed top-20 left-4 z-50">
+        <button
+          onClick={() => setIsMinimized(false)}
+          className="px-4 py-3 bg-slate-900/60 backdrop-blur-md border border-green-500/30 rounded-xl text-green-400 hover:bg-slate-800/60 transition-all shadow-lg"
+        >
+          ⚓ {marina.name}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed top-20 left-4 z-50 w-72">
+      <div className="bg-slate-900/40 backdrop-blur-md border border-green-500/20 rounded-2xl shadow-2xl p-4 space-y-3">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-xs text-green-400 font-bold uppercase tracking-wider">⚓ {marina.name}</div>
+            <div className="text-[10px] text-slate-400">Docked · {energyCredits.toFixed(1)} EC</div>
+          </div>
+          <button
+            onClick={() => setIsMinimized(true)}
+            className="px-2 py-1 text-slate-400 hover:text-white text-xs"
+          >
+            ─
+          </button>
+        </div>
+
+        {/* Shore Power */}
+        {marina.services.includes('shore-power') && (
+          <ServiceCard title="Shore Power">
+            <div className="flex justify-between text-[10px]">
+              <span className="text-slate-500">Battery</span>
+              <span className="text-blue-400 font-bold">
+                {battery.currentCharge.toFixed(1)} / {battery.capacity} kWh
+              </span>
+            </div>
+            <div className="text-[10px] text-slate-400 mt-1">
+              {enduranceMode
+                ? '⛔ No charging during an endurance race'
+                : batteryFull
+                ? '✓ Fully charged'
+                : payingForPower && energyCredits <= 0
+                ? 'Out of credits - charging paused'
+                : `⚡ Charging at ${marina.chargeRate} kWh/s`}
+            </div>
+            <div className="text-[9px] text-slate-500 mt-1">
+              Free to {FREE_RESERVE_PERCENT}%, then {marina.prices.shorePower} EC/kWh
+            </div>
+          </ServiceCard>
+        )}
+
+        {/* Repairs */}
+        {marina.services.includes('repair') && (
+          <ServiceCard title="Repairs">
+            <div className="flex justify-between text-[10px] mb-2">
+              <span className="text-slate-500">Hull · {marina.prices.repair} EC/%</span>
+              <span className={boatDamage.hullIntegrity < 50 ? 'text-red-400 font-bold' : 'text-green-400 font-bold'}>
+                {boatDamage.hullIntegrity.toFixed(0)}%
+              </span>
+            </div>
+            <ServiceButton
+              onClick={() => repairBoat()}
+              disabled={repairCost <= 0 || energyCredits < repairCost}
+            >
+              {repairCost <= 0 ? '✓ Hull Sound' : `🔧 Repair (${repairCost.toFixed(1)} EC)`}
+            </ServiceButton>
+          </ServiceCard>
+        )}
+
+        {/* Energy Sale */}
+        {marina.services.includes('energy-sale') && (
+          <ServiceCard title="Sell Energy">
+            <div className="text-[10px] text-slate-400 mb-2">
+              {sellable.toFixed(1)} kWh surplus above the {FREE_RESERVE_PERCENT}% reserve · {marina.prices.energySale} EC/kWh
+            </div>
+            <div className="flex gap-2">
+              <ServiceButton onClick={() => sellEnergy(10)} disabled={sellable <= 0}>
+                Sell 10 kWh
+              </ServiceButton>
+              <ServiceButton onClick={() => sellEnergy(sellable)} disabled={sellable <= 0}>
+                Sell All
+              </ServiceButton>
+            </div>
+          </ServiceCard>
+        )}
+
+        {/* Upgrades */}
+        {marina.services.includes('upgrades') && (
+          <ServiceCard title="Upgrades">
+            <div className="text-[10px] text-slate-500 mb-1">Battery ({currentYacht.battery.capacity} kWh)</div>
+            <div className="grid grid-cols-3 gap-1 mb-2">
+              {BATTERY_CAPACITIES.map((capacity) => {
+                const owned = isOwned('battery', String(capacity))
+                const cost = getUnlockCost('battery', String(capacity))
+                return (
+                  <ServiceButton
+                    key={capacity}
+                    onClick={() => buyUpgrade('battery', String(capacity))}
+                    disabled={capacity === currentYacht.battery.capacity || (!owned && energyCredits < cost)}
+                  >
+                    {capacity} kWh
+                    <div className="text-[9px] font-normal opacity-80">{owned ? 'Owned' : `${cost} EC`}</div>
+                  </ServiceButton>
+                )
+              })}
+            </div>
+            <div className="text-[10px] text-slate-500 mb-1">Engine ({ENGINE_LABELS[currentYacht.engine.tier]})</div>
+            <div className="grid grid-cols-3 gap-1">
+              {ENGINE_TIERS.map((tier) => {
+                const owned = isOwned('engine', tier)
+                const cost = getUnlockCost('engine', tier)
+                return (
+                  <ServiceButton
+                    key={tier}
+                    onClick={() => buyUpgrade('engine', tier)}
+                    disabled={tier === currentYacht.engine.tier || (!owned && energyCredits < cost)}
+                  >
+                    {ENGINE_LABELS[tier]}
+                    <div className="text-[9px] font-normal opacity-80">{owned ? 'Owned' : `${cost} EC`}</div>
+                  </ServiceButton>
+                )
+              })}
+            </div>
+          </ServiceCard>
+        )}
+
+        {/* Harbour Network */}
+        {marinas.length > 1 && (
+          <ServiceCard title="Harbour Network">
+            {isRacing || enduranceMode ? (
+              <div className="text-[10px] text-slate-400">⛔ No fast travel during a race</div>
+            ) : (
+              <div className="space-y-1 max-h-40 overflow-y-auto">
+                {marinas
+                  .filter((other) => other.id !== marina.id)
+                  .map((other) => {
+                    const unlocked = unlockedMarinas.has(other.id)
+                    const cost = getFastTravelCost(marina, other)
+                    return (
+                      <div key={other.id} className="flex items-center justify-between gap-2 text-[10px]">
+                        <span className={unlocked ? 'text-slate-300' : 'text-slate-500'}>
+                          {unlocked ? other.name : `🔒 ${other.name}`}
+                        </span>
+                        <div className="w-24 shrink-0">
+                          {unlocked ? (
+                            <ServiceButton onClick={() => fastTravel(other.id)} disabled={energyCredits < cost}>
+                              Travel ({cost} EC)
+                            </ServiceButton>
+                          ) : (
+                            <div className="text-right text-[9px] text-slate-500">Visit to unlock</div>
+                          )}
+                        </div>
+                      </div>
+                    )
+                  })}
+              </div>
+            )}
+          </ServiceCard>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Service Card Component
+function ServiceCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg p-2.5 border border-slate-700/30">
+      <div className="text-[10px] text-green-400 font-bold uppercase tracking-wider mb-1.5">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+// Service Button Component
+function ServiceButton({ onClick, disabled, children }: { onClick: () => void; disabled?: boolean; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-full py-1.5 rounded-lg font-bold text-[10px] transition-all backdrop-blur-sm border ${
+        disabled
+          ? 'bg-gray-600/50 text-gray-400 cursor-not-allowed border-gray-600/30'
+          : 'bg-green-600/80 hover:bg-green-700/80 text-white border-green-400/50'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
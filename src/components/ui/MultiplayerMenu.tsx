@@ -0,0 +1,217 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useMultiplayerStore } from '../../state/useMultiplayerStore'
+import { getRaceCatalogue } from '../../world/RaceCatalogue'
+import { MAX_RACERS } from '../../multiplayer/protocol'
+import { formatTime } from './RaceUI'
+
+const phaseLabel = {
+  waiting: 'Waiting for crews',
+  countdown: 'Starting',
+  racing: 'Racing',
+  finished: 'Finished',
+}
+
+// Seconds left until the start gun, ticking while a countdown runs
+function useCountdown(endsAt: number | null) {
+  const [now, setNow] = useState(Date.now())
+
+  useEffect(() => {
+    if (endsAt === null) return
+    const interval = setInterval(() => setNow(Date.now()), 100)
+    return () => clearInterval(interval)
+  }, [endsAt])
+
+  return endsAt === null ? null : Math.max(0, Math.ceil((endsAt - now) / 1000))
+}
+
+/**
+ * Multiplayer Menu
+ * Lobby of open race rooms, hosting a course from this map, and the room itself:
+ * ready-up, countdown and the server's results
+ */
+export function MultiplayerMenu() {
+  const [open, setOpen] = useState(false)
+  const [hostRaceId, setHostRaceId] = useState('')
+
+  const status = useMultiplayerStore((state) => state.status)
+  const error = useMultiplayerStore((state) => state.error)
+  const rooms = useMultiplayerStore((state) => state.rooms)
+  const race = useMultiplayerStore((state) => state.race)
+  const phase = useMultiplayerStore((state) => state.phase)
+  const racers = useMultiplayerStore((state) => state.racers)
+  const sessionId = useMultiplayerStore((state) => state.sessionId)
+  const countdownEndsAt = useMultiplayerStore((state) => state.countdownEndsAt)
+  const { openLobby, closeLobby, createRoom, joinRoom, setReady, leaveRoom } = useMultiplayerStore()
+  const secondsToStart = useCountdown(countdownEndsAt)
+
+  // Out of the way for the race, back with the results
+  useEffect(() => {
+    if (phase === 'racing') setOpen(false)
+    if (phase === 'finished') setOpen(true)
+  }, [phase])
+
+  // Courses that can be sailed on this map (keyed on fields the ice drift doesn't replace)
+  const worldSeed = useWorldStore((state) => state.world?.seed)
+  const worldRaces = useWorldStore((state) => state.world?.races)
+  const worldIslands = useWorldStore((state) => state.world?.islands)
+  const courses = useMemo(
+    () => getRaceCatalogue(useWorldStore.getState().world).filter((entry) => entry.issues.length === 0),
+    [worldSeed, worldRaces, worldIslands]
+  )
+
+  const me = racers.find((racer) => racer.sessionId === sessionId)
+  const totalMarks = race ? race.checkpoints.length * race.laps : 0
+  const results = [...racers].sort((a, b) => {
+    if (a.finishPosition && b.finishPosition) return a.finishPosition - b.finishPosition
+    if (a.finishPosition || b.finishPosition) return a.finishPosition ? -1 : 1
+    return b.progress - a.progress
+  })
+
+  const toggle = () => {
+    if (open) {
+      setOpen(false)
+      closeLobby()
+    } else {
+      setOpen(true)
+      openLobby()
+    }
+  }
+
+  const roomPanel = (
+    <>
+      <h3 className="text-white font-bold text-sm mb-1">ONLINE RACE</h3>
+      <p className="text-violet-300 text-xs mb-1">{race?.name ?? 'Loading course...'}</p>
+      <p className="text-slate-400 text-[10px] mb-3">
+        {phaseLabel[phase]}
+        {secondsToStart !== null && phase === 'countdown' && (
+          <span className="text-yellow-400 font-bold ml-1">{secondsToStart}</span>
+        )}
+      </p>
+
+      <div className="max-h-60 overflow-y-auto mb-3 space-y-1">
+        {results.map((racer) => (
+          <div
+            key={racer.sessionId}
+            className={`flex justify-between items-center p-1.5 rounded text-[11px] ${
+              racer.sessionId === sessionId ? 'bg-violet-500/20 text-white' : 'bg-slate-800/60 text-slate-300'
+            }`}
+          >
+            <span>
+              {racer.finishPosition > 0 && <span className="text-yellow-400 font-bold mr-1">#{racer.finishPosition}</span>}
+              {racer.name}
+            </span>
+            <span className="font-mono text-[10px]">
+              {phase === 'waiting' || phase === 'countdown'
+                ? racer.ready ? <span className="text-green-400">READY</span> : <span className="text-slate-500">not ready</span>
+                : racer.finishTime > 0
+                  ? formatTime(racer.finishTime)
+                  : `${racer.progress}/${totalMarks}`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={leaveRoom}
+          className="flex-1 p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
+        >
+          Leave
+        </button>
+        {(phase === 'waiting' || phase === 'countdown') && (
+          <button
+            onClick={() => setReady(!me?.ready)}
+            className={`flex-1 p-2 text-white rounded font-bold text-xs transition-colors ${
+              me?.ready ? 'bg-yellow-600 hover:bg-yellow-500' : 'bg-green-500 hover:bg-green-400'
+            }`}
+          >
+            {me?.ready ? 'STAND DOWN' : 'READY'}
+          </button>
+        )}
+      </div>
+    </>
+  )
+
+  const lobbyPanel = (
+    <>
+      <h3 className="text-white font-bold text-sm mb-3">RACE LOBBY</h3>
+      {status === 'connecting' && <p className="text-slate-400 text-xs mb-3">Connecting...</p>}
+      {error && <p className="text-red-400 text-[10px] mb-3">⚠ {error}</p>}
+
+      <div className="max-h-48 overflow-y-auto mb-3">
+        {rooms.length === 0 && status === 'lobby' && (
+          <p className="text-slate-500 text-[10px] mb-2">No open races - host one below</p>
+        )}
+        {rooms.map((room) => (
+          <button
+            key={room.roomId}
+            onClick={() => joinRoom(room.roomId)}
+            disabled={room.metadata?.phase !== 'waiting' || room.clients >= room.maxClients}
+            className="w-full p-2 mb-2 bg-violet-500 text-white rounded font-bold text-xs hover:bg-violet-400 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+          >
+            {room.metadata?.raceName ?? 'Race'}
+            <div className="text-[10px] mt-1 font-normal opacity-80">
+              {room.clients}/{room.maxClients} sailors - {room.metadata ? phaseLabel[room.metadata.phase] : ''}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="p-2 mb-3 bg-slate-800/60 rounded">
+        <p className="text-slate-400 text-[10px] mb-2">Host a race for up to {MAX_RACERS} sailors</p>
+        <select
+          value={hostRaceId}
+          onChange={(e) => setHostRaceId(e.target.value)}
+          className="w-full p-1.5 mb-2 bg-slate-700 text-white rounded text-xs"
+        >
+          <option value="">Choose a course...</option>
+          {courses.map(({ race, source }) => (
+            <option key={race.id} value={race.id}>
+              {race.name} ({source === 'generated' ? 'this map' : 'classic'})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            const entry = courses.find((course) => course.race.id === hostRaceId)
+            if (entry) createRoom(entry.race)
+          }}
+          disabled={!hostRaceId || status === 'connecting'}
+          className="w-full p-1.5 bg-green-500 text-white rounded font-bold text-xs hover:bg-green-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          HOST RACE
+        </button>
+      </div>
+
+      <button
+        onClick={toggle}
+        className="w-full p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
+      >
+        Close
+      </button>
+    </>
+  )
+
+  return (
+    <>
+      {/* Button in nav bar */}
+      <button
+        onClick={toggle}
+        className={`px-6 py-2 rounded-lg font-medium transition-all ${
+          open || status === 'room'
+            ? 'bg-violet-500 text-white shadow-lg shadow-violet-500/30'
+            : 'bg-slate-800/90 text-slate-300 hover:bg-slate-700'
+        }`}
+      >
+        Online
+      </button>
+
+      {open && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[60] bg-gray-900/95 border-2 border-violet-500/50 rounded-lg p-4 w-80 pointer-events-auto shadow-xl">
+          {status === 'room' ? roomPanel : lobbyPanel}
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,206 @@
+import { useState } from 'react'
+import { useGameStore } from '../../state/useGameStore'
+import { useYachtStore } from '../../state/useYachtStore'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useActivityStore } from '../../state/useActivityStore'
+import { getLoadedSpeedFactor } from '../../physics/SailingPhysics'
+import type { POI } from '../../world/WorldGenerator'
+import {
+  SALVAGE_CAPACITY,
+  SALVAGE_MAX_SPEED,
+  SALVAGE_TIME,
+  SURVEY_MAX_SPEED,
+  SURVEY_TIME,
+  TRACKING_RANGE,
+  TRACKING_TIME,
+  findActivityPOI,
+  getActivityReward,
+  getWildlifePosition,
+} from '../../world/PoiActivities'
+
+const ACTIVITY_LABELS: Record<POI['type'], string> = {
+  reef: '🤿 Reef Survey',
+  wreck: '⚓ Wreck Salvage',
+  buoy: '📡 Weather Buoy',
+  wildlife: '🐋 Wildlife Tracking',
+  'research-station': '🔬 Research Station',
+}
+
+function formatTime(seconds: number) {
+  const s = Math.max(0, Math.ceil(seconds))
+  return `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`
+}
+
+// Compass bearing (same frame as the dashboard heading) from the boat to a point
+function getBearing(from: [number, number, number], to: [number, number]) {
+  const angle = Math.atan2(to[0] - from[0], to[1] - from[2])
+  return ((((-angle * 180) / Math.PI + 180) % 360) + 360) % 360
+}
+
+/**
+ * POI Activity Panel
+ * The activity at the POI alongside, wildlife being tracked, research data runs
+ * and salvage aboard
+ */
+export function PoiActivityPanel() {
+  const [isMinimized, setIsMinimized] = useState(false)
+
+  const position = useGameStore((state) => state.player.position)
+  const displacement = useYachtStore((state) => state.stats.displacement)
+  const world = useWorldStore((state) => state.world)
+  const poiCooldowns = useActivityStore((state) => state.poiCooldowns)
+  const poiActivity = useActivityStore((state) => state.poiActivity)
+  const salvageMass = useActivityStore((state) => state.salvageMass)
+  const salvageValue = useActivityStore((state) => state.salvageValue)
+  const dataRunOffer = useActivityStore((state) => state.dataRunOffer)
+  const activeDataRun = useActivityStore((state) => state.activeDataRun)
+  const dataRunTimeLeft = useActivityStore((state) => state.dataRunTimeLeft)
+  const lastEvent = useActivityStore((state) => state.lastEvent)
+  const acceptDataRun = useActivityStore((state) => state.acceptDataRun)
+  const abandonDataRun = useActivityStore((state) => state.abandonDataRun)
+
+  if (!world) return null
+
+  const nearby = findActivityPOI(world.pois, position)
+  const tracked = poiActivity?.type === 'wildlife' ? world.pois.find((poi) => poi.id === poiActivity.poiId) : undefined
+  const wildlife = tracked && poiActivity ? getWildlifePosition(tracked, poiActivity.elapsed) : null
+  const multiplier = world.mapConfig.discoveryRewardMultiplier
+
+  if (!nearby && !wildlife && salvageMass <= 0 && !activeDataRun) return null
+
+  if (isMinimized) {
+    return (
+      <div className="fixed top-20 left-[37rem] z-50">
+        <button
+          onClick={() => setIsMinimized(false)}
+          className="px-4 py-3 bg-slate-900/60 backdrop-blur-md border border-teal-500/30 rounded-xl text-teal-400 hover:bg-slate-800/60 transition-all shadow-lg"
+        >
+          🧭 POI
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed top-20 left-[37rem] z-50 w-64">
+      <div className="bg-slate-900/40 backdrop-blur-md border border-teal-500/20 rounded-2xl shadow-2xl p-4 space-y-3">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="text-xs text-teal-400 font-bold uppercase tracking-wider">🧭 Points of Interest</div>
+          <button
+            onClick={() => setIsMinimized(true)}
+            className="px-2 py-1 text-slate-400 hover:text-white text-xs"
+          >
+            ─
+          </button>
+        </div>
+
+        {lastEvent && <div className="text-[10px] text-slate-300">{lastEvent}</div>}
+
+        {/* Wildlife being tracked */}
+        {tracked && wildlife && poiActivity && (
+          <ActivityCard title={ACTIVITY_LABELS.wildlife}>
+            <div className="flex justify-between text-[10px] mb-1">
+              <span className="text-slate-500">Animals</span>
+              <span className="text-teal-300 font-bold">
+                {Math.hypot(position[0] - wildlife[0], position[2] - wildlife[1]).toFixed(0)} m · {getBearing(position, wildlife).toFixed(0)}°
+              </span>
+            </div>
+            <ProgressBar value={poiActivity.progress / TRACKING_TIME} />
+            <div className="text-[9px] text-slate-500 mt-1">Keep within {TRACKING_RANGE} m to follow them</div>
+          </ActivityCard>
+        )}
+
+        {/* Activity at the POI alongside */}
+        {nearby && nearby.id !== tracked?.id && (
+          <ActivityCard title={ACTIVITY_LABELS[nearby.type]}>
+            <div className="text-[10px] text-slate-300 mb-1">{nearby.name}</div>
+            {poiCooldowns[nearby.id] !== undefined ? (
+              <div className="text-[10px] text-slate-500">Resting · back in {formatTime(poiCooldowns[nearby.id])}</div>
+            ) : poiActivity?.poiId === nearby.id ? (
+              <ProgressBar value={poiActivity.progress / (nearby.type === 'reef' ? SURVEY_TIME : SALVAGE_TIME)} />
+            ) : (
+              <div className="text-[10px] text-slate-500">
+                {nearby.type === 'reef' && `Drift below ${SURVEY_MAX_SPEED} kn to survey · ${getActivityReward('reef', multiplier)} EC`}
+                {nearby.type === 'wreck' && (salvageMass >= SALVAGE_CAPACITY
+                  ? 'No room aboard - land the salvage at a marina'
+                  : `Hold below ${SALVAGE_MAX_SPEED} kn to salvage`)}
+                {nearby.type === 'research-station' && activeDataRun && 'Finish the data run in hand first'}
+              </div>
+            )}
+            {dataRunOffer && dataRunOffer.stationId === nearby.id && (
+              <>
+                <div className="text-[10px] text-slate-300 mt-1">
+                  Data run to <span className="text-teal-300 font-bold">{dataRunOffer.marinaName}</span>
+                </div>
+                <div className="text-[9px] text-slate-500 mb-2">
+                  {(dataRunOffer.distance / 1000).toFixed(1)} km · {formatTime(dataRunOffer.timeLimit)} · <span className="text-amber-400">{dataRunOffer.reward} EC</span>
+                </div>
+                <ActivityButton onClick={() => acceptDataRun()}>Accept</ActivityButton>
+              </>
+            )}
+          </ActivityCard>
+        )}
+
+        {/* Data run in hand */}
+        {activeDataRun && (
+          <ActivityCard title="🔬 Data Run">
+            <div className="text-[10px] text-slate-300">
+              Dock at <span className="text-teal-300 font-bold">{activeDataRun.marinaName}</span>
+            </div>
+            <div className={`text-[9px] mb-2 ${dataRunTimeLeft < 60 ? 'text-red-400' : 'text-slate-500'}`}>
+              {formatTime(dataRunTimeLeft)} left · {activeDataRun.reward} EC
+            </div>
+            <ActivityButton onClick={abandonDataRun}>Abandon</ActivityButton>
+          </ActivityCard>
+        )}
+
+        {/* Salvage aboard */}
+        {salvageMass > 0 && (
+          <ActivityCard title="📦 Salvage Aboard">
+            <div className="flex justify-between text-[10px]">
+              <span className="text-slate-500">{(salvageMass / 1000).toFixed(1)} / {SALVAGE_CAPACITY / 1000} t</span>
+              <span className="text-amber-400 font-bold">{salvageValue} EC</span>
+            </div>
+            <div className="text-[9px] text-slate-500 mt-1">
+              -{((1 - getLoadedSpeedFactor(displacement, salvageMass)) * 100).toFixed(1)}% top speed · land it at any marina
+            </div>
+          </ActivityCard>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Activity Card Component
+function ActivityCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg p-2.5 border border-slate-700/30">
+      <div className="text-[10px] text-teal-400 font-bold uppercase tracking-wider mb-1.5">{title}</div>
+      {children}
+    </div>
+  )
+}
+
+// Activity Button Component
+function ActivityButton({ onClick, children }: { onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className="w-full py-1.5 rounded-lg font-bold text-[10px] transition-all backdrop-blur-sm border bg-slate-700/60 hover:bg-slate-600/60 text-slate-200 border-slate-500/40"
+    >
+      {children}
+    </button>
+  )
+}
+
+function ProgressBar({ value }: { value: number }) {
+  return (
+    <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-teal-400 transition-all"
+        style={{ width: `${Math.min(1, value) * 100}%` }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { useRaceStore } from '../../state/useRaceStore'
+import {
+  getCheckpointSplits,
+  getTrackBounds,
+  type CollisionMark,
+  type TelemetrySample,
+} from '../../world/RaceReport'
+
+const CHART_WIDTH = 260
+const CHART_HEIGHT = 44
+const MAP_SIZE = 180
+
+function formatSplit(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const tenths = Math.floor((ms % 1000) / 100)
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${tenths}`
+}
+
+interface TelemetryChartProps {
+  label: string
+  unit: string
+  samples: TelemetrySample[]
+  collisions: CollisionMark[]
+  value: (sample: TelemetrySample) => number
+  min: number
+  max: number
+  color: string
+}
+
+// One telemetry trace over the race, with a red line at every collision
+function TelemetryChart({ label, unit, samples, collisions, value, min, max, color }: TelemetryChartProps) {
+  const duration = Math.max(1, samples[samples.length - 1]?.time ?? 1)
+  const x = (time: number) => (time / duration) * CHART_WIDTH
+  const y = (v: number) => CHART_HEIGHT - ((Math.min(max, Math.max(min, v)) - min) / (max - min)) * CHART_HEIGHT
+  const values = samples.map(value)
+  const peak = values.length > 0 ? Math.max(...values) : 0
+
+  return (
+    <div style={{ marginBottom: 6 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 10, color: '#aaa' }}>
+        <span>{label}</span>
+        <span>max {peak.toFixed(unit === 'kn' ? 1 : 0)} {unit}</span>
+      </div>
+      <svg width={CHART_WIDTH} height={CHART_HEIGHT} style={{ background: 'rgba(100, 100, 100, 0.2)', display: 'block' }}>
+        {min < 0 && <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#555" strokeDasharray="2 2" />}
+        {collisions.map((collision, index) => (
+          <line key={index} x1={x(collision.time)} x2={x(collision.time)} y1={0} y2={CHART_HEIGHT} stroke="#ff3333" />
+        ))}
+        <polyline
+          points={samples.map((sample, index) => `${x(sample.time).toFixed(1)},${y(values[index]).toFixed(1)}`).join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+        />
+      </svg>
+    </div>
+  )
+}
+
+/**
+ * Race Report - the post-race breakdown shown with the results: gate splits
+ * against the personal best, speed/throttle/battery traces, the track sailed
+ * and the prize money for the finishing place.
+ */
+export function RaceReport() {
+  const currentRace = useRaceStore((state) => state.currentRace)
+  const lapTimes = useRaceStore((state) => state.lapTimes)
+  const raceStartTime = useRaceStore((state) => state.raceStartTime)
+  const telemetry = useRaceStore((state) => state.telemetry)
+  const collisionMarks = useRaceStore((state) => state.collisionMarks)
+  const bestCheckpointTimes = useRaceStore((state) => state.bestCheckpointTimes)
+  const reward = useRaceStore((state) => state.reward)
+
+  if (!currentRace || raceStartTime === null) return null
+
+  const splits = getCheckpointSplits(currentRace, lapTimes, raceStartTime, bestCheckpointTimes)
+
+  // Track drawn the way the Nav Map draws the world, scaled to fit the course and the path sailed
+  const bounds = getTrackBounds(currentRace, telemetry)
+  const span = Math.max(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ, 1)
+  const scale = (MAP_SIZE - 16) / span
+  const mapX = (x: number) => 8 + (x - bounds.minX) * scale + ((span - (bounds.maxX - bounds.minX)) * scale) / 2
+  const mapY = (z: number) => 8 + (z - bounds.minZ) * scale + ((span - (bounds.maxZ - bounds.minZ)) * scale) / 2
+
+  return (
+    <div style={{ textAlign: 'left', fontSize: 11, width: CHART_WIDTH }}>
+      {reward !== null && (
+        <div style={{ marginBottom: 10, color: '#00ff00', fontSize: 13 }}>Prize: +{reward} EC</div>
+      )}
+
+      {/* Gate splits against the personal best */}
+      {splits.length > 0 && (
+        <div style={{ marginBottom: 10 }}>
+          <div style={{ color: '#aaa', marginBottom: 4 }}>
+            SPLITS{bestCheckpointTimes ? ' vs personal best' : ' - no personal best yet'}
+          </div>
+          <div style={{ maxHeight: 110, overflowY: 'auto' }}>
+            {splits.map((split) => (
+              <div key={split.label} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ color: '#aaa' }}>{split.label}</span>
+                <span>{formatSplit(split.time)}</span>
+                <span style={{ width: 60, textAlign: 'right', color: split.delta === null ? '#666' : split.delta <= 0 ? '#00ff00' : '#ff6666' }}>
+                  {split.delta === null ? '-' : `${split.delta <= 0 ? '-' : '+'}${(Math.abs(split.delta) / 1000).toFixed(1)}s`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Telemetry traces */}
+      {telemetry.length > 1 && (
+        <>
+          <TelemetryChart
+            label="SPEED"
+            unit="kn"
+            samples={telemetry}
+            collisions={collisionMarks}
+            value={(sample) => sample.speed}
+            min={0}
+            max={Math.max(5, ...telemetry.map((sample) => sample.speed))}
+            color="#00ccff"
+          />
+          <TelemetryChart
+            label="THROTTLE"
+            unit="%"
+            samples={telemetry}
+            collisions={collisionMarks}
+            value={(sample) => sample.throttle}
+            min={-100}
+            max={100}
+            color="#ffff00"
+          />
+          <TelemetryChart
+            label="BATTERY"
+            unit="%"
+            samples={telemetry}
+            collisions={collisionMarks}
+            value={(sample) => sample.battery}
+            min={0}
+            max={100}
+            color="#00ff00"
+          />
+        </>
+      )}
+
+      {/* Track sailed */}
+      {telemetry.length > 1 && (
+        <div style={{ marginTop: 4 }}>
+          <div style={{ color: '#aaa', marginBottom: 4 }}>TRACK</div>
+          <svg width={MAP_SIZE} height={MAP_SIZE} style={{ background: 'rgba(0, 60, 100, 0.35)', display: 'block' }}>
+            {currentRace.checkpoints.map((checkpoint, index) => (
+              <g key={checkpoint.id}>
+                <circle
+                  cx={mapX(checkpoint.position[0])}
+                  cy={mapY(checkpoint.position[1])}
+                  r={Math.max(2, checkpoint.radius * scale)}
+                  fill="none"
+                  stroke="#ff9900"
+                />
+                <text x={mapX(checkpoint.position[0]) + 4} y={mapY(checkpoint.position[1]) - 4} fill="#ff9900" fontSize={8}>
+                  {index + 1}
+                </text>
+              </g>
+            ))}
+            <polyline
+              points={telemetry.map((sample) => `${mapX(sample.x).toFixed(1)},${mapY(sample.z).toFixed(1)}`).join(' ')}
+              fill="none"
+              stroke="#00ccff"
+              strokeWidth={1.5}
+            />
+            {collisionMarks.map((collision, index) => (
+              <circle key={index} cx={mapX(collision.x)} cy={mapY(collision.z)} r={3} fill="#ff3333" />
+            ))}
+          </svg>
+          {collisionMarks.length > 0 && (
+            <div style={{ fontSize: 10, color: '#ff6666', marginTop: 2 }}>● collision</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,29 +1,110 @@
-import { useEffect, useState } from 'react'
-import { useRaceStore } from '../../state/useRaceStore'
-import { getAllRaces } from '../../data/races'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getBestLap, getPenaltyTime, getSectorTimes, useRaceStore } from '../../state/useRaceStore'
 import { useGameStore } from '../../state/useGameStore'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useLandingStore } from '../../state/useLandingStore'
+import { MAX_OPPONENTS, getRaceProgress } from '../../world/AISkipper'
+import { getRaceCatalogue } from '../../world/RaceCatalogue'
+import { getRaceModifiers, type RaceModifiers } from '../../world/RaceConditions'
+import { getEnduranceCharge, getLegEfficiency, toEnduranceRace, type LegEnergy } from '../../world/EnduranceRace'
+import { useGhostStore } from '../../state/useGhostStore'
+import { useRegattaStore } from '../../state/useRegattaStore'
+import { RaceReport } from './RaceReport'
+import { RegattaPanel, RegattaStandings } from './RegattaUI'
+import {
+  exportGhost,
+  getGhostDelta,
+  loadGhost,
+  parseGhostFile,
+  type GhostReplay,
+} from '../../state/ghostReplay'
+
+// m:ss.hh
+export function formatTime(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const hundredths = Math.floor((ms % 1000) / 10)
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}`
+}
+
+// Energy over an endurance race: harvest and consumption in kWh, distance in m
+function sumLegEnergy(legs: LegEnergy[]): LegEnergy {
+  return legs.reduce(
+    (total, leg) => ({
+      ...total,
+      harvested: total.harvested + leg.harvested,
+      used: total.used + leg.used,
+      distance: total.distance + leg.distance,
+    }),
+    { lap: 0, checkpoint: 0, harvested: 0, used: 0, distance: 0 }
+  )
+}
+
+// One line of what the race conditions change
+function describeModifiers(modifiers: RaceModifiers) {
+  return [
+    `Wind x${modifiers.windStrength}`,
+    `Shifts x${modifiers.windShifts}`,
+    `Gusts x${modifiers.gusts}`,
+    modifiers.iceDensity > 0 ? `Ice ${modifiers.iceDensity}/km` : 'No extra ice',
+    `Damage x${modifiers.damage}`,
+  ].join(' | ')
+}
 
 export function RaceMenu() {
   const isRacing = useRaceStore((state) => state.isRacing)
   const startRace = useRaceStore((state) => state.startRace)
   const difficulty = useRaceStore((state) => state.difficulty)
+  const opponentCount = useRaceStore((state) => state.opponentCount)
+  const setOpponentCount = useRaceStore((state) => state.setOpponentCount)
   const [showRaceSelect, setShowRaceSelect] = useState(false)
   const [selectedRace, setSelectedRace] = useState<string | null>(null)
+  const [showRegatta, setShowRegatta] = useState(false)
+  const [endurance, setEndurance] = useState(false)
+  const regattaName = useRegattaStore((state) => state.series?.config.name)
+  const [storedGhost, setStoredGhost] = useState<GhostReplay | null>(null)
+  const [ghostMessage, setGhostMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Generated routes for this map, the static courses and saved custom courses
+  // (keyed on fields the ice drift doesn't replace, and reloaded when the menu opens)
+  const worldSeed = useWorldStore((state) => state.world?.seed)
+  const worldRaces = useWorldStore((state) => state.world?.races)
+  const worldIslands = useWorldStore((state) => state.world?.islands)
+  const catalogue = useMemo(
+    () => getRaceCatalogue(useWorldStore.getState().world),
+    [worldSeed, worldRaces, worldIslands, showRaceSelect]
+  )
 
-  const races = getAllRaces()
+  // Endurance runs keep their own records and ghosts
+  const ghostRaceId = selectedRace && endurance ? `${selectedRace}-endurance` : selectedRace
+
+  // Best run stored for the selected race
+  useEffect(() => {
+    setStoredGhost(ghostRaceId ? loadGhost(ghostRaceId) : null)
+    setGhostMessage(null)
+  }, [ghostRaceId])
+
+  const handleGhostFile = async (file: File) => {
+    const replay = parseGhostFile(await file.text())
+    if (!replay) {
+      setGhostMessage('Not a valid ghost file')
+    } else if (replay.raceId !== ghostRaceId) {
+      setGhostMessage(`That ghost is for ${replay.raceName}`)
+    } else {
+      useGhostStore.getState().importGhost(replay)
+      setStoredGhost(replay)
+      setGhostMessage(`Loaded ${replay.playerName}'s ghost`)
+    }
+  }
 
   // Don't show if already racing
   if (isRacing) return null
 
-  const difficultyInfo = {
-    peaceful: { label: 'Peaceful', icebergs: 'Few', damage: 'Low', color: 'bg-green-500' },
-    moderate: { label: 'Moderate', icebergs: 'Medium', damage: 'Normal', color: 'bg-yellow-500' },
-    challenging: { label: 'Challenging', icebergs: 'Many', damage: 'High', color: 'bg-red-500' },
-  }
-
   // Race selection dropdown/modal
   if (showRaceSelect) {
-    const race = selectedRace ? races.find(r => r.id === selectedRace) : null
+    const race = selectedRace ? catalogue.find(entry => entry.race.id === selectedRace)?.race : null
 
     return (
       <>
@@ -37,21 +118,43 @@ export function RaceMenu() {
 
         {/* Dropdown panel */}
         <div className="absolute top-16 left-1/2 -translate-x-1/2 z-[60] bg-gray-900/95 border-2 border-orange-500/50 rounded-lg p-4 w-80 pointer-events-auto shadow-xl">
-          {!selectedRace ? (
+          {showRegatta ? (
+            <RegattaPanel
+              catalogue={catalogue}
+              onBack={() => setShowRegatta(false)}
+              onRaceStarted={() => {
+                setShowRaceSelect(false)
+                setShowRegatta(false)
+              }}
+            />
+          ) : !selectedRace ? (
             <>
               <h3 className="text-white font-bold text-sm mb-3">SELECT RACE</h3>
-              {races.map((race) => (
-                <button
-                  key={race.id}
-                  onClick={() => setSelectedRace(race.id)}
-                  className="w-full p-2 mb-2 bg-orange-500 text-white rounded font-bold text-xs hover:bg-orange-400 transition-colors"
-                >
-                  {race.name}
-                  <div className="text-[10px] mt-1 font-normal opacity-80">
-                    {race.checkpoints.length} Checkpoints - A to B
-                  </div>
-                </button>
-              ))}
+              <button
+                onClick={() => setShowRegatta(true)}
+                className="w-full p-2 mb-3 bg-slate-800 border border-orange-500/60 text-orange-300 rounded font-bold text-xs hover:bg-slate-700 transition-colors"
+              >
+                🏆 {regattaName ? `${regattaName} - standings` : 'Regatta series'}
+              </button>
+              <div className="max-h-80 overflow-y-auto">
+                {catalogue.map(({ race, source, issues }) => (
+                  <button
+                    key={race.id}
+                    onClick={() => setSelectedRace(race.id)}
+                    disabled={issues.length > 0}
+                    title={issues.join('\n')}
+                    className="w-full p-2 mb-2 bg-orange-500 text-white rounded font-bold text-xs hover:bg-orange-400 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+                  >
+                    {race.name}
+                    <div className="text-[10px] mt-1 font-normal opacity-80">
+                      {race.checkpoints.length} Checkpoints - {race.laps > 1 ? `${race.laps} lap circuit` : 'A to B'} - {source === 'generated' ? 'This map' : source === 'custom' ? 'Custom course' : 'Classic course'}
+                    </div>
+                    {issues.length > 0 && (
+                      <div className="text-[9px] mt-0.5 font-normal text-red-300">⚠ {issues[0]}</div>
+                    )}
+                  </button>
+                ))}
+              </div>
               <button
                 onClick={() => setShowRaceSelect(false)}
                 className="w-full p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
@@ -66,13 +169,87 @@ export function RaceMenu() {
               <p className="text-slate-400 text-xs mb-3">
                 Difficulty based on world: <span className="text-cyan-400 font-bold">{difficulty}</span>
               </p>
-              <p className="text-slate-500 text-[10px] mb-3">
-                {difficultyInfo[difficulty].icebergs} icebergs | {difficultyInfo[difficulty].damage} damage
-              </p>
+              {race && (
+                <p className="text-slate-500 text-[10px] mb-3">
+                  {describeModifiers(getRaceModifiers(difficulty, race.difficultyMultiplier))}
+                </p>
+              )}
+
+              {/* AI opponents */}
+              <div className="flex items-center justify-between p-2 mb-3 bg-slate-800/60 rounded">
+                <span className="text-slate-400 text-[10px]">⛵ AI opponents</span>
+                <div className="flex gap-1">
+                  {Array.from({ length: MAX_OPPONENTS + 1 }, (_, count) => (
+                    <button
+                      key={count}
+                      onClick={() => setOpponentCount(count)}
+                      className={`w-6 h-6 rounded text-[10px] font-bold transition-colors ${
+                        opponentCount === count ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                      }`}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Endurance format */}
+              {race && (
+                <button
+                  onClick={() => setEndurance(!endurance)}
+                  className={`w-full p-2 mb-3 rounded text-left text-[10px] transition-colors ${
+                    endurance ? 'bg-orange-500 text-white' : 'bg-slate-800/60 text-slate-400 hover:bg-slate-700'
+                  }`}
+                >
+                  <span className="font-bold">⚡ Endurance {endurance ? 'ON' : 'OFF'}</span>
+                  <span className="block opacity-80">
+                    Start on {getEnduranceCharge(race)} kWh with no shore power - a flat battery far from the finish is a DNF
+                  </span>
+                </button>
+              )}
+
+              {/* Ghost */}
+              <div className="p-2 mb-3 bg-slate-800/60 rounded">
+                <p className="text-slate-400 text-[10px] mb-2">
+                  {storedGhost
+                    ? <>👻 Ghost: <span className="text-cyan-400 font-bold">{storedGhost.playerName}</span> · {formatTime(storedGhost.totalTime)}</>
+                    : '👻 No ghost yet - finish a run to record one'}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => storedGhost && exportGhost(storedGhost)}
+                    disabled={!storedGhost}
+                    className="flex-1 p-1.5 bg-slate-600 text-white rounded text-[10px] hover:bg-slate-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Export Ghost
+                  </button>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex-1 p-1.5 bg-slate-600 text-white rounded text-[10px] hover:bg-slate-500 transition-colors"
+                  >
+                    Import Ghost
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleGhostFile(file)
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+                {ghostMessage && <p className="text-orange-300 text-[10px] mt-2">{ghostMessage}</p>}
+              </div>
 
               <div className="flex gap-2 mt-3">
                 <button
-                  onClick={() => setSelectedRace(null)}
+                  onClick={() => {
+                    setSelectedRace(null)
+                    setEndurance(false)
+                  }}
                   className="flex-1 p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
                 >
                   Back
@@ -80,9 +257,10 @@ export function RaceMenu() {
                 <button
                   onClick={() => {
                     if (race) {
-                      startRace(race, 'Player')
+                      startRace(endurance ? toEnduranceRace(race) : race, useLandingStore.getState().playerName)
                       setShowRaceSelect(false)
                       setSelectedRace(null)
+                      setEndurance(false)
                     }
                   }}
                   className="flex-1 p-2 bg-green-500 text-white rounded font-bold text-xs hover:bg-green-400 transition-colors"
@@ -112,57 +290,76 @@ export function RaceStatus() {
   const isRacing = useRaceStore((state) => state.isRacing)
   const currentRace = useRaceStore((state) => state.currentRace)
   const currentCheckpoint = useRaceStore((state) => state.currentCheckpoint)
+  const currentLap = useRaceStore((state) => state.currentLap)
   const lapTimes = useRaceStore((state) => state.lapTimes)
-  const finishRace = useRaceStore((state) => state.finishRace)
+  const finishTime = useRaceStore((state) => state.finishTime)
+  const falseStart = useRaceStore((state) => state.falseStart)
+  const modifiers = useRaceStore((state) => state.modifiers)
+  const conditions = useRaceStore((state) => state.conditions)
   const abandonRace = useRaceStore((state) => state.abandonRace)
   const damage = useRaceStore((state) => state.damage)
   const difficulty = useRaceStore((state) => state.difficulty)
   const raceFinished = useRaceStore((state) => state.raceFinished)
-  const passCheckpoint = useRaceStore((state) => state.passCheckpoint)
+  const legEnergy = useRaceStore((state) => state.legEnergy)
+  const dnfReason = useRaceStore((state) => state.dnfReason)
+  const battery = useGameStore((state) => state.battery)
   const nearbyCheckpoints = useGameStore((state) => state.nearbyCheckpoints)
+  const ghost = useGhostStore((state) => state.ghost)
+  const ghostFrames = useGhostStore((state) => state.ghostFrames)
+  const lastRunImproved = useGhostStore((state) => state.lastRunImproved)
 
   const [raceTime, setRaceTime] = useState(0)
-
-  // Format time helper (moved to top for use in both sections)
-  const formatTimeLocal = (ms: number) => {
-    const totalSeconds = Math.floor(ms / 1000)
-    const minutes = Math.floor(totalSeconds / 60)
-    const seconds = totalSeconds % 60
-    const hundredths = Math.floor((ms % 1000) / 10)
-    return `${minutes}:${seconds.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}`
-  }
+  const [ghostDelta, setGhostDelta] = useState<number | null>(null)
+  const [racePosition, setRacePosition] = useState<number | null>(null)
+  const opponentCount = useRaceStore((state) => state.opponents.length)
+  const results = useRaceStore((state) => state.results)
 
   useEffect(() => {
     if (!isRacing) return
 
     const interval = setInterval(() => {
-      setRaceTime(Date.now() - (lapTimes[0]?.startTime || 0))
+      const time = Date.now() - (lapTimes[0]?.startTime || 0)
+      setRaceTime(time)
+
+      const { player } = useGameStore.getState()
+      const race = useRaceStore.getState()
+
+      // Time gained or lost against the ghost where it passed this spot
+      if (ghost && time >= 0) {
+        const marksPassed = (race.currentLap - 1) * (race.currentRace?.checkpoints.length ?? 0) + race.currentCheckpoint
+        setGhostDelta(getGhostDelta(ghost, ghostFrames, player.position, time, marksPassed))
+      } else {
+        setGhostDelta(null)
+      }
+
+      // Place in the fleet: boats home already, then marks passed and distance to the next
+      if (race.currentRace && race.opponents.length > 0) {
+        const progress = getRaceProgress(race.currentRace, race.currentLap, race.currentCheckpoint, player.position[0], player.position[2])
+        const ahead = race.opponents.filter((opponent) =>
+          opponent.finishTime !== null ||
+          getRaceProgress(race.currentRace!, opponent.lap, opponent.checkpoint, opponent.position[0], opponent.position[1]) > progress
+        ).length
+        setRacePosition(ahead + 1)
+      } else {
+        setRacePosition(null)
+      }
     }, 100)
 
     return () => clearInterval(interval)
-  }, [isRacing, lapTimes])
-
-  // Auto-pass checkpoint when nearby
-  useEffect(() => {
-    if (!isRacing || !currentRace) return
-
-    const nextCheckpoint = currentRace.checkpoints[currentCheckpoint]
-    if (nextCheckpoint && nearbyCheckpoints.includes(nextCheckpoint.id)) {
-      passCheckpoint(nextCheckpoint.id)
-
-      // Check if race is complete (reached last checkpoint)
-      if (currentCheckpoint >= currentRace.checkpoints.length - 1) {
-        finishRace()
-      }
-    }
-  }, [nearbyCheckpoints, currentCheckpoint, currentRace, isRacing, passCheckpoint, finishRace])
+  }, [isRacing, lapTimes, ghost, ghostFrames])
 
   if (!currentRace) return null
 
+  const penaltyTime = getPenaltyTime(lapTimes)
+  const bestLap = getBestLap(lapTimes)
+
   // Show race results when finished
   if (raceFinished && !isRacing) {
     const totalCheckpoints = currentRace.checkpoints.length
     const passedCheckpoints = currentCheckpoint
+    const playerResult = results.find((result) => result.isPlayer)
+    const retired = dnfReason !== null || damage.hullIntegrity <= 0
+    const energyTotal = sumLegEnergy(legEnergy)
 
     return (
       <div
@@ -172,7 +369,7 @@ export function RaceStatus() {
           left: '50%',
           transform: 'translate(-50%, -50%)',
           background: 'rgba(0, 0, 0, 0.95)',
-          border: damage.hullIntegrity > 0 ? '3px solid #00ff00' : '3px solid #ff3333',
+          border: retired ? '3px solid #ff3333' : '3px solid #00ff00',
           borderRadius: 12,
           padding: 24,
           color: '#ffffff',
@@ -180,37 +377,108 @@ export function RaceStatus() {
           fontSize: 14,
           zIndex: 1000,
           minWidth: 320,
+          maxHeight: '90vh',
+          overflowY: 'auto',
           textAlign: 'center',
         }}
       >
         <div style={{ fontSize: 24, marginBottom: 16, fontWeight: 'bold' }}>
-          {damage.hullIntegrity > 0 ? 'RACE COMPLETE!' : 'HULL DESTROYED!'}
+          {dnfReason ? 'BATTERY FLAT - DNF' : damage.hullIntegrity > 0 ? 'RACE COMPLETE!' : 'HULL DESTROYED!'}
         </div>
-
-        <div style={{ marginBottom: 20, padding: 12, background: 'rgba(100, 100, 100, 0.3)', borderRadius: 8 }}>
-          <div style={{ marginBottom: 8 }}>
-            <span style={{ color: '#aaa' }}>Time: </span>
-            <span style={{ color: '#ffff00', fontSize: 18 }}>{formatTimeLocal(raceTime)}</span>
-          </div>
-          <div style={{ marginBottom: 8 }}>
-            <span style={{ color: '#aaa' }}>Checkpoints: </span>
-            <span style={{ color: '#00ff00' }}>{passedCheckpoints}/{totalCheckpoints}</span>
-          </div>
-          <div style={{ marginBottom: 8 }}>
-            <span style={{ color: '#aaa' }}>Collisions: </span>
-            <span style={{ color: damage.collisionCount > 0 ? '#ff6666' : '#00ff00' }}>
-              {damage.collisionCount}
-            </span>
-          </div>
-          <div>
-            <span style={{ color: '#aaa' }}>Hull Integrity: </span>
-            <span style={{
-              color: damage.hullIntegrity > 50 ? '#00ff00' :
-                     damage.hullIntegrity > 20 ? '#ffff00' : '#ff3333'
-            }}>
-              {damage.hullIntegrity.toFixed(0)}%
-            </span>
+        {dnfReason && <div style={{ marginBottom: 12, color: '#ff6666', fontSize: 12 }}>{dnfReason}</div>}
+
+        <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+          <div style={{ marginBottom: 20, padding: 12, background: 'rgba(100, 100, 100, 0.3)', borderRadius: 8, minWidth: 280 }}>
+            <div style={{ marginBottom: 8 }}>
+              <span style={{ color: '#aaa' }}>Time: </span>
+              <span style={{ color: '#ffff00', fontSize: 18 }}>{formatTime(finishTime ?? raceTime)}</span>
+            </div>
+            {penaltyTime > 0 && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ color: '#aaa' }}>Penalties: </span>
+                <span style={{ color: '#ff6666' }}>
+                  +{(penaltyTime / 1000).toFixed(0)}s ({lapTimes.flatMap((lap) => lap.penalties).map((penalty) => penalty.type).join(', ')})
+                </span>
+              </div>
+            )}
+            {ghost && !retired && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ color: '#aaa' }}>Ghost: </span>
+                <span style={{ color: lastRunImproved ? '#00ff00' : '#ff6666' }}>
+                  {lastRunImproved ? 'NEW BEST - ghost saved' : `${formatTime(ghost.totalTime)} to beat`}
+                </span>
+              </div>
+            )}
+            {!ghost && lastRunImproved && (
+              <div style={{ marginBottom: 8, color: '#00ff00' }}>Ghost saved for your next attempt</div>
+            )}
+            {opponentCount > 0 && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ color: '#aaa' }}>Position: </span>
+                <span style={{ color: playerResult?.position === 1 ? '#00ff00' : '#ffff00' }}>
+                  {playerResult ? `${playerResult.position}/${opponentCount + 1}` : 'DNF'}
+                </span>
+              </div>
+            )}
+            {currentRace.laps > 1 && (
+              <div style={{ marginBottom: 8 }}>
+                {lapTimes.filter((lap) => lap.duration !== null).map((lap) => (
+                  <div key={lap.lapNumber} style={{ fontSize: 12 }}>
+                    <span style={{ color: '#aaa' }}>Lap {lap.lapNumber}: </span>
+                    <span style={{ color: lap === bestLap ? '#00ff00' : '#ffffff' }}>
+                      {formatTime(lap.duration ?? 0)}{lap === bestLap && ' BEST'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {currentRace.endurance && legEnergy.length > 0 && (
+              <div style={{ marginBottom: 8, fontSize: 11 }}>
+                <div style={{ color: '#aaa', marginBottom: 4 }}>
+                  Energy: <span style={{ color: '#00ff00' }}>+{energyTotal.harvested.toFixed(2)}</span>
+                  {' / '}<span style={{ color: '#ff6666' }}>-{energyTotal.used.toFixed(2)} kWh</span>
+                </div>
+                {legEnergy.map((leg) => {
+                  const efficiency = getLegEfficiency(leg)
+                  return (
+                    <div key={`${leg.lap}-${leg.checkpoint}`} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                      <span style={{ color: '#aaa' }}>
+                        {currentRace.laps > 1 && `L${leg.lap} `}CP {leg.checkpoint + 1}
+                      </span>
+                      <span>+{leg.harvested.toFixed(2)} / -{leg.used.toFixed(2)}</span>
+                      <span style={{ color: '#ffff00' }}>{efficiency !== null ? `${efficiency.toFixed(2)} km/kWh` : '-'}</span>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            {conditions && (
+              <div style={{ marginBottom: 8 }}>
+                <span style={{ color: '#aaa' }}>Conditions: </span>
+                <span>{conditions}</span>
+              </div>
+            )}
+            <div style={{ marginBottom: 8 }}>
+              <span style={{ color: '#aaa' }}>Checkpoints: </span>
+              <span style={{ color: '#00ff00' }}>{passedCheckpoints}/{totalCheckpoints}</span>
+            </div>
+            <div style={{ marginBottom: 8 }}>
+              <span style={{ color: '#aaa' }}>Collisions: </span>
+              <span style={{ color: damage.collisionCount > 0 ? '#ff6666' : '#00ff00' }}>
+                {damage.collisionCount}
+              </span>
+            </div>
+            <div>
+              <span style={{ color: '#aaa' }}>Hull Integrity: </span>
+              <span style={{
+                color: damage.hullIntegrity > 50 ? '#00ff00' :
+                       damage.hullIntegrity > 20 ? '#ffff00' : '#ff3333'
+              }}>
+                {damage.hullIntegrity.toFixed(0)}%
+              </span>
+            </div>
           </div>
+          <RaceReport />
         </div>
 
         <button
@@ -238,6 +506,21 @@ export function RaceStatus() {
   const nextCheckpoint = currentRace.checkpoints[currentCheckpoint]
   const isNearCheckpoint = nearbyCheckpoints.includes(nextCheckpoint?.id || '')
   const isLastCheckpoint = currentCheckpoint >= currentRace.checkpoints.length - 1
+  const isFinalLap = currentLap >= currentRace.laps
+
+  // Lap clock, and the latest sector against the best of that sector on the other laps
+  const currentLapData = lapTimes[lapTimes.length - 1]
+  const completedLaps = lapTimes.filter((lap) => lap.duration !== null)
+  const lastLap = completedLaps[completedLaps.length - 1] ?? null
+  const lapElapsed = currentLapData ? raceTime - (currentLapData.startTime - lapTimes[0].startTime) : 0
+  const splitLap = currentCheckpoint > 0 ? currentLapData : lastLap
+  const splitIndex = currentCheckpoint > 0 ? currentCheckpoint - 1 : currentRace.checkpoints.length - 1
+  const split = splitLap ? getSectorTimes(splitLap, currentRace.checkpoints)[splitIndex] : null
+  const otherSplits = lapTimes
+    .filter((lap) => lap !== splitLap)
+    .map((lap) => getSectorTimes(lap, currentRace.checkpoints)[splitIndex])
+    .filter((sector): sector is number => sector !== null)
+  const splitDelta = split !== null && otherSplits.length > 0 ? split - Math.min(...otherSplits) : null
 
   // Difficulty colors
   const difficultyColors = {
@@ -303,14 +586,87 @@ export function RaceStatus() {
         )}
       </div>
 
+      <div style={{ marginBottom: 5 }}>
+        LAP: <span style={{ color: '#ffff00' }}>{currentLap}/{currentRace.laps}</span>
+        {currentRace.laps > 1 && raceTime >= 0 && (
+          <span style={{ color: '#aaa', fontSize: 11 }}> {formatTime(lapElapsed)}</span>
+        )}
+      </div>
+
       <div style={{ marginBottom: 5 }}>
         CHECKPOINT: <span style={{ color: '#ffff00' }}>{currentCheckpoint + 1}/{currentRace.checkpoints.length}</span>
       </div>
 
-      <div style={{ marginBottom: 10 }}>
-        TIME: <span style={{ color: '#ffff00' }}>{formatTimeLocal(raceTime)}</span>
+      {lastLap && (
+        <div style={{ marginBottom: 5, fontSize: 11 }}>
+          LAST: <span style={{ color: lastLap === bestLap ? '#00ff00' : '#ffff00' }}>{formatTime(lastLap.duration ?? 0)}</span>
+          {bestLap && <> | BEST: <span style={{ color: '#00ff00' }}>{formatTime(bestLap.duration ?? 0)}</span></>}
+        </div>
+      )}
+
+      {split !== null && (
+        <div style={{ marginBottom: 5, fontSize: 11 }}>
+          SECTOR {splitIndex + 1}: <span style={{ color: '#ffff00' }}>{formatTime(split)}</span>
+          {splitDelta !== null && (
+            <span style={{ color: splitDelta <= 0 ? '#00ff00' : '#ff6666' }}>
+              {' '}{splitDelta <= 0 ? '-' : '+'}{(Math.abs(splitDelta) / 1000).toFixed(2)}s
+            </span>
+          )}
+        </div>
+      )}
+
+      <div style={{ marginBottom: 5 }}>
+        {raceTime < 0 ? (
+          <>START IN: <span style={{ color: '#ffff00' }}>{Math.ceil(-raceTime / 1000)}</span></>
+        ) : (
+          <>TIME: <span style={{ color: '#ffff00' }}>{formatTime(raceTime)}</span></>
+        )}
       </div>
 
+      {raceTime < 0 && modifiers && (
+        <div style={{ marginBottom: 5, padding: 6, background: 'rgba(100, 100, 100, 0.2)', borderRadius: 4, fontSize: 10 }}>
+          <div style={{ color: difficultyColors[difficulty] }}>CONDITIONS: {conditions}</div>
+          <div style={{ color: '#aaa' }}>{describeModifiers(modifiers)}</div>
+        </div>
+      )}
+
+      {falseStart && (
+        <div style={{ marginBottom: 5, color: '#ff6666' }}>FALSE START</div>
+      )}
+
+      {currentRace.endurance && (
+        <div style={{ marginBottom: 5 }}>
+          BATTERY:{' '}
+          <span style={{ color: battery.chargePercent > 25 ? '#00ff00' : battery.chargePercent > 10 ? '#ffff00' : '#ff3333' }}>
+            {battery.currentCharge.toFixed(1)}/{currentRace.endurance.startCharge} kWh
+          </span>
+          {legEnergy.length > 0 && (
+            <div style={{ fontSize: 10, color: '#aaa' }}>
+              Leg: +{legEnergy[legEnergy.length - 1].harvested.toFixed(2)} / -{legEnergy[legEnergy.length - 1].used.toFixed(2)} kWh
+            </div>
+          )}
+        </div>
+      )}
+
+      <div style={{ marginBottom: ghostDelta !== null || racePosition !== null ? 5 : 10 }}>
+        PENALTIES: <span style={{ color: penaltyTime > 0 ? '#ff6666' : '#00ff00' }}>+{(penaltyTime / 1000).toFixed(0)}s</span>
+      </div>
+
+      {racePosition !== null && (
+        <div style={{ marginBottom: ghostDelta !== null ? 5 : 10 }}>
+          POSITION: <span style={{ color: racePosition === 1 ? '#00ff00' : '#ffff00' }}>{racePosition}/{opponentCount + 1}</span>
+        </div>
+      )}
+
+      {ghostDelta !== null && (
+        <div style={{ marginBottom: 10 }}>
+          GHOST:{' '}
+          <span style={{ color: ghostDelta <= 0 ? '#00ff00' : '#ff6666' }}>
+            {ghostDelta <= 0 ? '-' : '+'}{(Math.abs(ghostDelta) / 1000).toFixed(2)}s
+          </span>
+        </div>
+      )}
+
       {nextCheckpoint && (
         <div
           style={{
@@ -322,10 +678,12 @@ export function RaceStatus() {
           }}
         >
           <div style={{ fontSize: 12 }}>
-            {isLastCheckpoint ? 'FINISH LINE' : `NEXT: CP ${currentCheckpoint + 1}`}
+            {isLastCheckpoint
+              ? isFinalLap ? 'FINISH LINE' : `LAP LINE - LAP ${currentLap + 1} NEXT`
+              : `NEXT: CP ${currentCheckpoint + 1}`}
           </div>
           <div style={{ fontSize: 10, color: isNearCheckpoint ? '#00ff00' : '#aaa' }}>
-            {isNearCheckpoint ? '>>> APPROACHING <<<' : 'Head to checkpoint'}
+            {isNearCheckpoint ? '>>> APPROACHING <<<' : 'Sail between the buoys'}
           </div>
         </div>
       )}
@@ -351,8 +709,20 @@ export function RaceStatus() {
 
 export function Leaderboard() {
   const leaderboard = useRaceStore((state) => state.leaderboard)
+  const results = useRaceStore((state) => state.results)
+  const opponentCount = useRaceStore((state) => state.opponents.length)
+  const conditions = useRaceStore((state) => state.conditions)
+  const series = useRegattaStore((state) => state.series)
 
-  if (leaderboard.length === 0) return null
+  // During a race against AI skippers: the finishing order so far
+  const showResults = opponentCount > 0 && results.length > 0
+  // Between races of a regatta: the series standings
+  const showSeries = !showResults && series !== null && series.results.length > 0
+
+  // Times only rank against the same conditions; in a race, just those
+  const entries = conditions ? leaderboard.filter((entry) => entry.conditions === conditions) : leaderboard
+
+  if (!showResults && !showSeries && entries.length === 0) return null
 
   return (
     <div
@@ -372,17 +742,38 @@ export function Leaderboard() {
       }}
     >
       <div style={{ marginBottom: 10 }}>
-        <strong>LEADERBOARD</strong>
+        <strong>{showResults ? 'FINISHERS' : showSeries ? 'REGATTA STANDINGS' : 'LEADERBOARD'}</strong>
+        {showSeries && (
+          <div style={{ fontSize: 10, color: '#aaa' }}>
+            {series.config.name} - {series.results.length}/{series.config.races.length} races
+          </div>
+        )}
+        {!showResults && !showSeries && conditions && <div style={{ fontSize: 10, color: '#aaa' }}>{conditions}</div>}
       </div>
 
-      {leaderboard.slice(0, 5).map((entry) => (
-        <div key={entry.playerName} style={{ marginBottom: 5 }}>
-          <span style={{ color: '#ffff00' }}>{entry.rank}.</span> {entry.playerName}
-          <div style={{ fontSize: 10, color: '#aaa' }}>
-            {(entry.bestTime / 1000).toFixed(2)}s | Hits: {entry.collisions || 0}
+      {showSeries ? (
+        <RegattaStandings series={series} />
+      ) : showResults ? (
+        results.map((result) => (
+          <div key={result.name} style={{ marginBottom: 5, color: result.isPlayer ? '#00ffff' : undefined }}>
+            <span style={{ color: '#ffff00' }}>{result.position}.</span> {result.name}
+            <div style={{ fontSize: 10, color: '#aaa' }}>
+              {formatTime(result.finishTime)} | Hits: {result.collisions}
+            </div>
           </div>
-        </div>
-      ))}
+        ))
+      ) : (
+        entries.slice(0, 5).map((entry) => (
+          <div key={`${entry.playerName}-${entry.conditions}`} style={{ marginBottom: 5 }}>
+            <span style={{ color: '#ffff00' }}>{entry.rank}.</span> {entry.playerName}
+            <div style={{ fontSize: 10, color: '#aaa' }}>
+              {(entry.bestTime / 1000).toFixed(2)}s | Hits: {entry.collisions || 0}
+              {entry.bestLap !== undefined && ` | Lap: ${(entry.bestLap / 1000).toFixed(2)}s`}
+              {!conditions && ` | ${entry.conditions}`}
+            </div>
+          </div>
+        ))
+      )}
     </div>
   )
 }
@@ -0,0 +1,284 @@
+import { useState } from 'react'
+import { useRaceStore, type RaceConfig } from '../../state/useRaceStore'
+import { useWorldStore } from '../../state/useWorldStore'
+import { useLandingStore } from '../../state/useLandingStore'
+import {
+  MAX_REGATTA_RACES,
+  MIN_REGATTA_RACES,
+  getSeriesStandings,
+  isSeriesComplete,
+  useRegattaStore,
+  type RegattaSeries,
+} from '../../state/useRegattaStore'
+import { MAX_OPPONENTS } from '../../world/AISkipper'
+import type { RaceCatalogueEntry } from '../../world/RaceCatalogue'
+import {
+  DISCARD_MIN_RACES,
+  MAX_DISCARDS,
+  POINTS_SYSTEMS,
+  getPrizeTable,
+  type PointsSystemId,
+} from '../../world/RegattaScoring'
+
+const PRIZE_OPTIONS = [100, 250, 500]
+
+// Standings table: per-race points with discards in brackets, then the net score
+export function RegattaStandings({ series }: { series: RegattaSeries }) {
+  const standings = getSeriesStandings(series)
+  if (standings.length === 0) return null
+
+  return (
+    <div className="text-[10px]">
+      {standings.map((standing) => (
+        <div
+          key={standing.name}
+          className={`flex justify-between gap-2 ${standing.isPlayer ? 'text-cyan-400' : 'text-slate-300'}`}
+        >
+          <span className="truncate">
+            {standing.rank}. {standing.name}
+          </span>
+          <span className="whitespace-nowrap">
+            <span className="text-slate-500 mr-2">
+              {standing.scores
+                .map((score, index) => {
+                  const text = score === null ? '-' : String(score)
+                  return standing.discarded.includes(index) ? `(${text})` : text
+                })
+                .join(' ')}
+            </span>
+            <span className="font-bold">{standing.net}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface RegattaPanelProps {
+  catalogue: RaceCatalogueEntry[]
+  onBack: () => void
+  onRaceStarted: () => void
+}
+
+/**
+ * Regatta - set up a series of races on this map, then sail it race by race
+ * with the standings and prize money shown between races.
+ */
+export function RegattaPanel({ catalogue, onBack, onRaceStarted }: RegattaPanelProps) {
+  const series = useRegattaStore((state) => state.series)
+
+  if (series) {
+    const complete = isSeriesComplete(series)
+    const next = series.config.races[series.results.length]
+    const prizes = getPrizeTable(series.config.races.length, series.config.prizePerRace)
+
+    return (
+      <>
+        <h3 className="text-white font-bold text-sm mb-1">🏆 {series.config.name.toUpperCase()}</h3>
+        <p className="text-slate-400 text-[10px] mb-3">
+          {POINTS_SYSTEMS[series.config.pointsSystem].name} scoring
+          {series.config.discards > 0 && ` · ${series.config.discards} discard${series.config.discards > 1 ? 's' : ''}`}
+          {' · '}Prizes {prizes.join(' / ')} EC
+        </p>
+
+        <div className="p-2 mb-3 bg-slate-800/60 rounded">
+          <p className="text-slate-400 text-[10px] mb-2">
+            {complete
+              ? 'Final standings'
+              : `After ${series.results.length} of ${series.config.races.length} races`}
+          </p>
+          {series.results.length > 0
+            ? <RegattaStandings series={series} />
+            : <p className="text-slate-500 text-[10px]">No races sailed yet</p>}
+        </div>
+
+        {complete && series.payout && (
+          <p className="text-orange-300 text-xs mb-3">
+            You placed {series.payout.rank}
+            {series.payout.credits > 0 ? ` and won ${series.payout.credits} EC` : ' - no prize this time'}
+          </p>
+        )}
+
+        {!complete && next && (
+          <button
+            onClick={() => {
+              useRegattaStore.getState().startNextRace()
+              onRaceStarted()
+            }}
+            className="w-full p-2 mb-2 bg-green-500 text-white rounded font-bold text-xs hover:bg-green-400 transition-colors"
+          >
+            START RACE {series.results.length + 1}: {next.name}
+          </button>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onBack}
+            className="flex-1 p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => useRegattaStore.getState().abandonSeries()}
+            className="flex-1 p-2 bg-slate-700 text-slate-300 rounded text-xs hover:bg-slate-600 transition-colors"
+          >
+            {complete ? 'Close Series' : 'Abandon Series'}
+          </button>
+        </div>
+      </>
+    )
+  }
+
+  return <RegattaSetup catalogue={catalogue} onBack={onBack} />
+}
+
+function RegattaSetup({ catalogue, onBack }: { catalogue: RaceCatalogueEntry[]; onBack: () => void }) {
+  const opponentCount = useRaceStore((state) => state.opponentCount)
+  const [raceIds, setRaceIds] = useState<string[]>([])
+  const [pointsSystem, setPointsSystem] = useState<PointsSystemId>('low-point')
+  const [discards, setDiscards] = useState(1)
+  const [prizePerRace, setPrizePerRace] = useState(PRIZE_OPTIONS[1])
+  const [opponents, setOpponents] = useState(Math.max(1, opponentCount))
+
+  const raceable = catalogue.filter((entry) => entry.issues.length === 0)
+  const prizes = getPrizeTable(Math.max(raceIds.length, MIN_REGATTA_RACES), prizePerRace)
+
+  // Races are sailed in the order they were picked
+  const toggleRace = (id: string) => {
+    setRaceIds((ids) =>
+      ids.includes(id) ? ids.filter((other) => other !== id) : ids.length < MAX_REGATTA_RACES ? [...ids, id] : ids
+    )
+  }
+
+  const handleStart = () => {
+    const races = raceIds
+      .map((id) => raceable.find((entry) => entry.race.id === id)?.race)
+      .filter((race): race is RaceConfig => race !== undefined)
+    useRegattaStore.getState().startSeries(
+      {
+        name: `${useWorldStore.getState().world?.mapConfig.name ?? 'Open'} Regatta`,
+        worldSeed: useWorldStore.getState().world?.seed ?? null,
+        races,
+        pointsSystem,
+        discards,
+        prizePerRace,
+        opponents,
+      },
+      useLandingStore.getState().playerName
+    )
+  }
+
+  return (
+    <>
+      <h3 className="text-white font-bold text-sm mb-1">🏆 NEW REGATTA</h3>
+      <p className="text-slate-400 text-[10px] mb-2">
+        Pick {MIN_REGATTA_RACES}-{MAX_REGATTA_RACES} races in the order to sail them
+      </p>
+
+      <div className="max-h-40 overflow-y-auto mb-3">
+        {raceable.map(({ race }) => {
+          const order = raceIds.indexOf(race.id)
+          return (
+            <button
+              key={race.id}
+              onClick={() => toggleRace(race.id)}
+              className={`w-full flex items-center gap-2 p-1.5 mb-1 rounded text-[10px] text-left transition-colors ${
+                order >= 0 ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              <span className="w-4 font-bold">{order >= 0 ? order + 1 : ''}</span>
+              <span className="flex-1 truncate">{race.name}</span>
+              <span className="opacity-70">{race.laps > 1 ? `${race.laps} laps` : 'A to B'}</span>
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Scoring */}
+      <div className="p-2 mb-3 bg-slate-800/60 rounded">
+        <div className="flex gap-1 mb-1">
+          {Object.values(POINTS_SYSTEMS).map((system) => (
+            <button
+              key={system.id}
+              onClick={() => setPointsSystem(system.id)}
+              className={`flex-1 p-1 rounded text-[10px] font-bold transition-colors ${
+                pointsSystem === system.id ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              {system.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-slate-500 text-[9px] mb-2">{POINTS_SYSTEMS[pointsSystem].description}</p>
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-slate-400 text-[10px]">Discards (from race {DISCARD_MIN_RACES})</span>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_DISCARDS + 1 }, (_, count) => (
+              <button
+                key={count}
+                onClick={() => setDiscards(count)}
+                className={`w-6 h-6 rounded text-[10px] font-bold transition-colors ${
+                  discards === count ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-slate-400 text-[10px]">⛵ AI opponents</span>
+          <div className="flex gap-1">
+            {Array.from({ length: MAX_OPPONENTS }, (_, i) => i + 1).map((count) => (
+              <button
+                key={count}
+                onClick={() => setOpponents(count)}
+                className={`w-6 h-6 rounded text-[10px] font-bold transition-colors ${
+                  opponents === count ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-slate-400 text-[10px]">Prize per race</span>
+          <div className="flex gap-1">
+            {PRIZE_OPTIONS.map((amount) => (
+              <button
+                key={amount}
+                onClick={() => setPrizePerRace(amount)}
+                className={`px-1.5 h-6 rounded text-[10px] font-bold transition-colors ${
+                  prizePerRace === amount ? 'bg-orange-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                }`}
+              >
+                {amount}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-slate-500 text-[9px] mt-1">Podium prizes: {prizes.join(' / ')} EC</p>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onBack}
+          className="flex-1 p-2 bg-slate-600 text-white rounded text-xs hover:bg-slate-500 transition-colors"
+        >
+          Back
+        </button>
+        <button
+          onClick={handleStart}
+          disabled={raceIds.length < MIN_REGATTA_RACES}
+          className="flex-1 p-2 bg-green-500 text-white rounded font-bold text-xs hover:bg-green-400 transition-colors disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed"
+        >
+          CREATE SERIES
+        </button>
+      </div>
+    </>
+  )
+}
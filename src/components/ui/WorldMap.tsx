@@ -1,7 +1,61 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useWorldStore } from '../../state/useWorldStore'
 import { useGameStore } from '../../state/useGameStore'
 import { useRaceStore } from '../../state/useRaceStore'
+import { useActivityStore } from '../../state/useActivityStore'
+import { getCurrentAtPosition, getWaterDepth, type WorldData } from '../../world/WorldGenerator'
+import { getCourseGates, getStartGate } from '../../world/RaceGates'
+import { getWildlifePosition } from '../../world/PoiActivities'
+import {
+  customCourseToRaceConfig,
+  findIcebergConflicts,
+  getCourseLegs,
+  validateCourse,
+} from '../../world/RaceCatalogue'
+import { MAX_COURSE_GATES, createCustomCourse, type CustomCourse } from '../../state/customCourses'
+import { CourseEditorPanel } from './CourseEditor'
+
+const DEFAULT_GATE_RADIUS = 250
+const PICK_RADIUS = 8 // px around a gate or the start that grabs it
+const DEPTH_SAMPLE = 3 // px between depth samples on the map
+
+// Depth contours (m) and the shading below each, shallowest first
+const DEPTH_BANDS: Array<[number, string]> = [
+  [2, '#7fd6c8'],
+  [5, '#4aa9aa'],
+  [10, '#2f8494'],
+  [20, '#236a7c'],
+  [40, '#1a5064'],
+  [80, '#133c4e'],
+  [Infinity, '#0a2634'],
+]
+
+// Seabed shading for the whole map, drawn once per world
+function drawDepthLayer(world: WorldData, size: number): HTMLCanvasElement {
+  const layer = document.createElement('canvas')
+  layer.width = size
+  layer.height = size
+  const ctx = layer.getContext('2d')
+  if (!ctx) return layer
+
+  for (let y = 0; y < size; y += DEPTH_SAMPLE) {
+    for (let x = 0; x < size; x += DEPTH_SAMPLE) {
+      const [wx, wz] = canvasToWorld(world, size, x + DEPTH_SAMPLE / 2, y + DEPTH_SAMPLE / 2)
+      const depth = getWaterDepth(world, wx, wz)
+      if (depth <= 0) continue
+      const band = DEPTH_BANDS.find(([limit]) => depth < limit)
+      ctx.fillStyle = band ? band[1] : '#0a2634'
+      ctx.fillRect(x, y, DEPTH_SAMPLE, DEPTH_SAMPLE)
+    }
+  }
+  return layer
+}
+
+// Where a point on the map canvas lies in the world
+function canvasToWorld(world: WorldData, size: number, x: number, y: number): [number, number] {
+  const { min, max } = world.bounds
+  return [min[0] + (x / size) * (max[0] - min[0]), min[1] + (y / size) * (max[1] - min[1])]
+}
 
 interface WorldMapProps {
   size?: number
@@ -10,9 +64,12 @@ interface WorldMapProps {
 
 export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
   const world = useWorldStore((state) => state.world)
+  const unlockedMarinas = useWorldStore((state) => state.unlockedMarinas)
   const player = useGameStore((state) => state.player)
   const currentRace = useRaceStore((state) => state.currentRace)
   const currentCheckpoint = useRaceStore((state) => state.currentCheckpoint)
+  const poiActivity = useActivityStore((state) => state.poiActivity)
+  const windDirection = useGameStore((state) => state.wind.direction)
 
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
@@ -23,6 +80,31 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
   const [isDragging, setIsDragging] = useState(false)
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 })
 
+  // Course editor: the course being laid out (null when not editing)
+  const [editorCourse, setEditorCourse] = useState<CustomCourse | null>(null)
+  const [selectedGate, setSelectedGate] = useState<number | null>(null)
+  const editorDragRef = useRef<'start' | number | null>(null)
+
+  // Depth contour shading. Drifting ice replaces the world but never its seabed,
+  // so the shading is drawn once per seabed rather than once per world
+  const [showDepth, setShowDepth] = useState(false)
+  const bathymetry = world?.bathymetry
+  const depthLayer = useMemo(
+    () => (world && showDepth ? drawDepthLayer(world, size) : null),
+    [bathymetry, size, showDepth]
+  )
+
+  const editorRace = useMemo(() => (editorCourse ? customCourseToRaceConfig(editorCourse) : null), [editorCourse])
+  const editorLegs = useMemo(
+    () => (editorRace ? getCourseLegs(editorRace, windDirection) : []),
+    [editorRace, windDirection]
+  )
+  const editorIssues = useMemo(() => {
+    if (!editorCourse || !editorRace || !world) return []
+    if (editorCourse.gates.length === 0) return ['Add at least one gate']
+    return [...validateCourse(editorRace, world), ...findIcebergConflicts(editorRace, world.icebergs)]
+  }, [editorCourse, editorRace, world])
+
   useEffect(() => {
     if (!world || !canvasRef.current) return
 
@@ -58,6 +140,22 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
       ctx.fillRect(0, 0, size, size)
     }
 
+    // Depth contours, with coral shoals ringed
+    if (depthLayer) {
+      ctx.drawImage(depthLayer, 0, 0)
+      ctx.save()
+      ctx.strokeStyle = '#e8d8a0'
+      ctx.lineWidth = 1
+      ctx.setLineDash([2, 2])
+      world.bathymetry.shoals.forEach((shoal) => {
+        const [sx, sy] = worldToCanvas(shoal.position[0], shoal.position[1])
+        ctx.beginPath()
+        ctx.arc(sx, sy, Math.max(2, shoal.radius * scaleX), 0, Math.PI * 2)
+        ctx.stroke()
+      })
+      ctx.restore()
+    }
+
     // Draw subtle grid
     ctx.save()
     ctx.globalAlpha = 0.08
@@ -74,6 +172,48 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
     }
     ctx.restore()
 
+    // Draw ocean currents as a field of arrows
+    if (world.currents) {
+      const cells = 14
+      const cellSize = size / cells
+      ctx.save()
+      ctx.strokeStyle = '#5ac8d8'
+      ctx.fillStyle = '#5ac8d8'
+      ctx.lineWidth = 1
+      for (let i = 0; i < cells; i++) {
+        for (let j = 0; j < cells; j++) {
+          const wx = worldBounds.min[0] + (i + 0.5) * (worldWidth / cells)
+          const wz = worldBounds.min[1] + (j + 0.5) * (worldHeight / cells)
+          const [vx, vz] = getCurrentAtPosition(world.currents, wx, wz)
+          const speed = Math.sqrt(vx * vx + vz * vz)
+          if (speed < 0.05) continue
+
+          // Arrow length and opacity grow with speed (full at 2 m/s)
+          const strength = Math.min(1, speed / 2)
+          const length = cellSize * (0.25 + strength * 0.45)
+          const [cx, cy] = worldToCanvas(wx, wz)
+          const ux = vx / speed
+          const uy = vz / speed
+          const tipX = cx + ux * length / 2
+          const tipY = cy + uy * length / 2
+
+          ctx.globalAlpha = 0.2 + strength * 0.5
+          ctx.beginPath()
+          ctx.moveTo(cx - ux * length / 2, cy - uy * length / 2)
+          ctx.lineTo(tipX, tipY)
+          ctx.stroke()
+
+          ctx.beginPath()
+          ctx.moveTo(tipX, tipY)
+          ctx.lineTo(tipX - ux * 3 - uy * 2, tipY - uy * 3 + ux * 2)
+          ctx.lineTo(tipX - ux * 3 + uy * 2, tipY - uy * 3 - ux * 2)
+          ctx.closePath()
+          ctx.fill()
+        }
+      }
+      ctx.restore()
+    }
+
     // Draw islands as landmasses
     world.islands.forEach((island) => {
       const [cx, cy] = worldToCanvas(island.position[0], island.position[1])
@@ -130,31 +270,97 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
       ctx.restore()
     })
 
-    // Draw marina as anchor icon
-    const [marinaX, marinaY] = worldToCanvas(world.marina.position[0], world.marina.position[1])
-    ctx.save()
-    ctx.translate(marinaX, marinaY)
+    // Draw each harbour as an anchor icon, greyed out until it has been visited
+    world.marinas.forEach((marina) => {
+      const unlocked = unlockedMarinas.has(marina.id)
+      const [marinaX, marinaY] = worldToCanvas(marina.position[0], marina.position[1])
+      ctx.save()
+      ctx.translate(marinaX, marinaY)
 
-    // Marina circle
-    ctx.fillStyle = '#2a5a7a'
-    ctx.strokeStyle = '#4a9aba'
-    ctx.lineWidth = 2
-    ctx.beginPath()
-    ctx.arc(0, 0, 8, 0, Math.PI * 2)
-    ctx.fill()
-    ctx.stroke()
+      // Marina circle
+      ctx.fillStyle = unlocked ? '#2a5a7a' : '#3a3a3a'
+      ctx.strokeStyle = unlocked ? '#4a9aba' : '#6a6a6a'
+      ctx.lineWidth = 2
+      ctx.beginPath()
+      ctx.arc(0, 0, 8, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
 
-    // Anchor symbol
-    ctx.fillStyle = '#ffffff'
-    ctx.font = 'bold 10px Arial'
-    ctx.textAlign = 'center'
-    ctx.textBaseline = 'middle'
-    ctx.fillText('⚓', 0, 1)
+      // Anchor symbol
+      ctx.globalAlpha = unlocked ? 1 : 0.5
+      ctx.fillStyle = '#ffffff'
+      ctx.font = 'bold 10px Arial'
+      ctx.textAlign = 'center'
+      ctx.textBaseline = 'middle'
+      ctx.fillText('⚓', 0, 1)
 
-    ctx.restore()
+      ctx.restore()
+    })
+
+    // Draw the course being edited: legs, gate lines between buoys and the start line
+    if (editorRace) {
+      const gates = getCourseGates(editorRace)
+      const startGate = getStartGate(editorRace)
+
+      ctx.save()
+      ctx.strokeStyle = '#f0c674'
+      ctx.globalAlpha = 0.6
+      ctx.lineWidth = 1
+      ctx.setLineDash([4, 3])
+      ctx.beginPath()
+      editorLegs.forEach((leg) => {
+        ctx.moveTo(...worldToCanvas(leg.from[0], leg.from[1]))
+        ctx.lineTo(...worldToCanvas(leg.to[0], leg.to[1]))
+      })
+      ctx.stroke()
+      ctx.restore()
+
+      if (startGate) {
+        const [sx, sy] = worldToCanvas(startGate.center[0], startGate.center[1])
+        ctx.save()
+        ctx.strokeStyle = '#ffffff'
+        ctx.lineWidth = 2
+        ctx.beginPath()
+        ctx.moveTo(...worldToCanvas(startGate.buoys[0][0], startGate.buoys[0][1]))
+        ctx.lineTo(...worldToCanvas(startGate.buoys[1][0], startGate.buoys[1][1]))
+        ctx.stroke()
+        ctx.fillStyle = '#ffffff'
+        ctx.font = 'bold 9px Arial'
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        ctx.fillText('S', sx, sy - 9)
+        ctx.restore()
+      }
+
+      gates.forEach((gate, index) => {
+        // A circuit's finish is the start line, already drawn
+        if (editorRace.laps > 1 && index === gates.length - 1) return
+        const label = index === gates.length - 1 ? 'Finish' : `CP ${index + 1}`
+        const blocked = editorIssues.some((issue) => issue.startsWith(`${label} `))
+        const [gx, gy] = worldToCanvas(gate.center[0], gate.center[1])
+
+        ctx.save()
+        ctx.strokeStyle = blocked ? '#f28b82' : index === selectedGate ? '#5ac8d8' : '#f0c674'
+        ctx.lineWidth = index === selectedGate ? 3 : 2
+        ctx.beginPath()
+        ctx.moveTo(...worldToCanvas(gate.buoys[0][0], gate.buoys[0][1]))
+        ctx.lineTo(...worldToCanvas(gate.buoys[1][0], gate.buoys[1][1]))
+        ctx.stroke()
+        ctx.fillStyle = ctx.strokeStyle
+        ctx.beginPath()
+        ctx.arc(gx, gy, 3, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.fillStyle = '#ffffff'
+        ctx.font = 'bold 8px Arial'
+        ctx.textAlign = 'center'
+        ctx.textBaseline = 'middle'
+        ctx.fillText(editorRace.laps === 1 && index === gates.length - 1 ? '🏁' : (index + 1).toString(), gx, gy - 9)
+        ctx.restore()
+      })
+    }
 
     // Draw race checkpoints if racing - small numbered squares
-    if (currentRace) {
+    if (currentRace && !editorRace) {
       currentRace.checkpoints.forEach((checkpoint, index) => {
         const [cpx, cpy] = worldToCanvas(checkpoint.position[0], checkpoint.position[1])
         const isPassed = index < currentCheckpoint
@@ -204,6 +410,22 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
       })
     }
 
+    // Draw the wildlife being tracked
+    const tracked = poiActivity?.type === 'wildlife' ? world.pois.find((poi) => poi.id === poiActivity.poiId) : undefined
+    if (poiActivity && tracked) {
+      const [wx, wz] = getWildlifePosition(tracked, poiActivity.elapsed)
+      const [ax, ay] = worldToCanvas(wx, wz)
+      ctx.save()
+      ctx.fillStyle = '#5ad8b8'
+      ctx.strokeStyle = '#ffffff'
+      ctx.lineWidth = 1
+      ctx.beginPath()
+      ctx.arc(ax, ay, 4, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.stroke()
+      ctx.restore()
+    }
+
     // Draw player yacht - clean triangle pointing in movement direction
     const [px, py] = worldToCanvas(player.position[0], player.position[2])
 
@@ -236,7 +458,58 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
     ctx.shadowBlur = 0
     ctx.restore()
 
-  }, [world, player, size, currentRace, currentCheckpoint])
+  }, [world, unlockedMarinas, player, size, currentRace, currentCheckpoint, poiActivity, editorRace, editorLegs, editorIssues, selectedGate, depthLayer])
+
+  // Editor: grab a gate or the start under the cursor, otherwise add a gate there
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!world || !editorCourse) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const point = canvasToWorld(world, size, e.clientX - rect.left, e.clientY - rect.top)
+    const pickDistance = (PICK_RADIUS / size) * (world.bounds.max[0] - world.bounds.min[0])
+    const near = (p: [number, number]) => Math.hypot(p[0] - point[0], p[1] - point[1]) < pickDistance
+
+    const gateIndex = editorCourse.gates.findIndex((gate) => near(gate.position))
+    if (gateIndex >= 0) {
+      setSelectedGate(gateIndex)
+      editorDragRef.current = gateIndex
+      return
+    }
+    if (near(editorCourse.startPosition)) {
+      editorDragRef.current = 'start'
+      return
+    }
+
+    // New gates go after the selected one, sized like it
+    if (editorCourse.gates.length >= MAX_COURSE_GATES) return
+    const insertAt = selectedGate !== null ? selectedGate + 1 : editorCourse.gates.length
+    const radius = selectedGate !== null ? editorCourse.gates[selectedGate]?.radius ?? DEFAULT_GATE_RADIUS : DEFAULT_GATE_RADIUS
+    const gates = [...editorCourse.gates]
+    gates.splice(insertAt, 0, { position: point, radius })
+    setEditorCourse({ ...editorCourse, gates })
+    setSelectedGate(insertAt)
+    editorDragRef.current = insertAt
+  }
+
+  const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const target = editorDragRef.current
+    if (!world || !editorCourse || target === null) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const point = canvasToWorld(world, size, e.clientX - rect.left, e.clientY - rect.top)
+    if (target === 'start') {
+      setEditorCourse({ ...editorCourse, startPosition: point })
+    } else {
+      setEditorCourse({
+        ...editorCourse,
+        gates: editorCourse.gates.map((gate, i) => (i === target ? { ...gate, position: point } : gate)),
+      })
+    }
+  }
+
+  const toggleEditor = () => {
+    if (!world) return
+    setEditorCourse(editorCourse ? null : createCustomCourse(world.seed, [player.position[0], player.position[2]]))
+    setSelectedGate(null)
+  }
 
   // Drag handlers
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -305,9 +578,35 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
         >
           <div className="flex items-center gap-2">
             <span style={{ color: '#8b9cc7', fontSize: '11px', fontWeight: 500 }}>
-              Nav Map
+              {editorCourse ? 'Course Editor' : 'Nav Map'}
             </span>
           </div>
+          {isExpanded && (
+            <button
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={() => setShowDepth(!showDepth)}
+              className="ml-auto px-2 rounded transition-colors"
+              style={{
+                color: showDepth ? '#5ac8d8' : '#6b7a99',
+                fontSize: '10px',
+              }}
+            >
+              ≋ Depth
+            </button>
+          )}
+          {isExpanded && (
+            <button
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={toggleEditor}
+              className="mr-2 px-2 rounded transition-colors"
+              style={{
+                color: editorCourse ? '#5ac8d8' : '#6b7a99',
+                fontSize: '10px',
+              }}
+            >
+              {editorCourse ? 'Done' : '✎ Course'}
+            </button>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation()
@@ -337,10 +636,26 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
                 ref={canvasRef}
                 width={size}
                 height={size}
-                style={{ display: 'block' }}
+                onMouseDown={handleCanvasMouseDown}
+                onMouseMove={handleCanvasMouseMove}
+                onMouseUp={() => { editorDragRef.current = null }}
+                onMouseLeave={() => { editorDragRef.current = null }}
+                style={{ display: 'block', cursor: editorCourse ? 'crosshair' : undefined }}
               />
             </div>
 
+            {editorCourse && editorRace && (
+              <CourseEditorPanel
+                course={editorCourse}
+                race={editorRace}
+                legs={editorLegs}
+                issues={editorIssues}
+                selectedGate={selectedGate}
+                onChange={setEditorCourse}
+                onSelectGate={setSelectedGate}
+              />
+            )}
+
             {/* Legend - Leva style */}
             <div
               className="flex flex-wrap gap-4 px-1"
@@ -383,8 +698,28 @@ export function WorldMap({ size = 300, minimized = false }: WorldMapProps) {
                   className="w-2.5 h-2.5 rounded-full"
                   style={{ backgroundColor: '#2a5a7a', border: '1px solid #4a9aba' }}
                 />
-                <span>Marina</span>
+                <span>Harbour</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div
+                  className="w-2.5 h-2.5 rounded-full"
+                  style={{ backgroundColor: '#3a3a3a', border: '1px solid #6a6a6a' }}
+                />
+                <span>Unvisited</span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <span style={{ color: '#5ac8d8' }}>→</span>
+                <span>Current</span>
               </div>
+              {showDepth && (
+                <div className="flex items-center gap-1.5">
+                  <div
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ border: '1px dashed #e8d8a0' }}
+                  />
+                  <span>Shoal</span>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,110 @@
+import type { HullConfig, YachtConfig } from '../state/useYachtStore';
+
+// Deck module ids, as stored in YachtConfig.deckModules
+export type DeckModuleId = 'dj-booth' | 'cargo' | 'fishing' | 'solar-canopy';
+
+export type DeckModuleAbility = 'marina-gigs' | 'cargo-hauling' | 'fishing' | 'shade-solar';
+
+export interface DeckModuleDefinition {
+  id: DeckModuleId;
+  name: string;
+  icon: string;
+  description: string;
+  mass: number;       // kg added to displacement
+  powerDraw: number;  // kW while installed
+  footprint: number;  // m² of deck space taken from solar panels and other modules
+  ability: DeckModuleAbility;
+}
+
+export const DECK_MODULES: Record<DeckModuleId, DeckModuleDefinition> = {
+  'dj-booth': {
+    id: 'dj-booth',
+    name: 'DJ Booth',
+    icon: '🎧',
+    description: 'Play sets for the marina crowd and earn credits while docked',
+    mass: 250,
+    powerDraw: 1.2,
+    footprint: 4,
+    ability: 'marina-gigs',
+  },
+  'cargo': {
+    id: 'cargo',
+    name: 'Cargo Hold',
+    icon: '📦',
+    description: 'Haul contracts between points of interest',
+    mass: 400,
+    powerDraw: 0.1,
+    footprint: 6,
+    ability: 'cargo-hauling',
+  },
+  'fishing': {
+    id: 'fishing',
+    name: 'Fishing Rig',
+    icon: '🎣',
+    description: 'Fish slowly over reefs and sell the catch for credits',
+    mass: 150,
+    powerDraw: 0.2,
+    footprint: 3,
+    ability: 'fishing',
+  },
+  'solar-canopy': {
+    id: 'solar-canopy',
+    name: 'Solar Canopy',
+    icon: '☀️',
+    description: 'Raised panels over the cockpit add solar area and shade',
+    mass: 120,
+    powerDraw: 0.3, // canopy motor/AC
+    footprint: 0,   // mounted above the deck
+    ability: 'shade-solar',
+  },
+};
+
+// Modules placed on the deck itself (the canopy is toggled with the solar settings)
+export const DECK_MOUNTED_MODULES: DeckModuleId[] = ['dj-booth', 'cargo', 'fishing'];
+
+// Canopy panel area as a fraction of the hull's length × beam
+export const CANOPY_AREA_FACTOR = 0.3;
+
+export function isDeckModuleId(id: string): id is DeckModuleId {
+  return id in DECK_MODULES;
+}
+
+// Usable deck area (m²), shared by solar panels and modules
+export function getDeckSpace(hull: HullConfig): number {
+  return hull.length * hull.beam * 0.6; // 60% of deck usable
+}
+
+export function getCanopyArea(hull: HullConfig): number {
+  return hull.length * hull.beam * CANOPY_AREA_FACTOR;
+}
+
+// Every installed module, including the canopy when enabled
+export function getInstalledModules(yacht: Pick<YachtConfig, 'deckModules' | 'solar'>): DeckModuleDefinition[] {
+  const modules = yacht.deckModules.filter(isDeckModuleId).map((id) => DECK_MODULES[id]);
+  if (yacht.solar.canopyEnabled && !yacht.deckModules.includes('solar-canopy')) {
+    modules.push(DECK_MODULES['solar-canopy']);
+  }
+  return modules;
+}
+
+export function hasModuleAbility(yacht: Pick<YachtConfig, 'deckModules' | 'solar'>, ability: DeckModuleAbility): boolean {
+  return getInstalledModules(yacht).some((module) => module.ability === ability);
+}
+
+export function getModuleFootprint(deckModules: string[]): number {
+  return deckModules.filter(isDeckModuleId).reduce((sum, id) => sum + DECK_MODULES[id].footprint, 0);
+}
+
+export function getModuleMass(yacht: Pick<YachtConfig, 'deckModules' | 'solar'>): number {
+  return getInstalledModules(yacht).reduce((sum, module) => sum + module.mass, 0);
+}
+
+export function getModulePowerDraw(yacht: Pick<YachtConfig, 'deckModules' | 'solar'>): number {
+  return getInstalledModules(yacht).reduce((sum, module) => sum + module.powerDraw, 0);
+}
+
+// Whether a module still fits in the deck space left by the others
+export function canFitModule(yacht: Pick<YachtConfig, 'deckModules' | 'hull'>, id: DeckModuleId): boolean {
+  if (yacht.deckModules.includes(id)) return true;
+  return getModuleFootprint(yacht.deckModules) + DECK_MODULES[id].footprint <= getDeckSpace(yacht.hull);
+}
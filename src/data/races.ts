@@ -1,12 +1,17 @@
 import { RaceConfig } from '../state/useRaceStore';
+import { startFinishCheckpoint } from '../world/RaceGates';
 
-// All races are A-to-B format (1 lap) for MVP
+// Circuits close each lap on their start/finish line; the rest are A-to-B (1 lap).
+// Circuits that used to be sailed once have new ids, so ghosts and leaderboard
+// times from the single-lap courses don't rank against the multi-lap ones.
 export const RACE_CONFIGS: Record<string, RaceConfig> = {
-  'bay-circuit': {
-    id: 'bay-circuit',
+  'bay-circuit-laps': {
+    id: 'bay-circuit-laps',
     name: 'Bay Circuit',
-    laps: 1, // MVP: A-to-B format
+    laps: 3,
     difficultyMultiplier: 1.0,
+    startPosition: [0, 1500],
+    startHeading: Math.PI / 2, // east, towards the first mark
     checkpoints: [
       {
         id: 'bay-cp-1',
@@ -32,13 +37,16 @@ export const RACE_CONFIGS: Record<string, RaceConfig> = {
         radius: 300,
         order: 4,
       },
+      { ...startFinishCheckpoint('bay-finish', [0, 1500], Math.PI / 2), order: 5 },
     ],
   },
-  'island-hopper': {
-    id: 'island-hopper',
+  'island-hopper-laps': {
+    id: 'island-hopper-laps',
     name: 'Island Hopper',
-    laps: 1, // MVP: A-to-B format
+    laps: 2,
     difficultyMultiplier: 1.3,
+    startPosition: [1500, -866],
+    startHeading: Math.PI / 6, // along the leg from the last mark to the first
     checkpoints: [
       {
         id: 'island-cp-1',
@@ -76,6 +84,7 @@ export const RACE_CONFIGS: Record<string, RaceConfig> = {
         radius: 250,
         order: 6,
       },
+      { ...startFinishCheckpoint('island-finish', [1500, -866], Math.PI / 6), order: 7 },
     ],
   },
   'open-ocean': {
@@ -214,9 +214,9 @@ export function getPresetsByCategory(category: BladePreset['category']): BladePr
   return BLADE_PRESETS.filter((p) => p.category === category)
 }
 
-// Get unlocked presets based on player's energy credits
-export function getUnlockedPresets(energyCredits: number): BladePreset[] {
-  return BLADE_PRESETS.filter((p) => p.unlockCost <= energyCredits)
+// Get presets the player can use: free ones plus those unlocked in the inventory
+export function getUnlockedPresets(ownedIds: string[]): BladePreset[] {
+  return BLADE_PRESETS.filter((p) => p.unlockCost === 0 || ownedIds.includes(p.id))
 }
 
 // Get preset by ID
@@ -11,7 +11,8 @@ import {
   HullGridEditorState,
   ProceduralHullConfig,
 } from './HullTypes'
-import { HULL_CATEGORIES, getPresetsByCategory } from './HullPresets'
+import { HULL_CATEGORIES, getPresetsByCategory, getUnlockedPresets } from './HullPresets'
+import { useInventoryStore, promptUnlock } from '@/state/useInventoryStore'
 import type { HullPreset } from './HullPresets'
 
 interface HullGridEditorProps {
@@ -594,6 +595,7 @@ export function HullGridEditor({ config, onConfigChange, size = 400 }: HullGridE
 
   // Load preset
   const loadPreset = (preset: HullPreset) => {
+    if (!unlockedIds.has(preset.id) && !promptUnlock('hull-preset', preset.id, preset.name)) return
     if (preset.config) {
       // Save current config before loading preset (allows reset)
       if (!savedConfig) {
@@ -610,6 +612,12 @@ export function HullGridEditor({ config, onConfigChange, size = 400 }: HullGridE
     [selectedPresetCategory]
   )
 
+  const ownedPresets = useInventoryStore((state) => state.owned['hull-preset'])
+  const unlockedIds = useMemo(
+    () => new Set(getUnlockedPresets(ownedPresets).map(p => p.id)),
+    [ownedPresets]
+  )
+
   return (
     <div className="flex flex-col gap-3">
       {/* View selector */}
@@ -806,7 +814,7 @@ export function HullGridEditor({ config, onConfigChange, size = 400 }: HullGridE
                     <span className="text-[8px] text-green-400">⚖️{preset.performanceRating.stability}</span>
                     <span className="text-[8px] text-yellow-400">⛽{preset.performanceRating.efficiency}</span>
                   </div>
-                  {preset.unlockCost > 0 && (
+                  {!unlockedIds.has(preset.id) && (
                     <div className="text-[8px] text-amber-400 mt-0.5">🔒 {preset.unlockCost} EC</div>
                   )}
                 </button>
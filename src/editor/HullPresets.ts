@@ -846,6 +846,11 @@ export function getPresetById(id: string): HullPreset | undefined {
   return HULL_PRESETS.find(p => p.id === id)
 }
 
+// Get presets the player can use: free ones plus those unlocked in the inventory
+export function getUnlockedPresets(ownedIds: string[]): HullPreset[] {
+  return HULL_PRESETS.filter(p => p.unlockCost === 0 || ownedIds.includes(p.id))
+}
+
 // Create a new config from preset
 export function createConfigFromPreset(preset: HullPreset): ProceduralHullConfig {
   return {
@@ -1,4 +1,4 @@
-import { useRef, useState, useCallback, useEffect } from 'react'
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react'
 import { BladePoint } from '@/state/useYachtStore'
 import {
   interpolateSpline,
@@ -7,7 +7,8 @@ import {
   normalizePoints,
   denormalizePoints,
 } from './SplineUtils'
-import { BLADE_PRESETS, BladePreset } from './BladePresets'
+import { BLADE_PRESETS, BladePreset, getUnlockedPresets } from './BladePresets'
+import { useInventoryStore, promptUnlock } from '@/state/useInventoryStore'
 
 interface KaleidoscopeCanvasProps {
   bladeCount: number
@@ -29,6 +30,12 @@ export function KaleidoscopeCanvas({
   )
   const [selectedPreset, setSelectedPreset] = useState<string | null>(null)
 
+  const ownedPresets = useInventoryStore((state) => state.owned['blade-preset'])
+  const unlockedIds = useMemo(
+    () => new Set(getUnlockedPresets(ownedPresets).map((p) => p.id)),
+    [ownedPresets]
+  )
+
   const center = size / 2
 
   // Draw the canvas
@@ -169,6 +176,7 @@ export function KaleidoscopeCanvas({
 
   // Load a preset
   const loadPreset = (preset: BladePreset) => {
+    if (!unlockedIds.has(preset.id) && !promptUnlock('blade-preset', preset.id, preset.name)) return
     const denormalized = denormalizePoints(preset.points, size)
     setCurrentPath(denormalized)
     setSelectedPreset(preset.id)
@@ -234,8 +242,11 @@ export function KaleidoscopeCanvas({
               }`}
               title={preset.description}
             >
-              <span className="text-lg">{preset.icon}</span>
+              <span className="text-lg">{unlockedIds.has(preset.id) ? preset.icon : '🔒'}</span>
               <span className="block text-[10px] truncate">{preset.name}</span>
+              {!unlockedIds.has(preset.id) && (
+                <span className="block text-[8px] text-amber-400">{preset.unlockCost} EC</span>
+              )}
             </button>
           ))}
         </div>
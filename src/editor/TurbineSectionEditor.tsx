@@ -15,10 +15,12 @@ import {
 import {
   TURBINE_CATEGORIES,
   getTurbinePresetsByCategory,
+  getUnlockedTurbinePresets,
   BLADE_STYLE_INFO,
   AIRFOIL_INFO,
 } from './TurbineShapeLibrary'
 import type { TurbinePreset } from './TurbineShapeLibrary'
+import { useInventoryStore, promptUnlock } from '@/state/useInventoryStore'
 
 interface TurbineSectionEditorProps {
   config: ProceduralTurbineConfig
@@ -296,6 +298,7 @@ export function TurbineSectionEditor({ config, onConfigChange, size = 350 }: Tur
 
   // Load preset
   const loadPreset = (preset: TurbinePreset) => {
+    if (!unlockedIds.has(preset.id) && !promptUnlock('turbine-preset', preset.id, preset.name)) return
     if (preset.config) {
       onConfigChange(preset.config)
     }
@@ -307,6 +310,12 @@ export function TurbineSectionEditor({ config, onConfigChange, size = 350 }: Tur
     [selectedPresetCategory]
   )
 
+  const ownedPresets = useInventoryStore((state) => state.owned['turbine-preset'])
+  const unlockedIds = useMemo(
+    () => new Set(getUnlockedTurbinePresets(ownedPresets).map(p => p.id)),
+    [ownedPresets]
+  )
+
   // Compact slider component
   const Slider = ({ label, value, min, max, step, unit = '', onChange }: {
     label: string
@@ -510,7 +519,7 @@ export function TurbineSectionEditor({ config, onConfigChange, size = 350 }: Tur
                     <span className="text-[7px] text-cyan-400">🎯{preset.performanceRating.efficiency}</span>
                     <span className="text-[7px] text-yellow-400">🔊{10 - preset.performanceRating.noise}</span>
                   </div>
-                  {preset.unlockCost > 0 && (
+                  {!unlockedIds.has(preset.id) && (
                     <div className="text-[7px] text-amber-400 mt-0.5">🔒 {preset.unlockCost} EC</div>
                   )}
                 </button>
@@ -644,6 +644,11 @@ export function getTurbinePresetById(id: string): TurbinePreset | undefined {
   return TURBINE_PRESETS.find(p => p.id === id)
 }
 
+// Get presets the player can use: free ones plus those unlocked in the inventory
+export function getUnlockedTurbinePresets(ownedIds: string[]): TurbinePreset[] {
+  return TURBINE_PRESETS.filter(p => p.unlockCost === 0 || ownedIds.includes(p.id))
+}
+
 // Create a new config from preset
 export function createTurbineConfigFromPreset(preset: TurbinePreset): ProceduralTurbineConfig {
   return {
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react'
+import { useWorldStore } from '../state/useWorldStore'
+import { useRaceStore } from '../state/useRaceStore'
+import { useRegattaStore } from '../state/useRegattaStore'
+import { saveGame } from '../state/saveGame'
+
+/**
+ * Hook to autosave progress:
+ * - On tying up at a marina
+ * - When a race finishes
+ * - When a regatta race is scored
+ */
+export function useAutosave() {
+  const isDocked = useWorldStore((state) => state.isDocked)
+  const raceFinished = useRaceStore((state) => state.raceFinished)
+  const regattaRaces = useRegattaStore((state) => state.series?.results.length ?? 0)
+
+  const wasDockedRef = useRef(isDocked)
+  const wasFinishedRef = useRef(raceFinished)
+  const regattaRacesRef = useRef(regattaRaces)
+
+  useEffect(() => {
+    if (isDocked && !wasDockedRef.current) {
+      saveGame('autosave')
+    }
+    wasDockedRef.current = isDocked
+  }, [isDocked])
+
+  useEffect(() => {
+    if (raceFinished && !wasFinishedRef.current) {
+      saveGame('autosave')
+    }
+    wasFinishedRef.current = raceFinished
+  }, [raceFinished])
+
+  useEffect(() => {
+    if (regattaRaces > regattaRacesRef.current) {
+      saveGame('autosave')
+    }
+    regattaRacesRef.current = regattaRaces
+  }, [regattaRaces])
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react'
+import { useGameStore } from '../state/useGameStore'
+import { useWorldStore } from '../state/useWorldStore'
+import { useActivityStore } from '../state/useActivityStore'
+
+const STEP_INTERVAL = 500 // ms between activity updates
+
+/**
+ * Hook to run deck module abilities and POI activities while sailing:
+ * - Offer cargo contracts between POIs for the current world
+ * - Load and deliver cargo, fish over reefs, play marina gigs
+ * - Survey reefs, salvage wrecks, read buoys, track wildlife and run research data
+ */
+export function useDeckActivities() {
+  const gameMode = useGameStore((state) => state.gameMode)
+  const worldSeed = useWorldStore((state) => state.world?.seed)
+  const initActivities = useActivityStore((state) => state.initActivities)
+  const step = useActivityStore((state) => state.step)
+  const stepPOIs = useActivityStore((state) => state.stepPOIs)
+
+  // New world, new contract board (a loaded save sets its own up first)
+  useEffect(() => {
+    if (worldSeed === undefined || useActivityStore.getState().seed === worldSeed) return
+    initActivities(worldSeed)
+  }, [worldSeed, initActivities])
+
+  useEffect(() => {
+    if (gameMode === 'build' || worldSeed === undefined) return
+
+    const interval = setInterval(() => {
+      step(STEP_INTERVAL / 1000)
+      stepPOIs(STEP_INTERVAL / 1000)
+    }, STEP_INTERVAL)
+    return () => clearInterval(interval)
+  }, [gameMode, worldSeed, step, stepPOIs])
+}
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react'
+import { useGameStore } from '../state/useGameStore'
+import { useRaceStore } from '../state/useRaceStore'
+import { useYachtStore } from '../state/useYachtStore'
+import { useLandingStore } from '../state/useLandingStore'
+import { useGhostStore } from '../state/useGhostStore'
+import { GHOST_SAMPLE_RATE } from '../state/ghostReplay'
+
+/**
+ * Hook to record ghost replays:
+ * - Load the stored ghost and start recording when a race starts
+ * - Sample the player at a fixed rate while racing
+ * - Keep the run as the race's ghost if it finished faster
+ */
+export function useGhostRecorder() {
+  const isRacing = useRaceStore((state) => state.isRacing)
+  const raceFinished = useRaceStore((state) => state.raceFinished)
+  const currentRace = useRaceStore((state) => state.currentRace)
+
+  const wasFinishedRef = useRef(raceFinished)
+
+  // Start of a race
+  useEffect(() => {
+    if (!isRacing || !currentRace) return
+
+    const { loadGhostForRace, startRecording, recordFrame } = useGhostStore.getState()
+    loadGhostForRace(currentRace.id)
+    startRecording()
+
+    const interval = setInterval(() => {
+      const { raceStartTime } = useRaceStore.getState()
+      if (raceStartTime === null || Date.now() < raceStartTime) return // nothing to replay before the gun
+      const { player } = useGameStore.getState()
+      recordFrame({
+        time: Date.now() - raceStartTime,
+        x: player.position[0],
+        z: player.position[2],
+        rotation: player.rotation,
+        speed: player.speed,
+        throttle: player.throttle,
+      })
+    }, 1000 / GHOST_SAMPLE_RATE)
+
+    return () => clearInterval(interval)
+  }, [isRacing, currentRace])
+
+  // Finished runs with every checkpoint passed become ghost candidates
+  useEffect(() => {
+    if (raceFinished && !wasFinishedRef.current) {
+      const { currentRace, raceStartTime, finishTime, damage, currentCheckpoint, lapTimes } = useRaceStore.getState()
+      const ghosts = useGhostStore.getState()
+
+      if (
+        currentRace &&
+        raceStartTime !== null &&
+        finishTime !== null &&
+        damage.hullIntegrity > 0 &&
+        currentCheckpoint >= currentRace.checkpoints.length
+      ) {
+        // Every gate of every lap, in the order sailed
+        const checkpointTimes = lapTimes.flatMap((lap) =>
+          currentRace.checkpoints.map((checkpoint) => {
+            const passed = lap.checkpointTimes[checkpoint.id]
+            return passed !== undefined ? passed - raceStartTime : finishTime
+          })
+        )
+        ghosts.finishRecording(
+          currentRace,
+          useLandingStore.getState().playerName,
+          useYachtStore.getState().currentYacht.hull,
+          finishTime,
+          checkpointTimes
+        )
+      } else {
+        ghosts.stopRecording()
+      }
+    }
+    wasFinishedRef.current = raceFinished
+  }, [raceFinished])
+}
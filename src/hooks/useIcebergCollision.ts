@@ -1,38 +1,59 @@
-import { useEffect, useRef } from 'react'
+import { useEffect } from 'react'
 import { useGameStore } from '../state/useGameStore'
 import { useWorldStore } from '../state/useWorldStore'
-import { checkIcebergCollision, checkFloatingIceCollision } from '../world/WorldGenerator'
+import { useRaceStore } from '../state/useRaceStore'
+import { useYachtStore } from '../state/useYachtStore'
+import { checkIcebergCollision, checkFloatingIceCollision, getWaterDepth } from '../world/WorldGenerator'
 
-// Check if boat is colliding with any ice (icebergs or floating ice)
+// Hull damage from a hit counts against the race too, scaled by its conditions
+function reportRaceDamage(integrityBefore: number, countBefore: number) {
+  const { boatDamage } = useGameStore.getState()
+  if (boatDamage.collisionCount > countBefore) {
+    useRaceStore.getState().registerCollision(integrityBefore - boatDamage.hullIntegrity)
+  }
+}
+
+/**
+ * Check if boat is colliding with any ice (icebergs or floating ice), or has
+ * run aground on island terrain shallower than its draft.
+ * Runs off a store subscription rather than React state, so moving the boat
+ * doesn't re-render the component that mounts it.
+ */
 export function useIcebergCollision() {
-  const player = useGameStore((state) => state.player)
-  const handleCollision = useGameStore((state) => state.handleCollision)
-  const gameMode = useGameStore((state) => state.gameMode)
-  const world = useWorldStore((state) => state.world)
+  useEffect(() => {
+    let lastCheck = 0
 
-  const lastCheckRef = useRef<number>(0)
+    return useGameStore.subscribe((state, previous) => {
+      if (state.player.position === previous.player.position) return
 
-  useEffect(() => {
-    // Skip collision checks in build mode
-    if (gameMode === 'build') return
+      // Skip collision checks in build mode
+      if (state.gameMode === 'build') return
 
-    // Skip if no world loaded
-    if (!world) return
+      // Skip if no world loaded
+      const { world } = useWorldStore.getState()
+      if (!world) return
 
-    // Throttle collision checks (every 50ms)
-    const now = Date.now()
-    if (now - lastCheckRef.current < 50) return
-    lastCheckRef.current = now
+      // Throttle collision checks (every 50ms)
+      const now = Date.now()
+      if (now - lastCheck < 50) return
+      lastCheck = now
 
-    // Check for collision with world icebergs
-    const boatX = player.position[0]
-    const boatZ = player.position[2]
-    const boatRadius = 8 // Approximate boat collision radius
+      const boatX = state.player.position[0]
+      const boatZ = state.player.position[2]
+      const boatRadius = 8 // Approximate boat collision radius
+      const { handleCollision, handleGrounding } = state
+      const { hullIntegrity, collisionCount } = state.boatDamage
 
-    // Check large icebergs first
-    if (world.icebergs && world.icebergs.length > 0) {
-      const collision = checkIcebergCollision(world.icebergs, boatX, boatZ, boatRadius)
+      // Shoals and shorelines
+      const depth = getWaterDepth(world, boatX, boatZ)
+      if (!state.isAground && depth < useYachtStore.getState().currentYacht.hull.draft) {
+        handleGrounding(depth)
+        reportRaceDamage(hullIntegrity, collisionCount)
+        return
+      }
 
+      // Check large icebergs first
+      const collision = checkIcebergCollision(world.index.icebergs, boatX, boatZ, boatRadius)
       if (collision.collided && collision.iceberg) {
         handleCollision(
           collision.iceberg.id,
@@ -41,14 +62,12 @@ export function useIcebergCollision() {
           collision.normal[1],
           collision.iceberg.radius
         )
+        reportRaceDamage(hullIntegrity, collisionCount)
         return // One collision per frame is enough
       }
-    }
-
-    // Check floating ice
-    if (world.floatingIce && world.floatingIce.length > 0) {
-      const floatingCollision = checkFloatingIceCollision(world.floatingIce, boatX, boatZ, boatRadius)
 
+      // Check floating ice
+      const floatingCollision = checkFloatingIceCollision(world.index.floatingIce, boatX, boatZ, boatRadius)
       if (floatingCollision.collided && floatingCollision.ice) {
         // Floating ice does less damage but still affects the boat
         handleCollision(
@@ -58,7 +77,8 @@ export function useIcebergCollision() {
           floatingCollision.normal[1],
           floatingCollision.ice.radius * 0.5 // Smaller effective size for damage calc
         )
+        reportRaceDamage(hullIntegrity, collisionCount)
       }
-    }
-  }, [player.position, gameMode, world, handleCollision])
+    })
+  }, [])
 }
@@ -0,0 +1,41 @@
+import { useEffect } from 'react'
+import { useGameStore } from '../state/useGameStore'
+import { useLandingStore } from '../state/useLandingStore'
+import { useMultiplayerStore } from '../state/useMultiplayerStore'
+import { STATE_SEND_RATE } from '../multiplayer/protocol'
+
+/**
+ * Hook to keep a multiplayer race in sync:
+ * - Report the player's boat to the race room while the race is on
+ * - Leave the room when the game session ends
+ */
+export function useMultiplayerSync() {
+  const phase = useMultiplayerStore((state) => state.phase)
+  const inRoom = useMultiplayerStore((state) => state.raceRoom !== null)
+  const gameStarted = useLandingStore((state) => state.gameStarted)
+
+  useEffect(() => {
+    if (!inRoom || phase !== 'racing') return
+
+    const interval = setInterval(() => {
+      const { player } = useGameStore.getState()
+      useMultiplayerStore.getState().sendBoatState({
+        x: player.position[0],
+        z: player.position[2],
+        rotation: player.rotation,
+        speed: player.speed,
+        heel: player.heel,
+      })
+    }, 1000 / STATE_SEND_RATE)
+
+    return () => clearInterval(interval)
+  }, [inRoom, phase])
+
+  // Back at the landing page: drop out of the lobby and any race room
+  useEffect(() => {
+    if (gameStarted) return
+    const { leaveRoom, closeLobby } = useMultiplayerStore.getState()
+    leaveRoom()
+    closeLobby()
+  }, [gameStarted])
+}
@@ -0,0 +1,32 @@
+import { useEffect } from 'react'
+import { useGameStore } from '../state/useGameStore'
+import { useRaceStore } from '../state/useRaceStore'
+import { TELEMETRY_SAMPLE_RATE } from '../world/RaceReport'
+
+/**
+ * Hook to sample race telemetry for the race report:
+ * - Speed, throttle, battery and position at a fixed rate from the gun to the finish
+ */
+export function useRaceTelemetry() {
+  const isRacing = useRaceStore((state) => state.isRacing)
+
+  useEffect(() => {
+    if (!isRacing) return
+
+    const interval = setInterval(() => {
+      const { raceStartTime, recordTelemetry } = useRaceStore.getState()
+      if (raceStartTime === null || Date.now() < raceStartTime) return
+      const { player, battery } = useGameStore.getState()
+      recordTelemetry({
+        time: Date.now() - raceStartTime,
+        x: player.position[0],
+        z: player.position[2],
+        speed: player.speed,
+        throttle: player.throttle,
+        battery: battery.chargePercent,
+      })
+    }, 1000 / TELEMETRY_SAMPLE_RATE)
+
+    return () => clearInterval(interval)
+  }, [isRacing])
+}
@@ -0,0 +1,20 @@
+import { useEffect } from 'react'
+import { useRaceStore } from '../state/useRaceStore'
+import { useRegattaStore } from '../state/useRegattaStore'
+
+/**
+ * Hook to score regatta races:
+ * - When a series race is left (results closed or abandoned), score it from the
+ *   race as it stood, before the race store resets
+ */
+export function useRegattaTracker() {
+  useEffect(
+    () =>
+      useRaceStore.subscribe((state, previous) => {
+        if (previous.currentRace && !state.currentRace) {
+          useRegattaStore.getState().recordRace(previous)
+        }
+      }),
+    []
+  )
+}
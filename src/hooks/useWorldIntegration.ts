@@ -1,63 +1,91 @@
 import { useEffect } from 'react'
 import { useGameStore } from '../state/useGameStore'
 import { useWorldStore } from '../state/useWorldStore'
-import { getWindZoneAtPosition } from '../world/WorldGenerator'
+import { getWindZoneAtPosition, WindZone } from '../world/WorldGenerator'
+import { DOCKING_MAX_SPEED, getMarina, getMarinaAt, isInSafeZone } from '../world/MarinaServices'
+import type { Weather } from '../physics/WindSystem'
+
+// Weather each wind zone pattern steers towards
+const ZONE_WEATHER: Record<WindZone['pattern'], Weather> = {
+  'trade-winds': 'trade-winds',
+  'doldrums': 'doldrums',
+  'monsoon': 'cloudy',
+  'storm-path': 'storm',
+}
 
 /**
  * Hook to integrate world state with game mechanics:
- * - Apply wind zone modifiers based on position
- * - Handle docking/undocking
+ * - Seed the weather director from the world
+ * - Steer weather towards wind zone patterns based on position
+ * - Handle docking/undocking and marina safe zones across the harbour network
  * - Detect and reward POI discoveries
  */
 export function useWorldIntegration() {
   const playerPos = useGameStore((state) => state.player.position)
-  const setWind = useGameStore((state) => state.setWind)
-  const setWeather = useGameStore((state) => state.setWeather)
+  const playerSpeed = useGameStore((state) => state.player.speed)
+  const initWeather = useGameStore((state) => state.initWeather)
+  const steerWeather = useGameStore((state) => state.steerWeather)
+  const currentWindZone = useGameStore((state) => state.currentWindZone)
+  const setCurrentWindZone = useGameStore((state) => state.setCurrentWindZone)
   const gameMode = useGameStore((state) => state.gameMode)
+  const earnCredits = useGameStore((state) => state.earnCredits)
 
   const world = useWorldStore((state) => state.world)
   const isDocked = useWorldStore((state) => state.isDocked)
+  const dockedAt = useWorldStore((state) => state.dockedAt)
   const dock = useWorldStore((state) => state.dock)
   const undock = useWorldStore((state) => state.undock)
+  const inSafeZone = useWorldStore((state) => state.inSafeZone)
+  const setInSafeZone = useWorldStore((state) => state.setInSafeZone)
   const discoverPOI = useWorldStore((state) => state.discoverPOI)
   const discoveredPOIs = useWorldStore((state) => state.discoveredPOIs)
 
-  // Apply wind zone modifiers
+  // Same seed, same weather (keyed on the config, not the world object the simulation replaces)
+  const worldSeed = world?.seed
+  const weatherVolatility = world?.mapConfig.weatherVolatility
+  const windStrength = world?.mapConfig.windStrengthMultiplier
+  useEffect(() => {
+    if (worldSeed === undefined || weatherVolatility === undefined) return
+    initWeather(worldSeed, weatherVolatility, windStrength)
+  }, [worldSeed, weatherVolatility, windStrength, initWeather])
+
+  // Entering a wind zone steers the weather towards its pattern
   useEffect(() => {
     if (!world || gameMode === 'build') return
 
-    const windZone = getWindZoneAtPosition(world.windZones, playerPos[0], playerPos[2])
+    const windZone = getWindZoneAtPosition(world.index.windZones, playerPos[0], playerPos[2])
+    const zoneId = windZone?.id ?? null
+    if (zoneId === currentWindZone) return
 
+    setCurrentWindZone(zoneId)
     if (windZone) {
-      // Apply wind zone's conditions
-      const speedVariation = Math.sin(Date.now() / 5000) * 1 // Subtle variation
-      setWind({
-        direction: windZone.direction,
-        speed: Math.max(1, windZone.speed + speedVariation),
-      })
-      setWeather(windZone.pattern as any)
+      // Zone directions are generated in radians
+      steerWeather(ZONE_WEATHER[windZone.pattern], (windZone.direction * 180) / Math.PI)
     }
-  }, [playerPos, world, gameMode, setWind, setWeather])
+  }, [playerPos, world, gameMode, currentWindZone, setCurrentWindZone, steerWeather])
 
   // Handle docking
   useEffect(() => {
     if (!world || gameMode === 'build') return
 
-    const marina = world.marina
-    const dx = playerPos[0] - marina.position[0]
-    const dz = playerPos[2] - marina.position[1]
-    const distToMarina = Math.sqrt(dx * dx + dz * dz)
-
-    // Enter docking zone
-    if (distToMarina <= marina.dockingZoneRadius && !isDocked) {
+    // Tie up once slowed down inside a berth area
+    const marina = getMarinaAt(world.marinas, playerPos[0], playerPos[2])
+    if (marina && Math.abs(playerSpeed) <= DOCKING_MAX_SPEED && !isDocked) {
       dock(marina.id)
     }
 
-    // Leave docking zone
-    if (distToMarina > marina.dockingZoneRadius * 1.2 && isDocked) {
+    // Leave the docking zone of the marina tied up at
+    const docked = isDocked ? getMarina(world.marinas, dockedAt) : null
+    const distToDocked = docked ? Math.hypot(playerPos[0] - docked.position[0], playerPos[2] - docked.position[1]) : Infinity
+    if (isDocked && (!docked || distToDocked > docked.dockingZoneRadius * 1.2)) {
       undock()
     }
-  }, [playerPos, world, isDocked, dock, undock, gameMode])
+
+    const safe = world.marinas.some((m) => isInSafeZone(m, playerPos[0], playerPos[2]))
+    if (safe !== inSafeZone) {
+      setInSafeZone(safe)
+    }
+  }, [playerPos, playerSpeed, world, isDocked, dockedAt, dock, undock, inSafeZone, setInSafeZone, gameMode])
 
   // Detect POI discoveries
   useEffect(() => {
@@ -73,7 +101,8 @@ export function useWorldIntegration() {
       // Discovery range: 500m
       if (distToPOI <= 500) {
         discoverPOI(poi.id)
+        earnCredits(poi.discoveryReward)
       }
     }
-  }, [playerPos, world, discoveredPOIs, discoverPOI, gameMode])
+  }, [playerPos, world, discoveredPOIs, discoverPOI, earnCredits, gameMode])
 }
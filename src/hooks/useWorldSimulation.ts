@@ -0,0 +1,34 @@
+import { useEffect } from 'react'
+import { useGameStore } from '../state/useGameStore'
+import { useWorldStore } from '../state/useWorldStore'
+import { useRaceStore } from '../state/useRaceStore'
+
+const STEP_INTERVAL = 500 // ms between world simulation steps
+
+/**
+ * Hook to advance the world simulation while sailing:
+ * - Drift icebergs and floating ice with wind and current
+ * - Keep ice clear of the active race's checkpoints
+ */
+export function useWorldSimulation() {
+  const gameMode = useGameStore((state) => state.gameMode)
+  const icebergDrift = useWorldStore((state) => state.world?.mapConfig.icebergDrift ?? false)
+  const stepWorld = useWorldStore((state) => state.stepWorld)
+
+  useEffect(() => {
+    if (gameMode === 'build' || !icebergDrift) return
+
+    const interval = setInterval(() => {
+      const { wind } = useGameStore.getState()
+      const race = useRaceStore.getState().currentRace
+      const raceZones = race?.checkpoints.map((checkpoint) => ({
+        position: checkpoint.position,
+        radius: checkpoint.radius,
+      }))
+
+      stepWorld(STEP_INTERVAL / 1000, wind.speed, wind.direction, raceZones)
+    }, STEP_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [gameMode, icebergDrift, stepWorld])
+}
@@ -0,0 +1,163 @@
+/**
+ * Race Client
+ * Thin wrapper over colyseus.js for the race server: one shared client, the lobby
+ * listing and race rooms, plus conversion of synced state into plain objects.
+ */
+
+import { Client, type Room, type RoomAvailable } from 'colyseus.js';
+import type { HullConfig, HullType } from '../state/useYachtStore';
+import type { RaceState } from '../../server/schema/RaceState';
+import {
+  DEFAULT_SERVER_PORT,
+  LOBBY_ROOM,
+  RACE_ROOM,
+  type CreateRaceOptions,
+  type JoinRaceOptions,
+  type RacePhase,
+  type RaceRoomMetadata,
+} from './protocol';
+
+export type RaceListing = RoomAvailable<RaceRoomMetadata>;
+
+export interface RemoteRacer {
+  sessionId: string;
+  name: string;
+  hull: string;
+  x: number;
+  z: number;
+  rotation: number;
+  speed: number;
+  heel: number;
+  ready: boolean;
+  progress: number;
+  lap: number;
+  finishTime: number;     // ms, 0 until finished
+  finishPosition: number; // 0 until finished
+}
+
+// A remote yacht's synced pose, stamped with the local time it arrived
+export interface RemoteSnapshot {
+  time: number;
+  x: number;
+  z: number;
+  rotation: number;
+  heel: number;
+}
+
+export interface RaceRoomSnapshot {
+  phase: RacePhase;
+  raceId: string;
+  racers: RemoteRacer[];
+}
+
+const HULL_TYPES: HullType[] = ['monohull', 'catamaran', 'trimaran', 'hydrofoil'];
+const BOW_SHAPES: HullConfig['bowShape'][] = ['piercing', 'flared', 'bulbous'];
+
+export const INTERPOLATION_DELAY = 100; // ms remote yachts are drawn behind the latest state
+
+let client: Client | null = null;
+
+// The race server runs next to the game: same host, its own port
+export function getServerUrl(): string {
+  const secure = window.location.protocol === 'https:';
+  return `${secure ? 'wss' : 'ws'}://${window.location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+}
+
+function getClient(): Client {
+  if (!client) {
+    client = new Client(getServerUrl());
+  }
+  return client;
+}
+
+export function joinLobby(): Promise<Room> {
+  return getClient().joinOrCreate(LOBBY_ROOM);
+}
+
+export function createRaceRoom(options: CreateRaceOptions): Promise<Room<RaceState>> {
+  return getClient().create<RaceState>(RACE_ROOM, options);
+}
+
+export function joinRaceRoom(roomId: string, options: JoinRaceOptions): Promise<Room<RaceState>> {
+  return getClient().joinById<RaceState>(roomId, options);
+}
+
+// Plain copy of the synced room state (the schema objects mutate in place)
+export function readRaceState(state: RaceState): RaceRoomSnapshot {
+  const racers: RemoteRacer[] = [];
+  state.players?.forEach((racer, sessionId) => {
+    racers.push({
+      sessionId,
+      name: racer.name,
+      hull: racer.hull,
+      x: racer.x,
+      z: racer.z,
+      rotation: racer.rotation,
+      speed: racer.speed,
+      heel: racer.heel,
+      ready: racer.ready,
+      progress: racer.progress,
+      lap: racer.lap,
+      finishTime: racer.finishTime,
+      finishPosition: racer.finishPosition,
+    });
+  });
+
+  return {
+    phase: state.phase ?? 'waiting',
+    raceId: state.raceId ?? '',
+    racers,
+  };
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Remote yacht pose at a moment, interpolated between the buffered snapshots
+ * around it. Holds the newest snapshot when the buffer runs dry.
+ */
+export function interpolateRemote(buffer: RemoteSnapshot[], time: number): RemoteSnapshot | null {
+  if (buffer.length === 0) return null;
+  if (time <= buffer[0].time) return buffer[0];
+
+  for (let i = buffer.length - 1; i > 0; i--) {
+    const a = buffer[i - 1];
+    const b = buffer[i];
+    if (time >= a.time && time <= b.time) {
+      const t = (time - a.time) / Math.max(1, b.time - a.time);
+      return {
+        time,
+        x: a.x + (b.x - a.x) * t,
+        z: a.z + (b.z - a.z) * t,
+        rotation: a.rotation + wrapAngle(b.rotation - a.rotation) * t,
+        heel: a.heel + (b.heel - a.heel) * t,
+      };
+    }
+  }
+  return buffer[buffer.length - 1];
+}
+
+// Hull shared by another racer, or null if it isn't one we can build
+export function parseRemoteHull(json: string): HullConfig | null {
+  try {
+    const data = JSON.parse(json);
+    if (
+      !HULL_TYPES.includes(data?.type) ||
+      !BOW_SHAPES.includes(data.bowShape) ||
+      ![data.length, data.beam, data.draft].every((n) => Number.isFinite(n))
+    ) {
+      return null;
+    }
+    return {
+      type: data.type,
+      length: Math.min(20, Math.max(6, data.length)),
+      beam: Math.min(12, Math.max(2, data.beam)),
+      draft: Math.min(2, Math.max(0.5, data.draft)),
+      bowShape: data.bowShape,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Multiplayer Protocol
+ * Room names, timings and message shapes shared by the race server and the client.
+ * Kept free of game-store imports so the server can use it on its own.
+ */
+
+import { isFiniteNumber, isPoint, isRecord } from '../utils/guards';
+
+export const DEFAULT_SERVER_PORT = 2567;
+export const LOBBY_ROOM = 'lobby';
+export const RACE_ROOM = 'race';
+
+export const MAX_RACERS = 8;
+export const COUNTDOWN_MS = 5000;      // ready-up to start gun
+export const STATE_SEND_RATE = 10;     // boat state messages per second
+export const MAX_HULL_JSON = 4096;     // chars - cap on the hull config a racer shares
+
+export type RacePhase = 'waiting' | 'countdown' | 'racing' | 'finished';
+
+// The parts of a RaceConfig the server needs to run a race
+export interface RaceCourse {
+  id: string;
+  name: string;
+  laps: number;
+  difficultyMultiplier?: number;
+  checkpoints: Array<{
+    id: string;
+    position: [number, number];
+    radius: number;
+    order: number;
+    heading?: number; // gate crossing direction (radians)
+  }>;
+  startPosition?: [number, number];
+  startHeading?: number;
+}
+
+export interface JoinRaceOptions {
+  playerName: string;
+  hull: string; // JSON HullConfig, so others see the boat you built
+}
+
+export interface CreateRaceOptions extends JoinRaceOptions {
+  race: RaceCourse;
+}
+
+// Client -> server, STATE_SEND_RATE times a second
+export interface BoatStateMessage {
+  x: number;
+  z: number;
+  rotation: number; // radians
+  speed: number;    // knots
+  heel: number;     // degrees
+}
+
+// Server -> client when a racer is lined up on the grid
+export interface GridSlotMessage {
+  position: [number, number];
+  heading: number;
+}
+
+export interface RaceRoomMetadata {
+  raceId: string;
+  raceName: string;
+  checkpoints: number;
+  phase: RacePhase;
+}
+
+// Shape check for courses sent by a client when creating a room
+export function isRaceCourse(data: unknown): data is RaceCourse {
+  return (
+    isRecord(data) &&
+    typeof data.id === 'string' &&
+    typeof data.name === 'string' &&
+    typeof data.laps === 'number' &&
+    Number.isInteger(data.laps) &&
+    data.laps >= 1 &&
+    (data.difficultyMultiplier === undefined || isFiniteNumber(data.difficultyMultiplier)) &&
+    Array.isArray(data.checkpoints) &&
+    data.checkpoints.length > 0 &&
+    data.checkpoints.every(
+      (checkpoint: unknown) =>
+        isRecord(checkpoint) &&
+        typeof checkpoint.id === 'string' &&
+        isPoint(checkpoint.position) &&
+        isFiniteNumber(checkpoint.radius) &&
+        checkpoint.radius > 0 &&
+        isFiniteNumber(checkpoint.order) &&
+        (checkpoint.heading === undefined || isFiniteNumber(checkpoint.heading))
+    ) &&
+    (data.startPosition === undefined || isPoint(data.startPosition)) &&
+    (data.startHeading === undefined || isFiniteNumber(data.startHeading))
+  );
+}
+
+export function isBoatStateMessage(data: unknown): data is BoatStateMessage {
+  return (
+    isRecord(data) &&
+    isFiniteNumber(data.x) &&
+    isFiniteNumber(data.z) &&
+    isFiniteNumber(data.rotation) &&
+    isFiniteNumber(data.speed) &&
+    isFiniteNumber(data.heel)
+  );
+}
+
+export function isGridSlotMessage(data: unknown): data is GridSlotMessage {
+  return isRecord(data) && isPoint(data.position) && isFiniteNumber(data.heading);
+}
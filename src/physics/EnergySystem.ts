@@ -3,12 +3,15 @@
  * Calculates power generation from turbines and solar, consumption, and battery management
  */
 
-import type { TurbineConfig, SolarConfig, BatteryConfig, HullConfig } from '../state/useYachtStore'
+import type { TurbineConfig, SolarConfig, BatteryConfig, HullConfig, EngineConfig, YachtConfig } from '../state/useYachtStore'
+import { getDeckSpace, getCanopyArea, getModuleFootprint, getModulePowerDraw } from '../data/deckModules'
 
 // Physical constants
 export const AIR_DENSITY = 1.225 // kg/m³ at sea level
 export const SOLAR_CONSTANT = 1361 // W/m² at Earth's surface (max)
 export const SOLAR_PANEL_EFFICIENCY = 0.22 // Modern panels ~22%
+export const BASE_MOTOR_POWER = 15 // kW at 1x engine tier
+const MOTOR_EFFICIENCY = 0.92 // electrical power reaching the shaft
 
 /**
  * Calculate sun position based on time of day (24-hour cycle)
@@ -196,16 +199,20 @@ export function calculateSolarPower(
   solar: SolarConfig,
   hull: HullConfig,
   timeOfDay: number,
-  weather: string
+  weather: string,
+  deckModules: string[] = []
 ): SolarPowerResult {
-  // Calculate available deck area for solar panels
-  const deckArea = hull.length * hull.beam * 0.6 // 60% of deck usable
+  // Calculate available deck area for solar panels (deck modules take their footprint)
+  const deckArea = Math.max(0, getDeckSpace(hull) - getModuleFootprint(deckModules))
   const panelArea = deckArea * (solar.deckCoverage / 100)
 
   // Add turbine-integrated panels if enabled
   const turbinePanelArea = solar.turbineIntegrated ? 2 : 0 // ~2m² on turbine
 
-  const totalPanelArea = panelArea + turbinePanelArea
+  // Canopy panels are raised over the cockpit, so they don't use deck space
+  const canopyPanelArea = solar.canopyEnabled ? getCanopyArea(hull) : 0
+
+  const totalPanelArea = panelArea + turbinePanelArea + canopyPanelArea
 
   // Calculate irradiance
   const solarMultiplier = getSolarMultiplier(timeOfDay)
@@ -243,21 +250,35 @@ export interface MotorConsumptionResult {
   efficiency: number
 }
 
+/**
+ * Throttle a motor can hold on a flat battery: only what the turbines and panels
+ * are making right now reaches the shaft
+ */
+export function getHarvestLimitedThrottle(
+  throttle: number,        // % (negative = astern)
+  generation: number,      // kW harvested
+  motorPower: number       // kW at full throttle
+): number {
+  const limit = ((generation * MOTOR_EFFICIENCY) / Math.max(1, motorPower)) * 100
+  return Math.sign(throttle) * Math.min(Math.abs(throttle), limit)
+}
+
 export function calculateMotorConsumption(
   throttle: number,        // 0-100%
   currentSpeed: number,    // knots
-  _maxSpeed: number,       // knots (reserved for speed-based efficiency curves)
-  hullDrag: number         // Newtons at test speed
+  engine: EngineConfig,
+  hullDrag: number         // Newtons at current speed
 ): MotorConsumptionResult {
-  // Motor specs (high-performance electric yacht motor - 300% boost)
-  const maxMotorPower = 60 // kW (4x original 15 kW for 300% increase)
-  const motorEfficiency = 0.92
+  // Motor specs scale with engine tier (15 kW standard, 30 kW performance, 45 kW racing)
+  const maxMotorPower = BASE_MOTOR_POWER * engine.powerMultiplier
+  const motorEfficiency = MOTOR_EFFICIENCY
 
   // Power needed: drag force × velocity
-  const dragPower = (hullDrag * currentSpeed * 0.514) / 1000 // kW (drag × velocity)
+  const dragPower = (hullDrag * Math.abs(currentSpeed) * 0.514) / 1000 // kW (drag × velocity)
 
-  // Actual power draw based on throttle and drag
-  const mechanicalPower = Math.min(maxMotorPower, dragPower * (throttle / 100))
+  // Throttle sets the demand; once up to speed the motor eases off if drag absorbs less
+  const throttleDemand = (Math.abs(throttle) / 100) * maxMotorPower
+  const mechanicalPower = Math.min(throttleDemand, Math.max(dragPower, throttleDemand * 0.6))
 
   // Electrical consumption (higher than mechanical due to losses)
   const electricalPower = mechanicalPower / motorEfficiency
@@ -273,7 +294,7 @@ export function calculateMotorConsumption(
  * Calculate systems consumption (always-on loads)
  */
 export function calculateSystemsConsumption(
-  hasCanopy: boolean,
+  modulePowerDraw: number, // kW drawn by deck modules
   timeOfDay: number
 ): number {
   // Base systems: navigation, instruments, pumps
@@ -285,10 +306,8 @@ export function calculateSystemsConsumption(
     basePower += 0.1 // Navigation lights
   }
 
-  // Canopy motor/AC if enabled
-  if (hasCanopy) {
-    basePower += 0.3
-  }
+  // Deck modules (canopy motor/AC, DJ booth, fishing rig...)
+  basePower += modulePowerDraw
 
   return basePower
 }
@@ -352,6 +371,7 @@ export function updateBattery(
  */
 export interface EnergySystemState {
   turbine: TurbinePowerResult
+  secondTurbine: TurbinePowerResult | null
   solar: SolarPowerResult
   motor: MotorConsumptionResult
   systems: number
@@ -361,10 +381,8 @@ export interface EnergySystemState {
 }
 
 export function updateEnergySystem(
-  turbine: TurbineConfig,
-  solar: SolarConfig,
-  battery: BatteryConfig,
-  hull: HullConfig,
+  yacht: YachtConfig,
+  battery: BatteryConfig,   // Live battery (capacity from the yacht, current charge in %)
   windSpeed: number,
   windDirection: number,
   yachtHeading: number,
@@ -372,18 +390,21 @@ export function updateEnergySystem(
   weather: string,
   throttle: number,
   currentSpeed: number,
-  maxSpeed: number,
   hullDrag: number,
   deltaTime: number
 ): EnergySystemState {
   // Calculate all power sources and sinks
-  const turbineResult = calculateTurbinePower(turbine, windSpeed, windDirection, yachtHeading)
-  const solarResult = calculateSolarPower(solar, hull, timeOfDay, weather)
-  const motorResult = calculateMotorConsumption(throttle, currentSpeed, maxSpeed, hullDrag)
-  const systemsConsumption = calculateSystemsConsumption(solar.canopyEnabled, timeOfDay)
+  const turbineResult = calculateTurbinePower(yacht.turbine, windSpeed, windDirection, yachtHeading)
+  const secondTurbineResult = yacht.secondTurbineEnabled
+    ? calculateTurbinePower(yacht.secondTurbine, windSpeed, windDirection, yachtHeading)
+    : null
+  const solarResult = calculateSolarPower(yacht.solar, yacht.hull, timeOfDay, weather, yacht.deckModules)
+  const motorResult = calculateMotorConsumption(throttle, currentSpeed, yacht.engine, hullDrag)
+  const systemsConsumption = calculateSystemsConsumption(getModulePowerDraw(yacht), timeOfDay)
 
   // Net power balance
-  const totalGeneration = turbineResult.electricalPower + solarResult.electricalPower
+  const turbineGeneration = turbineResult.electricalPower + (secondTurbineResult?.electricalPower ?? 0)
+  const totalGeneration = turbineGeneration + solarResult.electricalPower
   const totalConsumption = motorResult.electricalPower + systemsConsumption
   const netPower = totalGeneration - totalConsumption
 
@@ -395,6 +416,7 @@ export function updateEnergySystem(
 
   return {
     turbine: turbineResult,
+    secondTurbine: secondTurbineResult,
     solar: solarResult,
     motor: motorResult,
     systems: systemsConsumption,
@@ -0,0 +1,213 @@
+/**
+ * Sailing Physics
+ * Force-based motion model for a yacht under motor and wind: thrust against
+ * hull resistance, windage on superstructure and turbines, leeway and heel
+ */
+
+import type { YachtConfig, YachtStats } from '../state/useYachtStore'
+import { calculateDrag, WATER_DENSITY, GRAVITY } from './WaterPhysics'
+import { calculateApparentWind, calculateWindEffect } from './WindSystem'
+
+// Model constants
+export const KNOTS_TO_MS = 0.514
+export const PROPULSIVE_EFFICIENCY = 0.7   // Shaft power delivered as thrust
+export const MIN_THRUST_SPEED = 1.5        // m/s - caps static (bollard) thrust
+export const SURGE_INERTIA = 0.2           // Fraction of displacement felt when accelerating (arcade responsiveness)
+export const WINDAGE_GAIN = 2.5            // Gameplay scale on superstructure wind forces
+export const FREEBOARD = 1.5               // m - hull and cabin height above the waterline
+export const TURBINE_SOLIDITY = 0.3        // Fraction of a VAWT's swept area presented to the wind
+export const LATERAL_DRAG_COEFFICIENT = 1.0 // Hulls moving sideways through the water
+export const HEEL_DRAG_PENALTY = 0.5       // Extra resistance when pressed to the heel limit
+export const APPENDAGE_DRAG_SHARE = 0.5    // Share of rated resistance that grows linearly (prop, rudders)
+export const MAX_REVERSE_THROTTLE = 50     // % of motor power available astern
+
+const MAX_STEP = 0.05 // s - sub-step size so large frame times stay stable
+
+export interface WindageArea {
+  frontal: number  // m² presented to a head wind
+  side: number     // m² presented to a beam wind
+}
+
+export interface SailingMotion {
+  speed: number    // knots through the water (negative = making sternway)
+  leeway: number   // m/s sideways drift (positive = to starboard)
+  heel: number     // degrees (positive = heeled to starboard)
+}
+
+export interface SailingInputs {
+  throttle: number          // -MAX_REVERSE_THROTTLE to 100% (negative = astern)
+  maxSpeed: number          // knots - speed at full throttle in still air
+  motorPower: number        // kW at full throttle
+  thrustMultiplier?: number // Temporary boost (burst)
+}
+
+export interface SailingForces {
+  thrust: number            // N
+  resistance: number        // N (hull resistance, signed against motion)
+  windForward: number       // N (positive = pushing ahead)
+  windLateral: number       // N (positive = pushing to starboard)
+  lateralResistance: number // N
+  heelMoment: number        // N·m
+  apparentWindSpeed: number // m/s
+  apparentWindAngle: number // degrees relative to the bow (0 = head wind)
+  isHydrofoiling: boolean
+}
+
+/**
+ * Calculate the area the yacht presents to the wind.
+ * Hull and cabin above the waterline plus the projected area of each turbine,
+ * so tall turbines harvest more but also catch more wind.
+ */
+export function calculateWindageArea(yacht: YachtConfig): WindageArea {
+  const { hull, turbine } = yacht
+
+  let turbineArea = turbine.height * turbine.diameter * TURBINE_SOLIDITY
+  if (yacht.secondTurbineEnabled) {
+    turbineArea += yacht.secondTurbine.height * yacht.secondTurbine.diameter * TURBINE_SOLIDITY
+  }
+
+  return {
+    frontal: hull.beam * FREEBOARD + turbineArea,
+    side: hull.length * FREEBOARD + turbineArea,
+  }
+}
+
+/**
+ * Raw hull drag from calculateDrag at a given speed
+ */
+function calculateHullDrag(
+  yacht: YachtConfig,
+  stats: YachtStats,
+  speedMs: number
+): { drag: number; isHydrofoiling: boolean } {
+  const { hull } = yacht
+  const dimensions = {
+    length: hull.length,
+    beam: hull.beam,
+    draft: hull.draft,
+    displacement: stats.displacement,
+  }
+
+  const isHydrofoiling =
+    hull.type === 'hydrofoil' &&
+    stats.foilTakeoffSpeed !== undefined &&
+    speedMs >= stats.foilTakeoffSpeed * KNOTS_TO_MS
+
+  const result = calculateDrag(hull.type, hull.bowShape, dimensions, speedMs, isHydrofoiling)
+  return { drag: result.totalDrag, isHydrofoiling }
+}
+
+/**
+ * Share of top speed kept with extra load aboard. At the same power, resistance
+ * grows with wetted area (∝ Δ^2/3) and power with drag × speed, so v ∝ Δ^-2/9.
+ */
+export function getLoadedSpeedFactor(displacement: number, payload: number): number {
+  if (payload <= 0) return 1
+  return Math.pow(displacement / (displacement + payload), 2 / 9)
+}
+
+/**
+ * Advance the yacht's motion by one time step.
+ * Heading is in degrees (0 = North), wind direction follows calculateApparentWind.
+ */
+export function stepSailingMotion(
+  yacht: YachtConfig,
+  stats: YachtStats,
+  motion: SailingMotion,
+  inputs: SailingInputs,
+  windSpeed: number,       // m/s
+  windDirection: number,   // degrees
+  heading: number,         // degrees
+  deltaTime: number        // seconds
+): { motion: SailingMotion; forces: SailingForces } {
+  const { hull } = yacht
+  const windage = calculateWindageArea(yacht)
+  const displacement = Math.max(100, stats.displacement)
+  const maxSpeedMs = Math.max(1, inputs.maxSpeed * KNOTS_TO_MS)
+  const motorPowerW = inputs.motorPower * 1000
+  const thrustMultiplier = inputs.thrustMultiplier ?? 1
+
+  // Calibrate resistance: thrust at full power equals resistance at max speed
+  const ratedThrust = (PROPULSIVE_EFFICIENCY * motorPowerW) / maxSpeedMs
+  const dragAtMax = Math.max(1, calculateHullDrag(yacht, stats, maxSpeedMs).drag)
+
+  const maxHeel = Math.max(1, stats.maxHeelAngle)
+  const heelSettleTime = Math.max(0.5, stats.rollPeriod / 2)
+  const lateralArea = hull.length * hull.draft
+  const righting = displacement * GRAVITY * Math.max(0.1, stats.metacentricHeight)
+
+  let { speed, leeway, heel } = motion
+  let forces: SailingForces = {
+    thrust: 0,
+    resistance: 0,
+    windForward: 0,
+    windLateral: 0,
+    lateralResistance: 0,
+    heelMoment: 0,
+    apparentWindSpeed: windSpeed,
+    apparentWindAngle: 0,
+    isHydrofoiling: false,
+  }
+
+  const steps = Math.max(1, Math.ceil(deltaTime / MAX_STEP))
+  const dt = deltaTime / steps
+
+  for (let i = 0; i < steps; i++) {
+    const speedMs = speed * KNOTS_TO_MS
+
+    // Apparent wind angle relative to the bow (0 = head wind, positive = from port)
+    const apparent = calculateApparentWind(windSpeed, windDirection, speed, heading)
+    let apparentAngle = apparent.direction - heading - 180
+    while (apparentAngle > 180) apparentAngle -= 360
+    while (apparentAngle < -180) apparentAngle += 360
+
+    // Windage blends from frontal to side area as the wind comes abeam
+    const angleRad = (apparentAngle * Math.PI) / 180
+    const area = windage.frontal * Math.abs(Math.cos(angleRad)) + windage.side * Math.abs(Math.sin(angleRad))
+    const wind = calculateWindEffect(apparent.speed, apparentAngle, area, hull.beam)
+    const windForward = wind.forwardForce * WINDAGE_GAIN
+    const windLateral = wind.lateralForce * WINDAGE_GAIN
+    const heelMoment = wind.heelMoment * WINDAGE_GAIN
+
+    // Motor thrust is power-limited: T = ηP / v (astern power pulls the boat backwards)
+    const throttle = Math.max(-MAX_REVERSE_THROTTLE, Math.min(100, inputs.throttle))
+    const power = (throttle / 100) * motorPowerW * (throttle > 0 ? thrustMultiplier : 1)
+    const thrust = (PROPULSIVE_EFFICIENCY * power) / Math.max(MIN_THRUST_SPEED, Math.abs(speedMs))
+
+    // Hull resistance: calculateDrag gives the curve's shape, scaled so it meets the
+    // rated thrust at max speed; appendages add a linear share that holds the boat at low speed
+    const hullDrag = calculateHullDrag(yacht, stats, Math.abs(speedMs))
+    const resistanceRatio =
+      (1 - APPENDAGE_DRAG_SHARE) * (hullDrag.drag / dragAtMax) + APPENDAGE_DRAG_SHARE * (Math.abs(speedMs) / maxSpeedMs)
+    const overpressed = Math.max(0, (Math.abs(heel) / maxHeel - 0.5) / 0.5)
+    const resistance =
+      Math.sign(speedMs) * ratedThrust * resistanceRatio * (1 + HEEL_DRAG_PENALTY * overpressed)
+
+    // Surge
+    const surgeAcceleration = (thrust + windForward - resistance) / (displacement * SURGE_INERTIA)
+    speed = (speedMs + surgeAcceleration * dt) / KNOTS_TO_MS
+
+    // Leeway: wind pushes the hulls sideways against lateral water resistance
+    const lateralResistance = 0.5 * WATER_DENSITY * LATERAL_DRAG_COEFFICIENT * lateralArea * leeway * Math.abs(leeway)
+    leeway += ((windLateral - lateralResistance) / displacement) * dt
+
+    // Heel: equilibrium where righting moment (Δ·g·GM·sin φ) balances the heeling moment
+    const sinHeel = Math.max(-1, Math.min(1, heelMoment / righting))
+    const targetHeel = Math.max(-maxHeel, Math.min(maxHeel, (Math.asin(sinHeel) * 180) / Math.PI))
+    heel += (targetHeel - heel) * Math.min(1, dt / heelSettleTime)
+
+    forces = {
+      thrust,
+      resistance,
+      windForward,
+      windLateral,
+      lateralResistance,
+      heelMoment,
+      apparentWindSpeed: apparent.speed,
+      apparentWindAngle: apparentAngle,
+      isHydrofoiling: hullDrag.isHydrofoiling,
+    }
+  }
+
+  return { motion: { speed, leeway, heel }, forces }
+}
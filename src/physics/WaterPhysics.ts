@@ -268,6 +268,49 @@ export function calculateFoilTakeoffSpeed(
   return takeoffSpeed
 }
 
+// Open-ocean swell the water surface is modelled on
+export const SWELL_WAVELENGTH = 80 // m
+export const SWELL_HEIGHT = 1.2    // m
+const BREAKING_RATIO = 0.78        // waves break once taller than this fraction of the depth
+
+export interface ShallowWaterWaves {
+  speedFactor: number  // wave speed (and wavelength) relative to deep water
+  heightFactor: number // wave height relative to deep water
+  breaking: boolean
+}
+
+/**
+ * Calculate how waves change running into shallow water
+ * Below about half a wavelength of depth they slow and shorten, bunch up and
+ * grow taller (shoaling), then break once the depth can't carry their height
+ */
+export function calculateShallowWaterWaves(
+  depth: number, // m
+  waveHeight: number = SWELL_HEIGHT,
+  wavelength: number = SWELL_WAVELENGTH
+): ShallowWaterWaves {
+  if (depth <= 0) return { speedFactor: 0, heightFactor: 0, breaking: false }
+
+  // Eckart's approximation to the dispersion relation: c / c0 = √tanh(k0·d)
+  const k0 = (2 * Math.PI) / wavelength
+  const speedFactor = Math.sqrt(Math.tanh(k0 * depth))
+  const kd = (k0 * depth) / speedFactor
+
+  // Shoaling: energy flux is conserved, so height grows as group speed drops
+  const n = 0.5 * (1 + (2 * kd) / Math.sinh(2 * kd))
+  const shoaling = Math.sqrt(0.5 / (n * speedFactor))
+
+  const height = waveHeight * shoaling
+  const breakingHeight = BREAKING_RATIO * depth
+  const breaking = height > breakingHeight
+
+  return {
+    speedFactor,
+    heightFactor: waveHeight > 0 ? Math.min(height, breakingHeight) / waveHeight : 1,
+    breaking,
+  }
+}
+
 /**
  * Get performance summary for hull configuration
  */
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { FORECAST_HORIZON, WeatherDirector, type ForecastPeriod } from './WeatherDirector'
+
+const STEP = 0.1 // s
+
+// Weather changes update() actually makes over the horizon
+function sail(director: WeatherDirector, horizon: number): ForecastPeriod[] {
+  const periods: ForecastPeriod[] = [{ time: 0, weather: director.getWeather() }]
+  for (let time = STEP; time <= horizon; time += STEP) {
+    director.update(STEP, 0, 0)
+    const weather = director.getWeather()
+    if (weather !== periods[periods.length - 1].weather) periods.push({ time, weather })
+  }
+  return periods
+}
+
+describe('WeatherDirector.forecast', () => {
+  it('predicts the changes update() goes on to make', () => {
+    for (const seed of [1, 42, 1234]) {
+      const forecast = new WeatherDirector(seed, 1).forecast(FORECAST_HORIZON)
+      const actual = sail(new WeatherDirector(seed, 1), FORECAST_HORIZON)
+
+      // A change the forecast puts right at the horizon may land just after it
+      const settled = forecast.filter((period) => period.time < FORECAST_HORIZON - 1)
+      expect(settled.length).toBeGreaterThan(1)
+      expect(actual.slice(0, settled.length).map((period) => period.weather)).toEqual(settled.map((period) => period.weather))
+      settled.forEach((period, i) => expect(Math.abs(actual[i].time - period.time)).toBeLessThan(STEP * 5))
+    }
+  })
+
+  it('still matches from partway through a run', () => {
+    const director = new WeatherDirector(42, 1)
+    sail(director, 200)
+    const forecast = director.forecast(300)
+
+    const actual = sail(director, 300)
+    const settled = forecast.filter((period) => period.time < 299)
+    expect(settled.length).toBeGreaterThan(1)
+    expect(actual.slice(0, settled.length).map((period) => period.weather)).toEqual(settled.map((period) => period.weather))
+  })
+
+  it('does not disturb the weather it forecasts', () => {
+    const forecasted = new WeatherDirector(7, 1)
+    expect(forecasted.forecast()).toEqual(forecasted.forecast())
+
+    expect(sail(forecasted, 300)).toEqual(sail(new WeatherDirector(7, 1), 300))
+  })
+
+  it('holds the weather when volatility is off', () => {
+    expect(new WeatherDirector(7, 0, 'clear').forecast()).toEqual([{ time: 0, weather: 'clear' }])
+  })
+})
@@ -0,0 +1,329 @@
+/**
+ * Weather Director
+ * Moves the weather between presets over time and blends the wind through each change.
+ * Driven only by its seed and elapsed time, so the same seed replays the same weather.
+ */
+
+import {
+  DEFAULT_WIND_CONDITIONS,
+  WindSystemManager,
+  calculateApparentWind,
+  type Weather,
+  type WindConditions,
+  type WindState,
+} from './WindSystem'
+
+// Relative odds of the next weather from each state.
+// Storms only build out of cloud and always ease back through it.
+export const WEATHER_TRANSITIONS: Record<Weather, Partial<Record<Weather, number>>> = {
+  'clear': { 'cloudy': 2, 'trade-winds': 2, 'doldrums': 1 },
+  'cloudy': { 'clear': 2, 'trade-winds': 1, 'storm': 1.5, 'doldrums': 0.5 },
+  'trade-winds': { 'clear': 1, 'cloudy': 2 },
+  'storm': { 'cloudy': 1 },
+  'doldrums': { 'clear': 2, 'trade-winds': 1, 'cloudy': 0.5 },
+}
+
+const CHECK_INTERVAL = 5          // s between transition rolls
+const BASE_CHANGE_RATE = 1 / 90   // weather changes per second at full volatility
+const MIN_DWELL_TIME = 45         // s before the weather can change again
+const TRANSITION_TIME = 30        // s to blend into the next weather
+const STORM_BUILD_TIME = 60       // s for cloud to build into a storm
+export const FORECAST_HORIZON = 600 // s of weather a forecast covers
+
+export interface WeatherTransition {
+  from: Weather
+  to: Weather
+  progress: number // 0-1
+}
+
+export interface ForecastPeriod {
+  time: number     // s after the forecast was made
+  weather: Weather // weather from then on
+}
+
+export interface WeatherUpdate {
+  weather: Weather                      // Flips to the incoming weather halfway through a blend
+  wind: WindState
+  transition: WeatherTransition | null
+}
+
+export class WeatherDirector {
+  private seed: number
+  private rngState: number
+  private volatility: number
+  private strength: number = 1
+  private conditions: WindConditions = DEFAULT_WIND_CONDITIONS
+  private current: WindSystemManager
+  private incoming: WindSystemManager | null = null
+  private queued: Weather | null = null
+  private queuedDirection: number | null = null
+  private transitionTime: number = 0
+  private transitionDuration: number = TRANSITION_TIME
+  private dwellTime: number = 0
+  private checkTimer: number = 0
+  private managerCount: number = 0
+
+  constructor(seed: number, volatility: number, weather: Weather = 'trade-winds', direction: number = 45) {
+    this.seed = seed
+    this.rngState = seed & 0x7fffffff
+    this.volatility = Math.max(0, Math.min(1, volatility))
+    this.current = this.createManager(weather, direction)
+  }
+
+  setVolatility(volatility: number): void {
+    this.volatility = Math.max(0, Math.min(1, volatility))
+  }
+
+  // Scales all wind speeds (MapConfig.windStrengthMultiplier)
+  setStrength(strength: number): void {
+    this.strength = Math.max(0, strength)
+  }
+
+  // Stronger, gustier or shiftier wind on top of the weather (race conditions)
+  setConditions(conditions: WindConditions): void {
+    this.conditions = conditions
+    this.current.setVariation(conditions.gusts, conditions.shifts)
+    this.incoming?.setVariation(conditions.gusts, conditions.shifts)
+  }
+
+  setBaseDirection(direction: number): void {
+    this.current.setBaseDirection(direction)
+    this.incoming?.setBaseDirection(direction)
+  }
+
+  getWeather(): Weather {
+    if (this.incoming && this.transitionTime / this.transitionDuration >= 0.5) {
+      return this.incoming.getWeather()
+    }
+    return this.current.getWeather()
+  }
+
+  /**
+   * Switch weather immediately, with no blend
+   */
+  setWeather(weather: Weather): void {
+    this.current = this.createManager(weather, this.current.getBaseDirection())
+    this.incoming = null
+    this.queued = null
+    this.queuedDirection = null
+    this.dwellTime = 0
+  }
+
+  /**
+   * Blend towards a weather (and optionally a new prevailing direction),
+   * passing through cloud when there is no direct transition
+   */
+  steerTowards(weather: Weather, direction?: number): void {
+    if (direction !== undefined) {
+      this.queuedDirection = direction
+    }
+
+    if (this.incoming) {
+      // Finish the blend in progress first
+      this.queued = weather
+      return
+    }
+
+    const from = this.current.getWeather()
+    if (from === weather) {
+      this.queued = null
+      // Same weather, new direction: blend the wind round
+      if (this.queuedDirection !== null) this.beginTransition(weather)
+    } else if (WEATHER_TRANSITIONS[from][weather] !== undefined) {
+      this.queued = null
+      this.beginTransition(weather)
+    } else {
+      this.queued = weather
+      this.beginTransition('cloudy')
+    }
+  }
+
+  /**
+   * The weather ahead if nothing steers it, read off the same seeded rolls
+   * update() will make: when each change shows and what it brings
+   */
+  forecast(horizon: number = FORECAST_HORIZON): ForecastPeriod[] {
+    const periods: ForecastPeriod[] = [{ time: 0, weather: this.getWeather() }]
+    let rngState = this.rngState
+    let weather = this.current.getWeather()
+    let time = 0
+    let dwell = this.dwellTime
+    let checkTimer = this.checkTimer
+
+    // A blend in progress finishes first
+    if (this.incoming) {
+      weather = this.incoming.getWeather()
+      const flip = this.transitionDuration / 2 - this.transitionTime
+      if (flip > 0) periods.push({ time: flip, weather })
+      time = this.transitionDuration - this.transitionTime
+      dwell = 0
+      checkTimer = 0
+    }
+
+    const random = () => {
+      rngState = (Math.imul(rngState, 1103515245) + 12345) & 0x7fffffff
+      return rngState / 0x7fffffff
+    }
+
+    while (time < horizon) {
+      const wait = CHECK_INTERVAL - checkTimer
+      time += wait
+      dwell += wait
+      checkTimer = 0
+      const roll = random()
+      const pick = random()
+
+      if (dwell < MIN_DWELL_TIME || this.volatility <= 0) continue
+      if (roll >= this.getChangeChance()) continue
+
+      weather = pickTransition(weather, pick)
+      const duration = this.getTransitionDuration(weather)
+      // Weather flips halfway through the blend
+      if (time + duration / 2 < horizon) periods.push({ time: time + duration / 2, weather })
+      time += duration
+      dwell = 0
+    }
+
+    return periods
+  }
+
+  update(deltaTime: number, boatSpeed: number, boatHeading: number): WeatherUpdate {
+    this.dwellTime += deltaTime
+
+    const currentWind = this.current.update(deltaTime, boatSpeed, boatHeading)
+    let wind = currentWind
+    let transition: WeatherTransition | null = null
+
+    if (this.incoming) {
+      this.transitionTime += deltaTime
+      const progress = Math.min(1, this.transitionTime / this.transitionDuration)
+      const incomingWind = this.incoming.update(deltaTime, boatSpeed, boatHeading)
+
+      wind = blendWind(currentWind, incomingWind, smoothstep(progress), boatSpeed, boatHeading)
+      transition = { from: this.current.getWeather(), to: this.incoming.getWeather(), progress }
+
+      if (progress >= 1) {
+        this.current = this.incoming
+        this.incoming = null
+        this.dwellTime = 0
+
+        if (this.queued) {
+          const next = this.queued
+          this.queued = null
+          this.steerTowards(next)
+        }
+      }
+    } else {
+      this.rollForTransition(deltaTime)
+    }
+
+    const strength = this.strength * this.conditions.strength
+    const speed = wind.speed * strength
+    const gustSpeed = wind.gustSpeed * strength
+    const apparent = calculateApparentWind(gustSpeed, wind.direction, boatSpeed, boatHeading)
+
+    return {
+      weather: this.getWeather(),
+      wind: {
+        ...wind,
+        speed,
+        gustSpeed,
+        apparentDirection: apparent.direction,
+        apparentSpeed: apparent.speed,
+      },
+      transition,
+    }
+  }
+
+  // Markov step: roll at fixed intervals so the sequence depends on elapsed time, not frame rate
+  private rollForTransition(deltaTime: number): void {
+    this.checkTimer += deltaTime
+
+    while (this.checkTimer >= CHECK_INTERVAL) {
+      this.checkTimer -= CHECK_INTERVAL
+      const roll = this.random()
+      const pick = this.random()
+
+      if (this.dwellTime < MIN_DWELL_TIME || this.volatility <= 0) continue
+
+      if (roll >= this.getChangeChance()) continue
+
+      this.beginTransition(pickTransition(this.current.getWeather(), pick))
+      return
+    }
+  }
+
+  // Chance of a change at each roll
+  private getChangeChance(): number {
+    return 1 - Math.exp(-BASE_CHANGE_RATE * this.volatility * CHECK_INTERVAL)
+  }
+
+  // Storms build slowly; calmer volatility stretches every change out further
+  private getTransitionDuration(weather: Weather): number {
+    const base = weather === 'storm' ? STORM_BUILD_TIME : TRANSITION_TIME
+    return base * (1.5 - this.volatility * 0.5)
+  }
+
+  private beginTransition(weather: Weather): void {
+    this.incoming = this.createManager(weather, this.queuedDirection ?? this.current.getBaseDirection())
+    this.queuedDirection = null
+    this.transitionTime = 0
+    this.checkTimer = 0
+    this.transitionDuration = this.getTransitionDuration(weather)
+  }
+
+  private createManager(weather: Weather, direction: number): WindSystemManager {
+    this.managerCount += 1
+    const manager = new WindSystemManager(direction, weather, this.seed + this.managerCount * 101)
+    manager.setVariation(this.conditions.gusts, this.conditions.shifts)
+    return manager
+  }
+
+  private random(): number {
+    this.rngState = (Math.imul(this.rngState, 1103515245) + 12345) & 0x7fffffff
+    return this.rngState / 0x7fffffff
+  }
+}
+
+// Next weather from the transition odds, given a roll in [0, 1]
+function pickTransition(from: Weather, pick: number): Weather {
+  const options = Object.entries(WEATHER_TRANSITIONS[from]) as [Weather, number][]
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0)
+  let threshold = pick * total
+  for (const [weather, weight] of options) {
+    threshold -= weight
+    if (threshold <= 0) return weather
+  }
+  return options[options.length - 1][0]
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t)
+}
+
+function blendWind(
+  from: WindState,
+  to: WindState,
+  t: number,
+  boatSpeed: number,
+  boatHeading: number
+): WindState {
+  // Blend direction along the shortest arc
+  let delta = to.direction - from.direction
+  while (delta > 180) delta -= 360
+  while (delta < -180) delta += 360
+  const direction = (from.direction + delta * t + 360) % 360
+
+  const speed = from.speed + (to.speed - from.speed) * t
+  const gustSpeed = from.gustSpeed + (to.gustSpeed - from.gustSpeed) * t
+  const apparent = calculateApparentWind(gustSpeed, direction, boatSpeed, boatHeading)
+
+  return {
+    direction,
+    speed,
+    gustSpeed,
+    gustFactor: from.gustFactor + (to.gustFactor - from.gustFactor) * t,
+    apparentDirection: apparent.direction,
+    apparentSpeed: apparent.speed,
+  }
+}
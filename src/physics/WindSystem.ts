@@ -14,6 +14,15 @@ export interface WindState {
   apparentSpeed: number      // Combined with boat movement
 }
 
+// Scales on top of the weather presets (e.g. race conditions); 1 = as the preset
+export interface WindConditions {
+  strength: number  // x wind speed
+  gusts: number     // x gust factor
+  shifts: number    // x direction variation
+}
+
+export const DEFAULT_WIND_CONDITIONS: WindConditions = { strength: 1, gusts: 1, shifts: 1 }
+
 // Weather presets with wind characteristics
 export const WEATHER_PRESETS: Record<Weather, {
   baseSpeed: [number, number]  // [min, max] m/s
@@ -137,19 +146,30 @@ class PerlinNoise {
   }
 }
 
-const windNoise = new PerlinNoise(Date.now())
-
 /**
  * Wind system state manager
+ * The same seed always produces the same wind over time
  */
 export class WindSystemManager {
   private baseDirection: number
   private weather: Weather
   private time: number = 0
+  private noise: PerlinNoise
+  private gusts: number = 1
+  private shifts: number = 1
 
-  constructor(initialDirection: number = 45, weather: Weather = 'trade-winds') {
+  constructor(initialDirection: number = 45, weather: Weather = 'trade-winds', seed: number = 42) {
     this.baseDirection = initialDirection
     this.weather = weather
+    this.noise = new PerlinNoise(seed)
+  }
+
+  getWeather(): Weather {
+    return this.weather
+  }
+
+  getBaseDirection(): number {
+    return this.baseDirection
   }
 
   setWeather(weather: Weather): void {
@@ -157,7 +177,13 @@ export class WindSystemManager {
   }
 
   setBaseDirection(direction: number): void {
-    this.baseDirection = direction % 360
+    this.baseDirection = ((direction % 360) + 360) % 360
+  }
+
+  // Scale the preset's gusts and direction drift
+  setVariation(gusts: number, shifts: number): void {
+    this.gusts = Math.max(0, gusts)
+    this.shifts = Math.max(0, shifts)
   }
 
   update(deltaTime: number, boatSpeed: number, boatHeading: number): WindState {
@@ -173,9 +199,9 @@ export class WindSystemManager {
     }
 
     // Generate smooth variations using noise
-    const speedNoise = windNoise.noise1D(this.time * 0.1)
-    const directionNoise = windNoise.noise1D(this.time * 0.05 + 100)
-    const gustNoise = windNoise.noise1D(this.time * 0.5 + 200)
+    const speedNoise = this.noise.noise1D(this.time * 0.1)
+    const directionNoise = this.noise.noise1D(this.time * 0.05 + 100)
+    const gustNoise = this.noise.noise1D(this.time * 0.5 + 200)
 
     // Calculate current speed with noise
     const [minSpeed, maxSpeed] = preset.baseSpeed
@@ -183,11 +209,12 @@ export class WindSystemManager {
     const currentSpeed = minSpeed + (speedRange / 2) + (speedNoise * speedRange / 2)
 
     // Calculate gusts
-    const gustMultiplier = 1 + gustNoise * preset.gustFactor
+    const gustFactor = preset.gustFactor * this.gusts
+    const gustMultiplier = Math.max(0, 1 + gustNoise * gustFactor)
     const gustSpeed = currentSpeed * gustMultiplier
 
     // Calculate direction with drift
-    const directionOffset = directionNoise * preset.directionVariation
+    const directionOffset = directionNoise * preset.directionVariation * this.shifts
     const currentDirection = (this.baseDirection + directionOffset + 360) % 360
 
     // Calculate apparent wind
@@ -197,7 +224,7 @@ export class WindSystemManager {
       direction: currentDirection,
       speed: currentSpeed,
       gustSpeed,
-      gustFactor: preset.gustFactor,
+      gustFactor,
       apparentDirection: apparent.direction,
       apparentSpeed: apparent.speed,
     }
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_COURSE_GATES, MAX_GATE_RADIUS, MIN_GATE_RADIUS, createCustomCourse, isCustomCourse, parseCourseFile } from './customCourses'
+
+function courseWithGates(radii: number[]) {
+  return { ...createCustomCourse(42, [0, 0]), gates: radii.map((radius, i) => ({ position: [i * 1000, 500], radius })) }
+}
+
+describe('isCustomCourse', () => {
+  it('accepts gates the editor could have made', () => {
+    expect(isCustomCourse(courseWithGates([MIN_GATE_RADIUS, MAX_GATE_RADIUS]))).toBe(true)
+  })
+
+  it('rejects gates sized outside the editor range', () => {
+    expect(isCustomCourse(courseWithGates([1e9]))).toBe(false)
+    expect(isCustomCourse(courseWithGates([MIN_GATE_RADIUS - 1]))).toBe(false)
+    expect(isCustomCourse(courseWithGates([Infinity]))).toBe(false)
+  })
+
+  it('rejects courses with too many gates', () => {
+    expect(isCustomCourse(courseWithGates(new Array(MAX_COURSE_GATES).fill(250)))).toBe(true)
+    expect(isCustomCourse(courseWithGates(new Array(MAX_COURSE_GATES + 1).fill(250)))).toBe(false)
+  })
+})
+
+describe('parseCourseFile', () => {
+  it('reads back an exported course and drops a widened one', () => {
+    const course = courseWithGates([250])
+    expect(parseCourseFile(JSON.stringify(course))).toEqual(course)
+    expect(parseCourseFile(JSON.stringify(courseWithGates([1e9])))).toBeNull()
+  })
+})
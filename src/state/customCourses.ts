@@ -0,0 +1,130 @@
+/**
+ * Custom Courses
+ * Race courses laid out in the map's course editor. Stored per world seed, since the
+ * marks only make sense around that map's islands, and shared as small JSON files.
+ */
+
+import { isFiniteNumber, isPoint, isRecord } from '../utils/guards'
+
+export const COURSE_VERSION = 1
+export const MAX_COURSE_LAPS = 5
+export const MIN_GATE_RADIUS = 100
+export const MAX_GATE_RADIUS = 600
+export const MAX_COURSE_GATES = 20
+const COURSE_KEY_PREFIX = 'inforelax:courses:'
+
+export interface CustomGate {
+  position: [number, number]
+  radius: number
+}
+
+export interface CustomCourse {
+  version: number
+  id: string
+  name: string
+  worldSeed: number               // map the course was laid out on
+  laps: number                    // more than one sails back over the start line each lap
+  startPosition: [number, number]
+  gates: CustomGate[]             // in the order sailed
+  createdAt: number               // ms since epoch
+}
+
+export function createCustomCourse(worldSeed: number, startPosition: [number, number]): CustomCourse {
+  return {
+    version: COURSE_VERSION,
+    id: Date.now().toString(36),
+    name: 'My Course',
+    worldSeed,
+    laps: 1,
+    startPosition,
+    gates: [],
+    createdAt: Date.now(),
+  }
+}
+
+// Gate sizes are held to what the editor offers, so an imported course can't widen them
+function isCustomGate(gate: unknown): gate is CustomGate {
+  return (
+    isRecord(gate) &&
+    isPoint(gate.position) &&
+    isFiniteNumber(gate.radius) &&
+    gate.radius >= MIN_GATE_RADIUS &&
+    gate.radius <= MAX_GATE_RADIUS
+  )
+}
+
+// Shape check for courses read from storage or an imported file
+export function isCustomCourse(data: unknown): data is CustomCourse {
+  return (
+    isRecord(data) &&
+    data.version === COURSE_VERSION &&
+    typeof data.id === 'string' &&
+    typeof data.name === 'string' &&
+    typeof data.worldSeed === 'number' &&
+    typeof data.laps === 'number' &&
+    Number.isInteger(data.laps) &&
+    data.laps >= 1 &&
+    data.laps <= MAX_COURSE_LAPS &&
+    isPoint(data.startPosition) &&
+    Array.isArray(data.gates) &&
+    data.gates.length <= MAX_COURSE_GATES &&
+    data.gates.every(isCustomGate) &&
+    typeof data.createdAt === 'number'
+  )
+}
+
+export function loadCustomCourses(worldSeed: number): CustomCourse[] {
+  try {
+    const raw = localStorage.getItem(COURSE_KEY_PREFIX + worldSeed)
+    if (!raw) return []
+    const data = JSON.parse(raw)
+    return Array.isArray(data) ? data.filter(isCustomCourse) : []
+  } catch (error) {
+    console.error('Error loading courses:', error)
+    return []
+  }
+}
+
+function storeCourses(worldSeed: number, courses: CustomCourse[]): boolean {
+  try {
+    localStorage.setItem(COURSE_KEY_PREFIX + worldSeed, JSON.stringify(courses))
+    return true
+  } catch (error) {
+    console.error('Error saving courses:', error)
+    return false
+  }
+}
+
+// Adds the course to its map's list, replacing an earlier version with the same id
+export function saveCustomCourse(course: CustomCourse): boolean {
+  const others = loadCustomCourses(course.worldSeed).filter((saved) => saved.id !== course.id)
+  return storeCourses(course.worldSeed, [...others, course])
+}
+
+export function deleteCustomCourse(worldSeed: number, id: string): void {
+  storeCourses(
+    worldSeed,
+    loadCustomCourses(worldSeed).filter((course) => course.id !== id)
+  )
+}
+
+// Download a course as a .course.json file
+export function exportCustomCourse(course: CustomCourse): void {
+  const blob = new Blob([JSON.stringify(course, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${course.name.replace(/\W+/g, '_')}-${course.worldSeed}.course.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function parseCourseFile(text: string): CustomCourse | null {
+  try {
+    const data = JSON.parse(text)
+    return isCustomCourse(data) ? data : null
+  } catch (error) {
+    console.error('Error reading course file:', error)
+    return null
+  }
+}
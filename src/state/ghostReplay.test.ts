@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  GHOST_SAMPLE_RATE,
+  GHOST_VERSION,
+  decodeFrames,
+  encodeFrames,
+  isGhostReplay,
+  parseGhostFile,
+  sampleGhost,
+  type GhostFrame,
+  type GhostReplay,
+} from './ghostReplay'
+
+const frames: GhostFrame[] = [
+  { time: 0, x: 0, z: 150, rotation: 0, speed: 0, throttle: 0 },
+  { time: 200, x: 1.25, z: 151.5, rotation: 0.1234, speed: 3.21, throttle: 80 },
+  { time: 400, x: -2048.5, z: 3000.75, rotation: -3.1, speed: -1.5, throttle: -40 },
+]
+
+function createReplay(overrides: Partial<GhostReplay> = {}): GhostReplay {
+  return {
+    version: GHOST_VERSION,
+    raceId: 'open-ocean',
+    raceName: 'Open Ocean',
+    playerName: 'Navigator',
+    recordedAt: 1700000000000,
+    hull: { type: 'monohull', length: 12, beam: 4, draft: 1.5, bowShape: 'piercing' },
+    totalTime: 400,
+    checkpointTimes: [200, 400],
+    sampleRate: GHOST_SAMPLE_RATE,
+    frames: encodeFrames(frames),
+    ...overrides,
+  }
+}
+
+describe('encodeFrames / decodeFrames', () => {
+  it('round-trips frames within their packed precision', () => {
+    const decoded = decodeFrames(encodeFrames(frames))
+
+    expect(decoded).toHaveLength(frames.length)
+    decoded.forEach((frame, i) => {
+      expect(frame.time).toBe(frames[i].time)
+      expect(frame.x).toBeCloseTo(frames[i].x, 2)
+      expect(frame.z).toBeCloseTo(frames[i].z, 2)
+      expect(frame.rotation).toBeCloseTo(frames[i].rotation, 3)
+      expect(frame.speed).toBeCloseTo(frames[i].speed, 2)
+      expect(frame.throttle).toBe(frames[i].throttle)
+    })
+  })
+
+  it('wraps rotation and clamps throttle into range', () => {
+    const [frame] = decodeFrames(encodeFrames([{ time: 0, x: 0, z: 0, rotation: Math.PI * 2 + 0.5, speed: 0, throttle: 250 }]))
+    expect(frame.rotation).toBeCloseTo(0.5, 3)
+    expect(frame.throttle).toBe(100)
+  })
+
+  it('throws on data that is not base64', () => {
+    expect(() => decodeFrames('not base64!')).toThrow()
+  })
+})
+
+describe('sampleGhost', () => {
+  it('interpolates between frames and holds the last one', () => {
+    expect(sampleGhost(frames, -1)).toBeNull()
+    expect(sampleGhost(frames, 100)!.x).toBeCloseTo(0.625)
+    expect(sampleGhost(frames, 1000)).toBe(frames[2])
+  })
+})
+
+describe('isGhostReplay', () => {
+  it('accepts a complete replay', () => {
+    expect(isGhostReplay(createReplay())).toBe(true)
+  })
+
+  it('rejects replays missing a declared field', () => {
+    const { playerName: _, ...withoutName } = createReplay()
+    expect(isGhostReplay(withoutName)).toBe(false)
+    expect(isGhostReplay({ ...createReplay(), raceName: 3 })).toBe(false)
+    expect(isGhostReplay({ ...createReplay(), sampleRate: undefined })).toBe(false)
+    expect(isGhostReplay({ ...createReplay(), checkpointTimes: ['200'] })).toBe(false)
+  })
+
+  it('rejects a null hull', () => {
+    expect(isGhostReplay({ ...createReplay(), hull: null })).toBe(false)
+  })
+})
+
+describe('parseGhostFile', () => {
+  it('reads back an exported replay', () => {
+    const replay = createReplay()
+    expect(parseGhostFile(JSON.stringify(replay))).toEqual(replay)
+  })
+
+  it('rejects corrupt frame data', () => {
+    expect(parseGhostFile(JSON.stringify(createReplay({ frames: '%%%' })))).toBeNull()
+  })
+})
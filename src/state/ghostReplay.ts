@@ -0,0 +1,224 @@
+/**
+ * Ghost Replays
+ * Compact recordings of a race run, replayed as a ghost yacht on the next attempt.
+ * Frames are packed into a little-endian binary block (base64) so a run of several
+ * minutes fits in a few tens of kilobytes and can be shared as a file.
+ */
+
+import type { HullConfig } from './useYachtStore'
+import { isRecord } from '../utils/guards'
+
+export const GHOST_VERSION = 1
+export const GHOST_SAMPLE_RATE = 5 // frames per second
+const GHOST_KEY_PREFIX = 'inforelax:ghost:'
+
+// time u32 (ms) | x f32 | z f32 | rotation i16 (1e-4 rad) | speed i16 (0.01 kn) | throttle i8 (%)
+const FRAME_BYTES = 17
+
+export interface GhostFrame {
+  time: number     // ms since the start
+  x: number
+  z: number
+  rotation: number // radians
+  speed: number    // knots
+  throttle: number // -100 to 100
+}
+
+export interface GhostReplay {
+  version: number
+  raceId: string
+  raceName: string
+  playerName: string
+  recordedAt: number        // ms since epoch
+  hull: HullConfig          // so the ghost looks like the boat that sailed it
+  totalTime: number         // ms
+  checkpointTimes: number[] // ms since the start, every gate of every lap in the order sailed
+  sampleRate: number        // frames per second
+  frames: string            // base64 packed frames
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle))
+}
+
+function clampInt(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)))
+}
+
+export function encodeFrames(frames: GhostFrame[]): string {
+  const buffer = new ArrayBuffer(frames.length * FRAME_BYTES)
+  const view = new DataView(buffer)
+
+  frames.forEach((frame, i) => {
+    const offset = i * FRAME_BYTES
+    view.setUint32(offset, clampInt(frame.time, 0, 0xffffffff), true)
+    view.setFloat32(offset + 4, frame.x, true)
+    view.setFloat32(offset + 8, frame.z, true)
+    view.setInt16(offset + 12, clampInt(wrapAngle(frame.rotation) * 10000, -32768, 32767), true)
+    view.setInt16(offset + 14, clampInt(frame.speed * 100, -32768, 32767), true)
+    view.setInt8(offset + 16, clampInt(frame.throttle, -100, 100))
+  })
+
+  let binary = ''
+  const bytes = new Uint8Array(buffer)
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export function decodeFrames(data: string): GhostFrame[] {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  const view = new DataView(bytes.buffer)
+  const frames: GhostFrame[] = []
+  for (let offset = 0; offset + FRAME_BYTES <= bytes.length; offset += FRAME_BYTES) {
+    frames.push({
+      time: view.getUint32(offset, true),
+      x: view.getFloat32(offset + 4, true),
+      z: view.getFloat32(offset + 8, true),
+      rotation: view.getInt16(offset + 12, true) / 10000,
+      speed: view.getInt16(offset + 14, true) / 100,
+      throttle: view.getInt8(offset + 16),
+    })
+  }
+  return frames
+}
+
+/**
+ * Ghost state at a moment in the run, interpolated between frames.
+ * Returns null before the first frame; holds the last frame once the ghost has finished.
+ */
+export function sampleGhost(frames: GhostFrame[], time: number): GhostFrame | null {
+  if (frames.length === 0 || time < frames[0].time) return null
+  const last = frames[frames.length - 1]
+  if (time >= last.time) return last
+
+  // Binary search for the frame pair around the time
+  let lo = 0
+  let hi = frames.length - 1
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (frames[mid].time <= time) lo = mid
+    else hi = mid
+  }
+
+  const a = frames[lo]
+  const b = frames[hi]
+  const t = (time - a.time) / Math.max(1, b.time - a.time)
+  return {
+    time,
+    x: a.x + (b.x - a.x) * t,
+    z: a.z + (b.z - a.z) * t,
+    rotation: a.rotation + wrapAngle(b.rotation - a.rotation) * t,
+    speed: a.speed + (b.speed - a.speed) * t,
+    throttle: a.throttle + (b.throttle - a.throttle) * t,
+  }
+}
+
+/**
+ * Live delta to the ghost in ms (positive = behind). The ghost time is taken where its
+ * track passes closest to the player, within the leg the player is sailing.
+ */
+export function getGhostDelta(
+  replay: GhostReplay,
+  frames: GhostFrame[],
+  position: [number, number, number],
+  raceTime: number,
+  checkpointIndex: number
+): number | null {
+  if (frames.length === 0) return null
+
+  const legStart = checkpointIndex > 0 ? replay.checkpointTimes[checkpointIndex - 1] ?? 0 : 0
+  const legEnd = replay.checkpointTimes[checkpointIndex] ?? replay.totalTime
+
+  let bestTime: number | null = null
+  let bestDist = Infinity
+  for (const frame of frames) {
+    if (frame.time < legStart || frame.time > legEnd) continue
+    const dx = frame.x - position[0]
+    const dz = frame.z - position[2]
+    const dist = dx * dx + dz * dz
+    if (dist < bestDist) {
+      bestDist = dist
+      bestTime = frame.time
+    }
+  }
+
+  return bestTime === null ? null : raceTime - bestTime
+}
+
+// Shape check for ghosts read from storage or an imported file
+export function isGhostReplay(data: unknown): data is GhostReplay {
+  return (
+    isRecord(data) &&
+    data.version === GHOST_VERSION &&
+    typeof data.raceId === 'string' &&
+    typeof data.raceName === 'string' &&
+    typeof data.playerName === 'string' &&
+    typeof data.recordedAt === 'number' &&
+    isRecord(data.hull) &&
+    typeof data.totalTime === 'number' &&
+    Array.isArray(data.checkpointTimes) &&
+    data.checkpointTimes.every((time) => typeof time === 'number') &&
+    typeof data.sampleRate === 'number' &&
+    typeof data.frames === 'string'
+  )
+}
+
+export function saveGhost(replay: GhostReplay): boolean {
+  try {
+    localStorage.setItem(GHOST_KEY_PREFIX + replay.raceId, JSON.stringify(replay))
+    return true
+  } catch (error) {
+    console.error('Error saving ghost:', error)
+    return false
+  }
+}
+
+export function loadGhost(raceId: string): GhostReplay | null {
+  try {
+    const raw = localStorage.getItem(GHOST_KEY_PREFIX + raceId)
+    if (!raw) return null
+    const data = JSON.parse(raw)
+    return isGhostReplay(data) ? data : null
+  } catch (error) {
+    console.error('Error loading ghost:', error)
+    return null
+  }
+}
+
+export function deleteGhost(raceId: string): void {
+  try {
+    localStorage.removeItem(GHOST_KEY_PREFIX + raceId)
+  } catch (error) {
+    console.error('Error deleting ghost:', error)
+  }
+}
+
+// Download a ghost as a .ghost.json file
+export function exportGhost(replay: GhostReplay): void {
+  const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${replay.raceId}-${replay.playerName.replace(/\W+/g, '_')}.ghost.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function parseGhostFile(text: string): GhostReplay | null {
+  try {
+    const data = JSON.parse(text)
+    if (!isGhostReplay(data)) return null
+    decodeFrames(data.frames) // reject corrupt frame data up front
+    return data
+  } catch (error) {
+    console.error('Error reading ghost file:', error)
+    return null
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { SAVE_VERSION, isSaveData, migrate, serializeGame } from './saveGame'
+import { useYachtStore } from './useYachtStore'
+import { useGameStore } from './useGameStore'
+import { useRaceStore } from './useRaceStore'
+import { useWorldStore } from './useWorldStore'
+import { MAP_PRESETS } from './useLandingStore'
+import { HOME_MARINA_ID } from '../world/MarinaServices'
+import { generateWorld } from '../world/WorldGenerator'
+
+// A save as the first build wrote it
+function createV1Save() {
+  const game = useGameStore.getState()
+  const yacht = useYachtStore.getState().currentYacht
+  return {
+    version: 1,
+    savedAt: 1700000000000,
+    playerName: 'Navigator',
+    mapConfig: MAP_PRESETS['serene-archipelago'],
+    game: {
+      energyCredits: 120,
+      battery: game.battery,
+      boatDamage: game.boatDamage,
+      position: [10, 0, 20],
+      rotation: 1,
+      timeOfDay: 0.5,
+      gameTime: 300,
+    },
+    yacht: { currentYacht: yacht, savedYachts: [], proceduralHullConfig: null },
+    world: { discoveredPOIs: ['poi-1'], icebergs: [], floatingIce: [], iceSimulation: null },
+    race: {
+      difficulty: 'moderate',
+      leaderboard: [
+        { rank: 1, playerName: 'Navigator', bestTime: 90000, totalTime: 90000, completedLaps: 1, personalBest: 90000, collisions: 0, finalIntegrity: 100 },
+      ],
+    },
+  }
+}
+
+describe('migrate', () => {
+  it('upgrades a version 1 save through every step to the current layout', () => {
+    const save = migrate(createV1Save())
+
+    expect(save).not.toBeNull()
+    expect(save!.version).toBe(SAVE_VERSION)
+    expect(isSaveData(save)).toBe(true)
+    expect(save!.race.leaderboard.map((entry) => entry.conditions)).toEqual(['unrated'])
+    expect(save!.regatta.series).toBeNull()
+    expect(save!.world.unlockedMarinas).toEqual([HOME_MARINA_ID])
+    expect(save!.activity).toEqual({ salvageMass: 0, salvageValue: 0 })
+    expect(save!.world.discoveredPOIs).toEqual(['poi-1'])
+    expect(save!.game.energyCredits).toBe(120)
+  })
+
+  it('grandfathers the saved yachts into the inventory', () => {
+    const save = migrate(createV1Save())
+    const owned = Object.values(save!.inventory.owned).flat()
+    expect(owned.length).toBeGreaterThan(0)
+  })
+
+  it('leaves a current save as it is', () => {
+    const current = migrate(createV1Save())
+    expect(migrate(JSON.parse(JSON.stringify(current)))).toEqual(current)
+  })
+
+  it('rejects saves it cannot read', () => {
+    expect(migrate(null)).toBeNull()
+    expect(migrate({ ...createV1Save(), version: 0 })).toBeNull()
+    expect(migrate({ ...createV1Save(), version: SAVE_VERSION + 1 })).toBeNull()
+  })
+
+  it('rejects a save that does not come out as SaveData', () => {
+    const { playerName: _, ...withoutName } = createV1Save()
+    expect(migrate(withoutName)).toBeNull()
+  })
+})
+
+describe('serializeGame', () => {
+  it('saves the boat\'s own charge, not an endurance race\'s', () => {
+    useWorldStore.setState({ world: generateWorld(7) })
+    useGameStore.getState().setBatteryCharge(0)
+    useRaceStore.setState({ preRaceCharge: 60 })
+
+    const battery = serializeGame()!.game.battery
+    expect(battery.currentCharge).toBe(60)
+    expect(battery.chargePercent).toBeCloseTo((60 / battery.capacity) * 100)
+
+    useRaceStore.setState({ preRaceCharge: null })
+    expect(serializeGame()!.game.battery.currentCharge).toBe(0)
+  })
+})
@@ -0,0 +1,357 @@
+/**
+ * Save Games
+ * Versioned save slots in localStorage. The world is regenerated from its MapConfig
+ * (so island elevation functions are rebuilt), then progress is laid back over it.
+ */
+
+import { useGameStore, type BatteryState, type BoatDamageState } from './useGameStore'
+import { useYachtStore, type YachtConfig } from './useYachtStore'
+import { useWorldStore } from './useWorldStore'
+import { useRaceStore, type LeaderboardEntry, type RaceState, type RaceDifficulty } from './useRaceStore'
+import { useLandingStore } from './useLandingStore'
+import { useRegattaStore, type RegattaSeries } from './useRegattaStore'
+import { useActivityStore } from './useActivityStore'
+import { useInventoryStore, createEmptyInventory, grantYachtItems, type OwnedItems } from './useInventoryStore'
+import type { ProceduralHullConfig } from '../editor/HullTypes'
+import type { MapConfig, Iceberg, FloatingIce } from '../world/WorldGenerator'
+import type { IceSimulationState } from '../world/WorldSimulation'
+import { RACE_ICE_PREFIX } from '../world/RaceConditions'
+import { HOME_MARINA_ID } from '../world/MarinaServices'
+import { isRecord } from '../utils/guards'
+
+export const SAVE_VERSION = 6
+const SAVE_KEY_PREFIX = 'inforelax:save:'
+
+export const SAVE_SLOTS = ['autosave', 'slot-1', 'slot-2', 'slot-3'] as const
+export type SaveSlotId = typeof SAVE_SLOTS[number]
+
+export interface SaveData {
+  version: number
+  savedAt: number // ms since epoch
+  playerName: string
+  mapConfig: MapConfig
+  game: {
+    energyCredits: number
+    battery: BatteryState
+    boatDamage: BoatDamageState
+    position: [number, number, number]
+    rotation: number
+    timeOfDay: number
+    gameTime: number
+  }
+  yacht: {
+    currentYacht: YachtConfig
+    savedYachts: YachtConfig[]
+    proceduralHullConfig: ProceduralHullConfig | null
+  }
+  world: {
+    discoveredPOIs: string[] // Set<string> in the store
+    unlockedMarinas: string[] // Set<string> in the store
+    icebergs: Iceberg[]
+    floatingIce: FloatingIce[]
+    iceSimulation: IceSimulationState | null
+  }
+  race: {
+    difficulty: RaceDifficulty
+    leaderboard: RaceState['leaderboard']
+  }
+  inventory: {
+    owned: OwnedItems
+  }
+  regatta: {
+    series: RegattaSeries | null
+  }
+  activity: {
+    salvageMass: number // kg aboard, not yet landed
+    salvageValue: number
+  }
+}
+
+export interface SaveSlotSummary {
+  slot: SaveSlotId
+  savedAt: number
+  playerName: string
+  mapName: string
+  energyCredits: number
+}
+
+// Save layouts before the current one, each built on the next newer one
+type SaveV6 = SaveData
+type SaveV5 = Omit<SaveV6, 'activity'>
+type SaveV4 = Omit<SaveV5, 'world'> & { world: Omit<SaveData['world'], 'unlockedMarinas'> }
+type SaveV3 = Omit<SaveV4, 'regatta'>
+type SaveV2 = Omit<SaveV3, 'race'> & {
+  race: { difficulty: RaceDifficulty; leaderboard: Omit<LeaderboardEntry, 'conditions'>[] }
+}
+type SaveV1 = Omit<SaveV2, 'inventory'>
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS = {
+  // v2 added the unlock inventory: grandfather in everything the saved yachts use
+  1: (data: SaveV1): SaveV2 => ({
+    ...data,
+    inventory: {
+      owned: grantYachtItems(createEmptyInventory(), [
+        data.yacht.currentYacht,
+        ...(data.yacht.savedYachts ?? []),
+      ]),
+    },
+  }),
+  // v3 ranks leaderboard times per race conditions; older times were set under unknown ones
+  2: (data: SaveV2): SaveV3 => ({
+    ...data,
+    race: {
+      ...data.race,
+      leaderboard: (data.race?.leaderboard ?? []).map((entry) => ({ ...entry, conditions: 'unrated' })),
+    },
+  }),
+  // v4 keeps regatta series progress
+  3: (data: SaveV3): SaveV4 => ({ ...data, regatta: { series: null } }),
+  // v5 keeps which harbours of the network have been opened; older worlds only had the hub
+  4: (data: SaveV4): SaveV5 => ({ ...data, world: { ...data.world, unlockedMarinas: [HOME_MARINA_ID] } }),
+  // v6 keeps salvage aboard; older saves had none
+  5: (data: SaveV5): SaveV6 => ({ ...data, activity: { salvageMass: 0, salvageValue: 0 } }),
+} satisfies Record<number, (data: never) => { version: number }>
+
+// Shape check for a save after migration, before it is laid over the stores
+export function isSaveData(data: unknown): data is SaveData {
+  return (
+    isRecord(data) &&
+    data.version === SAVE_VERSION &&
+    typeof data.savedAt === 'number' &&
+    typeof data.playerName === 'string' &&
+    isRecord(data.mapConfig) &&
+    typeof data.mapConfig.seed === 'number' &&
+    isRecord(data.game) &&
+    typeof data.game.energyCredits === 'number' &&
+    isRecord(data.game.battery) &&
+    isRecord(data.game.boatDamage) &&
+    Array.isArray(data.game.position) &&
+    typeof data.game.rotation === 'number' &&
+    isRecord(data.yacht) &&
+    isRecord(data.yacht.currentYacht) &&
+    Array.isArray(data.yacht.savedYachts) &&
+    isRecord(data.world) &&
+    Array.isArray(data.world.discoveredPOIs) &&
+    Array.isArray(data.world.unlockedMarinas) &&
+    Array.isArray(data.world.icebergs) &&
+    Array.isArray(data.world.floatingIce) &&
+    isRecord(data.race) &&
+    Array.isArray(data.race.leaderboard) &&
+    isRecord(data.inventory) &&
+    isRecord(data.inventory.owned) &&
+    isRecord(data.regatta) &&
+    isRecord(data.activity) &&
+    typeof data.activity.salvageMass === 'number' &&
+    typeof data.activity.salvageValue === 'number'
+  )
+}
+
+/**
+ * Upgrade a stored save to the current version, or null if it can't be.
+ * Each step is typed from one layout to the next; the result is checked
+ * against SaveData since the stored data itself is only trusted by its version.
+ */
+export function migrate(data: unknown): SaveData | null {
+  if (!isRecord(data)) return null
+  let version = typeof data.version === 'number' ? data.version : 0
+  if (version > SAVE_VERSION) {
+    console.warn(`Save version ${version} is newer than this build (${SAVE_VERSION})`)
+    return null
+  }
+
+  let upgraded: unknown = data
+  while (version < SAVE_VERSION) {
+    const step: ((data: never) => object) | undefined = MIGRATIONS[version as keyof typeof MIGRATIONS]
+    if (!step) {
+      console.warn(`No migration from save version ${version}`)
+      return null
+    }
+    upgraded = { ...step(upgraded as never), version: version + 1 }
+    version += 1
+  }
+
+  if (!isSaveData(upgraded)) {
+    console.warn(`Save did not match version ${SAVE_VERSION} after migration`)
+    return null
+  }
+  return upgraded
+}
+
+/**
+ * Snapshot the current session, or null if no world is loaded
+ */
+export function serializeGame(): SaveData | null {
+  const { world, discoveredPOIs, unlockedMarinas, iceSimulation } = useWorldStore.getState()
+  if (!world) return null
+
+  const game = useGameStore.getState()
+  const yacht = useYachtStore.getState()
+  const race = useRaceStore.getState()
+  const activity = useActivityStore.getState()
+
+  // Mid-endurance-race the battery holds the race's charge, not the boat's own
+  const battery =
+    race.preRaceCharge !== null
+      ? { ...game.battery, currentCharge: race.preRaceCharge, chargePercent: (race.preRaceCharge / game.battery.capacity) * 100 }
+      : game.battery
+
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    playerName: useLandingStore.getState().playerName,
+    mapConfig: world.mapConfig,
+    game: {
+      energyCredits: game.energyCredits,
+      battery,
+      boatDamage: game.boatDamage,
+      position: game.player.position,
+      rotation: game.player.rotation,
+      timeOfDay: game.timeOfDay,
+      gameTime: game.gameTime,
+    },
+    yacht: {
+      currentYacht: yacht.currentYacht,
+      savedYachts: yacht.savedYachts,
+      proceduralHullConfig: yacht.proceduralHullConfig,
+    },
+    world: {
+      discoveredPOIs: Array.from(discoveredPOIs),
+      unlockedMarinas: Array.from(unlockedMarinas),
+      icebergs: world.icebergs,
+      floatingIce: world.floatingIce.filter((ice) => !ice.id.startsWith(RACE_ICE_PREFIX)), // laid again per race
+      iceSimulation,
+    },
+    race: {
+      difficulty: race.difficulty,
+      leaderboard: race.leaderboard,
+    },
+    inventory: {
+      owned: useInventoryStore.getState().owned,
+    },
+    regatta: {
+      series: useRegattaStore.getState().series,
+    },
+    activity: {
+      salvageMass: activity.salvageMass,
+      salvageValue: activity.salvageValue,
+    },
+  }
+}
+
+export function saveGame(slot: SaveSlotId): boolean {
+  const data = serializeGame()
+  if (!data) return false
+
+  try {
+    localStorage.setItem(SAVE_KEY_PREFIX + slot, JSON.stringify(data))
+    return true
+  } catch (error) {
+    console.error('Error saving game:', error)
+    return false
+  }
+}
+
+export function readSave(slot: SaveSlotId): SaveData | null {
+  try {
+    const raw = localStorage.getItem(SAVE_KEY_PREFIX + slot)
+    return raw ? migrate(JSON.parse(raw)) : null
+  } catch (error) {
+    console.error('Error reading save:', error)
+    return null
+  }
+}
+
+export function deleteSave(slot: SaveSlotId): void {
+  try {
+    localStorage.removeItem(SAVE_KEY_PREFIX + slot)
+  } catch (error) {
+    console.error('Error deleting save:', error)
+  }
+}
+
+export function listSaves(): SaveSlotSummary[] {
+  const summaries: SaveSlotSummary[] = []
+  for (const slot of SAVE_SLOTS) {
+    const data = readSave(slot)
+    if (!data) continue
+    summaries.push({
+      slot,
+      savedAt: data.savedAt,
+      playerName: data.playerName,
+      mapName: data.mapConfig.name,
+      energyCredits: data.game.energyCredits,
+    })
+  }
+  return summaries
+}
+
+/**
+ * Restore every store from a save. The world is regenerated from the saved
+ * MapConfig first, then drifted ice and discoveries are laid over it.
+ */
+export function applySave(data: SaveData): void {
+  const landing = useLandingStore.getState()
+  landing.setPlayerName(data.playerName)
+  useLandingStore.setState({ mapConfig: data.mapConfig, selectedPresetId: null })
+
+  const worldStore = useWorldStore.getState()
+  worldStore.initializeWorldFromConfig(data.mapConfig)
+  const world = useWorldStore.getState().world
+  if (world) {
+    world.index.icebergs.sync(data.world.icebergs)
+    world.index.floatingIce.sync(data.world.floatingIce)
+    useWorldStore.setState({
+      world: { ...world, icebergs: data.world.icebergs, floatingIce: data.world.floatingIce },
+      iceSimulation: data.world.iceSimulation ?? useWorldStore.getState().iceSimulation,
+      discoveredPOIs: new Set(data.world.discoveredPOIs),
+      unlockedMarinas: new Set(data.world.unlockedMarinas),
+    })
+  }
+
+  useYachtStore.setState({
+    currentYacht: data.yacht.currentYacht,
+    savedYachts: data.yacht.savedYachts,
+    proceduralHullConfig: data.yacht.proceduralHullConfig,
+  })
+  useYachtStore.getState().recalculateStats()
+
+  useGameStore.getState().resetGameState()
+  useGameStore.setState((state) => {
+    state.energyCredits = data.game.energyCredits
+    state.battery = data.game.battery
+    state.boatDamage = data.game.boatDamage
+    state.player.position = data.game.position
+    state.player.rotation = data.game.rotation
+    state.timeOfDay = data.game.timeOfDay
+    state.gameTime = data.game.gameTime
+  })
+
+  useRaceStore.setState({
+    difficulty: data.race.difficulty,
+    leaderboard: data.race.leaderboard,
+  })
+
+  useInventoryStore.getState().setOwned(data.inventory.owned)
+
+  // A series race in progress isn't saved, so the next one is sailed from the menu
+  useRegattaStore.setState({ series: data.regatta.series, activeRaceId: null })
+
+  // Activities start afresh on the loaded world, with the salvage still aboard
+  const activity = useActivityStore.getState()
+  activity.initActivities(data.mapConfig.seed)
+  activity.setSalvage(data.activity.salvageMass, data.activity.salvageValue)
+}
+
+export function loadGame(slot: SaveSlotId): boolean {
+  const data = readSave(slot)
+  if (!data) return false
+
+  try {
+    applySave(data)
+    return true
+  } catch (error) {
+    console.error('Error loading save:', error)
+    return false
+  }
+}
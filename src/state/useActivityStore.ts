@@ -0,0 +1,385 @@
+import { create } from 'zustand'
+import { useGameStore } from './useGameStore'
+import { useYachtStore } from './useYachtStore'
+import { useWorldStore } from './useWorldStore'
+import { hasModuleAbility } from '../data/deckModules'
+import {
+  CARGO_CONTRACT_COUNT,
+  CARGO_HANDLING_RADIUS,
+  DJ_GIG_RATE,
+  FISHING_CATCH_TIME,
+  FISHING_MAX_SPEED,
+  REEF_RESTOCK_TIME,
+  REEF_STOCK,
+  findFishingReef,
+  generateCargoContracts,
+  getCatchReward,
+  isWithin,
+  nextRandom,
+  type CargoContract,
+} from '../world/DeckActivities'
+import {
+  ACTIVITY_COOLDOWNS,
+  SALVAGE_CAPACITY,
+  SALVAGE_MAX_SPEED,
+  SALVAGE_TIME,
+  SURVEY_MAX_SPEED,
+  SURVEY_TIME,
+  TRACKING_LOST_RANGE,
+  TRACKING_RANGE,
+  TRACKING_RETRY_TIME,
+  TRACKING_TIME,
+  createDataRun,
+  findActivityPOI,
+  getActivityReward,
+  getSalvageMass,
+  getSalvageValue,
+  getWildlifePosition,
+  type DataRun,
+} from '../world/PoiActivities'
+import type { POI } from '../world/WorldGenerator'
+
+export interface FishingState {
+  reefId: string | null // reef currently being fished
+  progress: number      // seconds towards the next catch
+}
+
+// A timed activity under way at a POI
+export interface PoiActivityProgress {
+  poiId: string
+  type: POI['type']
+  progress: number // seconds towards finishing
+  elapsed: number  // seconds since it started (wildlife move on their own clock)
+}
+
+export interface ActivityState {
+  seed: number | null                   // world the activities were set up for
+  rngState: number
+  nextContractId: number
+  contracts: CargoContract[]            // offered
+  activeContract: CargoContract | null
+  cargoLoaded: boolean
+  fishing: FishingState
+  reefCatches: Record<string, number>   // catches taken per reef, recovering over time
+  lastEvent: string | null
+
+  // POI activities
+  poiCooldowns: Record<string, number>  // seconds until each visited POI offers its activity again
+  poiActivity: PoiActivityProgress | null
+  salvageMass: number                   // kg aboard, paid for when landed at a marina
+  salvageValue: number                  // EC
+  dataRunOffer: DataRun | null          // from the research station alongside
+  activeDataRun: DataRun | null
+  dataRunTimeLeft: number               // seconds
+
+  // Totals for the session
+  contractsDelivered: number
+  fishCaught: number
+  gigEarnings: number
+
+  // Actions
+  initActivities: (seed: number) => void
+  refreshContracts: () => void
+  acceptContract: (contractId: string) => boolean
+  abandonContract: () => void
+  acceptDataRun: () => boolean
+  abandonDataRun: () => void
+  setSalvage: (mass: number, value: number) => void
+  step: (delta: number) => void
+  stepPOIs: (delta: number) => void
+}
+
+export const useActivityStore = create<ActivityState>((set, get) => ({
+  seed: null,
+  rngState: 1,
+  nextContractId: 0,
+  contracts: [],
+  activeContract: null,
+  cargoLoaded: false,
+  fishing: { reefId: null, progress: 0 },
+  reefCatches: {},
+  lastEvent: null,
+  poiCooldowns: {},
+  poiActivity: null,
+  salvageMass: 0,
+  salvageValue: 0,
+  dataRunOffer: null,
+  activeDataRun: null,
+  dataRunTimeLeft: 0,
+  contractsDelivered: 0,
+  fishCaught: 0,
+  gigEarnings: 0,
+
+  initActivities: (seed) => {
+    set({
+      seed,
+      rngState: (seed ^ 0x2545f491) & 0x7fffffff,
+      nextContractId: 0,
+      contracts: [],
+      activeContract: null,
+      cargoLoaded: false,
+      fishing: { reefId: null, progress: 0 },
+      reefCatches: {},
+      lastEvent: null,
+      poiCooldowns: {},
+      poiActivity: null,
+      salvageMass: 0,
+      salvageValue: 0,
+      dataRunOffer: null,
+      activeDataRun: null,
+      dataRunTimeLeft: 0,
+      contractsDelivered: 0,
+      fishCaught: 0,
+      gigEarnings: 0,
+    })
+    useGameStore.getState().setPayloadMass(0)
+    get().refreshContracts()
+  },
+
+  // Top the contract board back up
+  refreshContracts: () => {
+    const world = useWorldStore.getState().world
+    const state = get()
+    const missing = CARGO_CONTRACT_COUNT - state.contracts.length
+    if (!world || missing <= 0) return
+
+    const { contracts, rngState } = generateCargoContracts(world.pois, state.rngState, missing, state.nextContractId)
+    set({
+      contracts: [...state.contracts, ...contracts],
+      rngState,
+      nextContractId: state.nextContractId + contracts.length,
+    })
+  },
+
+  acceptContract: (contractId) => {
+    const state = get()
+    const contract = state.contracts.find((c) => c.id === contractId)
+    if (!contract || state.activeContract) return false
+    if (!hasModuleAbility(useYachtStore.getState().currentYacht, 'cargo-hauling')) return false
+
+    set({
+      activeContract: contract,
+      cargoLoaded: false,
+      contracts: state.contracts.filter((c) => c.id !== contractId),
+      lastEvent: `Contract accepted: collect cargo at ${contract.fromName}`,
+    })
+    get().refreshContracts()
+    return true
+  },
+
+  abandonContract: () => {
+    set({ activeContract: null, cargoLoaded: false, lastEvent: 'Contract abandoned' })
+  },
+
+  // Take the research station's data; the station rests from then on
+  acceptDataRun: () => {
+    const state = get()
+    const run = state.dataRunOffer
+    if (!run || state.activeDataRun) return false
+
+    set({
+      activeDataRun: run,
+      dataRunTimeLeft: run.timeLimit,
+      dataRunOffer: null,
+      poiCooldowns: { ...state.poiCooldowns, [run.stationId]: ACTIVITY_COOLDOWNS['research-station'] },
+      lastEvent: `Data run accepted: dock at ${run.marinaName}`,
+    })
+    return true
+  },
+
+  abandonDataRun: () => {
+    set({ activeDataRun: null, dataRunTimeLeft: 0, lastEvent: 'Data run abandoned' })
+  },
+
+  // Salvage aboard weighs the boat down until it's landed
+  setSalvage: (mass, value) => {
+    set({ salvageMass: mass, salvageValue: value })
+    useGameStore.getState().setPayloadMass(mass)
+  },
+
+  step: (delta) => {
+    const world = useWorldStore.getState().world
+    if (!world) return
+
+    const { player, earnCredits } = useGameStore.getState()
+    const yacht = useYachtStore.getState().currentYacht
+    const isDocked = useWorldStore.getState().isDocked
+    const state = get()
+
+    // Reefs slowly recover
+    const reefCatches: Record<string, number> = {}
+    for (const [reefId, caught] of Object.entries(state.reefCatches)) {
+      const remaining = caught - delta / REEF_RESTOCK_TIME
+      if (remaining > 0) reefCatches[reefId] = remaining
+    }
+
+    let { rngState, activeContract, cargoLoaded, contractsDelivered, fishCaught, gigEarnings } = state
+    let fishing = state.fishing
+    let lastEvent = state.lastEvent
+
+    // Cargo: load at the origin, get paid at the destination
+    if (activeContract && hasModuleAbility(yacht, 'cargo-hauling')) {
+      if (!cargoLoaded && isWithin(player.position, activeContract.from, CARGO_HANDLING_RADIUS)) {
+        cargoLoaded = true
+        lastEvent = `Cargo loaded - deliver to ${activeContract.toName}`
+      } else if (cargoLoaded && isWithin(player.position, activeContract.to, CARGO_HANDLING_RADIUS)) {
+        earnCredits(activeContract.reward)
+        lastEvent = `Delivered to ${activeContract.toName}: +${activeContract.reward} EC`
+        activeContract = null
+        cargoLoaded = false
+        contractsDelivered += 1
+      }
+    }
+
+    // Fishing: troll slowly over a reef that isn't fished out
+    const reef = hasModuleAbility(yacht, 'fishing') && Math.abs(player.speed) <= FISHING_MAX_SPEED
+      ? findFishingReef(world.pois, player.position)
+      : null
+    if (reef && (reefCatches[reef.id] ?? 0) < REEF_STOCK) {
+      const progress = (fishing.reefId === reef.id ? fishing.progress : 0) + delta
+      if (progress >= FISHING_CATCH_TIME) {
+        const [nextState, roll] = nextRandom(rngState)
+        rngState = nextState
+        const reward = getCatchReward(roll)
+        earnCredits(reward)
+        reefCatches[reef.id] = (reefCatches[reef.id] ?? 0) + 1
+        fishCaught += 1
+        lastEvent = `Caught fish at ${reef.name}: +${reward} EC`
+        fishing = { reefId: reef.id, progress: 0 }
+      } else {
+        fishing = { reefId: reef.id, progress }
+      }
+    } else if (fishing.reefId) {
+      fishing = { reefId: null, progress: 0 }
+    }
+
+    // Marina gigs from the DJ booth
+    if (isDocked && hasModuleAbility(yacht, 'marina-gigs')) {
+      const earned = DJ_GIG_RATE * delta
+      earnCredits(earned)
+      gigEarnings += earned
+    }
+
+    set({ rngState, activeContract, cargoLoaded, fishing, reefCatches, lastEvent, contractsDelivered, fishCaught, gigEarnings })
+  },
+
+  // Reef surveys, wreck salvage, weather buoys, wildlife tracking and research data runs
+  stepPOIs: (delta) => {
+    const world = useWorldStore.getState().world
+    if (!world) return
+
+    const { player, earnCredits, refreshForecast, setPayloadMass } = useGameStore.getState()
+    const { isDocked, dockedAt } = useWorldStore.getState()
+    const multiplier = world.mapConfig.discoveryRewardMultiplier
+    const state = get()
+
+    // Visited POIs rest before offering their activity again
+    const poiCooldowns: Record<string, number> = {}
+    for (const [poiId, remaining] of Object.entries(state.poiCooldowns)) {
+      if (remaining > delta) poiCooldowns[poiId] = remaining - delta
+    }
+
+    let { rngState, poiActivity, salvageMass, salvageValue, dataRunOffer, activeDataRun, dataRunTimeLeft, lastEvent } = state
+    const speed = Math.abs(player.speed)
+    const poi = findActivityPOI(world.pois, player.position)
+    const ready = poi !== null && poiCooldowns[poi.id] === undefined
+
+    // Salvage is paid for once landed at a marina
+    if (isDocked && salvageMass > 0) {
+      earnCredits(salvageValue)
+      lastEvent = `Landed ${(salvageMass / 1000).toFixed(1)} t of salvage: +${salvageValue} EC`
+      salvageMass = 0
+      salvageValue = 0
+      setPayloadMass(0)
+    }
+
+    // Data runs: dock at the harbour before time runs out
+    if (activeDataRun) {
+      dataRunTimeLeft -= delta
+      if (isDocked && dockedAt === activeDataRun.marinaId) {
+        earnCredits(activeDataRun.reward)
+        lastEvent = `Data delivered to ${activeDataRun.marinaName}: +${activeDataRun.reward} EC`
+        activeDataRun = null
+      } else if (dataRunTimeLeft <= 0) {
+        lastEvent = `Data run to ${activeDataRun.marinaName} ran out of time`
+        activeDataRun = null
+      }
+    }
+
+    const tracked = poiActivity?.type === 'wildlife' ? world.pois.find((p) => p.id === poiActivity?.poiId) : undefined
+    if (poiActivity && tracked) {
+      // Wildlife: stay close to the animals wherever they lead
+      const elapsed = poiActivity.elapsed + delta
+      const [x, z] = getWildlifePosition(tracked, elapsed)
+      const dist = Math.hypot(player.position[0] - x, player.position[2] - z)
+      const progress = poiActivity.progress + (dist <= TRACKING_RANGE ? delta : 0)
+      if (dist > TRACKING_LOST_RANGE) {
+        poiCooldowns[tracked.id] = TRACKING_RETRY_TIME
+        lastEvent = `Lost the trail at ${tracked.name}`
+        poiActivity = null
+      } else if (progress >= TRACKING_TIME) {
+        const reward = getActivityReward('wildlife', multiplier)
+        earnCredits(reward)
+        poiCooldowns[tracked.id] = ACTIVITY_COOLDOWNS.wildlife
+        lastEvent = `Tracked the wildlife at ${tracked.name}: +${reward} EC`
+        poiActivity = null
+      } else {
+        poiActivity = { ...poiActivity, progress, elapsed }
+      }
+    } else if (poi && ready && poi.type === 'wildlife') {
+      poiActivity = { poiId: poi.id, type: 'wildlife', progress: 0, elapsed: 0 }
+      lastEvent = `Wildlife sighted at ${poi.name} - follow them`
+    } else if (poi && ready && (poi.type === 'reef' || poi.type === 'wreck')) {
+      // Reef surveys and salvage: hold station over the site
+      const isReef = poi.type === 'reef'
+      const holdFull = !isReef && salvageMass >= SALVAGE_CAPACITY
+      if (speed <= (isReef ? SURVEY_MAX_SPEED : SALVAGE_MAX_SPEED) && !holdFull) {
+        const progress = (poiActivity?.poiId === poi.id ? poiActivity.progress : 0) + delta
+        if (progress < (isReef ? SURVEY_TIME : SALVAGE_TIME)) {
+          poiActivity = { poiId: poi.id, type: poi.type, progress, elapsed: 0 }
+        } else if (isReef) {
+          const reward = getActivityReward('reef', multiplier)
+          earnCredits(reward)
+          poiCooldowns[poi.id] = ACTIVITY_COOLDOWNS.reef
+          lastEvent = `Surveyed ${poi.name}: +${reward} EC`
+          poiActivity = null
+        } else {
+          const [nextState, roll] = nextRandom(rngState)
+          rngState = nextState
+          const mass = Math.min(getSalvageMass(roll), SALVAGE_CAPACITY - salvageMass)
+          salvageMass += mass
+          salvageValue += getSalvageValue(mass, multiplier)
+          setPayloadMass(salvageMass)
+          poiCooldowns[poi.id] = ACTIVITY_COOLDOWNS.wreck
+          lastEvent = `Salvaged ${(mass / 1000).toFixed(1)} t from ${poi.name} - land it at a marina`
+          poiActivity = null
+        }
+      } else {
+        poiActivity = null
+      }
+    } else {
+      poiActivity = null
+      // Weather buoys: passing close reads the forecast
+      if (poi && ready && poi.type === 'buoy') {
+        const reward = getActivityReward('buoy', multiplier)
+        refreshForecast()
+        earnCredits(reward)
+        poiCooldowns[poi.id] = ACTIVITY_COOLDOWNS.buoy
+        lastEvent = `Read ${poi.name}: forecast updated, +${reward} EC`
+      }
+    }
+
+    // Research stations offer a data run while alongside, one run at a time
+    if (poi && ready && poi.type === 'research-station' && !activeDataRun) {
+      if (dataRunOffer?.stationId !== poi.id) {
+        const [nextState, roll] = nextRandom(rngState)
+        rngState = nextState
+        dataRunOffer = createDataRun(poi, world.marinas, roll, multiplier)
+      }
+    } else {
+      dataRunOffer = null
+    }
+
+    set({ rngState, poiCooldowns, poiActivity, salvageMass, salvageValue, dataRunOffer, activeDataRun, dataRunTimeLeft, lastEvent })
+  },
+}))
@@ -1,8 +1,28 @@
 import { create } from 'zustand'
 import { immer } from 'zustand/middleware/immer'
-import { calculateApparentWind, WEATHER_PRESETS } from '../physics/WindSystem'
-import { getSolarMultiplier, getCloudMultiplier, SOLAR_CONSTANT, SOLAR_PANEL_EFFICIENCY } from '../physics/EnergySystem'
+import { calculateApparentWind, WEATHER_PRESETS, type WindConditions } from '../physics/WindSystem'
+import { updateEnergySystem, getHarvestLimitedThrottle, BASE_MOTOR_POWER } from '../physics/EnergySystem'
+import { stepSailingMotion, getLoadedSpeedFactor, KNOTS_TO_MS, MAX_REVERSE_THROTTLE } from '../physics/SailingPhysics'
+import { FORECAST_HORIZON, WeatherDirector, type ForecastPeriod, type WeatherTransition } from '../physics/WeatherDirector'
 import { useYachtStore } from './useYachtStore'
+import { useWorldStore } from './useWorldStore'
+import { OPEN_WATER_DEPTH, getCurrentAtPosition, getWaterDepth } from '../world/WorldGenerator'
+import {
+  TOW_FEE,
+  findTowPosition,
+  getAutoDockHeading,
+  getGroundingDamage,
+  getKeelClearance,
+  getShallowWaterDrag,
+} from '../world/Grounding'
+import {
+  calculateShoreCharge,
+  getBerthPosition,
+  getFastTravelCost,
+  getMarina,
+  getRepairCost,
+  getSellableEnergy,
+} from '../world/MarinaServices'
 
 export type Weather = 'clear' | 'cloudy' | 'trade-winds' | 'storm' | 'doldrums'
 export type CameraMode = 'third-person' | 'first-person'
@@ -38,9 +58,19 @@ export interface BoatDamageState {
 export interface PlayerState {
   position: [number, number, number]
   rotation: number         // Y-axis rotation (radians)
-  speed: number            // knots
-  throttle: number         // 0-100%
+  speed: number            // knots through the water
+  speedOverGround: number  // knots, including leeway and current
+  courseOverGround: number // degrees (0-360, same frame as rotation)
+  throttle: number         // -MAX_REVERSE_THROTTLE to 100% (negative = astern)
   steering: number         // -1 to 1 (left to right)
+  heel: number             // degrees (positive = heeled to starboard)
+  leeway: number           // m/s sideways drift (positive = to starboard)
+}
+
+// Weather buoy data: the weather ahead from when it was read
+export interface WeatherForecast {
+  periods: ForecastPeriod[]
+  age: number // s since it was read; dropped once it runs past the horizon
 }
 
 interface GameState {
@@ -51,6 +81,8 @@ interface GameState {
   // Weather & Wind
   weather: Weather
   wind: WindState
+  weatherTransition: WeatherTransition | null  // Blend in progress, if any
+  forecast: WeatherForecast | null
 
   // Camera & Mode
   cameraMode: CameraMode
@@ -60,6 +92,8 @@ interface GameState {
   energy: EnergyState
   energyCredits: number    // Total EC earned
   battery: BatteryState    // Dynamic battery state
+  enduranceMode: boolean   // Endurance race: no shore power, a flat battery only runs on harvest
+  payloadMass: number      // kg carried aboard beyond the yacht's own build (salvage)
 
   // Player
   player: PlayerState
@@ -67,6 +101,10 @@ interface GameState {
   // Boat damage (persistent across racing and free sailing)
   boatDamage: BoatDamageState
 
+  // Grounding
+  isAground: boolean       // on the bottom: only backing off into deeper water or a tow frees it
+  waterDepth: number       // m under the boat
+
   // World state
   currentWindZone: string | null  // Wind zone ID if in one
   nearbyCheckpoints: string[]     // Checkpoint IDs in range
@@ -86,6 +124,11 @@ interface GameState {
   setTimeOfDay: (time: number) => void
   setWeather: (weather: Weather) => void
   setWind: (wind: Partial<WindState>) => void
+  initWeather: (seed: number, volatility: number, strength?: number) => void
+  steerWeather: (weather: Weather, direction?: number) => void
+  refreshForecast: () => void
+  setWindConditions: (conditions: WindConditions) => void
+  setCurrentWindZone: (zoneId: string | null) => void
   setThrottle: (throttle: number) => void
   setSteering: (steering: number) => void
   setCameraMode: (mode: CameraMode) => void
@@ -96,7 +139,17 @@ interface GameState {
   updateCheckpointDetection: (checkpoints: any[]) => void
   tick: (delta: number, maxSpeed?: number, turnRate?: number) => void
   handleCollision: (icebergId: string, penetration: number, normalX: number, normalZ: number, icebergRadius: number) => void
+  handleGrounding: (depth: number) => void
+  requestTow: () => boolean
+  fastTravel: (marinaId: string) => boolean
   repairBoat: () => boolean
+  sellEnergy: (kWh: number) => boolean
+  spendCredits: (amount: number) => boolean
+  earnCredits: (amount: number) => void
+  setBatteryCharge: (kWh: number) => void
+  setEnduranceMode: (enabled: boolean) => void
+  setPayloadMass: (kg: number) => void
+  placePlayer: (position: [number, number], rotation: number) => void
   setAutoDock: (enabled: boolean, target?: [number, number]) => void
   resetGameState: () => void
   activateBurst: () => void
@@ -105,6 +158,20 @@ interface GameState {
 // Use weather presets from WindSystem (re-export for compatibility)
 const weatherPresets = WEATHER_PRESETS
 
+// Owns wind and weather changes; re-seeded per world by initWeather
+let weatherDirector = new WeatherDirector(0, 0.3)
+
+// Throttle the motor actually gets: in an endurance race a flat battery only passes on the harvest
+function getMotorThrottle(state: GameState): number {
+  if (!state.enduranceMode || state.battery.currentCharge > 0) return state.player.throttle
+  const engineMultiplier = useYachtStore.getState().currentYacht.engine?.powerMultiplier || 1
+  return getHarvestLimitedThrottle(
+    state.player.throttle,
+    state.energy.turbineOutput + state.energy.solarOutput,
+    BASE_MOTOR_POWER * engineMultiplier
+  )
+}
+
 export const useGameStore = create<GameState>()(
   immer((set, get) => ({
     // Initial state
@@ -117,6 +184,8 @@ export const useGameStore = create<GameState>()(
       speed: 10,
       gustFactor: 0.15,
     },
+    weatherTransition: null,
+    forecast: null,
 
     cameraMode: 'third-person',
     gameMode: 'sail',
@@ -136,13 +205,19 @@ export const useGameStore = create<GameState>()(
       chargePercent: 50,  // 0-100%
       capacity: 100,      // kWh total
     },
+    enduranceMode: false,
+    payloadMass: 0,
 
     player: {
       position: [0, 0, 150], // Spawn in front of marina pier
       rotation: 0, // Face away from the marina (180° rotated from previous)
       speed: 0,
+      speedOverGround: 0,
+      courseOverGround: 0,
       throttle: 0,
       steering: 0,
+      heel: 0,
+      leeway: 0,
     },
 
     boatDamage: {
@@ -152,6 +227,9 @@ export const useGameStore = create<GameState>()(
       lastCollisionIcebergId: null,
     },
 
+    isAground: false,
+    waterDepth: OPEN_WATER_DEPTH,
+
     currentWindZone: null,
     nearbyCheckpoints: [],
     distanceToCheckpoint: {},
@@ -174,40 +252,74 @@ export const useGameStore = create<GameState>()(
     },
     
     setWeather: (weather) => {
-      const preset = weatherPresets[weather]
-
       // Safety check: if weather preset doesn't exist, log warning and use trade-winds as fallback
-      if (!preset) {
+      if (!weatherPresets[weather]) {
         console.warn(`Unknown weather type: "${weather}". Using 'trade-winds' as fallback.`)
-        const fallbackPreset = weatherPresets['trade-winds']
-        const [minSpeed, maxSpeed] = fallbackPreset.baseSpeed
-
-        set((state) => {
-          state.weather = 'trade-winds'
-          state.wind.speed = minSpeed + Math.random() * (maxSpeed - minSpeed)
-          state.wind.gustFactor = fallbackPreset.gustFactor
-        })
-        return
+        weather = 'trade-winds'
       }
 
-      const [minSpeed, maxSpeed] = preset.baseSpeed
+      // Switch immediately (no blend) and sample the new wind
+      const { player } = get()
+      weatherDirector.setWeather(weather)
+      const { wind } = weatherDirector.update(0, player.speed, (player.rotation * 180) / Math.PI)
 
       set((state) => {
         state.weather = weather
-        state.wind.speed = minSpeed + Math.random() * (maxSpeed - minSpeed)
-        state.wind.gustFactor = preset.gustFactor
+        state.weatherTransition = null
+        state.forecast = null
+        state.wind.speed = wind.gustSpeed
+        state.wind.gustFactor = wind.gustFactor
       })
     },
     
     setWind: (wind) => {
+      if (wind.direction !== undefined) {
+        weatherDirector.setBaseDirection(wind.direction)
+      }
       set((state) => {
         Object.assign(state.wind, wind)
       })
     },
+
+    initWeather: (seed, volatility, strength = 1) => {
+      const { weather, wind } = get()
+      weatherDirector = new WeatherDirector(seed, volatility, weather, wind.direction)
+      weatherDirector.setStrength(strength)
+      set((state) => {
+        state.weatherTransition = null
+        state.forecast = null
+      })
+    },
+
+    steerWeather: (weather, direction) => {
+      if (!weatherPresets[weather]) {
+        console.warn(`Unknown weather type: "${weather}". Ignoring.`)
+        return
+      }
+      weatherDirector.steerTowards(weather, direction)
+    },
+
+    // Read the weather ahead (weather buoys), good unless a wind zone steers it
+    refreshForecast: () => {
+      const periods = weatherDirector.forecast(FORECAST_HORIZON)
+      set((state) => {
+        state.forecast = { periods, age: 0 }
+      })
+    },
+
+    setWindConditions: (conditions) => {
+      weatherDirector.setConditions(conditions)
+    },
     
+    setCurrentWindZone: (zoneId) => {
+      set((state) => {
+        state.currentWindZone = zoneId
+      })
+    },
+
     setThrottle: (throttle) => {
       set((state) => {
-        state.player.throttle = Math.max(0, Math.min(100, throttle))
+        state.player.throttle = Math.max(-MAX_REVERSE_THROTTLE, Math.min(100, throttle))
       })
     },
 
@@ -265,7 +377,14 @@ export const useGameStore = create<GameState>()(
       // Get engine tier from yacht store to adjust max speed
       const yachtStore = useYachtStore.getState()
       const engineMultiplier = yachtStore.currentYacht.engine?.powerMultiplier || 1
-      const adjustedMaxSpeed = maxSpeed * engineMultiplier
+      // Load aboard weighs the boat down: slower to get going and a lower top speed
+      const { payloadMass } = gameState
+      const stats = payloadMass > 0
+        ? { ...yachtStore.stats, displacement: yachtStore.stats.displacement + payloadMass }
+        : yachtStore.stats
+      const adjustedMaxSpeed = maxSpeed * engineMultiplier * getLoadedSpeedFactor(yachtStore.stats.displacement, payloadMass)
+      const { draft } = yachtStore.currentYacht.hull
+      const world = useWorldStore.getState().world
 
       // Handle auto-dock navigation
       if (gameState.isAutoDocking && gameState.autoDockTarget) {
@@ -288,8 +407,10 @@ export const useGameStore = create<GameState>()(
           return
         }
 
-        // Calculate target angle (angle from boat to target)
-        const targetAngle = Math.atan2(dx, dz)
+        // Head for the target, steering round shallows on the way
+        const targetAngle = world
+          ? getAutoDockHeading(world, [pos[0], pos[2]], target, draft)
+          : Math.atan2(dx, dz)
 
         // Calculate angle difference (normalize to [-PI, PI])
         let angleDiff = targetAngle - gameState.player.rotation
@@ -305,30 +426,40 @@ export const useGameStore = create<GameState>()(
         })
       }
 
+      // Force-based step: motor thrust, hull resistance, windage, leeway and heel
+      const { player, wind } = get()
+      const { motion } = stepSailingMotion(
+        yachtStore.currentYacht,
+        stats,
+        { speed: player.speed, leeway: player.leeway, heel: player.heel },
+        {
+          throttle: getMotorThrottle(get()),
+          maxSpeed: adjustedMaxSpeed,
+          motorPower: BASE_MOTOR_POWER * engineMultiplier,
+          // Burst more than doubles thrust for its duration
+          thrustMultiplier: get().isBursting ? 2.25 : 1,
+        },
+        wind.speed,
+        wind.direction,
+        (player.rotation * 180) / Math.PI,
+        delta
+      )
+
+      // Ocean current at the boat's position
+      const current = world?.currents
+        ? getCurrentAtPosition(world.currents, player.position[0], player.position[2])
+        : [0, 0]
+
+      // Water under the keel: the hull drags in the shallows
+      const clearance = world ? getKeelClearance(world, player.position[0], player.position[2], draft) : Infinity
+      const shallowLoss = Math.min(1, getShallowWaterDrag(clearance) * delta)
+
       set((state) => {
         const { player } = state
 
-        // Apply burst speed boost (50% increase)
-        const burstMultiplier = state.isBursting ? 1.5 : 1.0
-
-        // Calculate current speed based on throttle (knots to m/s: 1 knot ≈ 0.514 m/s)
-        const targetSpeed = (player.throttle / 100) * adjustedMaxSpeed * burstMultiplier
-
-        // Realistic acceleration with force and drag
-        // More thrust at low speeds (easier to accelerate), more drag at high speeds
-        const speedRatio = Math.abs(player.speed) / adjustedMaxSpeed
-        const dragFactor = 1 + speedRatio * speedRatio * 2 // Quadratic drag
-        const thrustFactor = Math.max(0.2, 1 - speedRatio * 0.5) // More effective thrust at low speeds
-
-        // Acceleration rate: faster at low speeds, slower at high speeds
-        // Base acceleration scaled by engine multiplier
-        const baseAcceleration = 2 * engineMultiplier
-        const accelerationRate = baseAcceleration * thrustFactor / dragFactor
-
-        // Apply acceleration/deceleration
-        const speedDiff = targetSpeed - player.speed
-        const accelerationAmount = speedDiff * Math.min(1, delta * accelerationRate)
-        player.speed += accelerationAmount
+        player.speed = motion.speed * (1 - shallowLoss)
+        player.leeway = motion.leeway * (1 - shallowLoss)
+        player.heel = motion.heel
 
         // Apply steering (only when moving)
         if (Math.abs(player.speed) > 0.1) {
@@ -341,84 +472,100 @@ export const useGameStore = create<GameState>()(
         while (player.rotation < -Math.PI) player.rotation += Math.PI * 2
 
         // Convert speed from knots to m/s for position update
-        const speedMs = player.speed * 0.514
+        const speedMs = player.speed * KNOTS_TO_MS
+
+        // Velocity over ground: along the heading, leeway along the starboard axis, plus current
+        const groundX = Math.sin(player.rotation) * speedMs - Math.cos(player.rotation) * player.leeway + current[0]
+        const groundZ = Math.cos(player.rotation) * speedMs + Math.sin(player.rotation) * player.leeway + current[1]
+
+        const nextX = player.position[0] + groundX * delta
+        const nextZ = player.position[2] + groundZ * delta
+
+        // Aground, the boat only moves if that takes it into deeper water; it floats
+        // again once there's water under the keel
+        if (state.isAground && world) {
+          const nextClearance = getKeelClearance(world, nextX, nextZ, draft)
+          if (nextClearance <= clearance) {
+            player.speed = 0
+            player.leeway = 0
+            player.speedOverGround = 0
+            return
+          }
+          state.isAground = nextClearance < 0
+        }
+
+        player.position[0] = nextX
+        player.position[2] = nextZ
+        state.waterDepth = world ? getWaterDepth(world, nextX, nextZ) : OPEN_WATER_DEPTH
 
-        // Update position based on rotation and speed
-        // Forward is -Z in Three.js convention
-        player.position[0] += Math.sin(player.rotation) * speedMs * delta
-        player.position[2] += Math.cos(player.rotation) * speedMs * delta
+        player.speedOverGround = Math.sqrt(groundX * groundX + groundZ * groundZ) / KNOTS_TO_MS
+        player.courseOverGround = ((Math.atan2(groundX, groundZ) * 180) / Math.PI + 360) % 360
       })
     },
     
     updateEnergy: (delta) => {
       const state = get()
       const { wind, weather, timeOfDay, player } = state
-      // Get engine tier from yacht store
-      const yachtStore = useYachtStore.getState()
-      const engineMultiplier = yachtStore.currentYacht.engine?.powerMultiplier || 1
+      // Harvest and consumption come from the yacht as designed in BuildMode
+      const { currentYacht, stats } = useYachtStore.getState()
 
       // Calculate apparent wind for turbine
       const boatHeading = (player.rotation * 180) / Math.PI
       const apparent = calculateApparentWind(wind.speed, wind.direction, player.speed, boatHeading)
 
-      // Turbine output using apparent wind
-      // P = 0.5 * ρ * A * v³ * Cp
-      // Swept area: assume 8m height × 2m diameter = 16m²
-      const sweptArea = 16
-      const turbineEfficiency = 0.30 // VAWT efficiency
-      const AIR_DENSITY = 1.225
-
       // Use apparent wind speed for power (VAWT benefits from apparent wind)
       const effectiveWindSpeed = Math.max(wind.speed, apparent.speed * 0.7)
-      const turbineOutput = 0.5 * AIR_DENSITY * sweptArea * Math.pow(effectiveWindSpeed, 3) * turbineEfficiency / 1000 // kW
-
-      // Cut-in and cut-out speeds
-      const cutInSpeed = 2.5
-      const cutOutSpeed = 25
-      const safeTurbineOutput = effectiveWindSpeed < cutInSpeed ? 0 :
-        effectiveWindSpeed > cutOutSpeed ? 0 : turbineOutput
-
-      // Solar output using proper calculations
-      const solarMultiplier = getSolarMultiplier(timeOfDay)
-      const cloudMultiplier = getCloudMultiplier(weather)
-      const panelArea = 8 // m² deck coverage
-      const irradiance = SOLAR_CONSTANT * solarMultiplier * cloudMultiplier * 0.7
-
-      const solarOutput = (irradiance * panelArea * SOLAR_PANEL_EFFICIENCY * 0.95) / 1000 // kW with inverter efficiency
-
-      // Motor consumption: based on throttle and engine tier (base 15kW, scaled by tier)
-      const motorEfficiency = 0.92
-      const baseMaxMotorPower = 15
-      const maxMotorPower = baseMaxMotorPower * engineMultiplier
-      const motorConsumption = ((player.throttle / 100) * maxMotorPower) / motorEfficiency
 
-      // Systems consumption
-      const isNight = timeOfDay < 0.25 || timeOfDay > 0.75
-      const systemsConsumption = 0.15 + (isNight ? 0.1 : 0)
-
-      // Net power
-      const netPower = safeTurbineOutput + solarOutput - motorConsumption - systemsConsumption
-
-      // Earn energy credits (only for positive generation)
-      const energyGenerated = (safeTurbineOutput + solarOutput) * delta / 3600 // kWh
-
-      // Calculate battery change
-      const energyDelta = netPower * delta / 3600 // kWh change
-      const chargingEfficiency = netPower > 0 ? 0.95 : 1.0 // 95% efficiency when charging
+      // Hull drag at current speed, scaled from the stats test speed (5 m/s)
+      const speedMs = Math.abs(player.speed) * 0.514
+      const hullDrag = stats.totalDrag * Math.pow(speedMs / 5, 2)
+
+      // Battery capacity follows the installed battery; stored kWh carries over on upgrade
+      const capacity = currentYacht.battery.capacity
+      const storedCharge = Math.min(state.battery.currentCharge, capacity)
+
+      const result = updateEnergySystem(
+        currentYacht,
+        { capacity, currentCharge: (storedCharge / capacity) * 100 },
+        effectiveWindSpeed,
+        wind.direction,
+        boatHeading,
+        timeOfDay,
+        weather,
+        getMotorThrottle(state),
+        player.speed,
+        hullDrag,
+        delta
+      )
+
+      const turbineOutput = result.turbine.electricalPower + (result.secondTurbine?.electricalPower ?? 0)
+
+      // Shore power while tied up at a marina (not during an endurance race)
+      const { world, isDocked, dockedAt } = useWorldStore.getState()
+      const marina = isDocked && world ? getMarina(world.marinas, dockedAt) : null
+      const shore = marina && !state.enduranceMode && marina.services.includes('shore-power')
+        ? calculateShoreCharge(
+            result.battery.currentCharge,
+            capacity,
+            state.energyCredits + result.energyCreditsEarned,
+            marina.chargeRate,
+            delta,
+            marina.prices.shorePower
+          )
+        : { charged: 0, cost: 0 }
 
       set((state) => {
-        state.energy.turbineOutput = safeTurbineOutput
-        state.energy.solarOutput = solarOutput
-        state.energy.motorConsumption = motorConsumption
-        state.energy.systemsConsumption = systemsConsumption
-        state.energy.netPower = netPower
-        state.energyCredits += energyGenerated
+        state.energy.turbineOutput = turbineOutput
+        state.energy.solarOutput = result.solar.electricalPower
+        state.energy.motorConsumption = result.motor.electricalPower
+        state.energy.systemsConsumption = result.systems
+        state.energy.netPower = result.netPower
+        state.energyCredits += result.energyCreditsEarned - shore.cost
 
         // Update battery state
-        let newCharge = state.battery.currentCharge + energyDelta * chargingEfficiency
-        newCharge = Math.max(0, Math.min(state.battery.capacity, newCharge))
-        state.battery.currentCharge = newCharge
-        state.battery.chargePercent = (newCharge / state.battery.capacity) * 100
+        state.battery.capacity = capacity
+        state.battery.currentCharge = result.battery.currentCharge + shore.charged
+        state.battery.chargePercent = (state.battery.currentCharge / capacity) * 100
       })
     },
     
@@ -440,12 +587,18 @@ export const useGameStore = create<GameState>()(
         // Slowly cycle time of day (1 game day = 20 real minutes)
         state.timeOfDay = (state.timeOfDay + delta / 1200) % 1
 
-        // Random wind gusts
-        const gustOffset = (Math.random() - 0.5) * 2 * state.wind.gustFactor
-        state.wind.speed = Math.max(0, state.wind.speed + gustOffset * delta)
-
-        // Slowly drift wind direction
-        state.wind.direction = (state.wind.direction + (Math.random() - 0.5) * 2 * delta) % 360
+        // Seeded wind and weather transitions
+        const heading = (state.player.rotation * 180) / Math.PI
+        const update = weatherDirector.update(delta, state.player.speed, heading)
+        state.weather = update.weather
+        state.weatherTransition = update.transition
+        if (state.forecast) {
+          state.forecast.age += delta
+          if (state.forecast.age >= FORECAST_HORIZON) state.forecast = null
+        }
+        state.wind.speed = update.wind.gustSpeed
+        state.wind.direction = update.wind.direction
+        state.wind.gustFactor = update.wind.gustFactor
 
         // Update burst cooldown
         if (state.burstCooldown > 0) {
@@ -472,11 +625,13 @@ export const useGameStore = create<GameState>()(
       const now = Date.now()
       const state = get()
 
-      // Cooldown check - prevent multiple collisions with same iceberg
+      // Cooldown check - prevent multiple collisions with same iceberg.
+      // Inside the marina safe zone collisions never cause damage.
       if (
-        state.boatDamage.lastCollisionIcebergId === icebergId &&
-        state.boatDamage.lastCollisionTime &&
-        now - state.boatDamage.lastCollisionTime < 2000
+        useWorldStore.getState().inSafeZone ||
+        (state.boatDamage.lastCollisionIcebergId === icebergId &&
+          state.boatDamage.lastCollisionTime &&
+          now - state.boatDamage.lastCollisionTime < 2000)
       ) {
         // Just push the boat away without registering new damage
         set((s) => {
@@ -517,25 +672,167 @@ export const useGameStore = create<GameState>()(
       })
     },
 
-    repairBoat: () => {
+    // The keel has touched the bottom (or the bow the shore): stop dead, aground
+    handleGrounding: (depth) => {
       const state = get()
-      // Repair costs 20 kWh (20% of 100 kWh battery)
-      const repairCost = 20
-      if (state.battery.currentCharge >= repairCost) {
-        set((s) => {
-          // Deduct repair cost from battery
-          s.battery.currentCharge -= repairCost
-          s.battery.chargePercent = (s.battery.currentCharge / s.battery.capacity) * 100
-
-          // Restore hull integrity
-          s.boatDamage.hullIntegrity = 100
-          s.boatDamage.collisionCount = 0
-          s.boatDamage.lastCollisionTime = null
+      if (state.isAground) return
+
+      // Inside the marina safe zone groundings never cause damage
+      const damage = useWorldStore.getState().inSafeZone ? 0 : getGroundingDamage(state.player.speed, depth)
+
+      set((s) => {
+        s.isAground = true
+        s.player.speed = 0
+        s.player.leeway = 0
+        s.isAutoDocking = false
+        s.autoDockTarget = null
+
+        if (damage > 0) {
+          s.boatDamage.hullIntegrity = Math.max(0, s.boatDamage.hullIntegrity - damage)
+          s.boatDamage.collisionCount += 1
+          s.boatDamage.lastCollisionTime = Date.now()
           s.boatDamage.lastCollisionIcebergId = null
-        })
-        return true
-      }
-      return false // Not enough battery
+        }
+      })
+    },
+
+    // Pulled off into deep water for a fee (whatever credits there are if short)
+    requestTow: () => {
+      const state = get()
+      const world = useWorldStore.getState().world
+      if (!state.isAground || !world) return false
+
+      const { draft } = useYachtStore.getState().currentYacht.hull
+      const tow = findTowPosition(world, state.player.position[0], state.player.position[2], draft)
+      if (!tow) return false
+
+      set((s) => {
+        s.energyCredits = Math.max(0, s.energyCredits - TOW_FEE)
+        s.isAground = false
+        s.player.position = [tow.position[0], 0, tow.position[1]]
+        s.player.rotation = tow.heading
+        s.player.speed = 0
+        s.player.leeway = 0
+        s.player.throttle = 0
+        s.player.steering = 0
+      })
+      return true
+    },
+
+    // From one harbour to another already opened, for a fee by the distance; arrives tied up
+    fastTravel: (marinaId) => {
+      const state = get()
+      const { world, isDocked, dockedAt, unlockedMarinas, dock } = useWorldStore.getState()
+      if (!world || !isDocked || state.enduranceMode || marinaId === dockedAt || !unlockedMarinas.has(marinaId)) return false
+
+      const from = getMarina(world.marinas, dockedAt)
+      const to = getMarina(world.marinas, marinaId)
+      if (!from || !to) return false
+
+      const cost = getFastTravelCost(from, to)
+      if (state.energyCredits < cost) return false
+
+      const berth = getBerthPosition(to)
+      set((s) => {
+        s.energyCredits -= cost
+        s.player.position = [berth[0], 0, berth[1]]
+        s.player.rotation = to.heading
+        s.player.speed = 0
+        s.player.leeway = 0
+        s.player.throttle = 0
+        s.player.steering = 0
+        s.isAutoDocking = false
+        s.autoDockTarget = null
+      })
+      dock(to.id)
+      return true
+    },
+
+    repairBoat: () => {
+      const state = get()
+      const { world, isDocked, dockedAt } = useWorldStore.getState()
+      // Repairs are a marina service, paid in EC by the damage repaired at that marina's rate
+      const marina = isDocked && world ? getMarina(world.marinas, dockedAt) : null
+      if (!marina?.services.includes('repair')) return false
+
+      const repairCost = getRepairCost(state.boatDamage.hullIntegrity, marina.prices.repair)
+      if (state.energyCredits < repairCost) return false // Not enough credits
+
+      set((s) => {
+        s.energyCredits -= repairCost
+
+        // Restore hull integrity
+        s.boatDamage.hullIntegrity = 100
+        s.boatDamage.collisionCount = 0
+        s.boatDamage.lastCollisionTime = null
+        s.boatDamage.lastCollisionIcebergId = null
+      })
+      return true
+    },
+
+    sellEnergy: (kWh) => {
+      const state = get()
+      const { world, isDocked, dockedAt } = useWorldStore.getState()
+      const marina = isDocked && world ? getMarina(world.marinas, dockedAt) : null
+      if (!marina?.services.includes('energy-sale')) return false
+
+      // Only surplus above the reserve can be sold
+      const amount = Math.min(kWh, getSellableEnergy(state.battery.currentCharge, state.battery.capacity))
+      if (amount <= 0) return false
+
+      set((s) => {
+        s.battery.currentCharge -= amount
+        s.battery.chargePercent = (s.battery.currentCharge / s.battery.capacity) * 100
+        s.energyCredits += amount * marina.prices.energySale
+      })
+      return true
+    },
+
+    spendCredits: (amount) => {
+      if (amount < 0 || get().energyCredits < amount) return false
+      set((s) => {
+        s.energyCredits -= amount
+      })
+      return true
+    },
+
+    earnCredits: (amount) => {
+      if (amount <= 0) return
+      set((s) => {
+        s.energyCredits += amount
+      })
+    },
+
+    // Set the stored charge directly, e.g. to an endurance race's fixed charge
+    setBatteryCharge: (kWh) => {
+      set((state) => {
+        state.battery.currentCharge = Math.max(0, Math.min(state.battery.capacity, kWh))
+        state.battery.chargePercent = (state.battery.currentCharge / state.battery.capacity) * 100
+      })
+    },
+
+    setEnduranceMode: (enabled) => {
+      set((state) => {
+        state.enduranceMode = enabled
+      })
+    },
+
+    setPayloadMass: (kg) => {
+      set((state) => {
+        state.payloadMass = Math.max(0, kg)
+      })
+    },
+
+    // Move the boat (e.g. onto a start line), stopped and heading the given way
+    placePlayer: (position, rotation) => {
+      set((state) => {
+        state.player.position = [position[0], 0, position[1]]
+        state.player.rotation = rotation
+        state.isAground = false
+        state.player.speed = 0
+        state.player.throttle = 0
+        state.player.steering = 0
+      })
     },
 
     setAutoDock: (enabled, target) => {
@@ -550,10 +847,13 @@ export const useGameStore = create<GameState>()(
     },
 
     resetGameState: () => {
+      // Start from the installed battery and its configured initial charge
+      const { battery } = useYachtStore.getState().currentYacht
+
       set((state) => {
-        // Reset battery to 50%
-        state.battery.currentCharge = 50
-        state.battery.chargePercent = 50
+        state.battery.capacity = battery.capacity
+        state.battery.currentCharge = (battery.capacity * battery.currentCharge) / 100
+        state.battery.chargePercent = battery.currentCharge
 
         // Reset boat damage
         state.boatDamage.hullIntegrity = 100
@@ -565,12 +865,20 @@ export const useGameStore = create<GameState>()(
         state.player.position = [0, 0, 150]
         state.player.rotation = 0
         state.player.speed = 0
+        state.player.speedOverGround = 0
+        state.player.courseOverGround = 0
         state.player.throttle = 0
         state.player.steering = 0
+        state.player.heel = 0
+        state.player.leeway = 0
 
-        // Reset auto-dock
+        // Reset auto-dock and grounding
         state.isAutoDocking = false
         state.autoDockTarget = null
+        state.isAground = false
+
+        // Nothing carried aboard
+        state.payloadMass = 0
 
         // Reset burst
         state.isBursting = false
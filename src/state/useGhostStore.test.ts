@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { GHOST_SAMPLE_RATE, GHOST_VERSION, encodeFrames } from './ghostReplay'
+import { useGhostStore } from './useGhostStore'
+
+function stubStorage(entries: Record<string, string>) {
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => entries[key] ?? null,
+    setItem: (key: string, value: string) => {
+      entries[key] = value
+    },
+    removeItem: (key: string) => {
+      delete entries[key]
+    },
+  })
+}
+
+function storedGhost(frames: string) {
+  return JSON.stringify({
+    version: GHOST_VERSION,
+    raceId: 'open-ocean',
+    raceName: 'Open Ocean',
+    playerName: 'Navigator',
+    recordedAt: 1700000000000,
+    hull: { type: 'monohull', length: 12, beam: 4, draft: 1.5, bowShape: 'piercing' },
+    totalTime: 200,
+    checkpointTimes: [200],
+    sampleRate: GHOST_SAMPLE_RATE,
+    frames,
+  })
+}
+
+describe('loadGhostForRace', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('loads and decodes the stored ghost', () => {
+    const frames = encodeFrames([{ time: 0, x: 0, z: 0, rotation: 0, speed: 0, throttle: 0 }])
+    stubStorage({ 'inforelax:ghost:open-ocean': storedGhost(frames) })
+
+    useGhostStore.getState().loadGhostForRace('open-ocean')
+    expect(useGhostStore.getState().ghost?.playerName).toBe('Navigator')
+    expect(useGhostStore.getState().ghostFrames).toHaveLength(1)
+  })
+
+  it('drops a stored ghost whose frames are corrupt instead of throwing', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    stubStorage({ 'inforelax:ghost:open-ocean': storedGhost('%%%') })
+
+    expect(() => useGhostStore.getState().loadGhostForRace('open-ocean')).not.toThrow()
+    expect(useGhostStore.getState().ghost).toBeNull()
+    expect(useGhostStore.getState().ghostFrames).toEqual([])
+  })
+})
@@ -0,0 +1,109 @@
+import { create } from 'zustand'
+import type { HullConfig } from './useYachtStore'
+import type { RaceConfig } from './useRaceStore'
+import {
+  GHOST_SAMPLE_RATE,
+  GHOST_VERSION,
+  decodeFrames,
+  encodeFrames,
+  loadGhost,
+  saveGhost,
+  type GhostFrame,
+  type GhostReplay,
+} from './ghostReplay'
+
+export interface GhostState {
+  // Ghost raced against in the current race
+  ghost: GhostReplay | null
+  ghostFrames: GhostFrame[]
+
+  // Run being recorded
+  recording: GhostFrame[]
+  isRecording: boolean
+  lastRunImproved: boolean
+
+  // Actions
+  loadGhostForRace: (raceId: string) => void
+  startRecording: () => void
+  recordFrame: (frame: GhostFrame) => void
+  stopRecording: () => void
+  finishRecording: (
+    race: RaceConfig,
+    playerName: string,
+    hull: HullConfig,
+    totalTime: number,
+    checkpointTimes: number[]
+  ) => boolean
+  importGhost: (replay: GhostReplay) => void
+}
+
+export const useGhostStore = create<GhostState>((set, get) => ({
+  ghost: null,
+  ghostFrames: [],
+  recording: [],
+  isRecording: false,
+  lastRunImproved: false,
+
+  loadGhostForRace: (raceId) => {
+    const ghost = loadGhost(raceId)
+    if (!ghost) {
+      set({ ghost: null, ghostFrames: [] })
+      return
+    }
+
+    try {
+      set({ ghost, ghostFrames: decodeFrames(ghost.frames) })
+    } catch (error) {
+      console.error('Error decoding ghost:', error)
+      set({ ghost: null, ghostFrames: [] })
+    }
+  },
+
+  startRecording: () => {
+    set({ recording: [], isRecording: true, lastRunImproved: false })
+  },
+
+  recordFrame: (frame) => {
+    if (!get().isRecording) return
+    set((state) => ({ recording: [...state.recording, frame] }))
+  },
+
+  stopRecording: () => {
+    set({ recording: [], isRecording: false })
+  },
+
+  // Keep the run if it beats the stored ghost for this race. Returns true if it was saved.
+  finishRecording: (race, playerName, hull, totalTime, checkpointTimes) => {
+    const { recording, ghost } = get()
+    set({ isRecording: false })
+    if (recording.length === 0 || (ghost && ghost.totalTime <= totalTime)) {
+      set({ recording: [], lastRunImproved: false })
+      return false
+    }
+
+    const replay: GhostReplay = {
+      version: GHOST_VERSION,
+      raceId: race.id,
+      raceName: race.name,
+      playerName,
+      recordedAt: Date.now(),
+      hull,
+      totalTime,
+      checkpointTimes,
+      sampleRate: GHOST_SAMPLE_RATE,
+      frames: encodeFrames(recording),
+    }
+    const saved = saveGhost(replay)
+    set({ recording: [], lastRunImproved: saved })
+    return saved
+  },
+
+  // A shared ghost replaces the stored one for its race
+  importGhost: (replay) => {
+    saveGhost(replay)
+    const { ghost } = get()
+    if (ghost?.raceId === replay.raceId) {
+      set({ ghost: replay, ghostFrames: decodeFrames(replay.frames) })
+    }
+  },
+}))
@@ -0,0 +1,164 @@
+import { create } from 'zustand'
+import { useGameStore } from './useGameStore'
+import { useYachtStore, type YachtConfig, type EngineTier } from './useYachtStore'
+import { useWorldStore } from './useWorldStore'
+import { getMarina } from '../world/MarinaServices'
+import { UNLOCK_COSTS } from '../utils/constants'
+import { BLADE_PRESETS } from '../editor/BladePresets'
+import { HULL_PRESETS } from '../editor/HullPresets'
+import { TURBINE_PRESETS } from '../editor/TurbineShapeLibrary'
+
+export type UnlockCategory =
+  | 'hull'
+  | 'turbine-style'
+  | 'battery'
+  | 'engine'
+  | 'deck-module'
+  | 'blade-preset'
+  | 'hull-preset'
+  | 'turbine-preset'
+
+export type OwnedItems = Record<UnlockCategory, string[]>
+
+// Deck module ids (as stored in YachtConfig.deckModules) to their UNLOCK_COSTS key
+const DECK_MODULE_COSTS: Record<string, number> = {
+  'dj-booth': UNLOCK_COSTS.djBooth,
+  'cargo': UNLOCK_COSTS.cargo,
+  'fishing': UNLOCK_COSTS.fishing,
+  'solar-canopy': UNLOCK_COSTS.solarCanopy,
+}
+
+const ENGINE_COSTS: Record<EngineTier, number> = {
+  standard: UNLOCK_COSTS.engineStandard,
+  performance: UNLOCK_COSTS.enginePerformance,
+  racing: UNLOCK_COSTS.engineRacing,
+}
+
+// EC to unlock an item; anything without a listed cost is free
+export function getUnlockCost(category: UnlockCategory, id: string): number {
+  const costs = UNLOCK_COSTS as Record<string, number>
+  switch (category) {
+    case 'hull':
+    case 'turbine-style':
+      return costs[id] ?? 0
+    case 'battery':
+      return costs[`battery${id}`] ?? 0
+    case 'engine':
+      return ENGINE_COSTS[id as EngineTier] ?? 0
+    case 'deck-module':
+      return DECK_MODULE_COSTS[id] ?? 0
+    case 'blade-preset':
+      return BLADE_PRESETS.find((p) => p.id === id)?.unlockCost ?? 0
+    case 'hull-preset':
+      return HULL_PRESETS.find((p) => p.id === id)?.unlockCost ?? 0
+    case 'turbine-preset':
+      return TURBINE_PRESETS.find((p) => p.id === id)?.unlockCost ?? 0
+  }
+}
+
+// Unlockable items a yacht design uses
+export function getYachtItems(yacht: YachtConfig): [UnlockCategory, string][] {
+  const items: [UnlockCategory, string][] = [
+    ['hull', yacht.hull.type],
+    ['turbine-style', yacht.turbine.style],
+    ['battery', String(yacht.battery.capacity)],
+    ['engine', yacht.engine.tier],
+    ...yacht.deckModules.map((module): [UnlockCategory, string] => ['deck-module', module]),
+  ]
+  if (yacht.secondTurbineEnabled) items.push(['turbine-style', yacht.secondTurbine.style])
+  if (yacht.solar.canopyEnabled) items.push(['deck-module', 'solar-canopy'])
+  return items
+}
+
+export function createEmptyInventory(): OwnedItems {
+  return {
+    'hull': [],
+    'turbine-style': [],
+    'battery': [],
+    'engine': [],
+    'deck-module': [],
+    'blade-preset': [],
+    'hull-preset': [],
+    'turbine-preset': [],
+  }
+}
+
+// Add the items used by the given yachts to an inventory
+export function grantYachtItems(owned: OwnedItems, yachts: YachtConfig[]): OwnedItems {
+  const updated: OwnedItems = { ...owned }
+  for (const yacht of yachts) {
+    for (const [category, id] of getYachtItems(yacht)) {
+      if (!updated[category].includes(id)) {
+        updated[category] = [...updated[category], id]
+      }
+    }
+  }
+  return updated
+}
+
+export interface InventoryState {
+  owned: OwnedItems
+
+  // Actions
+  isOwned: (category: UnlockCategory, id: string) => boolean
+  unlock: (category: UnlockCategory, id: string) => boolean
+  buyUpgrade: (category: 'battery' | 'engine', id: string) => boolean
+  setOwned: (owned: OwnedItems) => void
+}
+
+export const useInventoryStore = create<InventoryState>((set, get) => ({
+  // The starter yacht comes with everything it is built from
+  owned: grantYachtItems(createEmptyInventory(), [useYachtStore.getState().currentYacht]),
+
+  isOwned: (category, id) => {
+    return getUnlockCost(category, id) === 0 || get().owned[category].includes(id)
+  },
+
+  unlock: (category, id) => {
+    if (get().isOwned(category, id)) return true
+
+    const cost = getUnlockCost(category, id)
+    if (!useGameStore.getState().spendCredits(cost)) return false
+
+    set((state) => ({
+      owned: { ...state.owned, [category]: [...state.owned[category], id] },
+    }))
+    return true
+  },
+
+  // Marina upgrade: unlock if needed, then install on the current yacht
+  buyUpgrade: (category, id) => {
+    const { world, isDocked, dockedAt } = useWorldStore.getState()
+    const marina = isDocked && world ? getMarina(world.marinas, dockedAt) : null
+    if (!marina?.services.includes('upgrades')) return false
+    if (!get().unlock(category, id)) return false
+
+    const { setBattery, setEngine } = useYachtStore.getState()
+    if (category === 'battery') {
+      setBattery({ capacity: parseInt(id) })
+    } else {
+      setEngine(id as EngineTier)
+    }
+    return true
+  },
+
+  setOwned: (owned) => {
+    set({ owned: { ...createEmptyInventory(), ...owned } })
+  },
+}))
+
+/**
+ * Ask the player to unlock a locked item. Returns true if the item is (now) owned.
+ */
+export function promptUnlock(category: UnlockCategory, id: string, label: string): boolean {
+  const inventory = useInventoryStore.getState()
+  if (inventory.isOwned(category, id)) return true
+
+  const cost = getUnlockCost(category, id)
+  const credits = useGameStore.getState().energyCredits
+  if (credits < cost) {
+    alert(`${label} costs ${cost} EC to unlock (you have ${credits.toFixed(0)} EC).`)
+    return false
+  }
+  return window.confirm(`Unlock ${label} for ${cost} EC?`) && inventory.unlock(category, id)
+}
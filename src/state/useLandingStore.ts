@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { useGameStore } from './useGameStore'
+import { useActivityStore } from './useActivityStore'
 import type { MapConfig } from '../world/WorldGenerator'
 
 // ── Map presets (fully-populated MapConfig objects) ──
@@ -248,5 +249,6 @@ export const useLandingStore = create<LandingState>((set) => ({
     if (gameStore.resetGameState) {
       gameStore.resetGameState()
     }
+    useActivityStore.getState().setSalvage(0, 0)
   },
 }))
@@ -0,0 +1,217 @@
+import { create } from 'zustand'
+import type { Room } from 'colyseus.js'
+import { useGameStore } from './useGameStore'
+import { useRaceStore, type RaceConfig } from './useRaceStore'
+import { useYachtStore } from './useYachtStore'
+import { useLandingStore } from './useLandingStore'
+import {
+  createRaceRoom,
+  joinLobby,
+  joinRaceRoom,
+  readRaceState,
+  type RaceListing,
+  type RemoteRacer,
+  type RemoteSnapshot,
+} from '../multiplayer/RaceClient'
+import type { RaceState as RaceRoomState } from '../../server/schema/RaceState'
+import {
+  isGridSlotMessage,
+  isRaceCourse,
+  type BoatStateMessage,
+  type GridSlotMessage,
+  type RacePhase,
+} from '../multiplayer/protocol'
+import { isFiniteNumber, isRecord } from '../utils/guards'
+
+const SNAPSHOT_BUFFER = 20 // snapshots kept per remote yacht for interpolation
+
+export type ConnectionStatus = 'offline' | 'connecting' | 'lobby' | 'room'
+
+export interface MultiplayerState {
+  status: ConnectionStatus
+  error: string | null
+
+  // Lobby
+  lobbyRoom: Room | null
+  rooms: RaceListing[]
+
+  // Race room
+  raceRoom: Room<RaceRoomState> | null
+  race: RaceConfig | null
+  sessionId: string | null
+  phase: RacePhase
+  racers: RemoteRacer[]
+  gridSlot: GridSlotMessage | null
+  countdownEndsAt: number | null // local ms of the start gun
+  snapshots: Record<string, RemoteSnapshot[]> // remote yachts by session id, oldest first
+
+  // Actions
+  openLobby: () => Promise<void>
+  closeLobby: () => void
+  createRoom: (race: RaceConfig) => Promise<void>
+  joinRoom: (roomId: string) => Promise<void>
+  setReady: (ready: boolean) => void
+  leaveRoom: () => void
+  sendBoatState: (state: BoatStateMessage) => void
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : 'Could not reach the race server'
+}
+
+function joinOptions() {
+  return {
+    playerName: useLandingStore.getState().playerName,
+    hull: JSON.stringify(useYachtStore.getState().currentYacht.hull),
+  }
+}
+
+const roomDefaults = {
+  raceRoom: null,
+  race: null,
+  sessionId: null,
+  phase: 'waiting' as RacePhase,
+  racers: [],
+  gridSlot: null,
+  countdownEndsAt: null,
+  snapshots: {},
+}
+
+export const useMultiplayerStore = create<MultiplayerState>((set, get) => {
+  // Wire a joined race room into the store and the local race
+  const attachRaceRoom = (room: Room<RaceRoomState>, race: RaceConfig | null) => {
+    set({ ...roomDefaults, status: 'room', error: null, raceRoom: room, race, sessionId: room.sessionId })
+
+    room.onStateChange((state) => {
+      const snapshot = readRaceState(state)
+      const now = Date.now()
+      const snapshots: Record<string, RemoteSnapshot[]> = {}
+      for (const racer of snapshot.racers) {
+        if (racer.sessionId === room.sessionId) continue
+        const buffer = get().snapshots[racer.sessionId] ?? []
+        snapshots[racer.sessionId] = [
+          ...buffer.slice(-(SNAPSHOT_BUFFER - 1)),
+          { time: now, x: racer.x, z: racer.z, rotation: racer.rotation, heel: racer.heel },
+        ]
+      }
+      set({ phase: snapshot.phase, racers: snapshot.racers, snapshots })
+    })
+
+    // The course as the room runs it (joiners may not have it on their map)
+    room.onMessage('course', (course: unknown) => {
+      if (!isRaceCourse(course)) return
+      set({ race: { ...course, difficultyMultiplier: course.difficultyMultiplier ?? 1 } })
+    })
+
+    // Line up on our grid slot
+    room.onMessage('grid', (slot: unknown) => {
+      if (!isGridSlotMessage(slot)) return
+      set({ gridSlot: slot })
+      useGameStore.getState().placePlayer(slot.position, slot.heading)
+    })
+
+    room.onMessage('countdown', (message: unknown) => {
+      if (!isRecord(message) || (message.remaining !== null && !isFiniteNumber(message.remaining))) return
+      const { remaining } = message
+      set({ countdownEndsAt: remaining === null ? null : Date.now() + remaining })
+    })
+
+    // Start gun: the server ran the countdown and put us on our grid slot
+    room.onMessage('start', () => {
+      const { race } = get()
+      set({ countdownEndsAt: null })
+      if (!race) return
+      useRaceStore.getState().startRace(race, useLandingStore.getState().playerName, {
+        opponents: 0, // the other boats are real sailors
+        countdown: 0,
+        lineUp: false,
+      })
+    })
+
+    // The server refused a position (too far too fast): back to the last accepted one
+    room.onMessage('rejected', (position: unknown) => {
+      if (!isRecord(position) || !isFiniteNumber(position.x) || !isFiniteNumber(position.z)) return
+      useGameStore.getState().placePlayer([position.x, position.z], useGameStore.getState().player.rotation)
+    })
+
+    room.onLeave(() => {
+      if (get().raceRoom !== room) return
+      set({ ...roomDefaults, status: 'offline' })
+    })
+  }
+
+  return {
+    status: 'offline',
+    error: null,
+    lobbyRoom: null,
+    rooms: [],
+    ...roomDefaults,
+
+    openLobby: async () => {
+      if (get().lobbyRoom) return
+      set({ status: 'connecting', error: null })
+      try {
+        const lobby = await joinLobby()
+        set({ lobbyRoom: lobby, status: get().raceRoom ? 'room' : 'lobby' })
+
+        lobby.onMessage('rooms', (rooms: RaceListing[]) => set({ rooms }))
+        lobby.onMessage('+', ([roomId, room]: [string, RaceListing]) => {
+          set((state) => ({ rooms: [...state.rooms.filter((r) => r.roomId !== roomId), room] }))
+        })
+        lobby.onMessage('-', (roomId: string) => {
+          set((state) => ({ rooms: state.rooms.filter((r) => r.roomId !== roomId) }))
+        })
+        lobby.onLeave(() => {
+          if (get().lobbyRoom !== lobby) return
+          set({ lobbyRoom: null, rooms: [], status: get().raceRoom ? 'room' : 'offline' })
+        })
+      } catch (error) {
+        set({ status: 'offline', error: describeError(error) })
+      }
+    },
+
+    closeLobby: () => {
+      const { lobbyRoom, raceRoom } = get()
+      set({ lobbyRoom: null, rooms: [], status: raceRoom ? 'room' : 'offline' })
+      lobbyRoom?.leave()
+    },
+
+    createRoom: async (race) => {
+      set({ status: 'connecting', error: null })
+      try {
+        const room = await createRaceRoom({ ...joinOptions(), race })
+        attachRaceRoom(room, race)
+      } catch (error) {
+        set({ status: get().lobbyRoom ? 'lobby' : 'offline', error: describeError(error) })
+      }
+    },
+
+    joinRoom: async (roomId) => {
+      set({ status: 'connecting', error: null })
+      try {
+        const room = await joinRaceRoom(roomId, joinOptions())
+        attachRaceRoom(room, null)
+      } catch (error) {
+        set({ status: get().lobbyRoom ? 'lobby' : 'offline', error: describeError(error) })
+      }
+    },
+
+    setReady: (ready) => {
+      get().raceRoom?.send('ready', ready)
+    },
+
+    leaveRoom: () => {
+      const { raceRoom, lobbyRoom } = get()
+      if (!raceRoom) return
+      set({ ...roomDefaults, status: lobbyRoom ? 'lobby' : 'offline' })
+      raceRoom.leave()
+      if (useRaceStore.getState().isRacing) {
+        useRaceStore.getState().abandonRace()
+      }
+    },
+
+    sendBoatState: (state) => {
+      get().raceRoom?.send('state', state)
+    },
+  }
+})
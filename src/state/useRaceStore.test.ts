@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useGameStore } from './useGameStore';
+import { useRaceStore, type RaceConfig } from './useRaceStore';
+import { ENDURANCE_DNF_RANGE } from '../world/EnduranceRace';
+
+// Out 2 km to a mark and back to the line
+const race: RaceConfig = {
+  id: 'out-and-back-endurance',
+  name: 'Out and Back (Endurance)',
+  laps: 1,
+  difficultyMultiplier: 1,
+  startPosition: [0, 0],
+  checkpoints: [
+    { id: 'cp-1', position: [0, 2000], radius: 100, order: 0 },
+    { id: 'finish', position: [0, 0], radius: 100, order: 1 },
+  ],
+  endurance: { startCharge: 10 },
+};
+
+// Boat at a position with a charge, making 3 kW and using 6 kW
+function setBoat(x: number, z: number, charge: number) {
+  const game = useGameStore.getState();
+  useGameStore.setState({
+    player: { ...game.player, position: [x, 0, z] },
+    battery: { ...game.battery, currentCharge: charge },
+    energy: { turbineOutput: 2, solarOutput: 1, motorConsumption: 5, systemsConsumption: 1, netPower: -3 },
+    isBursting: false,
+  });
+}
+
+describe('trackEnergy', () => {
+  beforeEach(() => {
+    useRaceStore.setState({
+      currentRace: race,
+      isRacing: true,
+      raceFinished: false,
+      raceStartTime: Date.now() - 1000,
+      currentLap: 1,
+      currentCheckpoint: 0,
+      lapTimes: [],
+      legEnergy: [],
+      dnfReason: null,
+      preRaceCharge: null,
+      opponents: [],
+      results: [],
+    });
+    setBoat(0, 500, 5);
+  });
+
+  it('adds up harvest, use and distance on the leg being sailed', () => {
+    const { trackEnergy } = useRaceStore.getState();
+    trackEnergy(1800, 100);
+    trackEnergy(1800, 50);
+
+    expect(useRaceStore.getState().legEnergy).toEqual([{ lap: 1, checkpoint: 0, harvested: 3, used: 6, distance: 150 }]);
+  });
+
+  it('starts a new leg at each mark', () => {
+    const { trackEnergy } = useRaceStore.getState();
+    trackEnergy(3600, 100);
+    useRaceStore.setState({ currentCheckpoint: 1 });
+    trackEnergy(3600, 200);
+
+    expect(useRaceStore.getState().legEnergy.map((leg) => [leg.checkpoint, leg.distance])).toEqual([
+      [0, 100],
+      [1, 200],
+    ]);
+  });
+
+  it('ignores non-endurance races and the countdown', () => {
+    useRaceStore.setState({ currentRace: { ...race, endurance: undefined } });
+    useRaceStore.getState().trackEnergy(3600, 100);
+    useRaceStore.setState({ currentRace: race, raceStartTime: Date.now() + 5000 });
+    useRaceStore.getState().trackEnergy(3600, 100);
+
+    expect(useRaceStore.getState().legEnergy).toEqual([]);
+  });
+
+  it('retires a boat whose battery is flat far from the finish', () => {
+    setBoat(0, 500, 0);
+    useRaceStore.getState().trackEnergy(1, 1);
+
+    const state = useRaceStore.getState();
+    expect(state.raceFinished).toBe(true);
+    expect(state.dnfReason).toMatch(/Battery flat 3\.5 km/);
+    expect(state.finishTime).not.toBeNull();
+    expect(state.results).toEqual([]);
+  });
+
+  it('hands back the boat\'s own charge and shore power when it retires', () => {
+    useRaceStore.setState({ preRaceCharge: 40 });
+    useGameStore.getState().setEnduranceMode(true);
+    setBoat(0, 500, 0);
+    useRaceStore.getState().trackEnergy(1, 1);
+
+    expect(useGameStore.getState().battery.currentCharge).toBe(40);
+    expect(useGameStore.getState().enduranceMode).toBe(false);
+    expect(useRaceStore.getState().preRaceCharge).toBeNull();
+  });
+
+  it('lets a flat battery limp home within range of the finish', () => {
+    useRaceStore.setState({ currentCheckpoint: 1 });
+    setBoat(0, ENDURANCE_DNF_RANGE - 10, 0);
+    useRaceStore.getState().trackEnergy(1, 1);
+
+    expect(useRaceStore.getState().isRacing).toBe(true);
+    expect(useRaceStore.getState().dnfReason).toBeNull();
+  });
+});
@@ -1,12 +1,30 @@
 import { create } from 'zustand';
+import { useGameStore } from './useGameStore';
+import { useYachtStore } from './useYachtStore';
+import { useWorldStore } from './useWorldStore';
+import { MAX_OPPONENTS, createAIOpponents, stepAIOpponent, type AIOpponent } from '../world/AISkipper';
+import { crossesGate, getCourseGates, getStartGate } from '../world/RaceGates';
+import { createRaceIce, getConditionsKey, getRaceModifiers, type RaceModifiers } from '../world/RaceConditions';
+import { ENDURANCE_DNF_RANGE, getRemainingDistance, type EnduranceRules, type LegEnergy } from '../world/EnduranceRace';
+import { getPlacingReward, type CollisionMark, type TelemetrySample } from '../world/RaceReport';
+import { DEFAULT_WIND_CONDITIONS } from '../physics/WindSystem';
+import { loadGhost } from './ghostReplay';
 
 export type RaceDifficulty = 'peaceful' | 'moderate' | 'challenging';
 
+// Start sequence and time penalties (ms)
+export const START_COUNTDOWN = 5000;
+export const START_SETBACK = 60; // m behind the line boats line up at
+export const FALSE_START_PENALTY = 10000;
+export const MISSED_GATE_PENALTY = 30000;
+export const COLLISION_PENALTY = 3000;
+
 export interface Checkpoint {
   id: string;
   position: [number, number];
   radius: number;
   order: number;
+  heading?: number; // gate crossing direction (radians); defaults to the course direction
 }
 
 export interface RaceConfig {
@@ -15,6 +33,9 @@ export interface RaceConfig {
   checkpoints: Checkpoint[];
   laps: number;
   difficultyMultiplier: number; // Affects wind conditions
+  startPosition?: [number, number]; // Start line; races without one start where the boat is
+  startHeading?: number;            // radians, facing the first mark
+  endurance?: EnduranceRules;       // sailed on a fixed charge with no shore power
 }
 
 export interface BoatDamage {
@@ -29,6 +50,79 @@ export interface LapData {
   endTime: number | null;
   duration: number | null;
   checkpointTimes: Record<string, number>; // checkpoint id -> time when passed
+  penalties: Penalty[];
+}
+
+export interface Penalty {
+  type: 'false-start' | 'missed-gate' | 'collision';
+  time: number; // ms added to the race time
+  at: number;   // when it was given
+  checkpointId?: string;
+}
+
+// Total penalty time over a race's laps
+export function getPenaltyTime(lapTimes: LapData[]): number {
+  return lapTimes.reduce((total, lap) => total + lap.penalties.reduce((sum, penalty) => sum + penalty.time, 0), 0);
+}
+
+/**
+ * Sector splits for a lap: the time from the lap start (or previous gate) to each
+ * gate, in course order. Null for gates not yet reached.
+ */
+export function getSectorTimes(lap: LapData, checkpoints: Checkpoint[]): (number | null)[] {
+  let previous = lap.startTime;
+  return checkpoints.map((checkpoint) => {
+    const passed = lap.checkpointTimes[checkpoint.id];
+    if (passed === undefined) return null;
+    const sector = passed - previous;
+    previous = passed;
+    return sector;
+  });
+}
+
+// Fastest completed lap, if any
+export function getBestLap(lapTimes: LapData[]): LapData | null {
+  return lapTimes.reduce<LapData | null>(
+    (best, lap) => (lap.duration !== null && (best === null || lap.duration < (best.duration ?? Infinity)) ? lap : best),
+    null
+  );
+}
+
+// Adds a penalty to the lap being sailed
+function addPenalty(lapTimes: LapData[], penalty: Penalty): LapData[] {
+  if (lapTimes.length === 0) return lapTimes;
+  const updated = [...lapTimes];
+  const current = updated[updated.length - 1];
+  updated[updated.length - 1] = { ...current, penalties: [...current.penalties, penalty] };
+  return updated;
+}
+
+// A boat home in the current race, in finishing order
+export interface RaceResult {
+  position: number;
+  name: string;
+  isPlayer: boolean;
+  finishTime: number; // ms
+  collisions: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  playerName: string;
+  bestTime: number;
+  totalTime: number;
+  completedLaps: number;
+  personalBest: number;
+  collisions: number;
+  finalIntegrity: number;
+  conditions: string; // difficulty and course multiplier the time was set under
+  bestLap?: number;   // ms, on courses of more than one lap
+}
+
+export interface StartOptions {
+  opponents?: number; // AI boats; defaults to the chosen opponent count
+  countdown?: number; // ms to the gun
+  lineUp?: boolean;   // place the boat behind the start line (default true)
 }
 
 export interface RaceState {
@@ -45,28 +139,74 @@ export interface RaceState {
   damage: BoatDamage;
   raceFinished: boolean;
   finishTime: number | null;
+  playerName: string;
+  falseStart: boolean;
+
+  // Conditions the current race is sailed in
+  modifiers: RaceModifiers | null;
+  conditions: string | null;
+
+  // Endurance races: energy per leg, why the boat retired, and the charge to give back afterwards
+  legEnergy: LegEnergy[];
+  dnfReason: string | null;
+  preRaceCharge: number | null;
+
+  // Sampled for the race report, with the personal best gate times to compare against
+  telemetry: TelemetrySample[];
+  collisionMarks: CollisionMark[];
+  bestCheckpointTimes: number[] | null;
+  reward: number | null; // EC paid for the finishing place
+
+  // AI skippers sailing the same course
+  opponentCount: number;
+  opponents: AIOpponent[];
+  results: RaceResult[];
 
   // Leaderboard
-  leaderboard: Array<{
-    rank: number;
-    playerName: string;
-    bestTime: number;
-    totalTime: number;
-    completedLaps: number;
-    personalBest: number;
-    collisions: number;
-    finalIntegrity: number;
-  }>;
+  leaderboard: LeaderboardEntry[];
 
   // Actions
   setDifficulty: (difficulty: RaceDifficulty) => void;
-  startRace: (config: RaceConfig, playerName: string) => void;
+  setOpponentCount: (count: number) => void;
+  startRace: (config: RaceConfig, playerName: string, options?: StartOptions) => void;
+  crossGates: (from: [number, number], to: [number, number]) => void;
+  trackEnergy: (delta: number, distance: number) => void;
+  recordTelemetry: (sample: TelemetrySample) => void;
   passCheckpoint: (checkpointId: string) => void;
   completeLap: () => void;
   finishRace: () => void;
   abandonRace: () => void;
   updateLeaderboard: (entry: any) => void;
   registerCollision: (damageAmount: number) => void;
+  stepOpponents: (delta: number) => void;
+}
+
+// Finishing order and leaderboard entry for a boat crossing the line
+function recordFinish(
+  state: RaceState,
+  name: string,
+  isPlayer: boolean,
+  finishTime: number,
+  collisions: number,
+  finalIntegrity: number,
+  bestLap?: number
+): RaceResult[] {
+  state.updateLeaderboard({
+    rank: 0,
+    playerName: name,
+    bestTime: finishTime,
+    totalTime: finishTime,
+    completedLaps: state.currentRace?.laps ?? 1,
+    personalBest: finishTime,
+    collisions,
+    finalIntegrity,
+    conditions: state.conditions ?? getConditionsKey(state.difficulty, 1),
+    bestLap,
+  });
+  // Penalties can drop a boat behind one that crossed later
+  return [...state.results, { position: 0, name, isPlayer, finishTime, collisions }]
+    .sort((a, b) => a.finishTime - b.finishTime)
+    .map((result, index) => ({ ...result, position: index + 1 }));
 }
 
 export const useRaceStore = create<RaceState>((set, get) => ({
@@ -85,20 +225,95 @@ export const useRaceStore = create<RaceState>((set, get) => ({
   },
   raceFinished: false,
   finishTime: null,
+  playerName: 'Player',
+  falseStart: false,
+  modifiers: null,
+  conditions: null,
+  legEnergy: [],
+  dnfReason: null,
+  preRaceCharge: null,
+  telemetry: [],
+  collisionMarks: [],
+  bestCheckpointTimes: null,
+  reward: null,
+  opponentCount: 3,
+  opponents: [],
+  results: [],
 
   setDifficulty: (difficulty: RaceDifficulty) => {
     set({ difficulty });
   },
 
-  startRace: (config: RaceConfig, _playerName: string) => {
+  setOpponentCount: (count: number) => {
+    set({ opponentCount: Math.max(0, Math.min(MAX_OPPONENTS, Math.round(count))) });
+  },
+
+  startRace: (config: RaceConfig, playerName: string, options?: StartOptions) => {
+    // Line up just behind the start line, facing it
+    const startGate = getStartGate(config);
+    if (startGate && options?.lineUp !== false) {
+      useGameStore.getState().placePlayer(
+        [
+          startGate.center[0] - Math.sin(startGate.heading) * START_SETBACK,
+          startGate.center[1] - Math.cos(startGate.heading) * START_SETBACK,
+        ],
+        startGate.heading
+      );
+    }
+
+    // Endurance: everyone gets the same charge, the boat's own is handed back after
+    const preRaceCharge = config.endurance ? useGameStore.getState().battery.currentCharge : null;
+    if (config.endurance) {
+      useGameStore.getState().setBatteryCharge(config.endurance.startCharge);
+    }
+    useGameStore.getState().setEnduranceMode(config.endurance !== undefined);
+
+    // Opponents start alongside, with the player's battery
+    const { player, battery } = useGameStore.getState();
+    const opponents = createAIOpponents(
+      get().difficulty,
+      options?.opponents ?? get().opponentCount,
+      [player.position[0], player.position[2]],
+      player.rotation,
+      { capacity: battery.capacity, currentCharge: battery.currentCharge },
+      Date.now()
+    );
+
+    // Wind, ice and damage for this difficulty and course
+    const { difficulty } = get();
+    const modifiers = getRaceModifiers(difficulty, config.difficultyMultiplier);
+    useGameStore.getState().setWindConditions({
+      strength: modifiers.windStrength,
+      gusts: modifiers.gusts,
+      shifts: modifiers.windShifts,
+    });
+    const world = useWorldStore.getState().world;
+    useWorldStore.getState().setRaceIce(createRaceIce(config, modifiers, world?.index.islands ?? null));
+
+    // The clock runs from the gun at the end of the countdown
+    const gun = Date.now() + (options?.countdown ?? START_COUNTDOWN);
+
     set({
       currentRace: config,
+      playerName,
+      opponents,
+      results: [],
       isRacing: true,
-      raceStartTime: Date.now(),
+      raceStartTime: gun,
       currentLap: 1,
       currentCheckpoint: 0,
       raceFinished: false,
       finishTime: null,
+      falseStart: false,
+      modifiers,
+      conditions: getConditionsKey(difficulty, config.difficultyMultiplier, config.endurance !== undefined),
+      legEnergy: [],
+      dnfReason: null,
+      preRaceCharge,
+      telemetry: [],
+      collisionMarks: [],
+      bestCheckpointTimes: loadGhost(config.id)?.checkpointTimes ?? null,
+      reward: null,
       damage: {
         hullIntegrity: 100,
         collisionCount: 0,
@@ -107,15 +322,110 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       lapTimes: [
         {
           lapNumber: 1,
-          startTime: Date.now(),
+          startTime: gun,
           endTime: null,
           duration: null,
           checkpointTimes: {},
+          penalties: [],
         },
       ],
     });
   },
 
+  // Checks a move of the player's boat against the start line and the next gates
+  crossGates: (from: [number, number], to: [number, number]) => {
+    const state = get();
+    const { currentRace, raceStartTime } = state;
+    if (!state.isRacing || !currentRace || raceStartTime === null) return;
+
+    const now = Date.now();
+
+    // Over the line before the gun
+    if (now < raceStartTime) {
+      const startGate = getStartGate(currentRace);
+      if (!state.falseStart && startGate && crossesGate(startGate, from, to) === 'forward') {
+        set({
+          falseStart: true,
+          lapTimes: addPenalty(state.lapTimes, { type: 'false-start', time: FALSE_START_PENALTY, at: now }),
+        });
+      }
+      return;
+    }
+
+    const gates = getCourseGates(currentRace);
+    const next = gates[state.currentCheckpoint];
+    if (!next) return;
+
+    if (crossesGate(next, from, to) === 'forward') {
+      state.passCheckpoint(next.id);
+    } else {
+      // Sailed through the following gate instead: the skipped one costs time
+      const following = gates[state.currentCheckpoint + 1];
+      if (!following || crossesGate(following, from, to) !== 'forward') return;
+
+      set({
+        lapTimes: addPenalty(state.lapTimes, {
+          type: 'missed-gate',
+          time: MISSED_GATE_PENALTY,
+          at: now,
+          checkpointId: next.id,
+        }),
+      });
+      state.passCheckpoint(next.id);
+      state.passCheckpoint(following.id);
+    }
+
+    if (get().currentCheckpoint >= gates.length) {
+      get().completeLap();
+    }
+  },
+
+  /**
+   * Endurance races: add a frame's harvest, consumption and distance to the leg
+   * being sailed, and retire the boat if its battery is flat far from the finish
+   */
+  trackEnergy: (delta: number, distance: number) => {
+    const state = get();
+    const { currentRace, raceStartTime } = state;
+    if (!state.isRacing || !currentRace?.endurance || raceStartTime === null || Date.now() < raceStartTime) return;
+
+    const { energy, battery, isBursting, burstEnergyCost, player } = useGameStore.getState();
+    const harvested = ((energy.turbineOutput + energy.solarOutput) * delta) / 3600;
+    const used = ((energy.motorConsumption + energy.systemsConsumption + (isBursting ? burstEnergyCost : 0)) * delta) / 3600;
+
+    const legEnergy = [...state.legEnergy];
+    const last = legEnergy[legEnergy.length - 1];
+    if (last && last.lap === state.currentLap && last.checkpoint === state.currentCheckpoint) {
+      legEnergy[legEnergy.length - 1] = {
+        ...last,
+        harvested: last.harvested + harvested,
+        used: last.used + used,
+        distance: last.distance + distance,
+      };
+    } else {
+      legEnergy.push({ lap: state.currentLap, checkpoint: state.currentCheckpoint, harvested, used, distance });
+    }
+    set({ legEnergy });
+
+    if (battery.currentCharge > 0) return;
+    const remaining = getRemainingDistance(
+      currentRace,
+      state.currentLap,
+      state.currentCheckpoint,
+      player.position[0],
+      player.position[2]
+    );
+    if (remaining > ENDURANCE_DNF_RANGE) {
+      set({ dnfReason: `Battery flat ${(remaining / 1000).toFixed(1)} km from the finish` });
+      get().finishRace();
+    }
+  },
+
+  recordTelemetry: (sample: TelemetrySample) => {
+    if (!get().isRacing) return;
+    set((state) => ({ telemetry: [...state.telemetry, sample] }));
+  },
+
   passCheckpoint: (checkpointId: string) => {
     set((state) => {
       if (!state.isRacing || state.lapTimes.length === 0) return state;
@@ -142,6 +452,8 @@ export const useRaceStore = create<RaceState>((set, get) => ({
   },
 
   completeLap: () => {
+    let finished = false;
+
     set((state) => {
       if (!state.isRacing || !state.currentRace) return state;
 
@@ -159,10 +471,8 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       const isFinished = newLap > state.currentRace.laps;
 
       if (isFinished) {
-        return {
-          lapTimes: updatedLapTimes,
-          isRacing: false,
-        };
+        finished = true;
+        return { lapTimes: updatedLapTimes };
       }
 
       // Add new lap
@@ -172,6 +482,7 @@ export const useRaceStore = create<RaceState>((set, get) => ({
         endTime: null,
         duration: null,
         checkpointTimes: {},
+        penalties: [],
       });
 
       return {
@@ -180,18 +491,66 @@ export const useRaceStore = create<RaceState>((set, get) => ({
         currentCheckpoint: 0,
       };
     });
+
+    // Across the line on the last lap
+    if (finished) {
+      get().finishRace();
+    }
   },
 
   finishRace: () => {
     const state = get();
+    const finishTime = state.raceStartTime ? Date.now() - state.raceStartTime + getPenaltyTime(state.lapTimes) : null;
+    const completed =
+      finishTime !== null &&
+      state.currentRace !== null &&
+      state.currentCheckpoint >= state.currentRace.checkpoints.length &&
+      state.damage.hullIntegrity > 0;
+
+    const results = completed
+      ? recordFinish(
+          state,
+          state.playerName,
+          true,
+          finishTime,
+          state.damage.collisionCount,
+          state.damage.hullIntegrity,
+          state.currentRace!.laps > 1 ? getBestLap(state.lapTimes)?.duration ?? undefined : undefined
+        )
+      : state.results;
+
+    // Prize money for the place taken
+    const place = results.find((result) => result.isPlayer)?.position;
+    const reward = completed && place !== undefined ? getPlacingReward(place, state.opponents.length + 1) : null;
+    if (reward !== null) {
+      useGameStore.getState().earnCredits(reward);
+    }
+
+    // Endurance is over: hand back the boat's own charge and shore power
+    if (state.preRaceCharge !== null) {
+      useGameStore.getState().setBatteryCharge(state.preRaceCharge);
+    }
+    useGameStore.getState().setEnduranceMode(false);
+
     set({
       isRacing: false,
       raceFinished: true,
-      finishTime: state.raceStartTime ? Date.now() - state.raceStartTime : null,
+      finishTime,
+      results,
+      reward,
+      preRaceCharge: null,
     });
   },
 
   abandonRace: () => {
+    useGameStore.getState().setWindConditions(DEFAULT_WIND_CONDITIONS);
+    useWorldStore.getState().setRaceIce([]);
+    useGameStore.getState().setEnduranceMode(false);
+    const { preRaceCharge } = get();
+    if (preRaceCharge !== null) {
+      useGameStore.getState().setBatteryCharge(preRaceCharge);
+    }
+
     set({
       currentRace: null,
       isRacing: false,
@@ -201,6 +560,18 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       lapTimes: [],
       raceFinished: false,
       finishTime: null,
+      falseStart: false,
+      modifiers: null,
+      conditions: null,
+      legEnergy: [],
+      dnfReason: null,
+      preRaceCharge: null,
+      telemetry: [],
+      collisionMarks: [],
+      bestCheckpointTimes: null,
+      reward: null,
+      opponents: [],
+      results: [],
       damage: {
         hullIntegrity: 100,
         collisionCount: 0,
@@ -212,13 +583,19 @@ export const useRaceStore = create<RaceState>((set, get) => ({
   updateLeaderboard: (entry: any) => {
     set((state) => {
       const updated = [...state.leaderboard];
-      const existingIndex = updated.findIndex((e) => e.playerName === entry.playerName);
+      // One entry per sailor per set of conditions
+      const existingIndex = updated.findIndex(
+        (e) => e.playerName === entry.playerName && e.conditions === entry.conditions
+      );
 
       if (existingIndex >= 0) {
-        // Update existing entry with better time
-        if (entry.bestTime < updated[existingIndex].bestTime) {
-          updated[existingIndex] = entry;
-        }
+        // Update existing entry with better time, keeping the fastest lap from any run
+        const existing = updated[existingIndex];
+        const laps = [existing.bestLap, entry.bestLap].filter((lap): lap is number => lap !== undefined);
+        updated[existingIndex] = {
+          ...(entry.bestTime < existing.bestTime ? entry : existing),
+          bestLap: laps.length > 0 ? Math.min(...laps) : undefined,
+        };
       } else {
         // Add new entry
         updated.push(entry);
@@ -227,12 +604,14 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       // Sort by best time
       updated.sort((a, b) => a.bestTime - b.bestTime);
 
-      // Update ranks
-      updated.forEach((entry, index) => {
-        entry.rank = index + 1;
+      // Rank within each set of conditions
+      const counts: Record<string, number> = {};
+      const ranked = updated.map((e) => {
+        counts[e.conditions] = (counts[e.conditions] ?? 0) + 1;
+        return { ...e, rank: counts[e.conditions] };
       });
 
-      return { leaderboard: updated };
+      return { leaderboard: ranked };
     });
   },
 
@@ -246,15 +625,10 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       return;
     }
 
-    // Damage based on difficulty
-    const difficultyMultiplier = {
-      peaceful: 0.5,
-      moderate: 1.0,
-      challenging: 1.5,
-    };
-
-    const actualDamage = damageAmount * difficultyMultiplier[state.difficulty];
+    // Damage scaled by the race conditions
+    const actualDamage = damageAmount * (state.modifiers?.damage ?? 1);
     const newIntegrity = Math.max(0, state.damage.hullIntegrity - actualDamage);
+    const { position } = useGameStore.getState().player;
 
     set({
       damage: {
@@ -262,6 +636,11 @@ export const useRaceStore = create<RaceState>((set, get) => ({
         collisionCount: state.damage.collisionCount + 1,
         lastCollisionTime: now,
       },
+      lapTimes: addPenalty(state.lapTimes, { type: 'collision', time: COLLISION_PENALTY, at: now }),
+      collisionMarks: [
+        ...state.collisionMarks,
+        { time: now - (state.raceStartTime ?? now), x: position[0], z: position[2] },
+      ],
     });
 
     // Auto-fail race if hull integrity is 0
@@ -269,4 +648,45 @@ export const useRaceStore = create<RaceState>((set, get) => ({
       set({ isRacing: false, raceFinished: true });
     }
   },
+
+  // Sail the AI fleet on; they keep going after the player finishes until the race is closed
+  stepOpponents: (delta: number) => {
+    const state = get();
+    const { currentRace, raceStartTime, opponents } = state;
+    if (
+      !currentRace ||
+      raceStartTime === null ||
+      opponents.every((opponent) => opponent.finishTime !== null || opponent.retired)
+    ) {
+      return;
+    }
+
+    const game = useGameStore.getState();
+    if (game.gameMode === 'build') return;
+
+    const { currentYacht, stats } = useYachtStore.getState();
+    const env = {
+      yacht: currentYacht,
+      stats,
+      windSpeed: game.wind.speed,
+      windDirection: game.wind.direction,
+      timeOfDay: game.timeOfDay,
+      weather: game.weather,
+      world: useWorldStore.getState().world,
+    };
+    const raceTime = Date.now() - raceStartTime;
+    if (raceTime < 0) return; // holding behind the line until the gun
+
+    let results = state.results;
+    const stepped = opponents.map((opponent) => {
+      const next = stepAIOpponent(opponent, currentRace, env, delta, raceTime);
+      if (opponent.finishTime === null && next.finishTime !== null) {
+        const finishTime = next.finishTime + next.collisions * COLLISION_PENALTY;
+        results = recordFinish({ ...get(), results }, next.name, false, finishTime, next.collisions, 100);
+      }
+      return next;
+    });
+
+    set({ opponents: stepped, results });
+  },
 }));
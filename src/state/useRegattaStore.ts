@@ -0,0 +1,124 @@
+import { create } from 'zustand'
+import { useGameStore } from './useGameStore'
+import { useRaceStore, type RaceConfig, type RaceState } from './useRaceStore'
+import { getRaceProgress } from '../world/AISkipper'
+import {
+  computeStandings,
+  getPrizeTable,
+  scoreRace,
+  type PointsSystemId,
+  type RegattaRaceResult,
+  type RegattaStanding,
+} from '../world/RegattaScoring'
+
+export const MIN_REGATTA_RACES = 2
+export const MAX_REGATTA_RACES = 8
+
+export interface RegattaConfig {
+  name: string
+  worldSeed: number | null // map the races were picked on
+  races: RaceConfig[]      // in the order sailed
+  pointsSystem: PointsSystemId
+  discards: number         // worst results each boat throws out
+  prizePerRace: number     // EC added to the prize pool per race
+  opponents: number        // AI boats in every race, so the fleet stays the same
+}
+
+export interface RegattaSeries {
+  config: RegattaConfig
+  playerName: string
+  results: RegattaRaceResult[] // one per race sailed
+  payout: { rank: number; credits: number } | null // set when the last race is scored
+}
+
+export interface RegattaState {
+  series: RegattaSeries | null
+  activeRaceId: string | null // series race being sailed right now
+
+  // Actions
+  startSeries: (config: RegattaConfig, playerName: string) => void
+  startNextRace: () => void
+  recordRace: (race: RaceState) => void
+  abandonSeries: () => void
+}
+
+export function getSeriesStandings(series: RegattaSeries): RegattaStanding[] {
+  return computeStandings(series.config.pointsSystem, series.config.discards, series.results)
+}
+
+export function isSeriesComplete(series: RegattaSeries): boolean {
+  return series.results.length >= series.config.races.length
+}
+
+export const useRegattaStore = create<RegattaState>((set, get) => ({
+  series: null,
+  activeRaceId: null,
+
+  startSeries: (config, playerName) => {
+    set({
+      series: { config, playerName, results: [], payout: null },
+      activeRaceId: null,
+    })
+  },
+
+  startNextRace: () => {
+    const { series } = get()
+    if (!series || isSeriesComplete(series)) return
+
+    const race = series.config.races[series.results.length]
+    useRaceStore.getState().startRace(race, series.playerName, { opponents: series.config.opponents })
+    set({ activeRaceId: race.id })
+  },
+
+  /**
+   * Score a series race from the race store as it was when the race was left.
+   * Boats home score their finishing places; AI boats still sailing are placed
+   * behind them in running order. Retired boats and a player who didn't finish
+   * score a DNF.
+   */
+  recordRace: (race) => {
+    const { series, activeRaceId } = get()
+    if (!series || !race.currentRace || race.currentRace.id !== activeRaceId) return
+
+    const course = race.currentRace
+    const finishers = race.results.map((result) => ({
+      name: result.isPlayer ? series.playerName : result.name,
+      isPlayer: result.isPlayer,
+    }))
+    const stillSailing = race.opponents
+      .filter((opponent) => opponent.finishTime === null && !opponent.retired)
+      .sort(
+        (a, b) =>
+          getRaceProgress(course, b.lap, b.checkpoint, b.position[0], b.position[1]) -
+          getRaceProgress(course, a.lap, a.checkpoint, a.position[0], a.position[1])
+      )
+      .map((opponent) => ({ name: opponent.name, isPlayer: false }))
+    const retired = race.opponents
+      .filter((opponent) => opponent.retired)
+      .map((opponent) => ({ name: opponent.name, isPlayer: false }))
+    const playerFinished = race.results.some((result) => result.isPlayer)
+
+    const result = scoreRace(
+      series.config.pointsSystem,
+      course.id,
+      course.name,
+      [...finishers, ...stillSailing],
+      [...retired, ...(playerFinished ? [] : [{ name: series.playerName, isPlayer: true }])]
+    )
+    const updated: RegattaSeries = { ...series, results: [...series.results, result] }
+
+    // Prize money for the player's final place
+    if (isSeriesComplete(updated)) {
+      const rank = getSeriesStandings(updated).find((standing) => standing.isPlayer)?.rank ?? 0
+      const credits = getPrizeTable(updated.config.races.length, updated.config.prizePerRace)[rank - 1] ?? 0
+      useGameStore.getState().earnCredits(credits)
+      updated.payout = { rank, credits }
+    }
+
+    set({ series: updated, activeRaceId: null })
+  },
+
+  abandonSeries: () => {
+    set({ series: null, activeRaceId: null })
+  },
+}))
@@ -1,35 +1,53 @@
 import { create } from 'zustand';
-import { WorldData, WorldDifficulty, MapConfig, generateWorld } from '../world/WorldGenerator';
+import { WorldData, WorldDifficulty, MapConfig, FloatingIce, generateWorld } from '../world/WorldGenerator';
+import { RACE_ICE_PREFIX } from '../world/RaceConditions';
+import { HOME_MARINA_ID } from '../world/MarinaServices';
+import {
+  ExclusionZone,
+  IceSimulationState,
+  createIceSimulationState,
+  getIceExclusionZones,
+  stepIce,
+} from '../world/WorldSimulation';
 
 export interface WorldState {
   // World data
   world: WorldData | null;
   discoveredPOIs: Set<string>;
+  unlockedMarinas: Set<string>; // harbours docked at, open for fast travel
+  iceSimulation: IceSimulationState | null;
 
   // Player location
   isDocked: boolean;
   dockedAt: string | null; // Marina ID
+  inSafeZone: boolean;     // Inside the marina safe zone (no collision damage)
 
   // Actions
   initializeWorld: (seed: number, worldSize?: number, difficulty?: WorldDifficulty) => void;
   initializeWorldFromConfig: (config: MapConfig) => void;
+  stepWorld: (deltaTime: number, windSpeed: number, windDirection: number, extraZones?: ExclusionZone[]) => void;
+  setRaceIce: (pieces: FloatingIce[]) => void;
   discoverPOI: (poiId: string) => void;
   dock: (marinaId: string) => void;
   undock: () => void;
+  setInSafeZone: (inSafeZone: boolean) => void;
 }
 
-export const useWorldStore = create<WorldState>((set) => ({
+export const useWorldStore = create<WorldState>((set, get) => ({
   world: null,
   discoveredPOIs: new Set(),
+  unlockedMarinas: new Set([HOME_MARINA_ID]),
+  iceSimulation: null,
   isDocked: false,
   dockedAt: null,
+  inSafeZone: false,
 
   initializeWorld: (seed: number, worldSize?: number, difficulty: WorldDifficulty = 'moderate') => {
     try {
       console.log('Generating world with seed:', seed, 'size:', worldSize, 'difficulty:', difficulty);
       const world = generateWorld(seed, worldSize, difficulty);
       console.log('World generated successfully:', world);
-      set({ world });
+      set({ world, iceSimulation: createIceSimulationState(world.seed), unlockedMarinas: new Set([HOME_MARINA_ID]) });
     } catch (error) {
       console.error('Error generating world:', error);
       throw error;
@@ -41,13 +59,38 @@ export const useWorldStore = create<WorldState>((set) => ({
       console.log('Generating world from MapConfig:', config.name, 'seed:', config.seed);
       const world = generateWorld(config);
       console.log('World generated successfully:', world);
-      set({ world });
+      set({ world, iceSimulation: createIceSimulationState(world.seed), unlockedMarinas: new Set([HOME_MARINA_ID]) });
     } catch (error) {
       console.error('Error generating world:', error);
       throw error;
     }
   },
 
+  // Drift and calve ice when the map has iceberg drift enabled
+  stepWorld: (deltaTime: number, windSpeed: number, windDirection: number, extraZones: ExclusionZone[] = []) => {
+    const { world, iceSimulation } = get();
+    if (!world || !iceSimulation || !world.mapConfig.icebergDrift) return;
+
+    const zones = getIceExclusionZones(world, extraZones);
+    const result = stepIce(world, iceSimulation, windSpeed, windDirection, deltaTime, zones);
+    world.index.icebergs.sync(result.icebergs);
+    world.index.floatingIce.sync(result.floatingIce);
+    set({
+      world: { ...world, icebergs: result.icebergs, floatingIce: result.floatingIce },
+      iceSimulation: result.state,
+    });
+  },
+
+  // Swap the ice laid along the current race course (empty clears it)
+  setRaceIce: (pieces: FloatingIce[]) => {
+    const { world } = get();
+    if (!world) return;
+
+    const floatingIce = [...world.floatingIce.filter((ice) => !ice.id.startsWith(RACE_ICE_PREFIX)), ...pieces];
+    world.index.floatingIce.sync(floatingIce);
+    set({ world: { ...world, floatingIce } });
+  },
+
   discoverPOI: (poiId: string) => {
     set((state) => {
       const updated = new Set(state.discoveredPOIs);
@@ -56,11 +99,20 @@ export const useWorldStore = create<WorldState>((set) => ({
     });
   },
 
+  // Docking at a harbour opens it to fast travel
   dock: (marinaId: string) => {
-    set({ isDocked: true, dockedAt: marinaId });
+    set((state) => {
+      const unlocked = new Set(state.unlockedMarinas);
+      unlocked.add(marinaId);
+      return { isDocked: true, dockedAt: marinaId, unlockedMarinas: unlocked };
+    });
   },
 
   undock: () => {
     set({ isDocked: false, dockedAt: null });
   },
+
+  setInSafeZone: (inSafeZone: boolean) => {
+    set({ inSafeZone });
+  },
 }));
@@ -8,6 +8,14 @@ import {
   WATER_DENSITY,
 } from '../physics/WaterPhysics'
 import type { ProceduralHullConfig } from '../editor/HullTypes'
+import {
+  canFitModule,
+  isDeckModuleId,
+  getDeckSpace,
+  getCanopyArea,
+  getModuleFootprint,
+  getModuleMass,
+} from '../data/deckModules'
 
 // Hull Types
 export type HullType = 'monohull' | 'catamaran' | 'trimaran' | 'hydrofoil'
@@ -110,7 +118,7 @@ export interface YachtConfig {
   solar: SolarConfig
   battery: BatteryConfig
   engine: EngineConfig
-  deckModules: string[]  // ['dj-booth', 'cargo', etc.]
+  deckModules: string[]  // ['dj-booth', 'cargo', etc.] - see data/deckModules
   useGLBModel: boolean   // Whether to use the uploaded GLB model
   glbModelScale: number  // Scale factor for GLB model
 }
@@ -124,6 +132,9 @@ export interface YachtStats {
   frictionDrag: number
   waveDrag: number
 
+  // Mass
+  displacement: number      // kg
+
   // Stability characteristics
   stability: number
   metacentricHeight: number // meters
@@ -255,7 +266,7 @@ interface YachtState {
   setProceduralHullConfig: (config: ProceduralHullConfig | null) => void
   setUseGLBModel: (useGLB: boolean) => void
   setGLBModelScale: (scale: number) => void
-  addDeckModule: (module: string) => void
+  addDeckModule: (module: string) => boolean
   removeDeckModule: (module: string) => void
   saveYacht: () => void
   loadYacht: (id: string) => void
@@ -271,7 +282,7 @@ function calculateStats(yacht: YachtConfig): YachtStats {
 
   // Calculate displacement (approximate based on hull volume)
   const hullVolume = hull.length * hull.beam * hull.draft * 0.4 // Block coefficient ~0.4
-  const displacement = hullVolume * WATER_DENSITY * 0.6 // 60% submerged
+  const displacement = hullVolume * WATER_DENSITY * 0.6 + getModuleMass(yacht) // 60% submerged, plus deck modules
 
   const dimensions = {
     length: hull.length,
@@ -311,9 +322,10 @@ function calculateStats(yacht: YachtConfig): YachtStats {
   const twistBonus = 1 + Math.abs(turbine.twist - 45) / 180 * 0.2 // Optimal around 45°
   const turbineEfficiency = 0.25 * bladeCountBonus * twistBonus
 
-  // Solar output based on coverage and deck area
-  const deckArea = hull.length * hull.beam * 0.6 // 60% usable deck
-  const solarOutput = (solar.deckCoverage / 100) * deckArea * 0.15 + (solar.turbineIntegrated ? 0.5 : 0)
+  // Solar output based on coverage and the deck area left by modules, plus the canopy
+  const deckArea = Math.max(0, getDeckSpace(hull) - getModuleFootprint(yacht.deckModules))
+  const canopyArea = solar.canopyEnabled ? getCanopyArea(hull) : 0
+  const solarOutput = ((solar.deckCoverage / 100) * deckArea + canopyArea) * 0.15 + (solar.turbineIntegrated ? 0.5 : 0)
 
   // Range based on battery and efficiency
   const avgConsumption = 2 + (maxSpeed / 10) // Higher speed = more consumption
@@ -327,6 +339,7 @@ function calculateStats(yacht: YachtConfig): YachtStats {
     formDrag: dragResult.formDrag,
     frictionDrag: dragResult.frictionDrag,
     waveDrag: dragResult.waveDrag,
+    displacement,
     stability,
     metacentricHeight: stabilityResult.metacentricHeight,
     rollPeriod: stabilityResult.rollPeriod,
@@ -456,17 +469,22 @@ export const useYachtStore = create<YachtState>()(
     },
 
     addDeckModule: (module) => {
+      // Modules need free deck space
+      if (!isDeckModuleId(module) || !canFitModule(get().currentYacht, module)) return false
       set((state) => {
         if (!state.currentYacht.deckModules.includes(module)) {
           state.currentYacht.deckModules.push(module)
         }
       })
+      get().recalculateStats()
+      return true
     },
     
     removeDeckModule: (module) => {
       set((state) => {
         state.currentYacht.deckModules = state.currentYacht.deckModules.filter(m => m !== module)
       })
+      get().recalculateStats()
     },
     
     saveYacht: () => {
@@ -56,6 +56,11 @@ export const UNLOCK_COSTS = {
   battery100: 0,     // Starter (100 kWh)
   battery200: 2000,
   battery500: 10000,
+
+  // Engine tiers
+  engineStandard: 0, // Starter
+  enginePerformance: 1500,
+  engineRacing: 4000,
   
   // Deck modules
   djBooth: 1500,
@@ -0,0 +1,335 @@
+import type { RaceConfig, RaceDifficulty } from '../state/useRaceStore';
+import type { YachtConfig, YachtStats } from '../state/useYachtStore';
+import type { WorldData } from './WorldGenerator';
+import { checkIcebergCollision, getCurrentAtPosition, getIslandAtPosition } from './WorldGenerator';
+import { KNOTS_TO_MS, stepSailingMotion, type SailingMotion } from '../physics/SailingPhysics';
+import { BASE_MOTOR_POWER, getHarvestLimitedThrottle, updateEnergySystem } from '../physics/EnergySystem';
+import { calculateApparentWind } from '../physics/WindSystem';
+import { crossesGate, distanceAlongGate, distancePastGate, getCourseGates } from './RaceGates';
+import { ENDURANCE_DNF_RANGE, getRemainingDistance } from './EnduranceRace';
+
+export const MAX_OPPONENTS = 5;
+
+const GRID_SPACING = 40;          // m between boats on the start line
+const BOAT_RADIUS = 8;            // m - same as the player's iceberg check
+const ICE_LOOKAHEAD_MARGIN = 20;  // m of clearance wanted around ice ahead
+const AVOID_STEP = Math.PI / 7;   // rad between escape headings tried
+const COLLISION_COOLDOWN = 1000;  // ms
+const GATE_APPROACH = 80;         // m before a gate skippers line up at when coming at it wrong
+const GATE_OVERSHOOT = 30;        // m past a gate skippers aim through
+
+const SKIPPER_NAMES = ['Marlin', 'Petrel', 'Skua', 'Gannet', 'Tern'];
+
+export interface AISkill {
+  cruiseThrottle: number; // % on a straight leg
+  steeringGain: number;   // steering per radian off course
+  lookahead: number;      // m ahead checked for land and ice
+  lineError: number;      // fraction of a gate's half-width the skipper aims off its centre
+  energyReserve: number;  // battery % below which the skipper eases off
+}
+
+// Tougher races bring sharper skippers
+export const AI_SKILLS: Record<RaceDifficulty, AISkill> = {
+  peaceful: { cruiseThrottle: 60, steeringGain: 1.2, lookahead: 120, lineError: 0.6, energyReserve: 40 },
+  moderate: { cruiseThrottle: 80, steeringGain: 2, lookahead: 180, lineError: 0.35, energyReserve: 25 },
+  challenging: { cruiseThrottle: 95, steeringGain: 3, lookahead: 250, lineError: 0.1, energyReserve: 10 },
+};
+
+export interface AIOpponent {
+  id: string;
+  name: string;
+  skill: AISkill;
+  position: [number, number];
+  rotation: number;               // radians, game convention
+  motion: SailingMotion;
+  throttle: number;
+  steering: number;
+  battery: { capacity: number; currentCharge: number }; // kWh
+  aimOffset: number;              // -1..1 across each gate, scaled by lineError
+  checkpoint: number;             // next mark index in the current lap
+  lap: number;
+  checkpointTimes: number[];      // ms since the start, every mark passed
+  finishTime: number | null;      // ms
+  retired: boolean;               // out of an endurance race on a flat battery
+  collisions: number;
+  lastCollisionTime: number | null;
+}
+
+// Conditions the opponents sail in: the player's boat, wind and world
+export interface AIEnvironment {
+  yacht: YachtConfig;
+  stats: YachtStats;
+  windSpeed: number;
+  windDirection: number;
+  timeOfDay: number;
+  weather: string;
+  world: WorldData | null;
+}
+
+function nextRandom(state: number): number {
+  return (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+}
+
+function wrapAngle(angle: number): number {
+  return Math.atan2(Math.sin(angle), Math.cos(angle));
+}
+
+/**
+ * Line up opponents beside the player, alternating starboard and port.
+ * Every skipper sails a copy of the player's yacht with the same battery charge,
+ * so only seamanship separates them.
+ */
+export function createAIOpponents(
+  difficulty: RaceDifficulty,
+  count: number,
+  start: [number, number],
+  heading: number,
+  battery: { capacity: number; currentCharge: number },
+  seed: number
+): AIOpponent[] {
+  const skill = AI_SKILLS[difficulty];
+  const opponents: AIOpponent[] = [];
+  let rng = seed & 0x7fffffff;
+
+  for (let i = 0; i < Math.min(count, MAX_OPPONENTS); i++) {
+    const side = i % 2 === 0 ? 1 : -1;
+    const lateral = side * GRID_SPACING * (Math.floor(i / 2) + 1);
+
+    rng = nextRandom(rng);
+    const aimAngle = (rng / 0x7fffffff) * Math.PI * 2;
+    rng = nextRandom(rng);
+    const throttleJitter = (rng / 0x7fffffff - 0.5) * 10;
+
+    opponents.push({
+      id: `ai-${i}`,
+      name: `Skipper ${SKIPPER_NAMES[i % SKIPPER_NAMES.length]}`,
+      skill: { ...skill, cruiseThrottle: Math.min(100, skill.cruiseThrottle + throttleJitter) },
+      position: [start[0] + Math.cos(heading) * lateral, start[1] - Math.sin(heading) * lateral],
+      rotation: heading,
+      motion: { speed: 0, leeway: 0, heel: 0 },
+      throttle: 0,
+      steering: 0,
+      battery: { ...battery },
+      aimOffset: Math.sin(aimAngle),
+      checkpoint: 0,
+      lap: 1,
+      checkpointTimes: [],
+      finishTime: null,
+      retired: false,
+      collisions: 0,
+      lastCollisionTime: null,
+    });
+  }
+
+  return opponents;
+}
+
+function isBlocked(world: WorldData, x: number, z: number): boolean {
+  return (
+    getIslandAtPosition(world.index.islands, x, z) !== null ||
+    checkIcebergCollision(world.index.icebergs, x, z, BOAT_RADIUS + ICE_LOOKAHEAD_MARGIN).collided
+  );
+}
+
+function isHeadingClear(world: WorldData, position: [number, number], heading: number, lookahead: number): boolean {
+  for (const distance of [lookahead * 0.35, lookahead * 0.7, lookahead]) {
+    if (isBlocked(world, position[0] + Math.sin(heading) * distance, position[1] + Math.cos(heading) * distance)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Heading to steer: straight at the aim point when the water ahead is clear,
+ * otherwise the nearest clear heading either side of it.
+ */
+function chooseHeading(opponent: AIOpponent, world: WorldData | null, target: [number, number]): number {
+  const direct = Math.atan2(target[0] - opponent.position[0], target[1] - opponent.position[1]);
+  if (!world) return direct;
+
+  // No need to look past the mark
+  const toMark = Math.hypot(target[0] - opponent.position[0], target[1] - opponent.position[1]);
+  const lookahead = Math.min(opponent.skill.lookahead, toMark);
+  if (isHeadingClear(world, opponent.position, direct, lookahead)) return direct;
+
+  for (let step = 1; step <= 6; step++) {
+    for (const side of [1, -1]) {
+      const heading = direct + side * step * AVOID_STEP;
+      if (isHeadingClear(world, opponent.position, heading, lookahead)) return heading;
+    }
+  }
+
+  // Boxed in: turn hard away from whatever is ahead
+  return opponent.rotation + Math.PI / 2;
+}
+
+/**
+ * Advance one opponent by a time step: pick a course, manage the battery,
+ * then move with the same sailing and energy model as the player's yacht.
+ */
+export function stepAIOpponent(
+  opponent: AIOpponent,
+  race: RaceConfig,
+  env: AIEnvironment,
+  delta: number,
+  raceTime: number
+): AIOpponent {
+  if (opponent.finishTime !== null || opponent.retired) return opponent;
+
+  const { yacht, stats, world } = env;
+  const gate = getCourseGates(race)[opponent.checkpoint];
+  if (!gate) return opponent;
+
+  const engineMultiplier = yacht.engine?.powerMultiplier || 1;
+  const maxSpeed = stats.maxSpeed * engineMultiplier;
+  const motorPower = BASE_MOTOR_POWER * engineMultiplier;
+  const turnRate = 12 / yacht.hull.length;
+
+  // Steering towards this skipper's line through the gate, coming round to its
+  // near side first if the boat is past it or too far off to one side
+  const dirX = Math.sin(gate.heading);
+  const dirZ = Math.cos(gate.heading);
+  const lateral = opponent.aimOffset * gate.halfWidth * opponent.skill.lineError;
+  const past = distancePastGate(gate, opponent.position[0], opponent.position[1]);
+  const along = distanceAlongGate(gate, opponent.position[0], opponent.position[1]);
+  const lined = past < 0 && Math.abs(along) <= gate.halfWidth - past;
+  const ahead = lined ? GATE_OVERSHOOT : -GATE_APPROACH;
+  const target: [number, number] = [
+    gate.center[0] + dirX * ahead + dirZ * lateral,
+    gate.center[1] + dirZ * ahead - dirX * lateral,
+  ];
+  const desired = chooseHeading(opponent, world, target);
+  const offCourse = wrapAngle(desired - opponent.rotation);
+  const steering = Math.max(-1, Math.min(1, offCourse * opponent.skill.steeringGain));
+
+  // Throttle: ease off for sharp turns and to hold the battery reserve
+  const chargePercent = (opponent.battery.currentCharge / opponent.battery.capacity) * 100;
+  let throttle = opponent.skill.cruiseThrottle;
+  if (Math.abs(offCourse) > Math.PI / 3) throttle *= 0.6;
+  if (chargePercent < opponent.skill.energyReserve) {
+    throttle *= Math.max(0.3, chargePercent / opponent.skill.energyReserve);
+  }
+
+  // Energy: same harvest and drain as the player's boat
+  const headingDeg = (opponent.rotation * 180) / Math.PI;
+  const apparent = calculateApparentWind(env.windSpeed, env.windDirection, opponent.motion.speed, headingDeg);
+  const speedMs = Math.abs(opponent.motion.speed) * KNOTS_TO_MS;
+  const energy = updateEnergySystem(
+    yacht,
+    { capacity: opponent.battery.capacity, currentCharge: chargePercent },
+    Math.max(env.windSpeed, apparent.speed * 0.7),
+    env.windDirection,
+    headingDeg,
+    env.timeOfDay,
+    env.weather,
+    throttle,
+    opponent.motion.speed,
+    stats.totalDrag * Math.pow(speedMs / 5, 2),
+    delta
+  );
+
+  // A flat battery only runs the motor on what the turbines and panels make
+  if (energy.battery.currentCharge <= 0) {
+    const generation = energy.turbine.electricalPower + (energy.secondTurbine?.electricalPower ?? 0) + energy.solar.electricalPower;
+    throttle = getHarvestLimitedThrottle(throttle, generation, motorPower);
+  }
+
+  const { motion } = stepSailingMotion(
+    yacht,
+    stats,
+    opponent.motion,
+    { throttle, maxSpeed, motorPower },
+    env.windSpeed,
+    env.windDirection,
+    headingDeg,
+    delta
+  );
+
+  let rotation = opponent.rotation;
+  if (Math.abs(motion.speed) > 0.1) {
+    rotation = wrapAngle(rotation + steering * turnRate * delta * (motion.speed / maxSpeed));
+  }
+
+  // Velocity over ground, as the player's: heading, leeway and current
+  const current = world?.currents ? getCurrentAtPosition(world.currents, opponent.position[0], opponent.position[1]) : [0, 0];
+  const boatSpeedMs = motion.speed * KNOTS_TO_MS;
+  const groundX = Math.sin(rotation) * boatSpeedMs - Math.cos(rotation) * motion.leeway + current[0];
+  const groundZ = Math.cos(rotation) * boatSpeedMs + Math.sin(rotation) * motion.leeway + current[1];
+  let position: [number, number] = [opponent.position[0] + groundX * delta, opponent.position[1] + groundZ * delta];
+
+  let { collisions, lastCollisionTime } = opponent;
+  const now = Date.now();
+  const canCollide = lastCollisionTime === null || now - lastCollisionTime > COLLISION_COOLDOWN;
+
+  if (world) {
+    // Land stops the boat where it was
+    if (getIslandAtPosition(world.index.islands, position[0], position[1])) {
+      position = opponent.position;
+      motion.speed = 0;
+    }
+
+    // Ice bounces it off and costs speed
+    const hit = checkIcebergCollision(world.index.icebergs, position[0], position[1], BOAT_RADIUS);
+    if (hit.collided) {
+      position = [position[0] + hit.normal[0] * hit.penetration, position[1] + hit.normal[1] * hit.penetration];
+      motion.speed *= 0.5;
+      if (canCollide) {
+        collisions++;
+        lastCollisionTime = now;
+      }
+    }
+  }
+
+  // Gates in order, crossed the right way; the last gate of the last lap is the finish
+  let { checkpoint, lap } = opponent;
+  let finishTime: number | null = null;
+  const checkpointTimes = [...opponent.checkpointTimes];
+  if (crossesGate(gate, opponent.position, position) === 'forward') {
+    checkpointTimes.push(raceTime);
+    checkpoint++;
+    if (checkpoint >= race.checkpoints.length) {
+      if (lap >= race.laps) {
+        finishTime = raceTime;
+      } else {
+        lap++;
+        checkpoint = 0;
+      }
+    }
+  }
+
+  // Endurance: a flat battery far from the finish retires the boat
+  const retired =
+    race.endurance !== undefined &&
+    finishTime === null &&
+    energy.battery.currentCharge <= 0 &&
+    getRemainingDistance(race, lap, checkpoint, position[0], position[1]) > ENDURANCE_DNF_RANGE;
+
+  return {
+    ...opponent,
+    position,
+    rotation,
+    motion,
+    throttle,
+    steering,
+    battery: { capacity: opponent.battery.capacity, currentCharge: energy.battery.currentCharge },
+    checkpoint,
+    lap,
+    checkpointTimes,
+    finishTime,
+    retired,
+    collisions,
+    lastCollisionTime,
+  };
+}
+
+/**
+ * How far round the course a boat is, for ordering the fleet: marks passed,
+ * then closeness to the next one
+ */
+export function getRaceProgress(race: RaceConfig, lap: number, checkpoint: number, x: number, z: number): number {
+  const marksPassed = (lap - 1) * race.checkpoints.length + checkpoint;
+  const next = race.checkpoints[checkpoint];
+  const distance = next ? Math.hypot(next.position[0] - x, next.position[1] - z) : 0;
+  return marksPassed * 1e6 - distance;
+}
@@ -0,0 +1,104 @@
+import type { POI } from './WorldGenerator';
+
+// ── Cargo hauling ──
+export const CARGO_CONTRACT_COUNT = 3;     // contracts offered at a time
+export const CARGO_HANDLING_RADIUS = 300;  // units - load/unload within this of a POI
+export const CARGO_REWARD_PER_KM = 10;     // EC per km between the POIs
+export const CARGO_MIN_REWARD = 10;        // EC
+
+// ── Fishing ──
+export const FISHING_RANGE = 400;          // units from a reef
+export const FISHING_MAX_SPEED = 4;        // knots - must be trolling this slowly
+export const FISHING_CATCH_TIME = 30;      // seconds per catch
+export const FISHING_CATCH_REWARD = 8;     // EC per catch on average
+export const REEF_STOCK = 5;               // catches before a reef is fished out
+export const REEF_RESTOCK_TIME = 300;      // seconds for a reef to regain one catch
+
+// ── Marina gigs ──
+export const DJ_GIG_RATE = 0.05;           // EC per second played while docked
+
+export interface CargoContract {
+  id: string;
+  fromId: string;
+  toId: string;
+  fromName: string;
+  toName: string;
+  from: [number, number];
+  to: [number, number];
+  distance: number; // units
+  reward: number;   // EC on delivery
+}
+
+// Seeded LCG step, returns the next state and a value in [0, 1]
+export function nextRandom(state: number): [number, number] {
+  const next = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+  return [next, next / 0x7fffffff];
+}
+
+export function isWithin(position: [number, number, number], target: [number, number], radius: number): boolean {
+  const dx = position[0] - target[0];
+  const dz = position[2] - target[1];
+  return dx * dx + dz * dz <= radius * radius;
+}
+
+/**
+ * Offer cargo runs between random pairs of POIs. Reward scales with the distance sailed.
+ */
+export function generateCargoContracts(
+  pois: POI[],
+  rngState: number,
+  count: number,
+  firstId: number
+): { contracts: CargoContract[]; rngState: number } {
+  const contracts: CargoContract[] = [];
+  if (pois.length < 2) return { contracts, rngState };
+
+  let state = rngState;
+  let a: number;
+  let b: number;
+  for (let i = 0; i < count; i++) {
+    [state, a] = nextRandom(state);
+    [state, b] = nextRandom(state);
+    const fromIndex = Math.floor(a * pois.length) % pois.length;
+    // Any POI except the origin
+    const toIndex = (fromIndex + 1 + (Math.floor(b * (pois.length - 1)) % (pois.length - 1))) % pois.length;
+
+    const from = pois[fromIndex];
+    const to = pois[toIndex];
+    const distance = Math.hypot(to.position[0] - from.position[0], to.position[1] - from.position[1]);
+
+    contracts.push({
+      id: `contract-${firstId + i}`,
+      fromId: from.id,
+      toId: to.id,
+      fromName: from.name,
+      toName: to.name,
+      from: from.position,
+      to: to.position,
+      distance,
+      reward: Math.round(Math.max(CARGO_MIN_REWARD, (distance / 1000) * CARGO_REWARD_PER_KM)),
+    });
+  }
+
+  return { contracts, rngState: state };
+}
+
+// Nearest reef in fishing range, or null
+export function findFishingReef(pois: POI[], position: [number, number, number]): POI | null {
+  let nearest: POI | null = null;
+  let nearestDist = FISHING_RANGE;
+  for (const poi of pois) {
+    if (poi.type !== 'reef') continue;
+    const dist = Math.hypot(position[0] - poi.position[0], position[2] - poi.position[1]);
+    if (dist <= nearestDist) {
+      nearest = poi;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+}
+
+// Catch value varies ±50% around the average
+export function getCatchReward(random: number): number {
+  return Math.round(FISHING_CATCH_REWARD * (0.5 + random));
+}
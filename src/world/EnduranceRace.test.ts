@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getEnduranceCharge, getLegEfficiency, getRemainingDistance, toEnduranceRace } from './EnduranceRace';
+import type { RaceConfig } from '../state/useRaceStore';
+
+// A 1 km square: start at the origin, round three marks and back to the line
+const race: RaceConfig = {
+  id: 'square',
+  name: 'Square',
+  laps: 1,
+  difficultyMultiplier: 1,
+  startPosition: [0, 0],
+  checkpoints: [
+    { id: 'cp-1', position: [0, 1000], radius: 100, order: 0 },
+    { id: 'cp-2', position: [1000, 1000], radius: 100, order: 1 },
+    { id: 'cp-3', position: [1000, 0], radius: 100, order: 2 },
+    { id: 'finish', position: [0, 0], radius: 100, order: 3 },
+  ],
+};
+
+describe('getEnduranceCharge', () => {
+  it('allows charge for every lap of the course', () => {
+    const tenLaps = getEnduranceCharge({ ...race, laps: 10 });
+    expect(tenLaps).toBeGreaterThan(0);
+    expect(getEnduranceCharge({ ...race, laps: 20 })).toBe(tenLaps * 2);
+  });
+
+  it('never starts a short course on an empty battery', () => {
+    const short: RaceConfig = { ...race, checkpoints: [{ id: 'finish', position: [0, 10], radius: 50, order: 0 }] };
+    expect(getEnduranceCharge(short)).toBeGreaterThan(0);
+  });
+
+  it('keeps endurance records apart from the regular race', () => {
+    const endurance = toEnduranceRace(race);
+    expect(endurance.id).not.toBe(race.id);
+    expect(endurance.endurance?.startCharge).toBe(getEnduranceCharge(race));
+  });
+});
+
+describe('getRemainingDistance', () => {
+  it('measures to the next mark and round the rest of the lap', () => {
+    expect(getRemainingDistance(race, 1, 0, 0, 0)).toBeCloseTo(4000);
+    expect(getRemainingDistance(race, 1, 2, 1000, 500)).toBeCloseTo(500 + 1000);
+  });
+
+  it('adds a full lap for every lap still to sail', () => {
+    const circuit = { ...race, laps: 3 };
+    expect(getRemainingDistance(circuit, 2, 3, 0, 200)).toBeCloseTo(200 + 4000);
+    expect(getRemainingDistance(circuit, 3, 3, 0, 200)).toBeCloseTo(200);
+  });
+
+  it('is zero once the last mark is passed', () => {
+    expect(getRemainingDistance(race, 1, race.checkpoints.length, 500, 500)).toBe(0);
+  });
+});
+
+describe('getLegEfficiency', () => {
+  it('gives km sailed per kWh used', () => {
+    expect(getLegEfficiency({ lap: 1, checkpoint: 0, harvested: 1, used: 2, distance: 3000 })).toBeCloseTo(1.5);
+  });
+
+  it('has nothing to report before any charge is used', () => {
+    expect(getLegEfficiency({ lap: 1, checkpoint: 0, harvested: 1, used: 0, distance: 500 })).toBeNull();
+  });
+});
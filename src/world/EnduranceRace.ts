@@ -0,0 +1,75 @@
+/**
+ * Endurance Races
+ * A race format sailed on a fixed battery charge with no shore power: the course
+ * is won by managing harvest and consumption, and a boat whose battery runs flat
+ * far from the finish retires.
+ */
+
+import type { RaceConfig } from '../state/useRaceStore';
+
+const ENDURANCE_KWH_PER_KM = 0.4;  // charge allowed per km of course, just under a steady cruise
+const ENDURANCE_MIN_CHARGE = 5;    // kWh
+export const ENDURANCE_DNF_RANGE = 300; // m of course left within which a flat battery can still limp home
+
+export interface EnduranceRules {
+  startCharge: number; // kWh every boat starts with
+}
+
+// Energy of one leg sailed: from passing one mark (or the gun) to the next
+export interface LegEnergy {
+  lap: number;
+  checkpoint: number; // index of the mark the leg sails to
+  harvested: number;  // kWh from turbines and solar
+  used: number;       // kWh to the motor, systems and burst
+  distance: number;   // m sailed
+}
+
+// Distance per kWh used on a leg (km/kWh), or null before anything is used
+export function getLegEfficiency(leg: LegEnergy): number | null {
+  return leg.used > 0 ? leg.distance / 1000 / leg.used : null;
+}
+
+function pathLength(points: [number, number][]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]);
+  }
+  return length;
+}
+
+/**
+ * Charge for sailing a course as an endurance race: a little less than a steady
+ * cruise uses over every lap, so the throttle has to be managed.
+ */
+export function getEnduranceCharge(race: RaceConfig): number {
+  const marks = race.checkpoints.map((checkpoint) => checkpoint.position);
+  const lap = pathLength(race.startPosition ? [race.startPosition, ...marks] : marks);
+  return Math.max(ENDURANCE_MIN_CHARGE, Math.round((lap * race.laps * ENDURANCE_KWH_PER_KM) / 1000));
+}
+
+/**
+ * The same course sailed as an endurance race. It gets its own id so its records
+ * and ghosts are kept apart from the regular race.
+ */
+export function toEnduranceRace(race: RaceConfig): RaceConfig {
+  return {
+    ...race,
+    id: `${race.id}-endurance`,
+    name: `${race.name} (Endurance)`,
+    endurance: { startCharge: getEnduranceCharge(race) },
+  };
+}
+
+/**
+ * Course distance a boat still has to sail: to the next mark, then round the
+ * rest of this lap and every lap after it.
+ */
+export function getRemainingDistance(race: RaceConfig, lap: number, checkpoint: number, x: number, z: number): number {
+  const marks = race.checkpoints.map((mark) => mark.position);
+  if (checkpoint >= marks.length) return 0;
+
+  const thisLap = pathLength([[x, z], ...marks.slice(checkpoint)]);
+  // Later laps run from the last mark back round to it
+  const fullLap = pathLength([marks[marks.length - 1], ...marks]);
+  return thisLap + Math.max(0, race.laps - lap) * fullLap;
+}
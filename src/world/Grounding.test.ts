@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SHALLOW_WATER_MARGIN, findTowPosition, getKeelClearance, getShallowWaterDrag } from './Grounding';
+import { generateWorld } from './WorldGenerator';
+
+const DRAFT = 2;
+
+describe('getShallowWaterDrag', () => {
+  it('leaves the boat alone with water to spare under the keel', () => {
+    expect(getShallowWaterDrag(SHALLOW_WATER_MARGIN)).toBe(0);
+    expect(getShallowWaterDrag(50)).toBe(0);
+  });
+
+  it('drags harder the less water there is under the keel', () => {
+    const brushing = getShallowWaterDrag(0);
+    expect(brushing).toBeGreaterThan(0);
+    expect(getShallowWaterDrag(SHALLOW_WATER_MARGIN / 2)).toBeCloseTo(brushing / 2);
+    expect(getShallowWaterDrag(-3)).toBe(brushing);
+  });
+});
+
+describe('findTowPosition', () => {
+  const world = generateWorld(42);
+  const island = world.islands.reduce((largest, candidate) => (candidate.radius > largest.radius ? candidate : largest));
+  const [x, z] = island.position;
+
+  it('pulls a boat off the shore into water deep enough to sail', () => {
+    expect(getKeelClearance(world, x, z, DRAFT)).toBeLessThan(0);
+
+    const tow = findTowPosition(world, x, z, DRAFT)!;
+    expect(tow).not.toBeNull();
+    expect(getKeelClearance(world, tow.position[0], tow.position[1], DRAFT)).toBeGreaterThan(SHALLOW_WATER_MARGIN);
+  });
+
+  it('heads the boat on away from where it grounded', () => {
+    const { position, heading } = findTowPosition(world, x, z, DRAFT)!;
+    expect(Math.sin(heading)).toBeCloseTo((position[0] - x) / Math.hypot(position[0] - x, position[1] - z));
+    expect(Math.cos(heading)).toBeCloseTo((position[1] - z) / Math.hypot(position[0] - x, position[1] - z));
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Grounding
+ * Water depth under the keel from the seabed against the hull's draft:
+ * shallows slow the boat, touching the bottom or the shore runs it aground with
+ * hull damage, and it stays there until it backs off into deeper water or is
+ * towed. Auto-dock picks a harbour it can reach and steers by the same rules.
+ */
+
+import { getBerthPosition } from './MarinaServices';
+import { getWaterDepth, type Marina, type WorldData } from './WorldGenerator';
+
+export const SHALLOW_WATER_MARGIN = 1.5; // m under the keel below which the hull starts to drag
+export const DEPTH_ALARM_CLEARANCE = 3;  // m under the keel below which the depth sounder sounds its alarm
+const SHALLOW_DRAG = 0.8;                // fraction of speed lost per second with the keel brushing the bottom
+
+// Hull damage (%) for running aground
+const GROUNDING_DAMAGE = 4;
+const GROUNDING_DAMAGE_PER_KNOT = 0.75;
+const SHORE_DAMAGE_MULTIPLIER = 2; // driving onto the shore itself rather than a shoal
+
+// Tow service
+export const TOW_FEE = 40;     // EC
+const TOW_CLEARANCE = 2;       // m under the keel where the tow leaves the boat
+const TOW_SEARCH_STEP = 25;    // m between rings searched for deep water
+const TOW_SEARCH_RANGE = 2000; // m
+
+// Auto-dock pathing
+const DOCK_LOOKAHEAD = 200;       // m of water checked ahead
+const DOCK_AVOID_STEP = Math.PI / 12;
+const DOCK_ROUTE_CELL = 100;      // m - grid a harbour's water route is checked on
+
+// Connected stretches of water deep enough for a draft, labelled on a coarse grid
+interface WaterRegions {
+  columns: number;
+  rows: number;
+  labels: Int32Array; // 0 where too shallow, otherwise the region the cell belongs to
+}
+
+// Per world (its bathymetry never changes) and per draft
+const waterRegionCache = new WeakMap<object, Map<number, WaterRegions>>();
+
+// Water under the keel (m); negative when the hull would be on the bottom
+export function getKeelClearance(world: WorldData, x: number, z: number, draft: number): number {
+  return getWaterDepth(world, x, z) - draft;
+}
+
+// Fraction of speed lost per second in shallow water
+export function getShallowWaterDrag(clearance: number): number {
+  if (clearance >= SHALLOW_WATER_MARGIN) return 0;
+  return SHALLOW_DRAG * (1 - Math.max(0, clearance) / SHALLOW_WATER_MARGIN);
+}
+
+// Hull damage for running aground at a speed (knots), worse on the shore than a shoal
+export function getGroundingDamage(speed: number, depth: number): number {
+  const damage = GROUNDING_DAMAGE + Math.abs(speed) * GROUNDING_DAMAGE_PER_KNOT;
+  return depth <= 0 ? damage * SHORE_DAMAGE_MULTIPLIER : damage;
+}
+
+/**
+ * Where a tow leaves a grounded boat: the nearest water deep enough to sail,
+ * searched in widening rings, heading on away from where it grounded.
+ */
+export function findTowPosition(
+  world: WorldData,
+  x: number,
+  z: number,
+  draft: number
+): { position: [number, number]; heading: number } | null {
+  for (let radius = TOW_SEARCH_STEP; radius <= TOW_SEARCH_RANGE; radius += TOW_SEARCH_STEP) {
+    const samples = Math.max(8, Math.round((2 * Math.PI * radius) / TOW_SEARCH_STEP));
+    for (let i = 0; i < samples; i++) {
+      const heading = (i / samples) * Math.PI * 2;
+      const px = x + Math.sin(heading) * radius;
+      const pz = z + Math.cos(heading) * radius;
+      if (getKeelClearance(world, px, pz, draft) >= TOW_CLEARANCE) {
+        return { position: [px, pz], heading };
+      }
+    }
+  }
+  return null;
+}
+
+function isCourseClear(world: WorldData, position: [number, number], heading: number, lookahead: number, draft: number): boolean {
+  for (const distance of [lookahead * 0.25, lookahead * 0.5, lookahead * 0.75, lookahead]) {
+    const x = position[0] + Math.sin(heading) * distance;
+    const z = position[1] + Math.cos(heading) * distance;
+    if (getKeelClearance(world, x, z, draft) < SHALLOW_WATER_MARGIN) return false;
+  }
+  return true;
+}
+
+/**
+ * Auto-dock heading: straight at the berth when the water ahead is deep enough,
+ * otherwise the nearest heading either side of it that keeps clear of shallows.
+ */
+export function getAutoDockHeading(
+  world: WorldData,
+  position: [number, number],
+  target: [number, number],
+  draft: number
+): number {
+  const direct = Math.atan2(target[0] - position[0], target[1] - position[1]);
+  const lookahead = Math.min(DOCK_LOOKAHEAD, Math.hypot(target[0] - position[0], target[1] - position[1]));
+  if (isCourseClear(world, position, direct, lookahead, draft)) return direct;
+
+  for (let step = 1; step <= 8; step++) {
+    for (const side of [1, -1]) {
+      const heading = direct + side * step * DOCK_AVOID_STEP;
+      if (isCourseClear(world, position, heading, lookahead, draft)) return heading;
+    }
+  }
+  return direct;
+}
+
+function getWaterRegions(world: WorldData, draft: number): WaterRegions {
+  let byDraft = waterRegionCache.get(world.bathymetry);
+  if (!byDraft) {
+    byDraft = new Map();
+    waterRegionCache.set(world.bathymetry, byDraft);
+  }
+  const cached = byDraft.get(draft);
+  if (cached) return cached;
+
+  const [minX, minZ] = world.bounds.min;
+  const columns = Math.ceil((world.bounds.max[0] - minX) / DOCK_ROUTE_CELL);
+  const rows = Math.ceil((world.bounds.max[1] - minZ) / DOCK_ROUTE_CELL);
+  const labels = new Int32Array(columns * rows).fill(-1);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = minX + (column + 0.5) * DOCK_ROUTE_CELL;
+      const z = minZ + (row + 0.5) * DOCK_ROUTE_CELL;
+      if (getKeelClearance(world, x, z, draft) < SHALLOW_WATER_MARGIN) labels[row * columns + column] = 0;
+    }
+  }
+
+  // Flood fill each stretch of open water from its first unlabelled cell
+  let region = 0;
+  const queue: number[] = [];
+  for (let seed = 0; seed < labels.length; seed++) {
+    if (labels[seed] !== -1) continue;
+    region += 1;
+    labels[seed] = region;
+    queue.push(seed);
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const column = cell % columns;
+      const neighbours = [
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1,
+        cell - columns,
+        cell + columns,
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && next < labels.length && labels[next] === -1) {
+          labels[next] = region;
+          queue.push(next);
+        }
+      }
+    }
+  }
+
+  const regions = { columns, rows, labels };
+  byDraft.set(draft, regions);
+  return regions;
+}
+
+// Water regions in and around the cell holding a point (a boat or berth close
+// inshore can sit in a cell whose centre is too shallow)
+function getRegionsNear(world: WorldData, regions: WaterRegions, x: number, z: number): Set<number> {
+  const column = Math.floor((x - world.bounds.min[0]) / DOCK_ROUTE_CELL);
+  const row = Math.floor((z - world.bounds.min[1]) / DOCK_ROUTE_CELL);
+  const found = new Set<number>();
+  for (let dz = -1; dz <= 1; dz++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const c = column + dx;
+      const r = row + dz;
+      if (c < 0 || r < 0 || c >= regions.columns || r >= regions.rows) continue;
+      const label = regions.labels[r * regions.columns + c];
+      if (label > 0) found.add(label);
+    }
+  }
+  return found;
+}
+
+/**
+ * The harbour auto-dock makes for: the nearest one with water enough at its berth
+ * for the hull and a way there through water deep enough, checked on a coarse grid
+ */
+export function getAutoDockMarina(world: WorldData, x: number, z: number, draft: number): Marina | null {
+  const regions = getWaterRegions(world, draft);
+  const here = getRegionsNear(world, regions, x, z);
+
+  let nearest: Marina | null = null;
+  let nearestDist = Infinity;
+  for (const marina of world.marinas) {
+    const [bx, bz] = getBerthPosition(marina);
+    const dist = Math.hypot(x - bx, z - bz);
+    if (dist >= nearestDist || getKeelClearance(world, bx, bz, draft) < SHALLOW_WATER_MARGIN) continue;
+
+    // Aground or hemmed in with no open water nearby, any deep berth will do
+    const reachable = here.size === 0 || [...getRegionsNear(world, regions, bx, bz)].some((region) => here.has(region));
+    if (reachable) {
+      nearest = marina;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { FREE_RESERVE_PERCENT, REPAIR_PRICE_PER_PERCENT, SHORE_POWER_PRICE, calculateShoreCharge, getRepairCost, getSellableEnergy } from './MarinaServices';
+
+describe('calculateShoreCharge', () => {
+  it('charges for free up to the reserve', () => {
+    expect(calculateShoreCharge(0, 100, 0, 10, 1)).toEqual({ charged: 10, cost: 0 });
+  });
+
+  it('bills only the part of a step above the reserve', () => {
+    const { charged, cost } = calculateShoreCharge(15, 100, 100, 10, 1);
+    expect(charged).toBe(10);
+    expect(cost).toBeCloseTo((15 + 10 - FREE_RESERVE_PERCENT) * SHORE_POWER_PRICE);
+  });
+
+  it('stops when the credits run out', () => {
+    const { charged, cost } = calculateShoreCharge(50, 100, 1, 10, 1);
+    expect(charged).toBeCloseTo(1 / SHORE_POWER_PRICE);
+    expect(cost).toBeCloseTo(1);
+  });
+
+  it('never overfills the battery', () => {
+    expect(calculateShoreCharge(98, 100, 100, 10, 1).charged).toBeCloseTo(2);
+    expect(calculateShoreCharge(100, 100, 100, 10, 1)).toEqual({ charged: 0, cost: 0 });
+  });
+
+  it('uses the harbour price when given', () => {
+    expect(calculateShoreCharge(50, 100, 100, 10, 1, 2).cost).toBeCloseTo(20);
+  });
+});
+
+describe('getSellableEnergy', () => {
+  it('keeps the free reserve back', () => {
+    expect(getSellableEnergy(50, 100)).toBe(50 - FREE_RESERVE_PERCENT);
+    expect(getSellableEnergy(10, 100)).toBe(0);
+  });
+});
+
+describe('getRepairCost', () => {
+  it('prices the missing hull integrity', () => {
+    expect(getRepairCost(100)).toBe(0);
+    expect(getRepairCost(90)).toBeCloseTo(10 * REPAIR_PRICE_PER_PERCENT);
+    expect(getRepairCost(90, 3)).toBe(30);
+  });
+});
@@ -0,0 +1,93 @@
+import type { Marina } from './WorldGenerator';
+
+// 1 EC is earned per kWh generated, so prices are quoted against that
+export const BERTH_RADIUS = 150;              // units - docking zone around the marina
+export const BERTH_OFFSET = 100;              // units - out along the piers to where a boat ties up
+export const DOCKING_MAX_SPEED = 3;           // knots - must be this slow to tie up
+export const SHORE_POWER_PRICE = 0.5;         // EC per kWh of shore power
+export const FREE_RESERVE_PERCENT = 20;       // shore power is free up to this charge
+export const ENERGY_SELL_PRICE = 0.4;         // EC paid per kWh sold back to the grid
+export const REPAIR_PRICE_PER_PERCENT = 0.2;  // EC per % of hull integrity restored
+
+// Harbour network
+export const HOME_MARINA_ID = 'marina-hub';   // the central marina, open from the start
+export const FAST_TRAVEL_BASE_FEE = 10;       // EC per trip
+export const FAST_TRAVEL_FEE_PER_KM = 4;      // EC per km between the harbours
+
+export type MarinaService = 'shore-power' | 'repair' | 'energy-sale' | 'upgrades';
+
+// What a marina charges and pays, in EC
+export interface MarinaPrices {
+  shorePower: number; // per kWh beyond the free reserve
+  repair: number;     // per % of hull integrity restored
+  energySale: number; // paid per kWh sold
+}
+
+export const BASE_PRICES: MarinaPrices = {
+  shorePower: SHORE_POWER_PRICE,
+  repair: REPAIR_PRICE_PER_PERCENT,
+  energySale: ENERGY_SELL_PRICE,
+};
+
+export function isInSafeZone(marina: Marina, x: number, z: number): boolean {
+  const dx = x - marina.position[0];
+  const dz = z - marina.position[1];
+  return dx * dx + dz * dz <= marina.safeZoneRadius * marina.safeZoneRadius;
+}
+
+export function getMarina(marinas: Marina[], id: string | null): Marina | null {
+  return marinas.find((marina) => marina.id === id) ?? null;
+}
+
+// The marina whose berth area a point is in, if any
+export function getMarinaAt(marinas: Marina[], x: number, z: number): Marina | null {
+  return marinas.find((marina) => Math.hypot(x - marina.position[0], z - marina.position[1]) <= marina.dockingZoneRadius) ?? null;
+}
+
+// Where a boat ties up: out along the piers from the marina
+export function getBerthPosition(marina: Marina): [number, number] {
+  return [
+    marina.position[0] + Math.sin(marina.heading) * BERTH_OFFSET,
+    marina.position[1] + Math.cos(marina.heading) * BERTH_OFFSET,
+  ];
+}
+
+// EC to fast travel between two harbours
+export function getFastTravelCost(from: Marina, to: Marina): number {
+  const km = Math.hypot(to.position[0] - from.position[0], to.position[1] - from.position[1]) / 1000;
+  return Math.round(FAST_TRAVEL_BASE_FEE + km * FAST_TRAVEL_FEE_PER_KM);
+}
+
+// EC to restore the hull to 100%
+export function getRepairCost(hullIntegrity: number, pricePerPercent: number = REPAIR_PRICE_PER_PERCENT): number {
+  return Math.max(0, 100 - hullIntegrity) * pricePerPercent;
+}
+
+// kWh that can be sold without dipping into the free reserve
+export function getSellableEnergy(currentCharge: number, capacity: number): number {
+  return Math.max(0, currentCharge - (capacity * FREE_RESERVE_PERCENT) / 100);
+}
+
+/**
+ * Shore power delivered over one step at the marina's charge rate (kWh per second).
+ * Charging up to the reserve is free; beyond it each kWh costs EC, so it stops when credits run out.
+ */
+export function calculateShoreCharge(
+  currentCharge: number, // kWh
+  capacity: number,      // kWh
+  credits: number,       // EC available
+  chargeRate: number,    // kWh per second
+  deltaTime: number,     // seconds
+  price: number = SHORE_POWER_PRICE // EC per kWh
+): { charged: number; cost: number } {
+  const room = Math.max(0, capacity - currentCharge);
+  let charged = Math.min(room, chargeRate * deltaTime);
+
+  const reserve = (capacity * FREE_RESERVE_PERCENT) / 100;
+  const free = Math.max(0, Math.min(charged, reserve - currentCharge));
+  const affordable = Math.max(0, credits) / price;
+  const paid = Math.min(charged - free, affordable);
+  charged = free + paid;
+
+  return { charged, cost: paid * price };
+}
@@ -0,0 +1,130 @@
+/**
+ * POI Activities
+ * What there is to do at each kind of point of interest once it has been found:
+ * survey a reef, salvage a wreck, read a weather buoy, track wildlife or carry
+ * data for a research station. Rewards scale with the map's
+ * discoveryRewardMultiplier like discoveries do, and a POI rests after each visit.
+ */
+
+import type { Marina, POI } from './WorldGenerator';
+
+export const POI_ACTIVITY_RANGE = 250;     // units - activities start within this of a POI
+
+// EC for each activity before the map's discoveryRewardMultiplier
+export const ACTIVITY_REWARDS: Record<POI['type'], number> = {
+  reef: 10,               // per survey
+  wreck: 15,              // per tonne of salvage landed at a marina
+  buoy: 3,                // per reading
+  wildlife: 20,           // per tracking run
+  'research-station': 8,  // per km of data run
+};
+
+// Seconds a POI rests after a visit before it offers its activity again
+export const ACTIVITY_COOLDOWNS: Record<POI['type'], number> = {
+  reef: 300,
+  wreck: 600,
+  buoy: 120,
+  wildlife: 300,
+  'research-station': 240,
+};
+
+// ── Reef survey ──
+export const SURVEY_MAX_SPEED = 2;         // knots - drifting slowly enough to snorkel and photograph
+export const SURVEY_TIME = 20;             // seconds over the reef
+
+// ── Wreck salvage ──
+export const SALVAGE_MAX_SPEED = 1;        // knots - holding station over the wreck
+export const SALVAGE_TIME = 30;            // seconds per haul
+export const SALVAGE_MIN_MASS = 800;       // kg per haul
+export const SALVAGE_MAX_MASS = 2400;      // kg per haul
+export const SALVAGE_CAPACITY = 5000;      // kg aboard before there's no room for more
+
+// ── Wildlife tracking ──
+export const TRACKING_RANGE = 150;         // units - close enough to follow the animals
+export const TRACKING_LOST_RANGE = 600;    // units - the trail is lost beyond this
+export const TRACKING_TIME = 45;           // seconds in range to finish
+export const TRACKING_RETRY_TIME = 60;     // seconds before a lost trail can be picked up again
+const WILDLIFE_ROAM_RADIUS = 300;          // units around the POI
+const WILDLIFE_SPEED = 4;                  // m/s, about 8 knots
+
+// ── Research data runs ──
+export const DATA_RUN_MIN_DISTANCE = 1500; // units - harbours closer than this aren't worth a run
+export const DATA_RUN_MIN_REWARD = 10;     // EC before the multiplier
+const DATA_RUN_BASE_TIME = 120;            // seconds to get under way
+const DATA_RUN_TIME_PER_KM = 240;          // seconds per km, about 8 knots
+
+export interface DataRun {
+  stationId: string;
+  stationName: string;
+  marinaId: string;
+  marinaName: string;
+  distance: number;  // units
+  reward: number;    // EC on delivery
+  timeLimit: number; // seconds to dock at the harbour
+}
+
+// Nearest POI in activity range, or null
+export function findActivityPOI(pois: POI[], position: [number, number, number]): POI | null {
+  let nearest: POI | null = null;
+  let nearestDist = POI_ACTIVITY_RANGE;
+  for (const poi of pois) {
+    const dist = Math.hypot(position[0] - poi.position[0], position[2] - poi.position[1]);
+    if (dist <= nearestDist) {
+      nearest = poi;
+      nearestDist = dist;
+    }
+  }
+  return nearest;
+}
+
+export function getActivityReward(type: POI['type'], multiplier: number): number {
+  return Math.round(ACTIVITY_REWARDS[type] * multiplier);
+}
+
+// Haul size varies between the limits, to the nearest 10 kg
+export function getSalvageMass(random: number): number {
+  return Math.round((SALVAGE_MIN_MASS + random * (SALVAGE_MAX_MASS - SALVAGE_MIN_MASS)) / 10) * 10;
+}
+
+export function getSalvageValue(mass: number, multiplier: number): number {
+  return Math.round((mass / 1000) * ACTIVITY_REWARDS.wreck * multiplier);
+}
+
+/**
+ * Where the animals are a given time into a tracking run: circling the POI at
+ * a steady speed, swinging in and out as they go
+ */
+export function getWildlifePosition(poi: POI, time: number): [number, number] {
+  const phase = Math.abs(poi.position[0] * 0.013 + poi.position[1] * 0.007) % (Math.PI * 2);
+  const angle = phase + (time * WILDLIFE_SPEED) / WILDLIFE_ROAM_RADIUS;
+  const radius = WILDLIFE_ROAM_RADIUS * (1 + 0.4 * Math.sin(phase + time * 0.03));
+  return [poi.position[0] + Math.sin(angle) * radius, poi.position[1] + Math.cos(angle) * radius];
+}
+
+/**
+ * A data run from a research station to one of the harbours, picked at random
+ * from those far enough away (or the furthest). Reward and time allowed scale
+ * with the distance.
+ */
+export function createDataRun(station: POI, marinas: Marina[], random: number, multiplier: number): DataRun | null {
+  if (marinas.length === 0) return null;
+
+  const distanceTo = (marina: Marina) =>
+    Math.hypot(marina.position[0] - station.position[0], marina.position[1] - station.position[1]);
+  const far = marinas.filter((marina) => distanceTo(marina) >= DATA_RUN_MIN_DISTANCE);
+  const marina = far.length > 0
+    ? far[Math.floor(random * far.length) % far.length]
+    : marinas.reduce((best, m) => (distanceTo(m) > distanceTo(best) ? m : best));
+
+  const distance = distanceTo(marina);
+  const km = distance / 1000;
+  return {
+    stationId: station.id,
+    stationName: station.name,
+    marinaId: marina.id,
+    marinaName: marina.name,
+    distance,
+    reward: Math.round(Math.max(DATA_RUN_MIN_REWARD, km * ACTIVITY_REWARDS['research-station']) * multiplier),
+    timeLimit: Math.round(DATA_RUN_BASE_TIME + km * DATA_RUN_TIME_PER_KM),
+  };
+}
@@ -0,0 +1,221 @@
+import type { RaceConfig } from '../state/useRaceStore';
+import type { Iceberg, Island, RaceRoute, WorldData } from './WorldGenerator';
+import type { CustomCourse } from '../state/customCourses';
+import { getAllRaces } from '../data/races';
+import { loadCustomCourses } from '../state/customCourses';
+import { getCourseGates, startFinishCheckpoint } from './RaceGates';
+
+const FINISH_RADIUS = 250;        // units - finish gate at the route's end position
+const ISLAND_CLEARANCE = 50;      // units - water a checkpoint must keep from a shore
+const ICEBERG_CLEARANCE = 30;     // units - water a gate and its buoys must keep from an iceberg
+
+export type RaceSource = 'static' | 'generated' | 'custom';
+
+export interface RaceCatalogueEntry {
+  race: RaceConfig;
+  source: RaceSource;
+  issues: string[]; // why the course can't be sailed on this map (empty = raceable)
+}
+
+// Heading (radians, game convention: forward = sin/cos) from one point towards another
+export function headingTowards(from: [number, number], to: [number, number]): number {
+  return Math.atan2(to[0] - from[0], to[1] - from[1]);
+}
+
+function courseLength(start: [number, number] | undefined, race: RaceConfig): number {
+  let length = 0;
+  let previous = start ?? race.checkpoints[0]?.position;
+  for (const checkpoint of race.checkpoints) {
+    if (previous) {
+      length += Math.hypot(checkpoint.position[0] - previous[0], checkpoint.position[1] - previous[1]);
+    }
+    previous = checkpoint.position;
+  }
+  return length;
+}
+
+/**
+ * Turn a generated route into a race: its checkpoints, then a finish gate at the end
+ * position (on a loop, the start line itself), started from a line at the start
+ * position facing the first mark.
+ * Ids are prefixed with the world seed so ghosts and records stay per map.
+ */
+export function routeToRaceConfig(route: RaceRoute, worldSeed: number): RaceConfig {
+  const id = `gen-${worldSeed}-${route.id}`;
+  const startHeading = headingTowards(route.startPosition, route.checkpoints[0]?.position ?? route.endPosition);
+  const finish = route.loop
+    ? startFinishCheckpoint(`${id}-finish`, route.startPosition, startHeading)
+    : { id: `${id}-finish`, position: route.endPosition, radius: FINISH_RADIUS };
+  const checkpoints: RaceConfig['checkpoints'] = [
+    ...route.checkpoints.map((checkpoint) => ({ ...checkpoint, id: `${id}-${checkpoint.id}` })),
+    { ...finish, order: route.checkpoints.length + 1 },
+  ];
+
+  const race: RaceConfig = {
+    id,
+    name: route.name,
+    laps: route.laps,
+    difficultyMultiplier: 1,
+    checkpoints,
+    startPosition: route.startPosition,
+    startHeading,
+  };
+
+  race.difficultyMultiplier = lengthDifficulty(race);
+  return race;
+}
+
+// Longer courses are harder: 0.8 for a sprint up to 2.0 for a marathon
+function lengthDifficulty(race: RaceConfig): number {
+  const length = courseLength(race.startPosition, race) * race.laps;
+  return Math.min(2, Math.max(0.8, 0.8 + length / 10000));
+}
+
+/**
+ * Turn an editor course into a race. A single lap finishes at the last gate; a
+ * circuit adds a finish on the start line so each lap closes over it.
+ * Ids carry the world seed like generated routes.
+ */
+export function customCourseToRaceConfig(course: CustomCourse): RaceConfig {
+  const id = `custom-${course.worldSeed}-${course.id}`;
+  const startHeading = headingTowards(course.startPosition, course.gates[0]?.position ?? course.startPosition);
+  const checkpoints: RaceConfig['checkpoints'] = course.gates.map((gate, index) => ({
+    id: `${id}-cp${index + 1}`,
+    position: gate.position,
+    radius: gate.radius,
+    order: index + 1,
+  }));
+  if (course.laps > 1) {
+    checkpoints.push({
+      ...startFinishCheckpoint(`${id}-finish`, course.startPosition, startHeading),
+      order: checkpoints.length + 1,
+    });
+  }
+
+  const race: RaceConfig = {
+    id,
+    name: course.name,
+    laps: course.laps,
+    difficultyMultiplier: 1,
+    checkpoints,
+    startPosition: course.startPosition,
+    startHeading,
+  };
+  race.difficultyMultiplier = lengthDifficulty(race);
+  return race;
+}
+
+export interface CourseLeg {
+  from: [number, number];
+  to: [number, number];
+  length: number;    // units
+  heading: number;   // radians, game convention
+  windAngle: number; // degrees off the bow the wind comes from (0 = head to wind, positive = from port)
+}
+
+/**
+ * Legs of one lap from the start line, with the true wind angle a boat would sail
+ * each one at. Wind direction is the game's (degrees, as calculateApparentWind takes it).
+ */
+export function getCourseLegs(race: RaceConfig, windDirection: number): CourseLeg[] {
+  const legs: CourseLeg[] = [];
+  let previous = race.startPosition ?? race.checkpoints[0]?.position;
+  for (const checkpoint of race.checkpoints) {
+    if (previous && (previous[0] !== checkpoint.position[0] || previous[1] !== checkpoint.position[1])) {
+      const heading = headingTowards(previous, checkpoint.position);
+      let windAngle = windDirection - (heading * 180) / Math.PI - 180;
+      windAngle = ((((windAngle + 180) % 360) + 360) % 360) - 180;
+      legs.push({
+        from: previous,
+        to: checkpoint.position,
+        length: Math.hypot(checkpoint.position[0] - previous[0], checkpoint.position[1] - previous[1]),
+        heading,
+        windAngle,
+      });
+    }
+    previous = checkpoint.position;
+  }
+  return legs;
+}
+
+function findBlockingIsland(islands: Island[], position: [number, number], radius: number): Island | null {
+  for (const island of islands) {
+    const dist = Math.hypot(position[0] - island.position[0], position[1] - island.position[1]);
+    // The gate needs open water at its centre
+    if (dist < island.radius + ISLAND_CLEARANCE) return island;
+    // ...and can't be mostly covered by land
+    if (dist + radius * 0.5 < island.radius) return island;
+  }
+  return null;
+}
+
+/**
+ * Problems that stop a course being sailed on this map: marks or the start inside
+ * an island, or outside the world bounds.
+ */
+export function validateCourse(race: RaceConfig, world: WorldData): string[] {
+  const issues: string[] = [];
+  const { min, max } = world.bounds;
+  const inBounds = (p: [number, number]) => p[0] >= min[0] && p[0] <= max[0] && p[1] >= min[1] && p[1] <= max[1];
+
+  if (race.startPosition) {
+    const island = findBlockingIsland(world.islands, race.startPosition, 0);
+    if (island) issues.push(`Start is on a ${island.type} island`);
+    if (!inBounds(race.startPosition)) issues.push('Start is outside the map');
+  }
+
+  race.checkpoints.forEach((checkpoint, index) => {
+    const label = index === race.checkpoints.length - 1 ? 'Finish' : `CP ${index + 1}`;
+    const island = findBlockingIsland(world.islands, checkpoint.position, checkpoint.radius);
+    if (island) issues.push(`${label} is inside a ${island.type} island`);
+    const [x, z] = checkpoint.position;
+    const shoal = world.index.shoals.find(x, z, 0, (candidate, distance) => distance < candidate.radius);
+    if (shoal) issues.push(`${label} is over a coral shoal (${shoal.depth.toFixed(1)} m)`);
+    if (!inBounds(checkpoint.position)) issues.push(`${label} is outside the map`);
+  });
+
+  return issues;
+}
+
+/**
+ * Gates whose mark or buoys sit on an iceberg. Kept out of validateCourse because
+ * icebergs drift: the editor checks against where they are now.
+ */
+export function findIcebergConflicts(race: RaceConfig, icebergs: Iceberg[]): string[] {
+  const issues: string[] = [];
+  getCourseGates(race).forEach((gate, index) => {
+    const points = [gate.center, ...gate.buoys];
+    const iceberg = icebergs.find((berg) =>
+      points.some((p) => Math.hypot(p[0] - berg.position[0], p[1] - berg.position[1]) < berg.radius + ICEBERG_CLEARANCE)
+    );
+    if (iceberg) {
+      const label = index === race.checkpoints.length - 1 ? 'Finish' : `CP ${index + 1}`;
+      issues.push(`${label} is on an iceberg`);
+    }
+  });
+  return issues;
+}
+
+/**
+ * Every race on offer for a map: the world's generated routes first, then the
+ * static courses, then courses saved from the editor for this seed, each checked
+ * against the map's islands and bounds.
+ */
+export function getRaceCatalogue(world: WorldData | null): RaceCatalogueEntry[] {
+  const staticRaces = getAllRaces();
+  if (!world) {
+    return staticRaces.map((race) => ({ race, source: 'static', issues: [] }));
+  }
+
+  const generated = world.races.map((route) => routeToRaceConfig(route, world.seed));
+  const custom = loadCustomCourses(world.seed);
+  return [
+    ...generated.map((race) => ({ race, source: 'generated' as const, issues: validateCourse(race, world) })),
+    ...staticRaces.map((race) => ({ race, source: 'static' as const, issues: validateCourse(race, world) })),
+    ...custom.map((course) => {
+      const race = customCourseToRaceConfig(course);
+      const issues = course.gates.length === 0 ? ['Course has no gates'] : validateCourse(race, world);
+      return { race, source: 'custom' as const, issues };
+    }),
+  ];
+}
@@ -0,0 +1,122 @@
+/**
+ * Race Conditions
+ * What a race's difficulty setting and course multiplier do on the water: wind strength,
+ * shifts and gusts, extra floating ice along the legs, and how hard collisions hit.
+ */
+
+import type { RaceConfig, RaceDifficulty } from '../state/useRaceStore';
+import type { FloatingIce, Island } from './WorldGenerator';
+import type { SpatialHash } from './SpatialIndex';
+import { getIslandAtPosition } from './WorldGenerator';
+import { START_LINE_HALF_WIDTH } from './RaceGates';
+
+export const RACE_ICE_PREFIX = 'race-ice-';
+
+const ICE_LANE_WIDTH = 120;     // m either side of a leg that race ice is scattered over
+const ICE_MARK_CLEARANCE = 40;  // m of open water kept around marks and the start line
+const ICE_MIN_RADIUS = 1.5;
+const ICE_MAX_RADIUS = 4;
+
+export interface RaceModifiers {
+  windStrength: number; // x wind speed
+  windShifts: number;   // x wind direction variation
+  gusts: number;        // x gust factor
+  iceDensity: number;   // extra floating ice pieces per km of course
+  damage: number;       // x collision damage
+}
+
+const DIFFICULTY_MODIFIERS: Record<RaceDifficulty, RaceModifiers> = {
+  peaceful: { windStrength: 0.85, windShifts: 0.6, gusts: 0.6, iceDensity: 0, damage: 0.5 },
+  moderate: { windStrength: 1, windShifts: 1, gusts: 1, iceDensity: 4, damage: 1 },
+  challenging: { windStrength: 1.2, windShifts: 1.6, gusts: 1.8, iceDensity: 10, damage: 1.5 },
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Modifiers for a race: the difficulty's baseline scaled by the course's multiplier.
+ * Wind strength moves half as fast as the rest so long courses stay sailable.
+ */
+export function getRaceModifiers(difficulty: RaceDifficulty, difficultyMultiplier: number): RaceModifiers {
+  const base = DIFFICULTY_MODIFIERS[difficulty];
+  const multiplier = Number.isFinite(difficultyMultiplier) && difficultyMultiplier > 0 ? difficultyMultiplier : 1;
+  return {
+    windStrength: round2(base.windStrength * (1 + (multiplier - 1) * 0.5)),
+    windShifts: round2(base.windShifts * multiplier),
+    gusts: round2(base.gusts * multiplier),
+    iceDensity: round2(base.iceDensity * multiplier),
+    damage: round2(base.damage * multiplier),
+  };
+}
+
+// Key runs are ranked under: results only compare against the same settings
+export function getConditionsKey(difficulty: RaceDifficulty, difficultyMultiplier: number, endurance = false): string {
+  const key = `${difficulty} x${(Number.isFinite(difficultyMultiplier) ? difficultyMultiplier : 1).toFixed(1)}`;
+  return endurance ? `${key} endurance` : key;
+}
+
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash & 0x7fffffff;
+}
+
+function nextRandom(state: number): number {
+  return (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+}
+
+/**
+ * Floating ice scattered along each leg of the course. Seeded by the race id so
+ * every attempt (and every boat in an online race) meets the same field.
+ * Marks, the start line and island shores are kept clear.
+ */
+export function createRaceIce(race: RaceConfig, modifiers: RaceModifiers, islands: SpatialHash<Island> | null): FloatingIce[] {
+  if (modifiers.iceDensity <= 0 || race.checkpoints.length === 0) return [];
+
+  const points: [number, number][] = [
+    ...(race.startPosition ? [race.startPosition] : []),
+    ...race.checkpoints.map((checkpoint) => checkpoint.position),
+    ...(race.laps > 1 ? [race.checkpoints[0].position] : []), // back round to the first mark
+  ];
+  const clearings = [
+    ...race.checkpoints.map((checkpoint) => ({ position: checkpoint.position, radius: checkpoint.radius + ICE_MARK_CLEARANCE })),
+    ...(race.startPosition ? [{ position: race.startPosition, radius: START_LINE_HALF_WIDTH + ICE_MARK_CLEARANCE }] : []),
+  ];
+
+  const pieces: FloatingIce[] = [];
+  let rng = hashString(race.id);
+
+  for (let leg = 1; leg < points.length; leg++) {
+    const [ax, az] = points[leg - 1];
+    const [bx, bz] = points[leg];
+    const length = Math.hypot(bx - ax, bz - az);
+    if (length === 0) continue;
+
+    // Unit vectors along and across the leg
+    const ux = (bx - ax) / length;
+    const uz = (bz - az) / length;
+    const count = Math.round((length / 1000) * modifiers.iceDensity);
+
+    for (let i = 0; i < count; i++) {
+      rng = nextRandom(rng);
+      const along = (rng / 0x7fffffff) * length;
+      rng = nextRandom(rng);
+      const across = (rng / 0x7fffffff - 0.5) * 2 * ICE_LANE_WIDTH;
+      rng = nextRandom(rng);
+      const radius = ICE_MIN_RADIUS + (rng / 0x7fffffff) * (ICE_MAX_RADIUS - ICE_MIN_RADIUS);
+
+      const x = ax + ux * along + uz * across;
+      const z = az + uz * along - ux * across;
+      if (clearings.some((clearing) => Math.hypot(x - clearing.position[0], z - clearing.position[1]) < clearing.radius)) continue;
+      if (islands && getIslandAtPosition(islands, x, z)) continue;
+
+      pieces.push({ id: `${RACE_ICE_PREFIX}${pieces.length}`, position: [x, z], radius, seed: rng });
+    }
+  }
+
+  return pieces;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  GATE_WIDTH_FACTOR,
+  START_LINE_HALF_WIDTH,
+  crossesGate,
+  getCourseGates,
+  getStartGate,
+  isCircuit,
+  startFinishCheckpoint,
+  type GateCourse,
+} from './RaceGates';
+
+// Start due south of a mark at the origin, so the gate faces north (+z)
+const course: GateCourse = {
+  laps: 1,
+  startPosition: [0, -1000],
+  checkpoints: [
+    { id: 'cp-1', position: [0, 0], radius: 200 },
+    { id: 'cp-2', position: [1000, 0], radius: 200 },
+  ],
+};
+
+describe('getCourseGates', () => {
+  it('faces each gate along the leg arriving at it', () => {
+    const [first, second] = getCourseGates(course);
+    expect(first.heading).toBeCloseTo(0);
+    expect(second.heading).toBeCloseTo(Math.PI / 2);
+    expect(first.halfWidth).toBe(200 * GATE_WIDTH_FACTOR);
+  });
+
+  it('faces the first gate of a circuit from the last mark', () => {
+    const [first] = getCourseGates({ ...course, laps: 3 });
+    expect(first.heading).toBeCloseTo(-Math.PI / 2);
+  });
+
+  it('keeps a set crossing direction', () => {
+    const [first] = getCourseGates({ ...course, checkpoints: [{ ...course.checkpoints[0], heading: 1 }] });
+    expect(first.heading).toBe(1);
+  });
+});
+
+describe('crossesGate', () => {
+  const [gate] = getCourseGates(course);
+
+  it('detects a crossing in the course direction', () => {
+    expect(crossesGate(gate, [0, -10], [0, 10])).toBe('forward');
+    expect(crossesGate(gate, [-90, -5], [-80, 5])).toBe('forward');
+  });
+
+  it('detects a crossing the wrong way', () => {
+    expect(crossesGate(gate, [0, 10], [0, -10])).toBe('backward');
+  });
+
+  it('ignores moves outside the buoys', () => {
+    expect(crossesGate(gate, [150, -10], [150, 10])).toBeNull();
+  });
+
+  it('ignores moves that stay on one side of the line', () => {
+    expect(crossesGate(gate, [0, -20], [0, -10])).toBeNull();
+    expect(crossesGate(gate, [0, 10], [0, 20])).toBeNull();
+  });
+
+  it('counts a move that cuts the line inside the buoys at an angle', () => {
+    // Starts outside the buoys but meets the line at x = 50
+    expect(crossesGate(gate, [-50, -100], [150, 100])).toBe('forward');
+  });
+});
+
+describe('start/finish line', () => {
+  it('puts the finish gate on the start line, facing the same way', () => {
+    const heading = Math.PI / 2;
+    const finish = startFinishCheckpoint('finish', [0, -1000], heading);
+    const circuit: GateCourse = { ...course, laps: 2, startHeading: heading, checkpoints: [...course.checkpoints, finish] };
+
+    const start = getStartGate(circuit)!;
+    const finishGate = getCourseGates(circuit)[2];
+    expect(isCircuit(circuit)).toBe(true);
+    expect(isCircuit(course)).toBe(false);
+    expect(finishGate.center).toEqual(start.center);
+    expect(finishGate.heading).toBe(start.heading);
+    expect(finishGate.halfWidth).toBeCloseTo(START_LINE_HALF_WIDTH);
+  });
+});
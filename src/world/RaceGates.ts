@@ -0,0 +1,134 @@
+/**
+ * Race Gates
+ * Checkpoints sailed as gates: a pair of buoys either side of the mark that must
+ * be crossed in the course direction. Takes plain course shapes so the race server
+ * can validate crossings with the same geometry as the game.
+ */
+
+export const GATE_WIDTH_FACTOR = 0.5; // buoy distance from the mark as a fraction of its radius
+export const START_LINE_HALF_WIDTH = 150; // m either side of the start position
+
+export interface GateCheckpoint {
+  id: string;
+  position: [number, number];
+  radius: number;
+  heading?: number; // crossing direction (radians, game convention); defaults to the course direction
+}
+
+export interface GateCourse {
+  checkpoints: GateCheckpoint[];
+  laps: number;
+  startPosition?: [number, number];
+  startHeading?: number;
+}
+
+export interface Gate {
+  id: string;
+  center: [number, number];
+  heading: number;              // direction boats must cross in
+  halfWidth: number;
+  buoys: [[number, number], [number, number]]; // port, starboard (looking along the heading)
+}
+
+export type GateCrossing = 'forward' | 'backward';
+
+function headingBetween(from: [number, number], to: [number, number]): number {
+  return Math.atan2(to[0] - from[0], to[1] - from[1]);
+}
+
+function makeGate(id: string, center: [number, number], heading: number, halfWidth: number): Gate {
+  // Starboard is +cos/-sin of the heading in the game's frame
+  const sx = Math.cos(heading) * halfWidth;
+  const sz = -Math.sin(heading) * halfWidth;
+  return {
+    id,
+    center,
+    heading,
+    halfWidth,
+    buoys: [
+      [center[0] - sx, center[1] - sz],
+      [center[0] + sx, center[1] + sz],
+    ],
+  };
+}
+
+/**
+ * Gates for a course in order. Each gate faces along the leg that arrives at it;
+ * the first faces from the start (or, on a circuit, from the last mark).
+ */
+export function getCourseGates(course: GateCourse): Gate[] {
+  const { checkpoints } = course;
+  return checkpoints.map((checkpoint, index) => {
+    let heading = checkpoint.heading;
+    if (heading === undefined) {
+      const previous =
+        index > 0
+          ? checkpoints[index - 1].position
+          : course.laps > 1 && checkpoints.length > 1
+            ? checkpoints[checkpoints.length - 1].position
+            : course.startPosition;
+      if (previous) {
+        heading = headingBetween(previous, checkpoint.position);
+      } else if (checkpoints.length > 1) {
+        heading = headingBetween(checkpoint.position, checkpoints[1].position);
+      } else {
+        heading = 0;
+      }
+    }
+    return makeGate(checkpoint.id, checkpoint.position, heading, checkpoint.radius * GATE_WIDTH_FACTOR);
+  });
+}
+
+// Line across the course at the start, crossed at the gun
+export function getStartGate(course: GateCourse): Gate | null {
+  if (!course.startPosition) return null;
+  const heading = course.startHeading ?? (course.checkpoints[0] ? headingBetween(course.startPosition, course.checkpoints[0].position) : 0);
+  return makeGate('start', course.startPosition, heading, START_LINE_HALF_WIDTH);
+}
+
+/**
+ * Last mark of a circuit: a gate on the start line, facing the same way, so each
+ * lap closes by sailing back over the line
+ */
+export function startFinishCheckpoint(id: string, startPosition: [number, number], startHeading: number): GateCheckpoint {
+  return { id, position: startPosition, radius: START_LINE_HALF_WIDTH / GATE_WIDTH_FACTOR, heading: startHeading };
+}
+
+// Whether a course finishes each lap back on its start line
+export function isCircuit(course: GateCourse): boolean {
+  const last = course.checkpoints[course.checkpoints.length - 1];
+  return (
+    last !== undefined &&
+    course.startPosition !== undefined &&
+    last.position[0] === course.startPosition[0] &&
+    last.position[1] === course.startPosition[1]
+  );
+}
+
+// Signed distance past the gate line along its heading (negative = still to come)
+export function distancePastGate(gate: Gate, x: number, z: number): number {
+  return (x - gate.center[0]) * Math.sin(gate.heading) + (z - gate.center[1]) * Math.cos(gate.heading);
+}
+
+// Signed distance from the gate centre along the line, towards the starboard buoy
+export function distanceAlongGate(gate: Gate, x: number, z: number): number {
+  return (x - gate.center[0]) * Math.cos(gate.heading) - (z - gate.center[1]) * Math.sin(gate.heading);
+}
+
+/**
+ * Whether a move between two positions passes between the buoys, and which way.
+ * Returns null when the move doesn't cross the gate line inside the buoys.
+ */
+export function crossesGate(gate: Gate, from: [number, number], to: [number, number]): GateCrossing | null {
+  const before = distancePastGate(gate, from[0], from[1]);
+  const after = distancePastGate(gate, to[0], to[1]);
+  if ((before < 0) === (after < 0) || before === after) return null;
+
+  // Where the move meets the line, measured along it from the centre
+  const t = before / (before - after);
+  const x = from[0] + (to[0] - from[0]) * t;
+  const z = from[1] + (to[1] - from[1]) * t;
+  if (Math.abs(distanceAlongGate(gate, x, z)) > gate.halfWidth) return null;
+
+  return after > before ? 'forward' : 'backward';
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { getCheckpointSplits, getPassedTimes, getPlacingReward, getTrackBounds } from './RaceReport';
+import type { LapData, RaceConfig } from '../state/useRaceStore';
+
+const race: RaceConfig = {
+  id: 'triangle',
+  name: 'Triangle',
+  laps: 1,
+  difficultyMultiplier: 1,
+  startPosition: [0, 0],
+  checkpoints: [
+    { id: 'cp-1', position: [0, 1000], radius: 100, order: 0 },
+    { id: 'cp-2', position: [800, 500], radius: 100, order: 1 },
+    { id: 'finish', position: [0, 0], radius: 100, order: 2 },
+  ],
+};
+
+const START = 1000;
+
+// A lap with gates passed at the given times after the gun
+function lap(lapNumber: number, times: Record<string, number>): LapData {
+  const checkpointTimes: Record<string, number> = {};
+  for (const [id, time] of Object.entries(times)) checkpointTimes[id] = START + time;
+  return { lapNumber, startTime: START, endTime: null, duration: null, checkpointTimes, penalties: [] };
+}
+
+describe('getCheckpointSplits', () => {
+  it('labels each gate and the finish on a single lap', () => {
+    const splits = getCheckpointSplits(race, [lap(1, { 'cp-1': 100, 'cp-2': 200, finish: 300 })], START, null);
+    expect(splits).toEqual([
+      { label: 'CP 1', time: 100, delta: null },
+      { label: 'CP 2', time: 200, delta: null },
+      { label: 'Finish', time: 300, delta: null },
+    ]);
+  });
+
+  it('labels gates by lap and the line as the end of each lap on a circuit', () => {
+    const circuit = { ...race, laps: 2 };
+    const laps = [lap(1, { 'cp-1': 100, 'cp-2': 200, finish: 300 }), lap(2, { 'cp-1': 400 })];
+    expect(getCheckpointSplits(circuit, laps, START, null).map((split) => split.label)).toEqual([
+      'L1 CP 1',
+      'L1 CP 2',
+      'Lap 1',
+      'L2 CP 1',
+    ]);
+  });
+
+  it('compares each gate with the best run at the same gate', () => {
+    const splits = getCheckpointSplits(race, [lap(1, { 'cp-1': 100, 'cp-2': 200 })], START, [110, 190, 280]);
+    expect(splits.map((split) => split.delta)).toEqual([-10, 10]);
+  });
+
+  it('lays out passed times the same way as a ghost stores them', () => {
+    expect(getPassedTimes(race, [lap(1, { 'cp-2': 200, 'cp-1': 100 })], START)).toEqual([100, 200]);
+  });
+});
+
+describe('getPlacingReward', () => {
+  it('pays more for every boat beaten', () => {
+    expect(getPlacingReward(3, 4)).toBeGreaterThan(getPlacingReward(4, 4));
+    expect(getPlacingReward(2, 4)).toBeGreaterThan(getPlacingReward(3, 4));
+  });
+
+  it('adds a bonus for winning against a fleet', () => {
+    const beatOne = getPlacingReward(2, 4) - getPlacingReward(3, 4);
+    expect(getPlacingReward(1, 4) - getPlacingReward(2, 4)).toBeGreaterThan(beatOne);
+  });
+
+  it('pays only the finish reward for sailing alone', () => {
+    expect(getPlacingReward(1, 1)).toBe(getPlacingReward(4, 4));
+    expect(getPlacingReward(1, 1)).toBeGreaterThan(0);
+  });
+});
+
+describe('getTrackBounds', () => {
+  it('covers the marks, the start and the path sailed', () => {
+    const bounds = getTrackBounds(race, [{ time: 0, x: -50, z: 1200, speed: 0, throttle: 0, battery: 100 }]);
+    expect(bounds).toEqual({ minX: -50, maxX: 800, minZ: 0, maxZ: 1200 });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Race Report
+ * The post-race breakdown built from what was sampled during the race: splits at
+ * every gate against the personal best, telemetry traces, where the boat hit
+ * something, and the credits paid for the finishing place.
+ */
+
+import type { LapData, RaceConfig } from '../state/useRaceStore';
+
+export const TELEMETRY_SAMPLE_RATE = 2; // samples per second
+
+// Prize money (EC) for finishing a race
+const FINISH_REWARD = 20;
+const BOAT_BEATEN_REWARD = 30; // per boat home behind the player
+const WIN_BONUS = 50;          // for beating a fleet of at least one boat
+
+export interface TelemetrySample {
+  time: number;     // ms since the gun
+  x: number;
+  z: number;
+  speed: number;    // knots
+  throttle: number; // -100 to 100
+  battery: number;  // % charge
+}
+
+// Where and when the boat hit something during the race
+export interface CollisionMark {
+  time: number; // ms since the gun
+  x: number;
+  z: number;
+}
+
+export interface CheckpointSplit {
+  label: string;
+  time: number;         // ms since the gun when the gate was passed
+  delta: number | null; // ms against the personal best at the same gate, negative = ahead
+}
+
+export interface TrackBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+/**
+ * Times every gate was passed (ms since the gun), every lap in the order sailed -
+ * the same layout a ghost replay stores its checkpoint times in.
+ */
+export function getPassedTimes(race: RaceConfig, lapTimes: LapData[], raceStartTime: number): number[] {
+  return lapTimes.flatMap((lap) =>
+    race.checkpoints
+      .map((checkpoint) => lap.checkpointTimes[checkpoint.id])
+      .filter((passed): passed is number => passed !== undefined)
+      .map((passed) => passed - raceStartTime)
+  );
+}
+
+// Splits at each gate passed, against the best run's time at the same gate
+export function getCheckpointSplits(
+  race: RaceConfig,
+  lapTimes: LapData[],
+  raceStartTime: number,
+  bestTimes: number[] | null
+): CheckpointSplit[] {
+  const gates = race.checkpoints.length;
+  return getPassedTimes(race, lapTimes, raceStartTime).map((time, index) => {
+    const lap = Math.floor(index / gates) + 1;
+    const gate = index % gates;
+    const isLineCrossing = gate === gates - 1;
+    let label = isLineCrossing ? 'Finish' : `CP ${gate + 1}`;
+    if (race.laps > 1) label = isLineCrossing ? `Lap ${lap}` : `L${lap} ${label}`;
+
+    const best = bestTimes?.[index];
+    return { label, time, delta: best !== undefined ? time - best : null };
+  });
+}
+
+/**
+ * Credits for a finish: something for getting round, more for every boat beaten,
+ * and a bonus for winning against at least one other boat.
+ */
+export function getPlacingReward(position: number, fleetSize: number): number {
+  const beaten = Math.max(0, fleetSize - position);
+  return FINISH_REWARD + beaten * BOAT_BEATEN_REWARD + (position === 1 && fleetSize > 1 ? WIN_BONUS : 0);
+}
+
+// Area covered by the course and the path sailed, for drawing the track
+export function getTrackBounds(race: RaceConfig, samples: TelemetrySample[]): TrackBounds {
+  const points: [number, number][] = [
+    ...race.checkpoints.map((checkpoint) => checkpoint.position),
+    ...samples.map((sample): [number, number] => [sample.x, sample.z]),
+  ];
+  if (race.startPosition) points.push(race.startPosition);
+
+  return points.reduce<TrackBounds>(
+    (bounds, [x, z]) => ({
+      minX: Math.min(bounds.minX, x),
+      maxX: Math.max(bounds.maxX, x),
+      minZ: Math.min(bounds.minZ, z),
+      maxZ: Math.max(bounds.maxZ, z),
+    }),
+    { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity }
+  );
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { computeStandings, getDiscardCount, getPrizeTable, getRacePoints, scoreRace, type PointsSystemId } from './RegattaScoring';
+
+// Race result from a finishing order; boats listed after the finishers did not finish
+function race(system: PointsSystemId, id: string, finishers: string[], nonFinishers: string[] = []) {
+  const boat = (name: string) => ({ name, isPlayer: name === 'You' });
+  return scoreRace(system, id, id, finishers.map(boat), nonFinishers.map(boat));
+}
+
+describe('scoreRace', () => {
+  it('scores low point by position, DNF as fleet size + 1', () => {
+    const result = race('low-point', 'r1', ['A', 'B'], ['C']);
+    expect(result.entries.map((entry) => [entry.name, entry.position, entry.points])).toEqual([
+      ['A', 1, 1],
+      ['B', 2, 2],
+      ['C', null, 4],
+    ]);
+  });
+
+  it('scores high point from the table, nothing for a DNF', () => {
+    const result = race('high-point', 'r1', ['A', 'B'], ['C']);
+    expect(result.entries.map((entry) => entry.points)).toEqual([25, 18, 0]);
+    expect(getRacePoints('high-point', 11, 12)).toBe(0);
+  });
+});
+
+describe('getDiscardCount', () => {
+  it('only discards once enough races are in, and never every race', () => {
+    expect(getDiscardCount(2, 2)).toBe(0);
+    expect(getDiscardCount(2, 3)).toBe(2);
+    expect(getDiscardCount(1, 5)).toBe(1);
+    expect(getDiscardCount(0, 5)).toBe(0);
+  });
+});
+
+describe('computeStandings', () => {
+  it('ranks on net points after discarding each boat\'s worst race', () => {
+    const races = [
+      race('low-point', 'r1', ['A', 'B', 'C']),
+      race('low-point', 'r2', ['B', 'A', 'C']),
+      race('low-point', 'r3', ['C', 'B'], ['A']),
+    ];
+    const standings = computeStandings('low-point', 1, races);
+
+    expect(standings.map((s) => [s.rank, s.name, s.total, s.net])).toEqual([
+      [1, 'B', 5, 3],
+      [2, 'A', 7, 3],
+      [3, 'C', 7, 4],
+    ]);
+    // A throws out its DNF; tied worst scores discard the latest race
+    expect(standings.find((s) => s.name === 'A')!.discarded).toEqual([2]);
+    expect(standings.find((s) => s.name === 'B')!.discarded).toEqual([2]);
+    expect(standings.find((s) => s.name === 'C')!.discarded).toEqual([1]);
+  });
+
+  it('breaks ties on best results, then on the latest race', () => {
+    const races = [
+      race('low-point', 'r1', ['A', 'B', 'C']),
+      race('low-point', 'r2', ['C', 'B', 'A']),
+    ];
+    // All on 4 points: A and C each have a win over B's two seconds; C won the latest race
+    expect(computeStandings('low-point', 0, races).map((s) => s.name)).toEqual(['C', 'A', 'B']);
+  });
+
+  it('leaves discards out of the countback', () => {
+    const races = [
+      race('low-point', 'r1', ['B', 'A', 'C', 'D']),
+      race('low-point', 'r2', ['C', 'D', 'B'], ['A']),
+      race('low-point', 'r3', ['A', 'B', 'C', 'D']),
+    ];
+    // A and B both keep a 1 and a 2; B's better discard does not count, so A's win in the latest race decides
+    expect(computeStandings('low-point', 1, races).map((s) => [s.name, s.net])).toEqual([
+      ['A', 3],
+      ['B', 3],
+      ['C', 4],
+      ['D', 6],
+    ]);
+  });
+
+  it('ranks high point with the most points first', () => {
+    const races = [
+      race('high-point', 'r1', ['A', 'B']),
+      race('high-point', 'r2', ['B', 'A']),
+      race('high-point', 'r3', ['B', 'A']),
+    ];
+    expect(computeStandings('high-point', 0, races).map((s) => [s.name, s.net])).toEqual([
+      ['B', 18 + 25 + 25],
+      ['A', 25 + 18 + 18],
+    ]);
+  });
+
+  it('counts a race a boat missed as a DNF', () => {
+    const races = [
+      race('low-point', 'r1', ['A', 'You']),
+      race('low-point', 'r2', ['You', 'B']),
+    ];
+    const standings = computeStandings('low-point', 0, races);
+    const a = standings.find((s) => s.name === 'A')!;
+
+    expect(a.scores).toEqual([1, null]);
+    expect(a.total).toBe(1 + 3);
+    expect(standings[0].name).toBe('You');
+    expect(standings[0].isPlayer).toBe(true);
+  });
+});
+
+describe('getPrizeTable', () => {
+  it('splits the pool 50/30/20', () => {
+    expect(getPrizeTable(4, 100)).toEqual([200, 120, 80]);
+  });
+});
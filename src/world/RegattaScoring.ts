@@ -0,0 +1,160 @@
+/**
+ * Regatta Scoring
+ * Points for a series of races sailed by the same fleet: per-race points under a
+ * chosen system, discarded worst results, cumulative standings and prize money.
+ */
+
+export type PointsSystemId = 'low-point' | 'high-point';
+
+export interface PointsSystem {
+  id: PointsSystemId;
+  name: string;
+  description: string;
+  lowWins: boolean; // fewest points leads
+}
+
+export const POINTS_SYSTEMS: Record<PointsSystemId, PointsSystem> = {
+  'low-point': {
+    id: 'low-point',
+    name: 'Low Point',
+    description: '1 point for 1st, 2 for 2nd... DNF scores fleet size + 1. Fewest points wins.',
+    lowWins: true,
+  },
+  'high-point': {
+    id: 'high-point',
+    name: 'High Point',
+    description: '25-18-15-12-10-8-6-4-2-1 down the fleet, nothing for a DNF. Most points wins.',
+    lowWins: false,
+  },
+};
+
+const HIGH_POINT_TABLE = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
+
+export const MAX_DISCARDS = 2;
+export const DISCARD_MIN_RACES = 3; // races sailed before any result is thrown out
+
+// One boat's result in one race; position null = did not finish
+export interface RegattaRaceEntry {
+  name: string;
+  isPlayer: boolean;
+  position: number | null;
+  points: number;
+}
+
+export interface RegattaRaceResult {
+  raceId: string;
+  raceName: string;
+  entries: RegattaRaceEntry[];
+}
+
+export interface RegattaStanding {
+  rank: number;
+  name: string;
+  isPlayer: boolean;
+  scores: (number | null)[]; // per race sailed, null where the boat has no result
+  discarded: number[];       // indexes into scores thrown out
+  total: number;
+  net: number;               // total less the discards
+}
+
+export function getRacePoints(system: PointsSystemId, position: number | null, fleetSize: number): number {
+  if (system === 'low-point') return position ?? fleetSize + 1;
+  return position !== null ? HIGH_POINT_TABLE[position - 1] ?? 0 : 0;
+}
+
+// Score a finishing order: positions are in the order given, then the DNFs
+export function scoreRace(
+  system: PointsSystemId,
+  raceId: string,
+  raceName: string,
+  finishers: { name: string; isPlayer: boolean }[],
+  nonFinishers: { name: string; isPlayer: boolean }[]
+): RegattaRaceResult {
+  const fleetSize = finishers.length + nonFinishers.length;
+  return {
+    raceId,
+    raceName,
+    entries: [
+      ...finishers.map((boat, index) => ({
+        ...boat,
+        position: index + 1,
+        points: getRacePoints(system, index + 1, fleetSize),
+      })),
+      ...nonFinishers.map((boat) => ({
+        ...boat,
+        position: null,
+        points: getRacePoints(system, null, fleetSize),
+      })),
+    ],
+  };
+}
+
+// How many results each boat throws out after this many races
+export function getDiscardCount(discards: number, racesSailed: number): number {
+  return racesSailed >= DISCARD_MIN_RACES ? Math.min(discards, racesSailed - 1) : 0;
+}
+
+/**
+ * Series standings after the races sailed so far. Each boat's worst results are
+ * discarded once enough races are in; ties go to the boat with the better best
+ * results it kept (countback), then to the better result in the latest race.
+ */
+export function computeStandings(
+  system: PointsSystemId,
+  discards: number,
+  races: RegattaRaceResult[]
+): RegattaStanding[] {
+  const { lowWins } = POINTS_SYSTEMS[system];
+  const boats = new Map<string, boolean>();
+  races.forEach((race) => race.entries.forEach((entry) => boats.set(entry.name, entry.isPlayer)));
+
+  const discardCount = getDiscardCount(discards, races.length);
+  const worse = (a: number, b: number) => (lowWins ? b - a : a - b); // sorts the worst score first
+
+  const standings = Array.from(boats, ([name, isPlayer]) => {
+    const scores = races.map((race) => race.entries.find((entry) => entry.name === name)?.points ?? null);
+    // A race a boat missed counts as a DNF
+    const counted = scores.map((score, index) => score ?? getRacePoints(system, null, races[index].entries.length));
+    const discarded = counted
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => worse(a.score, b.score) || b.index - a.index)
+      .slice(0, discardCount)
+      .map(({ index }) => index);
+    const total = counted.reduce((sum, score) => sum + score, 0);
+    const kept = counted.filter((_, index) => !discarded.includes(index));
+    const net = kept.reduce((sum, score) => sum + score, 0);
+    return { rank: 0, name, isPlayer, scores, discarded, total, net, counted, kept };
+  });
+
+  standings.sort((a, b) => {
+    if (a.net !== b.net) return lowWins ? a.net - b.net : b.net - a.net;
+    // Countback: best scores first, compared in turn, leaving discards out
+    const bestFirst = (scores: number[]) => [...scores].sort((x, y) => worse(y, x));
+    const aBest = bestFirst(a.kept);
+    const bBest = bestFirst(b.kept);
+    for (let i = 0; i < aBest.length; i++) {
+      if (aBest[i] !== bBest[i]) return worse(bBest[i], aBest[i]);
+    }
+    const last = a.counted.length - 1;
+    return last >= 0 ? worse(b.counted[last], a.counted[last]) : 0;
+  });
+
+  return standings.map((standing, index) => ({
+    rank: index + 1,
+    name: standing.name,
+    isPlayer: standing.isPlayer,
+    scores: standing.scores,
+    discarded: standing.discarded,
+    total: standing.total,
+    net: standing.net,
+  }));
+}
+
+/**
+ * Prize money for the series' top places: a pool that grows with the number of
+ * races, split 50/30/20 between the podium.
+ */
+export function getPrizeTable(raceCount: number, prizePerRace: number): number[] {
+  const pool = raceCount * prizePerRace;
+  return [0.5, 0.3, 0.2].map((share) => Math.round(pool * share));
+}
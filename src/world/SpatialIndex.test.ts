@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialHash, type SpatialItem } from './SpatialIndex';
+
+function item(id: string, x: number, z: number, radius = 5): SpatialItem {
+  return { id, position: [x, z], radius };
+}
+
+// What a query should return, by checking every item
+function bruteForce(items: SpatialItem[], x: number, z: number, range: number): string[] {
+  return items
+    .filter((i) => Math.hypot(x - i.position[0], z - i.position[1]) <= range + i.radius)
+    .map((i) => i.id)
+    .sort();
+}
+
+function ids(items: SpatialItem[]): string[] {
+  return items.map((i) => i.id).sort();
+}
+
+// Deterministic scatter of items
+function scatter(count: number, seed: number): SpatialItem[] {
+  let state = seed;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+  return Array.from({ length: count }, (_, i) => item(`ice-${i}`, (random() - 0.5) * 2000, (random() - 0.5) * 2000, 1 + random() * 40));
+}
+
+describe('SpatialHash', () => {
+  it('finds the same items as checking every one', () => {
+    const items = scatter(200, 1);
+    const hash = new SpatialHash(100, items);
+
+    for (const [x, z, range] of [[0, 0, 50], [500, -300, 200], [-999, 999, 10], [120, 80, 0]]) {
+      expect(ids(hash.query(x, z, range))).toEqual(bruteForce(items, x, z, range));
+    }
+  });
+
+  it('returns each item once even when it spans several cells', () => {
+    const hash = new SpatialHash(10, [item('big', 0, 0, 45)]);
+    expect(ids(hash.query(0, 0, 100))).toEqual(['big']);
+  });
+
+  it('moves items across cell edges on update', () => {
+    const hash = new SpatialHash(100, [item('a', 50, 50)]);
+    hash.update(item('a', 950, 950));
+
+    expect(hash.query(50, 50, 10)).toEqual([]);
+    expect(ids(hash.query(950, 950, 10))).toEqual(['a']);
+    expect(hash.size).toBe(1);
+  });
+
+  it('returns the latest copy of an item moved within its cell', () => {
+    const hash = new SpatialHash(100, [item('a', 50, 50)]);
+    const moved = item('a', 55, 50);
+    hash.update(moved);
+    expect(hash.query(55, 50, 1)[0]).toBe(moved);
+  });
+
+  it('keeps in step with drifting items through sync', () => {
+    let items = scatter(150, 7);
+    const hash = new SpatialHash(100, items);
+
+    for (let step = 0; step < 20; step++) {
+      // Drift everything, lose a piece and calve a new one each step
+      items = items
+        .slice(1)
+        .map((i) => item(i.id, i.position[0] + 37, i.position[1] - 23, i.radius))
+        .concat(item(`calved-${step}`, step * 10, -step * 10, 3));
+      hash.sync(items);
+
+      expect(hash.size).toBe(items.length);
+      for (const [x, z, range] of [[0, 0, 300], [700, -500, 250], [-600, 400, 150]]) {
+        expect(ids(hash.query(x, z, range))).toEqual(bruteForce(items, x, z, range));
+      }
+    }
+  });
+
+  it('answers find in insertion order within a cell', () => {
+    const hash = new SpatialHash(100, [item('first', 10, 10), item('second', 12, 12)]);
+    expect(hash.find(11, 11, 5, () => true)?.id).toBe('first');
+  });
+
+  it('forgets removed items', () => {
+    const hash = new SpatialHash(100, [item('a', 0, 0), item('b', 5, 5)]);
+    hash.remove('a');
+    expect(ids(hash.query(0, 0, 10))).toEqual(['b']);
+    expect(hash.size).toBe(1);
+  });
+});
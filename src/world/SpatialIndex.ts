@@ -0,0 +1,187 @@
+/**
+ * Spatial Index
+ * Uniform grid hashes for the world's round obstacles, so proximity queries only
+ * look at the cells around a point instead of every island and piece of ice.
+ * Cells keep items in insertion order, so a world built from the same seed
+ * answers queries the same way every time.
+ */
+
+import type { FloatingIce, Iceberg, Island, Shoal, WindZone } from './WorldGenerator';
+
+// Cell sizes (units) matched to each kind of item's typical size
+const ISLAND_CELL = 1000;
+const ICEBERG_CELL = 250;
+const FLOATING_ICE_CELL = 100;
+const WIND_ZONE_CELL = 2000;
+const SHOAL_CELL = 250;
+
+// Anything with a centre and a radius
+export interface SpatialItem {
+  id: string;
+  position: [number, number];
+  radius: number;
+}
+
+interface CellRange {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// Grid coordinates packed into one number (worlds are far smaller than 32768 cells across)
+function cellKey(cx: number, cz: number): number {
+  return (cx + 32768) * 65536 + (cz + 32768);
+}
+
+export class SpatialHash<T extends SpatialItem> {
+  private readonly cells = new Map<number, T[]>();
+  private readonly entries = new Map<string, { item: T; range: CellRange }>();
+
+  constructor(readonly cellSize: number, items: T[] = []) {
+    items.forEach((item) => this.insert(item));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Cells covered by a circle's bounding box
+  private getRange(x: number, z: number, radius: number): CellRange {
+    return {
+      minX: Math.floor((x - radius) / this.cellSize),
+      maxX: Math.floor((x + radius) / this.cellSize),
+      minZ: Math.floor((z - radius) / this.cellSize),
+      maxZ: Math.floor((z + radius) / this.cellSize),
+    };
+  }
+
+  insert(item: T): void {
+    if (this.entries.has(item.id)) {
+      this.update(item);
+      return;
+    }
+
+    const range = this.getRange(item.position[0], item.position[1], item.radius);
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cz = range.minZ; cz <= range.maxZ; cz++) {
+        const key = cellKey(cx, cz);
+        const cell = this.cells.get(key);
+        if (cell) cell.push(item);
+        else this.cells.set(key, [item]);
+      }
+    }
+    this.entries.set(item.id, { item, range });
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    const { range } = entry;
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cz = range.minZ; cz <= range.maxZ; cz++) {
+        const key = cellKey(cx, cz);
+        const cell = this.cells.get(key);
+        if (!cell) continue;
+        const index = cell.indexOf(entry.item);
+        if (index >= 0) cell.splice(index, 1);
+        if (cell.length === 0) this.cells.delete(key);
+      }
+    }
+    this.entries.delete(id);
+  }
+
+  // Moves an item; it only changes cells when it has drifted across a cell edge
+  update(item: T): void {
+    const entry = this.entries.get(item.id);
+    if (!entry) {
+      this.insert(item);
+      return;
+    }
+
+    const range = this.getRange(item.position[0], item.position[1], item.radius);
+    const { range: old } = entry;
+    if (range.minX !== old.minX || range.maxX !== old.maxX || range.minZ !== old.minZ || range.maxZ !== old.maxZ) {
+      this.remove(item.id);
+      this.insert(item);
+      return;
+    }
+
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cz = range.minZ; cz <= range.maxZ; cz++) {
+        const cell = this.cells.get(cellKey(cx, cz));
+        const index = cell ? cell.indexOf(entry.item) : -1;
+        if (cell && index >= 0) cell[index] = item;
+      }
+    }
+    entry.item = item;
+  }
+
+  // Brings the index in line with a new set of items: moved ones are updated,
+  // missing ones removed and new ones added
+  sync(items: T[]): void {
+    const current = new Set<string>();
+    for (const item of items) {
+      current.add(item.id);
+      if (this.entries.get(item.id)?.item !== item) this.update(item);
+    }
+    for (const id of Array.from(this.entries.keys())) {
+      if (!current.has(id)) this.remove(id);
+    }
+  }
+
+  /**
+   * First item near a point that passes the test, given its distance from the
+   * point's centre. Only items whose circles come within range are tested.
+   */
+  find(x: number, z: number, range: number, test: (item: T, distance: number) => boolean): T | null {
+    const cells = this.getRange(x, z, range);
+    for (let cx = cells.minX; cx <= cells.maxX; cx++) {
+      for (let cz = cells.minZ; cz <= cells.maxZ; cz++) {
+        const cell = this.cells.get(cellKey(cx, cz));
+        if (!cell) continue;
+        for (const item of cell) {
+          const distance = Math.hypot(x - item.position[0], z - item.position[1]);
+          if (distance <= range + item.radius && test(item, distance)) return item;
+        }
+      }
+    }
+    return null;
+  }
+
+  // Every item whose circle comes within range of a point
+  query(x: number, z: number, range: number): T[] {
+    const found = new Set<T>();
+    this.find(x, z, range, (item) => {
+      found.add(item);
+      return false;
+    });
+    return Array.from(found);
+  }
+}
+
+// One index per kind of obstacle in a world
+export interface WorldIndex {
+  islands: SpatialHash<Island>;
+  icebergs: SpatialHash<Iceberg>;
+  floatingIce: SpatialHash<FloatingIce>;
+  windZones: SpatialHash<WindZone>;
+  shoals: SpatialHash<Shoal>;
+}
+
+export function createWorldIndex(world: {
+  islands: Island[];
+  icebergs: Iceberg[];
+  floatingIce: FloatingIce[];
+  windZones: WindZone[];
+  shoals: Shoal[];
+}): WorldIndex {
+  return {
+    islands: new SpatialHash(ISLAND_CELL, world.islands),
+    icebergs: new SpatialHash(ICEBERG_CELL, world.icebergs),
+    floatingIce: new SpatialHash(FLOATING_ICE_CELL, world.floatingIce),
+    windZones: new SpatialHash(WIND_ZONE_CELL, world.windZones),
+    shoals: new SpatialHash(SHOAL_CELL, world.shoals),
+  };
+}
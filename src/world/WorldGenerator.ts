@@ -1,4 +1,6 @@
 import { Perlin } from '../utils/Perlin';
+import { BASE_PRICES, BERTH_OFFSET, BERTH_RADIUS, HOME_MARINA_ID, type MarinaPrices, type MarinaService } from './MarinaServices';
+import { createWorldIndex, type SpatialHash, type WorldIndex } from './SpatialIndex';
 
 export type WorldDifficulty = 'peaceful' | 'moderate' | 'challenging' | 'extreme';
 
@@ -53,7 +55,7 @@ export interface MapConfig {
   discoveryRewardMultiplier: number; // 0.5 – 5.0
 
   // ── Marina ──
-  marinaChargeRate: number;      // 1 – 25 EC/s
+  marinaChargeRate: number;      // 1 – 25 kWh/s of shore power (1 EC ≈ 1 kWh)
   safeZoneRadius: number;        // 100 – 1500 units
 
   // ── Fun / Challenge Modifiers ──
@@ -137,7 +139,9 @@ export interface RaceRoute {
     order: number;
   }>;
   startPosition: [number, number];
-  endPosition: [number, number];
+  endPosition: [number, number];   // same as the start on a loop
+  loop: boolean;                   // circuit back to the start line, sailed for several laps
+  laps: number;
 }
 
 export interface WindZone {
@@ -157,12 +161,71 @@ export interface POI {
   discoveryReward: number; // Energy credits
 }
 
+// ── Ocean currents ──
+// Flow directions follow headings: 0 = +Z, flowing towards (sin, cos)
+export interface CurrentGyre {
+  id: string;
+  position: [number, number];
+  radius: number;
+  speed: number;   // m/s peak, positive = clockwise on the map
+}
+
+export interface CurrentJet {
+  id: string;
+  position: [number, number];
+  direction: number; // radians
+  width: number;
+  length: number;
+  speed: number;     // m/s peak along the axis
+}
+
+export interface OceanCurrents {
+  drift: [number, number]; // m/s background flow
+  gyres: CurrentGyre[];    // circulation around island clusters
+  jets: CurrentJet[];      // accelerated flow through narrows between islands
+  maxSpeed: number;        // m/s cap where features overlap
+}
+
+// ── Seabed ──
+// Deep water over a sunken trough, deepest at the centre
+export interface DeepBasin {
+  id: string;
+  position: [number, number];
+  radius: number;
+  depth: number; // m below the surrounding seabed at the centre
+}
+
+// Coral heads rising towards the surface off a coral island
+export interface Shoal {
+  id: string;
+  position: [number, number];
+  radius: number;
+  depth: number;    // m of water over the crest
+  islandId: string;
+}
+
+// Seabed depths sampled on a regular grid over the world bounds; island
+// shelves and shoals are too small for the grid and are added when sampled
+export interface Bathymetry {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  depths: number[]; // m, row-major from bounds.min
+  basins: DeepBasin[];
+  shoals: Shoal[];
+}
+
 export interface Marina {
   id: string;
   position: [number, number];
+  heading: number;           // radians, the way the piers run out to sea
   name: string;
-  dockingZoneRadius: number;
-  chargeRate: number; // EC per second when docked
+  islandId: string | null;   // island whose coast it's built on (null for the central hub)
+  dockingZoneRadius: number; // Berth area where the boat can tie up
+  safeZoneRadius: number;    // No collision damage or hazards inside
+  chargeRate: number;        // kWh of shore power per second when docked
+  services: MarinaService[];
+  prices: MarinaPrices;
 }
 
 export interface WorldData {
@@ -174,13 +237,58 @@ export interface WorldData {
   icebergs: Iceberg[];
   floatingIce: FloatingIce[];  // Smaller ice chunks
   windZones: WindZone[];
+  currents: OceanCurrents;
+  bathymetry: Bathymetry;
   pois: POI[];
-  marina: Marina;
+  marinas: Marina[];           // the central hub first, then harbours on island coasts
   races: RaceRoute[];
+  index: WorldIndex; // proximity lookups; kept in step with the arrays when ice drifts
 }
 
 const perlin = new Perlin(0);
 
+// Seeded 0-1 value for a given input
+const seededRandom = (s: number): number => {
+  const x = Math.sin(s) * 10000;
+  return x - Math.floor(x);
+};
+
+// Smooth 0-1 noise for a given seed, varying over about one unit of x and z
+const valueNoise = (seed: number, x: number, z: number): number => {
+  const x0 = Math.floor(x);
+  const z0 = Math.floor(z);
+  const corner = (i: number, j: number) => seededRandom(seed + (x0 + i) * 127.1 + (z0 + j) * 311.7);
+  const u = (x - x0) * (x - x0) * (3 - 2 * (x - x0));
+  const v = (z - z0) * (z - z0) * (3 - 2 * (z - z0));
+  const top = corner(0, 0) + (corner(1, 0) - corner(0, 0)) * u;
+  const bottom = corner(0, 1) + (corner(1, 1) - corner(0, 1)) * u;
+  return top + (bottom - top) * v;
+};
+
+// Seabed tuning
+export const OPEN_WATER_DEPTH = 40; // m, mean depth of the open sea
+const SEABED_VARIATION = 15;        // m either side of it from rises and troughs
+const SEABED_SCALE = 1800;          // m across a typical rise or trough
+const BATHYMETRY_CELL = 100;        // m between grid samples
+const SHORE_LEVEL = 3;              // m of island terrain below the waterline; the shore is where it rises past this
+const SHELF_WIDTH = 150;            // m beyond an island's rim over which the seabed falls to the surrounding depth
+const SHOAL_REACH = 500;            // m beyond a coral island's rim where its shoals grow
+
+// Harbour tuning
+const HARBOUR_SPACING = 4000;    // m of world size per coastal harbour
+const HARBOUR_SHORE_OFFSET = 40; // m off an island's rim to the harbour platform
+const HARBOUR_SAFE_ZONE = 300;   // m, at most
+const HARBOUR_NAMES: Record<Island['type'], string[]> = {
+  volcanic: ['Basalt Cove', 'Ember Bay', 'Obsidian Harbour', 'Cinder Quay'],
+  coral: ['Reef Harbour', 'Atoll Moorings', 'Coral Quay', 'Lagoon Point'],
+  sandy: ['Dune Harbour', 'Shell Beach Marina', 'Sandbar Moorings', 'Driftwood Bay'],
+};
+
+// Current tuning
+const MAX_CURRENT_SPEED = 1.5;  // m/s at currentStrength 1 (~3 knots)
+const CLUSTER_LINK_GAP = 1500;  // islands closer than this (edge to edge) share a gyre
+const NARROWS_MAX_GAP = 900;    // channels narrower than this get a jet
+
 // Difficulty settings for iceberg and floating ice generation
 // Increased floating ice counts for more Antarctic feel with smaller pieces spread over the map
 const DIFFICULTY_SETTINGS: Record<WorldDifficulty, {
@@ -223,11 +331,13 @@ export function generateWorld(
   };
 
   const islands = generateIslands(config, bounds);
-  const icebergs = generateIcebergs(config, bounds, islands);
-  const floatingIce = generateFloatingIce(config, bounds, islands, icebergs);
+  const marinas = generateMarinas(config, islands);
+  const icebergs = generateIcebergs(config, bounds, islands, marinas);
+  const floatingIce = generateFloatingIce(config, bounds, islands, icebergs, marinas);
   const windZones = generateWindZones(config, bounds);
+  const currents = generateCurrents(config, islands);
+  const bathymetry = generateBathymetry(config, bounds, islands, marinas);
   const pois = generatePOIs(config, bounds, islands);
-  const marina = generateMarina(config);
   const races = generateRaces(config, bounds, islands, icebergs);
 
   return {
@@ -239,9 +349,12 @@ export function generateWorld(
     icebergs,
     floatingIce,
     windZones,
+    currents,
+    bathymetry,
     pois,
-    marina,
+    marinas,
     races,
+    index: createWorldIndex({ islands, icebergs, floatingIce, windZones, shoals: bathymetry.shoals }),
   };
 }
 
@@ -250,6 +363,8 @@ function generateIslands(config: MapConfig, bounds: WorldData['bounds']): Island
   const seed = config.seed;
   const islandCount = config.islandCount;
   const halfWorld = config.worldSize / 2;
+  // Elevation closures keep their own noise so they stay valid after another world is generated
+  const terrain = new Perlin(seed);
 
   for (let i = 0; i < islandCount; i++) {
     let x: number, z: number;
@@ -302,7 +417,7 @@ function generateIslands(config: MapConfig, bounds: WorldData['bounds']): Island
     const baseHeight = 100 + perlin.noise(seed + i * 3, 3) * 150;
     const height = baseHeight * config.islandHeightScale;
     const types: Array<Island['type']> = ['volcanic', 'coral', 'sandy'];
-    const islandTypeIndex = Math.floor(Math.abs(perlin.noise(seed + i * 4, 4)) * types.length) % types.length;
+    const islandTypeIndex = Math.floor(seededRandom(seed + i * 4 + 0.5) * types.length) % types.length;
 
     islands.push({
       id: `island-${i}`,
@@ -310,7 +425,7 @@ function generateIslands(config: MapConfig, bounds: WorldData['bounds']): Island
       radius,
       height,
       type: types[islandTypeIndex],
-      elevation: createElevationFunction(clampedX, clampedZ, radius, height, seed + i),
+      elevation: createElevationFunction(terrain, clampedX, clampedZ, radius, height),
     });
   }
 
@@ -318,11 +433,11 @@ function generateIslands(config: MapConfig, bounds: WorldData['bounds']): Island
 }
 
 function createElevationFunction(
+  terrain: Perlin,
   centerX: number,
   centerZ: number,
   radius: number,
-  maxHeight: number,
-  _seed: number
+  maxHeight: number
 ) {
   return (x: number, z: number): number => {
     try {
@@ -337,7 +452,7 @@ function createElevationFunction(
       const falloff = Math.cos(normalizedDist * Math.PI * 0.5) ** 2;
 
       // Add Perlin noise for terrain variation
-      const noiseVal = perlin.noise(x / 100, z / 100) * 0.5;
+      const noiseVal = terrain.noise(x / 100, z / 100) * 0.5;
 
       const result = maxHeight * falloff * (0.8 + noiseVal);
 
@@ -384,6 +499,176 @@ function generateWindZones(config: MapConfig, _bounds: WorldData['bounds']): Win
   return zones;
 }
 
+function generateCurrents(config: MapConfig, islands: Island[]): OceanCurrents {
+  const strength = config.currentStrength * MAX_CURRENT_SPEED;
+  const currents: OceanCurrents = { drift: [0, 0], gyres: [], jets: [], maxSpeed: strength * 2 };
+
+  if (strength <= 0) return currents;
+
+  const seed = config.seed;
+
+  // Gentle background drift
+  const driftAngle = seededRandom(seed * 0.37 + 1) * Math.PI * 2;
+  const driftSpeed = strength * (0.1 + seededRandom(seed * 0.37 + 2) * 0.15);
+  currents.drift = [Math.sin(driftAngle) * driftSpeed, Math.cos(driftAngle) * driftSpeed];
+
+  // Group islands into clusters (union-find on edge-to-edge distance)
+  const parent = islands.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < islands.length; i++) {
+    for (let j = i + 1; j < islands.length; j++) {
+      const a = islands[i];
+      const b = islands[j];
+      const dx = b.position[0] - a.position[0];
+      const dz = b.position[1] - a.position[1];
+      const centerDist = Math.sqrt(dx * dx + dz * dz);
+      const gap = centerDist - a.radius - b.radius;
+
+      if (gap < CLUSTER_LINK_GAP) {
+        parent[find(j)] = find(i);
+      }
+
+      // Narrows: the channel between two close islands
+      if (gap > 0 && gap < NARROWS_MAX_GAP && centerDist > 0) {
+        const ux = dx / centerDist;
+        const uz = dz / centerDist;
+        const mid: [number, number] = [
+          a.position[0] + ux * (a.radius + gap / 2),
+          a.position[1] + uz * (a.radius + gap / 2),
+        ];
+        // Flow runs across the line joining the islands, either way
+        const flip = seededRandom(seed + i * 31 + j * 17) < 0.5 ? 0 : Math.PI;
+        const venturi = Math.max(1, Math.min(2, NARROWS_MAX_GAP / (gap + 300)));
+
+        currents.jets.push({
+          id: `current-jet-${currents.jets.length}`,
+          position: mid,
+          direction: Math.atan2(-uz, ux) + flip,
+          width: Math.max(100, gap),
+          length: Math.min(a.radius, b.radius) * 2,
+          speed: strength * venturi,
+        });
+      }
+    }
+  }
+
+  // One gyre per cluster of two or more islands
+  const clusters = new Map<number, Island[]>();
+  islands.forEach((island, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), island]);
+  });
+
+  for (const members of clusters.values()) {
+    if (members.length < 2) continue;
+
+    const cx = members.reduce((sum, m) => sum + m.position[0], 0) / members.length;
+    const cz = members.reduce((sum, m) => sum + m.position[1], 0) / members.length;
+    const extent = Math.max(
+      ...members.map((m) => Math.hypot(m.position[0] - cx, m.position[1] - cz) + m.radius)
+    );
+    const index = currents.gyres.length;
+    const spin = seededRandom(seed + index * 53 + 7) < 0.5 ? -1 : 1;
+
+    currents.gyres.push({
+      id: `current-gyre-${index}`,
+      position: [cx, cz],
+      radius: extent + 600,
+      speed: spin * strength * (0.5 + seededRandom(seed + index * 53 + 11) * 0.5),
+    });
+  }
+
+  return currents;
+}
+
+/**
+ * Seabed: a rolling floor around the open-water depth with a few deep basins
+ * away from the islands, baked into a grid, plus coral shoals off every coral
+ * island. Nothing shoals inside a marina's safe zone.
+ */
+function generateBathymetry(
+  config: MapConfig,
+  bounds: WorldData['bounds'],
+  islands: Island[],
+  marinas: Marina[]
+): Bathymetry {
+  const seed = config.seed;
+  const halfWorld = config.worldSize / 2;
+
+  // Deep basins in open water, clear of islands and marinas
+  const basins: DeepBasin[] = [];
+  const basinCount = 2 + Math.floor(seededRandom(seed * 0.53 + 1) * 3);
+  for (let attempt = 0; attempt < basinCount * 10 && basins.length < basinCount; attempt++) {
+    const radius = (800 + seededRandom(seed * 0.53 + attempt * 7 + 2) * 1200) * (config.worldSize / 10000);
+    const x = (seededRandom(seed * 0.53 + attempt * 7 + 3) - 0.5) * (config.worldSize - radius);
+    const z = (seededRandom(seed * 0.53 + attempt * 7 + 4) - 0.5) * (config.worldSize - radius);
+    const nearIsland = islands.some(
+      (island) => Math.hypot(x - island.position[0], z - island.position[1]) < island.radius + radius * 0.6
+    );
+    if (nearIsland || isNearMarina(marinas, x, z, radius * 0.6)) continue;
+
+    basins.push({
+      id: `basin-${basins.length}`,
+      position: [x, z],
+      radius,
+      depth: 60 + seededRandom(seed * 0.53 + attempt * 7 + 5) * 100,
+    });
+  }
+
+  // Coral heads scattered off coral islands
+  const shoals: Shoal[] = [];
+  islands.forEach((island, i) => {
+    if (island.type !== 'coral') return;
+
+    const count = 4 + Math.floor(seededRandom(seed + i * 41 + 1) * 4);
+    for (let j = 0; j < count; j++) {
+      const r = (k: number) => seededRandom(seed + i * 41 + j * 13 + k);
+      const angle = r(2) * Math.PI * 2;
+      const distance = island.radius + 60 + r(3) * SHOAL_REACH;
+      const x = island.position[0] + Math.sin(angle) * distance;
+      const z = island.position[1] + Math.cos(angle) * distance;
+      if (isNearMarina(marinas, x, z, 100)) continue;
+      if (Math.abs(x) > halfWorld || Math.abs(z) > halfWorld) continue;
+      const onIsland = islands.some(
+        (other) => Math.hypot(x - other.position[0], z - other.position[1]) < other.radius + SHELF_WIDTH
+      );
+      if (onIsland) continue;
+
+      shoals.push({
+        id: `shoal-${shoals.length}`,
+        position: [x, z],
+        radius: 30 + r(4) * 60,
+        depth: 0.5 + r(5) * 2.5,
+        islandId: island.id,
+      });
+    }
+  });
+
+  // Rolling seabed plus basins, on the grid
+  const columns = Math.ceil((bounds.max[0] - bounds.min[0]) / BATHYMETRY_CELL) + 1;
+  const rows = Math.ceil((bounds.max[1] - bounds.min[1]) / BATHYMETRY_CELL) + 1;
+  const depths: number[] = new Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = bounds.min[0] + column * BATHYMETRY_CELL;
+      const z = bounds.min[1] + row * BATHYMETRY_CELL;
+      const rolling =
+        valueNoise(seed, x / SEABED_SCALE, z / SEABED_SCALE) * 0.7 +
+        valueNoise(seed + 1, x / (SEABED_SCALE / 3), z / (SEABED_SCALE / 3)) * 0.3;
+      let depth = OPEN_WATER_DEPTH + (rolling * 2 - 1) * SEABED_VARIATION;
+
+      for (const basin of basins) {
+        const dist = Math.hypot(x - basin.position[0], z - basin.position[1]);
+        if (dist < basin.radius) depth += basin.depth * Math.cos((dist / basin.radius) * Math.PI * 0.5) ** 2;
+      }
+      depths[row * columns + column] = depth;
+    }
+  }
+
+  return { cellSize: BATHYMETRY_CELL, columns, rows, depths, basins, shoals };
+}
+
 function generatePOIs(
   config: MapConfig,
   _bounds: WorldData['bounds'],
@@ -414,8 +699,7 @@ function generatePOIs(
     const x = Math.cos(angle) * distance;
     const z = Math.sin(angle) * distance;
 
-    const noiseValue = perlin.noise(seed + i * 11, 11);
-    const typeIndex = Math.floor(Math.abs(noiseValue) * types.length) % types.length;
+    const typeIndex = Math.floor(seededRandom(seed + i * 11 + 0.5) * types.length) % types.length;
     const type = types[typeIndex];
 
     pois.push({
@@ -430,38 +714,196 @@ function generatePOIs(
   return pois;
 }
 
-function generateMarina(config: MapConfig): Marina {
-  return {
-    id: 'marina-hub',
-    position: [0, 0],
-    name: 'Lagoon Marina',
-    dockingZoneRadius: config.safeZoneRadius,
-    chargeRate: config.marinaChargeRate,
-  };
-}
+/**
+ * Harbour network: the central hub the boat starts from, plus harbours on the
+ * coasts of islands spread across the map (about one per 4 km of world size).
+ * Each faces open water, with its own charge rate, services and prices; only
+ * the hub sells upgrades, and the further out a harbour is, the more it charges.
+ */
+function generateMarinas(config: MapConfig, islands: Island[]): Marina[] {
+  const seed = config.seed;
+  const halfWorld = config.worldSize / 2;
+  const marinas: Marina[] = [
+    {
+      id: HOME_MARINA_ID,
+      position: [0, 0],
+      heading: 0,
+      name: 'Lagoon Marina',
+      islandId: null,
+      dockingZoneRadius: Math.min(BERTH_RADIUS, config.safeZoneRadius),
+      safeZoneRadius: config.safeZoneRadius,
+      chargeRate: config.marinaChargeRate,
+      services: ['shore-power', 'repair', 'energy-sale', 'upgrades'],
+      prices: BASE_PRICES,
+    },
+  ];
 
-export function getIslandAtPosition(islands: Island[], x: number, z: number): Island | null {
-  for (const island of islands) {
-    const dx = x - island.position[0];
-    const dz = z - island.position[1];
-    const distToCenter = Math.sqrt(dx * dx + dz * dz);
-    if (distToCenter <= island.radius) {
-      return island;
+  // Only islands with a coast to build on
+  const candidates = islands.filter((island) => island.radius > 0);
+  const harbourCount = Math.min(candidates.length, Math.max(1, Math.round(config.worldSize / HARBOUR_SPACING)));
+  const usedNames = new Set<string>();
+
+  while (marinas.length <= harbourCount && candidates.length > 0) {
+    // The island furthest from every harbour so far
+    const distanceToNetwork = (island: Island) =>
+      Math.min(...marinas.map((m) => Math.hypot(island.position[0] - m.position[0], island.position[1] - m.position[1])));
+    candidates.sort((a, b) => distanceToNetwork(b) - distanceToNetwork(a));
+    const island = candidates.shift()!;
+    const index = marinas.length;
+    const r = (k: number) => seededRandom(seed + index * 59 + k);
+
+    // Facing the middle of the map where it can, otherwise round the coast to open water
+    const towardsCentre = Math.atan2(-island.position[0], -island.position[1]);
+    let site: { position: [number, number]; heading: number } | null = null;
+    for (let step = 0; step <= 6 && !site; step++) {
+      for (const side of step === 0 ? [0] : [1, -1]) {
+        const heading = towardsCentre + side * step * (Math.PI / 6);
+        const reach = island.radius + HARBOUR_SHORE_OFFSET;
+        const position: [number, number] = [
+          island.position[0] + Math.sin(heading) * reach,
+          island.position[1] + Math.cos(heading) * reach,
+        ];
+        const berth = [position[0] + Math.sin(heading) * BERTH_OFFSET, position[1] + Math.cos(heading) * BERTH_OFFSET];
+        const blocked = islands.some(
+          (other) => other !== island && Math.hypot(berth[0] - other.position[0], berth[1] - other.position[1]) < other.radius + SHELF_WIDTH
+        );
+        if (!blocked && Math.abs(berth[0]) < halfWorld - 200 && Math.abs(berth[1]) < halfWorld - 200) {
+          site = { position, heading };
+          break;
+        }
+      }
     }
+    if (!site) continue;
+
+    const names = HARBOUR_NAMES[island.type].filter((name) => !usedNames.has(name));
+    const name = names.length > 0 ? names[Math.floor(r(1) * names.length)] : `Harbour ${index}`;
+    usedNames.add(name);
+
+    // Remote harbours charge more for power and repairs, and pay less for energy
+    const remoteness = Math.min(1, Math.hypot(site.position[0], site.position[1]) / halfWorld);
+    const markup = 1 + remoteness * 0.5 + r(2) * 0.3;
+    const services: MarinaService[] = ['shore-power'];
+    if (r(3) < 0.7) services.push('repair');
+    if (r(4) < 0.6) services.push('energy-sale');
+
+    marinas.push({
+      id: `marina-${index}`,
+      position: site.position,
+      heading: site.heading,
+      name,
+      islandId: island.id,
+      dockingZoneRadius: Math.min(BERTH_RADIUS, HARBOUR_SAFE_ZONE),
+      safeZoneRadius: Math.min(config.safeZoneRadius, HARBOUR_SAFE_ZONE),
+      chargeRate: Math.max(1, Math.round(config.marinaChargeRate * (0.4 + r(5) * 0.8) * 2) / 2),
+      services,
+      prices: {
+        shorePower: Math.round(BASE_PRICES.shorePower * markup * 100) / 100,
+        repair: Math.round(BASE_PRICES.repair * markup * 100) / 100,
+        energySale: Math.round((BASE_PRICES.energySale / markup) * 100) / 100,
+      },
+    });
   }
-  return null;
+
+  return marinas;
+}
+
+// Within a marina's safe zone, widened by a margin
+function isNearMarina(marinas: Marina[], x: number, z: number, margin: number): boolean {
+  return marinas.some((marina) => Math.hypot(x - marina.position[0], z - marina.position[1]) < marina.safeZoneRadius + margin);
 }
 
-export function getWindZoneAtPosition(zones: WindZone[], x: number, z: number): WindZone | null {
-  for (const zone of zones) {
-    const dx = x - zone.position[0];
-    const dz = z - zone.position[1];
-    const distToCenter = Math.sqrt(dx * dx + dz * dz);
-    if (distToCenter <= zone.radius) {
-      return zone;
+export function getIslandAtPosition(islands: SpatialHash<Island>, x: number, z: number): Island | null {
+  return islands.find(x, z, 0, (island, distToCenter) => distToCenter <= island.radius);
+}
+
+// Seabed depth (m) from the grid alone, between the nearest samples
+function getSeabedDepth(world: Pick<WorldData, 'bathymetry' | 'bounds'>, x: number, z: number): number {
+  const { cellSize, columns, rows, depths } = world.bathymetry;
+  const gx = Math.max(0, Math.min(columns - 1, (x - world.bounds.min[0]) / cellSize));
+  const gz = Math.max(0, Math.min(rows - 1, (z - world.bounds.min[1]) / cellSize));
+  const c0 = Math.min(columns - 2, Math.floor(gx));
+  const r0 = Math.min(rows - 2, Math.floor(gz));
+  const u = gx - c0;
+  const v = gz - r0;
+  const at = (c: number, r: number) => depths[r * columns + c];
+  const top = at(c0, r0) + (at(c0 + 1, r0) - at(c0, r0)) * u;
+  const bottom = at(c0, r0 + 1) + (at(c0 + 1, r0 + 1) - at(c0, r0 + 1)) * u;
+  return top + (bottom - top) * v;
+}
+
+/**
+ * Water depth (m) at a world position: the seabed grid, shelving up towards
+ * each island and following its elevation inside the rim, and rising over
+ * coral shoals. Zero or less is dry land, by how far it stands above the water.
+ */
+export function getWaterDepth(world: Pick<WorldData, 'bathymetry' | 'bounds' | 'index'>, x: number, z: number): number {
+  const seabed = getSeabedDepth(world, x, z);
+  let depth = seabed;
+
+  world.index.islands.find(x, z, SHELF_WIDTH, (island, distToCenter) => {
+    const islandDepth =
+      distToCenter <= island.radius
+        ? SHORE_LEVEL - island.elevation(x, z)
+        : SHORE_LEVEL + ((distToCenter - island.radius) / SHELF_WIDTH) * (seabed - SHORE_LEVEL);
+    depth = Math.min(depth, islandDepth);
+    return false;
+  });
+
+  world.index.shoals.find(x, z, 0, (shoal, distToCenter) => {
+    if (distToCenter < shoal.radius) {
+      // Crest in the middle, falling away to the surrounding depth at the edge
+      const rise = Math.cos((distToCenter / shoal.radius) * Math.PI * 0.5) ** 2;
+      depth = Math.min(depth, seabed - (seabed - shoal.depth) * rise);
     }
+    return false;
+  });
+
+  return depth;
+}
+
+export function getWindZoneAtPosition(zones: SpatialHash<WindZone>, x: number, z: number): WindZone | null {
+  return zones.find(x, z, 0, (zone, distToCenter) => distToCenter <= zone.radius);
+}
+
+// Current velocity (m/s, [x, z]) at a world position
+export function getCurrentAtPosition(currents: OceanCurrents, x: number, z: number): [number, number] {
+  let vx = currents.drift[0];
+  let vz = currents.drift[1];
+
+  for (const gyre of currents.gyres) {
+    const rx = x - gyre.position[0];
+    const rz = z - gyre.position[1];
+    const dist = Math.sqrt(rx * rx + rz * rz);
+    if (dist <= 0 || dist >= gyre.radius) continue;
+
+    // Zero at the eye and the rim, strongest in between
+    const speed = gyre.speed * Math.sin((Math.PI * dist) / gyre.radius);
+    vx += (-rz / dist) * speed;
+    vz += (rx / dist) * speed;
+  }
+
+  for (const jet of currents.jets) {
+    const fx = Math.sin(jet.direction);
+    const fz = Math.cos(jet.direction);
+    const rx = x - jet.position[0];
+    const rz = z - jet.position[1];
+    const along = rx * fx + rz * fz;
+    const across = rx * fz - rz * fx;
+    if (Math.abs(along) >= jet.length / 2 || Math.abs(across) >= jet.width / 2) continue;
+
+    const speed =
+      jet.speed * Math.cos((Math.PI * across) / jet.width) * Math.cos((Math.PI * along) / jet.length);
+    vx += fx * speed;
+    vz += fz * speed;
+  }
+
+  const total = Math.sqrt(vx * vx + vz * vz);
+  if (total > currents.maxSpeed && total > 0) {
+    const scale = currents.maxSpeed / total;
+    return [vx * scale, vz * scale];
   }
-  return null;
+
+  return [vx, vz];
 }
 
 export function getDiscoveredPOIs(pois: POI[], discoveredIds: Set<string>): POI[] {
@@ -471,7 +913,8 @@ export function getDiscoveredPOIs(pois: POI[], discoveredIds: Set<string>): POI[
 function generateIcebergs(
   config: MapConfig,
   bounds: WorldData['bounds'],
-  islands: Island[]
+  islands: Island[],
+  marinas: Marina[]
 ): Iceberg[] {
   const icebergs: Iceberg[] = [];
   const seed = config.seed;
@@ -550,9 +993,8 @@ function generateIcebergs(
     x = Math.max(bounds.min[0] + 200, Math.min(bounds.max[0] - 200, x));
     z = Math.max(bounds.min[1] + 200, Math.min(bounds.max[1] - 200, z));
 
-    // Skip if too close to marina (spawn area)
-    const distToMarina = Math.sqrt(x * x + z * z);
-    if (distToMarina < minSpawnDist) continue;
+    // Skip if too close to a marina (the hub is the spawn area)
+    if (isNearMarina(marinas, x, z, 0)) continue;
 
     // Skip if too close to any island
     let tooCloseToIsland = false;
@@ -599,7 +1041,8 @@ function generateFloatingIce(
   config: MapConfig,
   bounds: WorldData['bounds'],
   islands: Island[],
-  icebergs: Iceberg[]
+  icebergs: Iceberg[],
+  marinas: Marina[]
 ): FloatingIce[] {
   const floatingIce: FloatingIce[] = [];
   const seed = config.seed;
@@ -632,8 +1075,10 @@ function generateFloatingIce(
     x = Math.max(bounds.min[0] + 50, Math.min(bounds.max[0] - 50, x));
     z = Math.max(bounds.min[1] + 50, Math.min(bounds.max[1] - 50, z));
 
-    const distToMarina = Math.sqrt(x * x + z * z);
-    if (distToMarina < Math.max(120, config.safeZoneRadius * 0.3)) continue;
+    const nearMarina = marinas.some(
+      (marina) => Math.hypot(x - marina.position[0], z - marina.position[1]) < Math.max(120, marina.safeZoneRadius * 0.3)
+    );
+    if (nearMarina) continue;
 
     let tooClose = false;
     for (const island of islands) {
@@ -704,6 +1149,23 @@ function generateRaces(
   const distMultiplier: Record<RaceLength, number> = { short: 0.4, medium: 0.7, long: 1.0 };
   const distScale = distMultiplier[config.raceLength];
 
+  // Every other route is a loop; shorter loops are sailed more times
+  const loopLaps: Record<RaceLength, number> = { short: 3, medium: 3, long: 2 };
+
+  // Push a mark out of any island it lands on
+  const clearOfIslands = (x: number, z: number): [number, number] => {
+    for (const island of islands) {
+      const dx = x - island.position[0];
+      const dz = z - island.position[1];
+      const dist = Math.sqrt(dx * dx + dz * dz);
+      if (dist < island.radius + 150) {
+        x = island.position[0] + (dx / (dist || 1)) * (island.radius + 200);
+        z = island.position[1] + (dz / (dist || 1)) * (island.radius + 200);
+      }
+    }
+    return [x, z];
+  };
+
   for (let raceIndex = 0; raceIndex < raceCount; raceIndex++) {
     const checkpointCount = cpCounts[raceIndex % cpCounts.length];
 
@@ -719,6 +1181,44 @@ function generateRaces(
 
     const checkpoints: RaceRoute['checkpoints'] = [];
 
+    if (raceIndex % 2 === 1) {
+      // Loop: marks round a circle through the start, centred towards the far end
+      const loopRadius = Math.hypot(endX - startX, endZ - startZ) * 0.35;
+      const toEnd = Math.atan2(endZ - startZ, endX - startX);
+      const centerX = startX + Math.cos(toEnd) * loopRadius;
+      const centerZ = startZ + Math.sin(toEnd) * loopRadius;
+      const startAngleOnLoop = toEnd + Math.PI;
+
+      for (let cpIndex = 0; cpIndex < checkpointCount; cpIndex++) {
+        const angle = startAngleOnLoop + ((cpIndex + 1) / (checkpointCount + 1)) * Math.PI * 2;
+        const wobble = 1 + (perlin.noise(seed + raceIndex * 300 + cpIndex, 300 + cpIndex) - 0.5) * 0.5 * config.routeComplexity;
+        let cpX = centerX + Math.cos(angle) * loopRadius * wobble;
+        let cpZ = centerZ + Math.sin(angle) * loopRadius * wobble;
+
+        cpX = Math.max(bounds.min[0] + 300, Math.min(bounds.max[0] - 300, cpX));
+        cpZ = Math.max(bounds.min[1] + 300, Math.min(bounds.max[1] - 300, cpZ));
+        [cpX, cpZ] = clearOfIslands(cpX, cpZ);
+
+        checkpoints.push({
+          id: `loop-${raceIndex}-cp-${cpIndex}`,
+          position: [cpX, cpZ],
+          radius: 200,
+          order: cpIndex + 1,
+        });
+      }
+
+      races.push({
+        id: `loop-${raceIndex}`, // not race-n: those ids were single-lap routes with their own ghosts
+        name: raceNamePool[raceIndex % raceNamePool.length],
+        checkpoints,
+        startPosition: [startX, startZ],
+        endPosition: [startX, startZ],
+        loop: true,
+        laps: loopLaps[config.raceLength],
+      });
+      continue;
+    }
+
     for (let cpIndex = 0; cpIndex < checkpointCount; cpIndex++) {
       const t = (cpIndex + 1) / (checkpointCount + 1);
 
@@ -738,15 +1238,7 @@ function generateRaces(
       cpZ = Math.max(bounds.min[1] + 300, Math.min(bounds.max[1] - 300, cpZ));
 
       // Push checkpoints out of islands
-      for (const island of islands) {
-        const dx = cpX - island.position[0];
-        const dz = cpZ - island.position[1];
-        const dist = Math.sqrt(dx * dx + dz * dz);
-        if (dist < island.radius + 150) {
-          cpX = island.position[0] + (dx / (dist || 1)) * (island.radius + 200);
-          cpZ = island.position[1] + (dz / (dist || 1)) * (island.radius + 200);
-        }
-      }
+      [cpX, cpZ] = clearOfIslands(cpX, cpZ);
 
       checkpoints.push({
         id: `race-${raceIndex}-cp-${cpIndex}`,
@@ -762,73 +1254,54 @@ function generateRaces(
       checkpoints,
       startPosition: [startX, startZ],
       endPosition: [endX, endZ],
+      loop: false,
+      laps: 1,
     });
   }
 
   return races;
 }
 
-export function getIcebergsInRange(icebergs: Iceberg[], x: number, z: number, range: number): Iceberg[] {
-  return icebergs.filter((iceberg) => {
-    const dx = x - iceberg.position[0];
-    const dz = z - iceberg.position[1];
-    const dist = Math.sqrt(dx * dx + dz * dz);
-    return dist <= range + iceberg.radius;
-  });
+export function getIcebergsInRange(icebergs: SpatialHash<Iceberg>, x: number, z: number, range: number): Iceberg[] {
+  return icebergs.query(x, z, range);
+}
+
+// Push-out depth and direction for a boat overlapping a round obstacle
+function getContact(
+  obstacle: { position: [number, number]; radius: number },
+  x: number,
+  z: number,
+  boatRadius: number
+): { penetration: number; normal: [number, number] } {
+  const dx = x - obstacle.position[0];
+  const dz = z - obstacle.position[1];
+  const dist = Math.sqrt(dx * dx + dz * dz);
+  return {
+    penetration: obstacle.radius + boatRadius - dist,
+    normal: [dist > 0 ? dx / dist : 1, dist > 0 ? dz / dist : 0],
+  };
 }
 
 export function checkIcebergCollision(
-  icebergs: Iceberg[],
+  icebergs: SpatialHash<Iceberg>,
   x: number,
   z: number,
   boatRadius: number = 8
 ): { collided: boolean; iceberg: Iceberg | null; penetration: number; normal: [number, number] } {
-  for (const iceberg of icebergs) {
-    const dx = x - iceberg.position[0];
-    const dz = z - iceberg.position[1];
-    const dist = Math.sqrt(dx * dx + dz * dz);
-    const collisionDist = iceberg.radius + boatRadius;
-
-    if (dist < collisionDist) {
-      const penetration = collisionDist - dist;
-      const normalX = dist > 0 ? dx / dist : 1;
-      const normalZ = dist > 0 ? dz / dist : 0;
-      return {
-        collided: true,
-        iceberg,
-        penetration,
-        normal: [normalX, normalZ],
-      };
-    }
-  }
+  const iceberg = icebergs.find(x, z, boatRadius, (candidate, dist) => dist < candidate.radius + boatRadius);
+  if (!iceberg) return { collided: false, iceberg: null, penetration: 0, normal: [0, 0] };
 
-  return { collided: false, iceberg: null, penetration: 0, normal: [0, 0] };
+  return { collided: true, iceberg, ...getContact(iceberg, x, z, boatRadius) };
 }
 
 export function checkFloatingIceCollision(
-  floatingIce: FloatingIce[],
+  floatingIce: SpatialHash<FloatingIce>,
   x: number,
   z: number,
   boatRadius: number = 8
 ): { collided: boolean; ice: FloatingIce | null; penetration: number; normal: [number, number] } {
-  for (const ice of floatingIce) {
-    const dx = x - ice.position[0];
-    const dz = z - ice.position[1];
-    const dist = Math.sqrt(dx * dx + dz * dz);
-    const collisionDist = ice.radius + boatRadius;
-
-    if (dist < collisionDist) {
-      const penetration = collisionDist - dist;
-      const normalX = dist > 0 ? dx / dist : 1;
-      const normalZ = dist > 0 ? dz / dist : 0;
-      return {
-        collided: true,
-        ice,
-        penetration,
-        normal: [normalX, normalZ],
-      };
-    }
-  }
+  const ice = floatingIce.find(x, z, boatRadius, (candidate, dist) => dist < candidate.radius + boatRadius);
+  if (!ice) return { collided: false, ice: null, penetration: 0, normal: [0, 0] };
 
-  return { collided: false, ice: null, penetration: 0, normal: [0, 0] };
+  return { collided: true, ice, ...getContact(ice, x, z, boatRadius) };
 }
@@ -0,0 +1,181 @@
+import {
+  WorldData,
+  Iceberg,
+  FloatingIce,
+  getCurrentAtPosition,
+} from './WorldGenerator';
+
+// ── Drift tuning ──
+const ICEBERG_WINDAGE = 0.02;        // fraction of wind speed (deep keel, mostly current-driven)
+const FLOATING_ICE_WINDAGE = 0.035;  // small pieces sit higher and catch more wind
+const ISLAND_CLEARANCE = 30;         // units kept between ice and island shores
+
+// ── Calving tuning ──
+const CALVING_MIN_RADIUS = 20;       // icebergs smaller than this stop calving
+const CALVING_RATE = 1 / 600;        // calving events per second per eligible iceberg
+const CALVING_SHRINK = 0.9;          // radius/height kept after each event
+const MAX_CALVED_PIECES = 400;       // oldest calved pieces melt away past this
+
+// Area ice must stay out of (marina safe zone, race checkpoints)
+export interface ExclusionZone {
+  position: [number, number];
+  radius: number;
+}
+
+// Serializable simulation state so drift and calving replay from the seed
+export interface IceSimulationState {
+  elapsed: number;     // seconds simulated
+  rngState: number;
+  calvedCount: number; // total pieces calved (for unique ids)
+}
+
+export function createIceSimulationState(seed: number): IceSimulationState {
+  return { elapsed: 0, rngState: (seed ^ 0x5bd1e995) & 0x7fffffff, calvedCount: 0 };
+}
+
+// Zones that must stay clear of ice: marina safe zones plus every race checkpoint
+export function getIceExclusionZones(world: WorldData, extra: ExclusionZone[] = []): ExclusionZone[] {
+  const zones: ExclusionZone[] = world.marinas.map((marina) => ({
+    position: marina.position,
+    radius: marina.safeZoneRadius,
+  }));
+
+  for (const race of world.races) {
+    for (const checkpoint of race.checkpoints) {
+      zones.push({ position: checkpoint.position, radius: checkpoint.radius });
+    }
+  }
+
+  return [...zones, ...extra];
+}
+
+/**
+ * Advance ice drift and calving by one step.
+ * Wind direction follows the game convention (flow towards sin/cos of the angle).
+ */
+export function stepIce(
+  world: WorldData,
+  state: IceSimulationState,
+  windSpeed: number,     // m/s
+  windDirection: number, // degrees
+  deltaTime: number,     // seconds
+  zones: ExclusionZone[]
+): { icebergs: Iceberg[]; floatingIce: FloatingIce[]; state: IceSimulationState } {
+  const next: IceSimulationState = { ...state, elapsed: state.elapsed + deltaTime };
+  const random = () => {
+    next.rngState = (Math.imul(next.rngState, 1103515245) + 12345) & 0x7fffffff;
+    return next.rngState / 0x7fffffff;
+  };
+
+  const windRad = (windDirection * Math.PI) / 180;
+  const windX = Math.sin(windRad) * windSpeed;
+  const windZ = Math.cos(windRad) * windSpeed;
+
+  // Islands count as obstacles alongside the exclusion zones
+  const obstacles: ExclusionZone[] = [
+    ...zones,
+    ...world.islands.map((island) => ({ position: island.position, radius: island.radius + ISLAND_CLEARANCE })),
+  ];
+
+  // New position, or null when the piece is wedged between obstacles and can't move there
+  const drift = (position: [number, number], radius: number, windage: number): [number, number] | null => {
+    const [cx, cz] = getCurrentAtPosition(world.currents, position[0], position[1]);
+    const x = position[0] + (cx + windX * windage) * deltaTime;
+    const z = position[1] + (cz + windZ * windage) * deltaTime;
+    return keepClear(x, z, radius, world.bounds, obstacles);
+  };
+
+  // Drift and calve large icebergs
+  const calved: FloatingIce[] = [];
+  const calveChance = 1 - Math.exp(-CALVING_RATE * deltaTime);
+
+  const icebergs = world.icebergs.map((iceberg) => {
+    const position = drift(iceberg.position, iceberg.radius, ICEBERG_WINDAGE) ?? iceberg.position;
+    let { radius, height } = iceberg;
+
+    if (radius >= CALVING_MIN_RADIUS && random() < calveChance) {
+      radius *= CALVING_SHRINK;
+      height *= CALVING_SHRINK;
+
+      // Shed 2-4 pieces from the downwind side; any that land in an obstacle break up
+      const pieces = 2 + Math.floor(random() * 3);
+      for (let i = 0; i < pieces; i++) {
+        const angle = windRad + (random() - 0.5) * Math.PI;
+        const offset = radius + 5 + random() * 15;
+        const pieceRadius = 1.5 + random() * Math.min(4, iceberg.radius * 0.1);
+        next.calvedCount += 1;
+        const piecePosition = keepClear(
+          position[0] + Math.sin(angle) * offset,
+          position[1] + Math.cos(angle) * offset,
+          pieceRadius,
+          world.bounds,
+          obstacles
+        );
+        if (!piecePosition) continue;
+        calved.push({
+          id: `calved-${next.calvedCount}`,
+          position: piecePosition,
+          radius: pieceRadius,
+          seed: iceberg.seed + next.calvedCount * 37,
+        });
+      }
+    }
+
+    return { ...iceberg, position, radius, height };
+  });
+
+  // Drift floating ice (pieces wedged against obstacles break up), then add new pieces
+  // and melt the oldest calved ones past the cap
+  let floatingIce: FloatingIce[] = [];
+  for (const ice of world.floatingIce) {
+    const position = drift(ice.position, ice.radius, FLOATING_ICE_WINDAGE);
+    if (position) floatingIce.push({ ...ice, position });
+  }
+  floatingIce.push(...calved);
+
+  const calvedPieces = floatingIce.filter((ice) => ice.id.startsWith('calved-'));
+  if (calvedPieces.length > MAX_CALVED_PIECES) {
+    const melted = new Set(calvedPieces.slice(0, calvedPieces.length - MAX_CALVED_PIECES).map((ice) => ice.id));
+    floatingIce = floatingIce.filter((ice) => !melted.has(ice.id));
+  }
+
+  return { icebergs, floatingIce, state: next };
+}
+
+// Push a piece of ice out of obstacles and keep it inside the world.
+// Returns null if it is still overlapping an obstacle afterwards.
+function keepClear(
+  x: number,
+  z: number,
+  radius: number,
+  bounds: WorldData['bounds'],
+  obstacles: ExclusionZone[]
+): [number, number] | null {
+  // A second pass settles pieces pushed from one obstacle into a neighbouring one
+  for (let pass = 0; pass < 2; pass++) {
+    for (const zone of obstacles) {
+      const dx = x - zone.position[0];
+      const dz = z - zone.position[1];
+      const dist = Math.sqrt(dx * dx + dz * dz);
+      const clearance = zone.radius + radius;
+
+      if (dist < clearance) {
+        const nx = dist > 0 ? dx / dist : 1;
+        const nz = dist > 0 ? dz / dist : 0;
+        x = zone.position[0] + nx * clearance;
+        z = zone.position[1] + nz * clearance;
+      }
+    }
+  }
+
+  x = Math.max(bounds.min[0] + radius, Math.min(bounds.max[0] - radius, x));
+  z = Math.max(bounds.min[1] + radius, Math.min(bounds.max[1] - radius, z));
+
+  const blocked = obstacles.some((zone) => {
+    const dx = x - zone.position[0];
+    const dz = z - zone.position[1];
+    return dx * dx + dz * dz < (zone.radius + radius) ** 2;
+  });
+
+  return blocked ? null : [x, z];
+}